@@ -15,6 +15,9 @@ const mediaRoutes = require('./src/routes/media.routes');
 const generateRoutes = require('./src/routes/generate.routes');
 const paymentRoutes = require('./src/routes/payment.routes');
 const feedbackRoutes = require('./src/routes/feedback.routes');
+const analyticsRoutes = require('./src/routes/analytics.routes');
+const templateRoutes = require('./src/routes/template.routes');
+const brandKitRoutes = require('./src/routes/brandKit.routes');
 
 // Import middlewares
 const createRateLimiter = require('./src/middlewares/rateLimit.middleware');
@@ -28,6 +31,8 @@ app.use(helmet());
 app.use(cors());
 app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
+// Keep access tokens sent in the query string (e.g. by EventSource) out of the request log
+morgan.token('url', (req) => (req.originalUrl || req.url).replace(/([?&]token=)[^&]*/gi, '$1[REDACTED]'));
 app.use(morgan('dev'));
 
 // Passport middleware
@@ -48,6 +53,9 @@ app.use('/api/media', mediaRoutes);
 app.use('/api/generate', generateRoutes);
 app.use('/api/payment', paymentRoutes);
 app.use('/api/feedback', feedbackRoutes);
+app.use('/api/analytics', analyticsRoutes);
+app.use('/api/templates', templateRoutes);
+app.use('/api/brand-kits', brandKitRoutes);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
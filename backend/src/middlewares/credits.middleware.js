@@ -4,6 +4,7 @@ const mongoose = require('mongoose');
 
 /**
  * Credit cost constants for different operations
+ * Mirrored in frontend/src/utils/credits.ts - keep the two tables in sync
  */
 const CREDIT_COSTS = {
   IMAGE_GENERATION: 1,
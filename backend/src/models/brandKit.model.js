@@ -0,0 +1,71 @@
+const mongoose = require('mongoose');
+
+const LOGO_POSITIONS = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+const BrandLogoSchema = new mongoose.Schema({
+  url: {
+    type: String,
+    required: true,
+  },
+  publicId: String,
+  label: String,
+  // Where the logo is placed on generated ads unless the ad chooses otherwise
+  position: {
+    type: String,
+    enum: LOGO_POSITIONS,
+    default: 'bottom-right',
+  },
+  isDefault: {
+    type: Boolean,
+    default: false,
+  },
+});
+
+const BrandKitSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    logos: [BrandLogoSchema],
+    // The first color is the brand's primary color
+    palette: [
+      {
+        _id: false,
+        name: String,
+        hex: {
+          type: String,
+          required: true,
+          match: /^#[0-9a-fA-F]{6}$/,
+        },
+      },
+    ],
+    fonts: {
+      heading: String,
+      body: String,
+    },
+    voice: {
+      tone: {
+        type: String,
+        trim: true,
+      },
+      // Words generated copy must never contain
+      bannedWords: {
+        type: [String],
+        default: [],
+      },
+    },
+  },
+  { timestamps: true }
+);
+
+// Index for listing a user's brand kits
+BrandKitSchema.index({ userId: 1, name: 1 });
+
+module.exports = mongoose.model('BrandKit', BrandKitSchema);
@@ -0,0 +1,89 @@
+const mongoose = require('mongoose');
+
+// Creative settings a template pre-fills when an ad is created from it
+const TemplateSettingsSchema = new mongoose.Schema(
+  {
+    adStyle: {
+      type: String,
+      required: true,
+    },
+    creativeFormat: {
+      type: String,
+      required: true,
+    },
+    adFormat: String,
+    primaryColor: {
+      type: String,
+      required: true,
+    },
+    fontFamily: String,
+    titleSuggestions: [String],
+    descriptionSuggestions: [String],
+    callToAction: String,
+    callToActionOptions: [String],
+    aiPrompt: String,
+  },
+  { _id: false }
+);
+
+const TemplateSchema = new mongoose.Schema(
+  {
+    // Built-in templates have no owner
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    isBuiltIn: {
+      type: Boolean,
+      default: false,
+    },
+    isPremium: {
+      type: Boolean,
+      default: false,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    category: {
+      type: String,
+      enum: ['promotion', 'awareness', 'conversion', 'engagement', 'other'],
+      default: 'other',
+    },
+    // Private templates are only visible to their owner, team templates to everyone on the team
+    visibility: {
+      type: String,
+      enum: ['private', 'team'],
+      default: 'private',
+    },
+    thumbnail: String,
+    tags: {
+      type: [String],
+      default: [],
+    },
+    settings: {
+      type: TemplateSettingsSchema,
+      required: true,
+    },
+    // Times an ad was started from the template, for the popular sort
+    usageCount: {
+      type: Number,
+      default: 0,
+    },
+    lastUsedAt: Date,
+  },
+  { timestamps: true }
+);
+
+// Indexes for listing a user's templates, sorting the catalog and searching by name
+TemplateSchema.index({ userId: 1 });
+TemplateSchema.index({ usageCount: -1 });
+TemplateSchema.index({ createdAt: -1 });
+TemplateSchema.index({ name: 'text', description: 'text', tags: 'text' });
+
+module.exports = mongoose.model('Template', TemplateSchema);
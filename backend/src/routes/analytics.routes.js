@@ -0,0 +1,42 @@
+const express = require('express');
+const { generateMockMetrics } = require('../services/mockMetrics.service');
+const router = express.Router();
+
+// Longest range a single report may cover
+const MAX_RANGE_DAYS = 366;
+
+// Daily metrics per ad for a date range. Serves deterministic mock data
+// until ad platform reporting is connected.
+router.get('/metrics', (req, res) => {
+  const startDate = new Date(req.query.startDate);
+  const endDate = new Date(req.query.endDate);
+
+  if (Number.isNaN(startDate.getTime()) || Number.isNaN(endDate.getTime()) || startDate > endDate) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_DATE_RANGE',
+        message: 'startDate and endDate must be valid dates with startDate before endDate'
+      }
+    });
+  }
+
+  if ((endDate - startDate) / (24 * 60 * 60 * 1000) > MAX_RANGE_DAYS) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 'INVALID_DATE_RANGE',
+        message: `Date range cannot exceed ${MAX_RANGE_DAYS} days`
+      }
+    });
+  }
+
+  res.status(200).json(generateMockMetrics({
+    startDate,
+    endDate,
+    campaignId: req.query.campaignId,
+    adId: req.query.adId
+  }));
+});
+
+module.exports = router;
@@ -14,6 +14,14 @@ router.post('/refresh-token', (req, res) => {
   res.status(200).json({ message: 'Token refresh endpoint (placeholder)' });
 });
 
+router.post('/forgot-password', (req, res) => {
+  res.status(200).json({ message: 'Forgot password endpoint (placeholder)' });
+});
+
+router.post('/reset-password', (req, res) => {
+  res.status(200).json({ message: 'Reset password endpoint (placeholder)' });
+});
+
 router.get('/me', (req, res) => {
   res.status(200).json({ message: 'Current user endpoint (placeholder)' });
 });
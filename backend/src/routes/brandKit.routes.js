@@ -0,0 +1,25 @@
+const express = require('express');
+const router = express.Router();
+
+// Brand kit routes
+router.get('/', (req, res) => {
+  res.status(200).json({ message: 'Get brand kits endpoint (placeholder)' });
+});
+
+router.post('/', (req, res) => {
+  res.status(201).json({ message: 'Create brand kit endpoint (placeholder)' });
+});
+
+router.get('/:id', (req, res) => {
+  res.status(200).json({ message: `Get brand kit ${req.params.id} endpoint (placeholder)` });
+});
+
+router.patch('/:id', (req, res) => {
+  res.status(200).json({ message: `Update brand kit ${req.params.id} endpoint (placeholder)` });
+});
+
+router.delete('/:id', (req, res) => {
+  res.status(200).json({ message: `Delete brand kit ${req.params.id} endpoint (placeholder)` });
+});
+
+module.exports = router;
@@ -1,6 +1,11 @@
 const express = require('express');
+const jwt = require('jsonwebtoken');
+const { subscribeToJobEvents } = require('../services/jobEvents.service');
 const router = express.Router();
 
+// Keeps idle event streams open through proxies
+const HEARTBEAT_INTERVAL = 25000;
+
 // Generate routes
 router.post('/ad', (req, res) => {
   res.status(200).json({ message: 'Generate ad endpoint (placeholder)' });
@@ -10,6 +15,18 @@ router.post('/image', (req, res) => {
   res.status(200).json({ message: 'Generate image endpoint (placeholder)' });
 });
 
+router.post('/carousel', (req, res) => {
+  res.status(200).json({ message: 'Generate carousel endpoint (placeholder)' });
+});
+
+router.get('/music-tracks', (req, res) => {
+  res.status(200).json({ message: 'Music tracks endpoint (placeholder)' });
+});
+
+router.post('/voiceover-script', (req, res) => {
+  res.status(200).json({ message: 'Generate voiceover script endpoint (placeholder)' });
+});
+
 router.post('/text', (req, res) => {
   res.status(200).json({ message: 'Generate text endpoint (placeholder)' });
 });
@@ -18,4 +35,49 @@ router.post('/variations', (req, res) => {
   res.status(200).json({ message: 'Generate variations endpoint (placeholder)' });
 });
 
+// Stream progress, completion and failure events for all of the user's jobs.
+// EventSource cannot send headers, so the token may also come from the query string
+// (redacted from the request log in server.js).
+router.get('/events', (req, res) => {
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : req.query.token;
+
+  let userId;
+  try {
+    userId = jwt.verify(token, process.env.JWT_SECRET || 'your_jwt_secret_here').id;
+  } catch (error) {
+    return res.status(401).json({
+      success: false,
+      error: {
+        code: 'UNAUTHORIZED',
+        message: 'Authentication required'
+      }
+    });
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  // Ask clients to wait before reconnecting after a dropped stream
+  res.write('retry: 5000\n\n');
+
+  const unsubscribe = subscribeToJobEvents(userId, (event) => {
+    res.write(`event: job\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+  }, HEARTBEAT_INTERVAL);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
 module.exports = router; 
\ No newline at end of file
@@ -0,0 +1,74 @@
+const express = require('express');
+const {
+  TEMPLATE_CATEGORIES,
+  TEMPLATE_SORTS,
+  TEMPLATE_OWNERS,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  listTemplates,
+  getBuiltInTemplate,
+  recordBuiltInTemplateUse
+} = require('../services/templateCatalog.service');
+const router = express.Router();
+
+// Reject a catalog query value that isn't one of the allowed options
+const invalidQuery = (res, name, allowed) => res.status(400).json({
+  success: false,
+  error: {
+    code: 'INVALID_QUERY',
+    message: `${name} must be one of ${allowed.join(', ')}`
+  }
+});
+
+// Template catalog routes: built-in templates plus those saved by the user and their team.
+// GET / takes page, limit, search, category, owner (built-in, mine, team) and
+// sort (newest, popular, alphabetical) and returns { templates, total, page, limit, categoryCounts }
+router.get('/', (req, res) => {
+  const { search, category, owner, sort } = req.query;
+
+  if (category && !TEMPLATE_CATEGORIES.includes(category)) return invalidQuery(res, 'category', TEMPLATE_CATEGORIES);
+  if (owner && !TEMPLATE_OWNERS.includes(owner)) return invalidQuery(res, 'owner', TEMPLATE_OWNERS);
+  if (sort && !TEMPLATE_SORTS.includes(sort)) return invalidQuery(res, 'sort', TEMPLATE_SORTS);
+
+  const page = Math.max(1, parseInt(req.query.page, 10) || 1);
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(req.query.limit, 10) || DEFAULT_PAGE_SIZE));
+
+  res.status(200).json(listTemplates({
+    page,
+    limit,
+    search: typeof search === 'string' ? search.trim() : '',
+    category,
+    owner,
+    sort
+  }));
+});
+
+router.post('/', (req, res) => {
+  res.status(201).json({ message: 'Create template endpoint (placeholder)' });
+});
+
+router.get('/:id', (req, res) => {
+  const builtIn = getBuiltInTemplate(req.params.id);
+  if (builtIn) return res.status(200).json(builtIn);
+
+  res.status(200).json({ message: `Get template ${req.params.id} endpoint (placeholder)` });
+});
+
+// Record that an ad was started from a template. Built-in templates aren't
+// stored as documents, so their use is counted by the catalog service.
+router.post('/:id/use', (req, res) => {
+  const usage = recordBuiltInTemplateUse(req.params.id);
+  if (usage) return res.status(200).json(usage);
+
+  res.status(200).json({ message: `Record use of template ${req.params.id} endpoint (placeholder)` });
+});
+
+router.patch('/:id', (req, res) => {
+  res.status(200).json({ message: `Update template ${req.params.id} endpoint (placeholder)` });
+});
+
+router.delete('/:id', (req, res) => {
+  res.status(200).json({ message: `Delete template ${req.params.id} endpoint (placeholder)` });
+});
+
+module.exports = router;
@@ -6,6 +6,15 @@ router.get('/', (req, res) => {
   res.status(200).json({ message: 'Get users endpoint (placeholder)' });
 });
 
+// Current user's profile; registered before /:id so "me" isn't taken as an ID
+router.get('/me', (req, res) => {
+  res.status(200).json({ message: 'Get current user endpoint (placeholder)' });
+});
+
+router.patch('/me', (req, res) => {
+  res.status(200).json({ message: 'Update current user endpoint (placeholder)' });
+});
+
 router.get('/:id', (req, res) => {
   res.status(200).json({ message: `Get user ${req.params.id} endpoint (placeholder)` });
 });
@@ -0,0 +1,67 @@
+const { EventEmitter } = require('events');
+const { createLogger } = require('../utils/logger');
+
+// Create logger
+const logger = createLogger('job-events-service');
+
+// In-process bus for generation job events, fanned out to SSE subscribers
+const jobEventBus = new EventEmitter();
+
+// One listener per open event stream
+jobEventBus.setMaxListeners(0);
+
+/**
+ * Job event types streamed to clients
+ */
+const JOB_EVENT_TYPES = {
+  PROGRESS: 'progress',
+  COMPLETED: 'completed',
+  FAILED: 'failed'
+};
+
+/**
+ * Publish a job event to the job owner's open streams
+ * @param {Object} event - Job event
+ * @param {string} event.userId - Owner of the job
+ * @param {string} event.jobId - ID of the job
+ * @param {string} event.type - One of JOB_EVENT_TYPES
+ * @param {number} [event.progress] - Progress percentage
+ * @param {Object} [event.result] - Job result for completed jobs
+ * @param {string} [event.error] - Error message for failed jobs
+ */
+const publishJobEvent = (event) => {
+  if (!event || !event.userId || !event.jobId) {
+    logger.warn('Dropping job event without userId or jobId', { event });
+    return;
+  }
+
+  jobEventBus.emit(`user:${event.userId}`, {
+    jobId: String(event.jobId),
+    type: event.type,
+    progress: event.progress,
+    result: event.result,
+    error: event.error,
+    timestamp: new Date().toISOString()
+  });
+};
+
+/**
+ * Subscribe to a user's job events
+ * @param {string} userId - User to receive events for
+ * @param {Function} listener - Called with each job event
+ * @returns {Function} Unsubscribe function
+ */
+const subscribeToJobEvents = (userId, listener) => {
+  const channel = `user:${userId}`;
+  jobEventBus.on(channel, listener);
+
+  return () => {
+    jobEventBus.off(channel, listener);
+  };
+};
+
+module.exports = {
+  JOB_EVENT_TYPES,
+  publishJobEvent,
+  subscribeToJobEvents
+};
@@ -0,0 +1,91 @@
+/**
+ * Deterministic mock ad metrics for local development and tests
+ *
+ * The same ad and date always produce the same numbers, so the analytics
+ * page can be checked against a stable dataset.
+ */
+
+// Sample ads reported on by the mock endpoint
+const MOCK_ADS = [
+  { adId: 'mock-ad-1', title: 'Summer Sale', campaignId: 'mock-campaign-1', adStyle: 'vibrant', adFormat: 'square', creativeFormat: 'single-image' },
+  { adId: 'mock-ad-2', title: 'Summer Sale Video', campaignId: 'mock-campaign-1', adStyle: 'vibrant', adFormat: 'story', creativeFormat: 'video' },
+  { adId: 'mock-ad-3', title: 'New Collection', campaignId: 'mock-campaign-2', adStyle: 'minimalist', adFormat: 'portrait', creativeFormat: 'carousel' },
+  { adId: 'mock-ad-4', title: 'Premium Line', campaignId: 'mock-campaign-2', adStyle: 'premium', adFormat: 'square', creativeFormat: 'single-image' },
+  { adId: 'mock-ad-5', title: 'Flash Deal', campaignId: 'mock-campaign-3', adStyle: 'urgent', adFormat: 'landscape', creativeFormat: 'video' }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Hash a string to a number between 0 and 1
+ * @param {string} value - Seed
+ * @returns {number} Pseudo-random number
+ */
+const seededRandom = (value) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) / 4294967295;
+};
+
+/**
+ * Build one day of metrics for an ad
+ * @param {string} adId - Ad ID
+ * @param {string} date - Day in YYYY-MM-DD format
+ * @returns {Object} Daily metrics
+ */
+const buildDailyMetrics = (adId, date) => {
+  const impressions = Math.round(800 + seededRandom(`${adId}:${date}:impressions`) * 4200);
+  const clicks = Math.round(impressions * (0.005 + seededRandom(`${adId}:${date}:clicks`) * 0.03));
+  const conversions = Math.round(clicks * (0.02 + seededRandom(`${adId}:${date}:conversions`) * 0.1));
+  const spend = Math.round(clicks * (0.3 + seededRandom(`${adId}:${date}:cpc`) * 1.2) * 100) / 100;
+  const revenue = Math.round(conversions * (15 + seededRandom(`${adId}:${date}:value`) * 35) * 100) / 100;
+
+  return {
+    date,
+    impressions,
+    clicks,
+    ctr: impressions ? Math.round((clicks / impressions) * 10000) / 100 : 0,
+    conversions,
+    costPerClick: clicks ? Math.round((spend / clicks) * 100) / 100 : 0,
+    reach: Math.round(impressions * 0.7),
+    spend,
+    revenue
+  };
+};
+
+/**
+ * Generate a metrics report for a date range
+ * @param {Object} options - Report options
+ * @param {Date} options.startDate - First day, inclusive
+ * @param {Date} options.endDate - Last day, inclusive
+ * @param {string} [options.campaignId] - Only report on this campaign
+ * @param {string} [options.adId] - Only report on this ad
+ * @returns {Object} Metrics report
+ */
+const generateMockMetrics = ({ startDate, endDate, campaignId, adId }) => {
+  const dates = [];
+  for (let time = Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), startDate.getUTCDate()); time <= endDate.getTime(); time += DAY_MS) {
+    dates.push(new Date(time).toISOString().slice(0, 10));
+  }
+
+  const ads = MOCK_ADS
+    .filter(ad => (!campaignId || ad.campaignId === campaignId) && (!adId || ad.adId === adId))
+    .map(ad => ({
+      ...ad,
+      daily: dates.map(date => buildDailyMetrics(ad.adId, date))
+    }));
+
+  return {
+    startDate: dates[0],
+    endDate: dates[dates.length - 1],
+    ads
+  };
+};
+
+module.exports = {
+  MOCK_ADS,
+  generateMockMetrics
+};
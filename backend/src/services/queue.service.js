@@ -1,5 +1,6 @@
 const Queue = require('bull');
 const { createLogger } = require('../utils/logger');
+const { JOB_EVENT_TYPES, publishJobEvent } = require('./jobEvents.service');
 
 // Create logger
 const logger = createLogger('queue-service');
@@ -20,13 +21,28 @@ const adCopyGenerationQueue = new Queue('ad-copy-generation', redisConfig);
 const emailQueue = new Queue('email', redisConfig);
 
 // Set up queue event handlers
-const setupQueueEvents = (queue) => {
+const setupQueueEvents = (queue, { streamToUser = false } = {}) => {
+  queue.on('progress', (job, progress) => {
+    if (streamToUser) {
+      publishJobEvent({ userId: job.data.userId, jobId: job.id, type: JOB_EVENT_TYPES.PROGRESS, progress });
+    }
+  });
+
   queue.on('completed', (job, result) => {
     logger.info(`Job #${job.id} completed in queue ${queue.name}`, { jobId: job.id, result });
+
+    if (streamToUser) {
+      publishJobEvent({ userId: job.data.userId, jobId: job.id, type: JOB_EVENT_TYPES.COMPLETED, progress: 100, result });
+    }
   });
 
   queue.on('failed', (job, error) => {
     logger.error(`Job #${job.id} failed in queue ${queue.name}`, { jobId: job.id, error: error.message });
+
+    // Only report the failure once retries are exhausted
+    if (streamToUser && job.attemptsMade >= (job.opts.attempts || 1)) {
+      publishJobEvent({ userId: job.data.userId, jobId: job.id, type: JOB_EVENT_TYPES.FAILED, error: error.message });
+    }
   });
 
   queue.on('stalled', (job) => {
@@ -38,9 +54,9 @@ const setupQueueEvents = (queue) => {
   });
 };
 
-// Set up events for all queues
-setupQueueEvents(imageGenerationQueue);
-setupQueueEvents(videoGenerationQueue);
+// Set up events for all queues, streaming generation progress to users
+setupQueueEvents(imageGenerationQueue, { streamToUser: true });
+setupQueueEvents(videoGenerationQueue, { streamToUser: true });
 setupQueueEvents(adCopyGenerationQueue);
 setupQueueEvents(emailQueue);
 
@@ -0,0 +1,285 @@
+/**
+ * Template catalog served until saved templates are stored in the database
+ *
+ * Lists the built-in templates with the same search, filters, sorting and
+ * paging the catalog API promises, and counts how often each one is used
+ * for the popular sort. Counts are kept in memory, so they reset on restart.
+ */
+
+const TEMPLATE_CATEGORIES = ['promotion', 'awareness', 'conversion', 'engagement', 'other'];
+const TEMPLATE_SORTS = ['newest', 'popular', 'alphabetical'];
+const TEMPLATE_OWNERS = ['built-in', 'mine', 'team'];
+
+const DEFAULT_PAGE_SIZE = 12;
+const MAX_PAGE_SIZE = 50;
+
+// Templates shipped with the app; IDs match the client's bundled copies
+const BUILT_IN_TEMPLATES = [
+  {
+    id: 'template-1',
+    name: 'Modern Business',
+    description: 'A clean, professional template ideal for business services',
+    thumbnail: '/templates/modern-business.jpg',
+    previewImage: '/templates/modern-business.jpg',
+    category: 'awareness',
+    isPremium: false,
+    tags: ['business', 'professional', 'services', 'consulting'],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    settings: {
+      adStyle: 'modern',
+      creativeFormat: 'single-image',
+      primaryColor: '#2563EB',
+      titleSuggestions: [
+        'Elevate Your Business Strategy',
+        'Professional Solutions for Growth',
+        'Transform Your Business Today'
+      ],
+      descriptionSuggestions: [
+        'Our expert consultants help you navigate challenges and seize opportunities for sustainable growth.',
+        'Proven strategies tailored to your industry needs with measurable results.',
+        'Join hundreds of successful businesses who have partnered with us to achieve their goals.'
+      ],
+      callToAction: 'Learn More'
+    }
+  },
+  {
+    id: 'template-2',
+    name: 'Bold Product Launch',
+    description: 'High-impact template for new product announcements',
+    thumbnail: '/templates/bold-product.jpg',
+    previewImage: '/templates/bold-product.jpg',
+    category: 'awareness',
+    isPremium: false,
+    tags: ['product', 'launch', 'new', 'innovative'],
+    createdAt: '2024-01-02T00:00:00.000Z',
+    settings: {
+      adStyle: 'bold',
+      creativeFormat: 'single-image',
+      primaryColor: '#DC2626',
+      titleSuggestions: [
+        'Introducing Our Revolutionary Product',
+        'The Wait Is Over: Discover the New {product}',
+        'Change the Way You {activity} Forever'
+      ],
+      descriptionSuggestions: [
+        'Engineered for performance, designed for convenience. See why customers can\'t stop talking about it.',
+        'The future of {industry} is here. Be among the first to experience the difference.',
+        'Combining cutting-edge technology with sleek design. Limited quantities available.'
+      ],
+      callToAction: 'Shop Now',
+      variables: [
+        { key: 'product', label: 'Product name', type: 'text', required: true, maxLength: 30, hint: 'AirPods Pro' },
+        { key: 'activity', label: 'Activity', type: 'text', maxLength: 20, hint: 'Work Out' },
+        { key: 'industry', label: 'Industry', type: 'text', maxLength: 30, hint: 'home fitness' }
+      ]
+    }
+  },
+  {
+    id: 'template-3',
+    name: 'Elegant Lifestyle',
+    description: 'Sophisticated template for luxury and lifestyle brands',
+    thumbnail: '/templates/elegant-lifestyle.jpg',
+    previewImage: '/templates/elegant-lifestyle.jpg',
+    category: 'engagement',
+    isPremium: true,
+    tags: ['luxury', 'lifestyle', 'premium', 'exclusive'],
+    createdAt: '2024-01-03T00:00:00.000Z',
+    settings: {
+      adStyle: 'elegant',
+      creativeFormat: 'carousel',
+      primaryColor: '#8B5CF6',
+      titleSuggestions: [
+        'Elevate Your Everyday Experience',
+        'Discover Curated Luxury For You',
+        'The Art of Refined Living'
+      ],
+      descriptionSuggestions: [
+        'Thoughtfully designed products that blend seamlessly into your sophisticated lifestyle.',
+        'Exclusive collections crafted for those who appreciate the finer details.',
+        'Experience luxury reimagined for modern living.'
+      ],
+      callToAction: 'Discover More'
+    }
+  },
+  {
+    id: 'template-4',
+    name: 'Vibrant Promotion',
+    description: 'Eye-catching template for sales and special offers',
+    thumbnail: '/templates/vibrant-promotion.jpg',
+    previewImage: '/templates/vibrant-promotion.jpg',
+    category: 'promotion',
+    isPremium: false,
+    tags: ['sale', 'promotion', 'discount', 'limited-time'],
+    createdAt: '2024-01-04T00:00:00.000Z',
+    settings: {
+      adStyle: 'vibrant',
+      creativeFormat: 'single-image',
+      primaryColor: '#F59E0B',
+      titleSuggestions: [
+        'Limited Time Offer: Save {discount} Today!',
+        'Flash Sale: Don\'t Miss These Deals!',
+        'Exclusive Weekend Promotion'
+      ],
+      descriptionSuggestions: [
+        'Our biggest sale of the season. Use code {promoCode} at checkout for extra savings!',
+        'Limited quantities available. Shop now before your favorites sell out!',
+        'Members get early access! Sign up now to unlock special offers.'
+      ],
+      callToAction: 'Shop Sale',
+      variables: [
+        { key: 'discount', label: 'Discount', type: 'percent', defaultValue: '40', required: true },
+        { key: 'promoCode', label: 'Promo code', type: 'text', defaultValue: 'FLASH40', maxLength: 20 }
+      ]
+    }
+  },
+  {
+    id: 'template-5',
+    name: 'Trustworthy Service',
+    description: 'Reliable template for service-based businesses',
+    thumbnail: '/templates/trustworthy-service.jpg',
+    previewImage: '/templates/trustworthy-service.jpg',
+    category: 'conversion',
+    isPremium: false,
+    tags: ['service', 'reliable', 'professional', 'local'],
+    createdAt: '2024-01-05T00:00:00.000Z',
+    settings: {
+      adStyle: 'trustworthy',
+      creativeFormat: 'video',
+      primaryColor: '#10B981',
+      titleSuggestions: [
+        'Service You Can Count On',
+        'Trusted by Thousands of Customers',
+        'Professional {service} with Guaranteed Results'
+      ],
+      descriptionSuggestions: [
+        '5-star rated service with over 1,000 satisfied customers in {location}.',
+        'Our certified professionals deliver exceptional results, backed by our satisfaction guarantee.',
+        'Fast, reliable, and professional. See why customers choose us year after year.'
+      ],
+      callToAction: 'Book Now',
+      variables: [
+        { key: 'service', label: 'Service', type: 'text', required: true, maxLength: 30, hint: 'Plumbing' },
+        { key: 'location', label: 'Location', type: 'text', maxLength: 40, hint: 'Austin' }
+      ]
+    }
+  },
+  {
+    id: 'template-6',
+    name: 'Playful Collection',
+    description: 'Fun and engaging template for product collections',
+    thumbnail: '/templates/playful-collection.jpg',
+    previewImage: '/templates/playful-collection.jpg',
+    category: 'engagement',
+    isPremium: true,
+    tags: ['collection', 'fun', 'colorful', 'creative'],
+    createdAt: '2024-01-06T00:00:00.000Z',
+    settings: {
+      adStyle: 'playful',
+      creativeFormat: 'collection',
+      primaryColor: '#EC4899',
+      titleSuggestions: [
+        'Discover Our Colorful Collection',
+        'Fun Products for Every Occasion',
+        'Express Yourself with Our New Line'
+      ],
+      descriptionSuggestions: [
+        'Brighten your day with our vibrant collection designed to bring joy to everyday moments.',
+        'Playfully designed, seriously functional. Find your favorite in our new collection.',
+        'Limited edition items that celebrate creativity and self-expression.'
+      ],
+      callToAction: 'Explore Collection'
+    }
+  }
+];
+
+// Times each built-in template was used, by template ID
+const usageCounts = new Map();
+
+const withUsage = (template) => ({ ...template, usageCount: usageCounts.get(template.id) || 0 });
+
+const byName = (a, b) => a.name.localeCompare(b.name);
+
+const SORT_COMPARATORS = {
+  newest: (a, b) => b.createdAt.localeCompare(a.createdAt) || byName(a, b),
+  popular: (a, b) => b.usageCount - a.usageCount || byName(a, b),
+  alphabetical: byName
+};
+
+/**
+ * Whether a template's name, description or tags contain every search word
+ * @param {Object} template - Template
+ * @param {string} search - Search text
+ * @returns {boolean} Whether the template matches
+ */
+const matchesSearch = (template, search) => {
+  const text = [template.name, template.description, ...template.tags].join(' ').toLowerCase();
+  return search.toLowerCase().split(/\s+/).filter(Boolean).every((word) => text.includes(word));
+};
+
+/**
+ * List one page of the catalog
+ * @param {Object} query - Catalog query
+ * @param {number} [query.page] - 1-based page
+ * @param {number} [query.limit] - Templates per page
+ * @param {string} [query.search] - Text to look for in names, descriptions and tags
+ * @param {string} [query.category] - One of TEMPLATE_CATEGORIES
+ * @param {string} [query.owner] - One of TEMPLATE_OWNERS
+ * @param {string} [query.sort] - One of TEMPLATE_SORTS
+ * @returns {Object} Page of templates with the total and the matches per category
+ */
+const listTemplates = ({ page = 1, limit = DEFAULT_PAGE_SIZE, search = '', category, owner, sort = 'newest' } = {}) => {
+  // Saved templates aren't stored yet, so only built-in templates can match
+  const candidates = owner === 'mine' || owner === 'team' ? [] : BUILT_IN_TEMPLATES.map(withUsage);
+  const matches = candidates.filter((template) => matchesSearch(template, search));
+
+  // Counted before the category filter so every tab shows its own total
+  const categoryCounts = matches.reduce((counts, template) => {
+    counts[template.category] = (counts[template.category] || 0) + 1;
+    return counts;
+  }, {});
+
+  const filtered = category ? matches.filter((template) => template.category === category) : matches;
+  const sorted = [...filtered].sort(SORT_COMPARATORS[sort]);
+
+  return {
+    templates: sorted.slice((page - 1) * limit, page * limit),
+    total: filtered.length,
+    page,
+    limit,
+    categoryCounts
+  };
+};
+
+/**
+ * Find a built-in template
+ * @param {string} id - Template ID
+ * @returns {Object|undefined} Template with its usage count
+ */
+const getBuiltInTemplate = (id) => {
+  const template = BUILT_IN_TEMPLATES.find((candidate) => candidate.id === id);
+  return template && withUsage(template);
+};
+
+/**
+ * Count one use of a built-in template
+ * @param {string} id - Template ID
+ * @returns {Object|null} New usage count, or null if the template isn't built in
+ */
+const recordBuiltInTemplateUse = (id) => {
+  if (!BUILT_IN_TEMPLATES.some((template) => template.id === id)) return null;
+
+  const usageCount = (usageCounts.get(id) || 0) + 1;
+  usageCounts.set(id, usageCount);
+  return { usageCount };
+};
+
+module.exports = {
+  TEMPLATE_CATEGORIES,
+  TEMPLATE_SORTS,
+  TEMPLATE_OWNERS,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  listTemplates,
+  getBuiltInTemplate,
+  recordBuiltInTemplateUse
+};
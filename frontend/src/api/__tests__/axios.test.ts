@@ -0,0 +1,94 @@
+/**
+ * Tests for token refresh in the shared axios instance
+ */
+import axios, { InternalAxiosRequestConfig } from 'axios';
+import { toast } from 'react-toastify';
+import api, { refreshAccessToken } from '../axios';
+import { getAccessToken, getRefreshToken, setTokens } from '../tokenStore';
+
+jest.mock('react-toastify', () => ({
+  toast: { error: jest.fn() },
+}));
+
+// Build an unsigned JWT that expires in the given number of seconds
+const createToken = (expiresIn: number, id: string = 'user-1') => {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64');
+  const exp = Math.floor(Date.now() / 1000) + expiresIn;
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode({ id, exp })}.signature`;
+};
+
+describe('axios token handling', () => {
+  const freshToken = createToken(3600, 'fresh');
+  let postSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    localStorage.clear();
+    postSpy = jest.spyOn(axios, 'post').mockResolvedValue({
+      data: { token: freshToken, refreshToken: 'refresh-2' },
+    });
+  });
+
+  afterEach(() => {
+    postSpy.mockRestore();
+    api.defaults.adapter = undefined;
+  });
+
+  test('should migrate a token stored under the legacy key', () => {
+    localStorage.setItem('token', 'legacy-token');
+
+    expect(getAccessToken()).toBe('legacy-token');
+    expect(localStorage.getItem('auth_token')).toBe('legacy-token');
+    expect(localStorage.getItem('token')).toBeNull();
+  });
+
+  test('should share one refresh between concurrent callers', async () => {
+    setTokens({ accessToken: createToken(-10), refreshToken: 'refresh-1' });
+
+    const tokens = await Promise.all([refreshAccessToken(), refreshAccessToken()]);
+
+    expect(postSpy).toHaveBeenCalledTimes(1);
+    expect(postSpy).toHaveBeenCalledWith(expect.stringContaining('/auth/refresh-token'), { refreshToken: 'refresh-1' });
+    expect(tokens).toEqual([freshToken, freshToken]);
+    expect(getAccessToken()).toBe(freshToken);
+    expect(getRefreshToken()).toBe('refresh-2');
+  });
+
+  test('should refresh and retry queued requests after a 401', async () => {
+    // Valid-looking token the server has already revoked
+    setTokens({ accessToken: createToken(3600, 'revoked'), refreshToken: 'refresh-1' });
+
+    api.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+      const authorized = config.headers.Authorization === `Bearer ${freshToken}`;
+      const response = {
+        data: { url: config.url },
+        status: authorized ? 200 : 401,
+        statusText: '',
+        headers: {},
+        config,
+      };
+      if (!authorized) {
+        throw new axios.AxiosError('Unauthorized', 'ERR_BAD_REQUEST', config, null, response);
+      }
+      return response;
+    };
+
+    const [first, second] = await Promise.all([api.get('/campaigns'), api.get('/assets')]);
+
+    expect(first.data.url).toBe('/campaigns');
+    expect(second.data.url).toBe('/assets');
+    expect(postSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test('should leave reporting errors to callers that ask for it', async () => {
+    api.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+      const response = { data: {}, status: 500, statusText: '', headers: {}, config };
+      throw new axios.AxiosError('Server Error', 'ERR_BAD_RESPONSE', config, null, response);
+    };
+
+    await expect(api.delete('/assets/asset-1', { skipErrorToast: true })).rejects.toThrow('Server Error');
+    expect(toast.error).not.toHaveBeenCalled();
+
+    await expect(api.delete('/assets/asset-1')).rejects.toThrow('Server Error');
+    expect(toast.error).toHaveBeenCalledWith('A server error occurred. Please try again later.');
+  });
+});
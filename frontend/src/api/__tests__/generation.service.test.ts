@@ -0,0 +1,44 @@
+/**
+ * Tests for following a generation job to the end
+ */
+import GenerationService, { GenerationJobStatus } from '../generation.service';
+
+jest.mock('react-toastify', () => ({
+  toast: { error: jest.fn() },
+}));
+
+const processing: GenerationJobStatus = { jobId: 'job-1', status: 'processing', progress: 40 };
+const completed: GenerationJobStatus = { jobId: 'job-1', status: 'completed', result: { url: 'https://cdn.example.com/ad.png' } };
+
+describe('GenerationService.waitForJob', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should keep polling through failed status checks', async () => {
+    const checkJobStatus = jest.spyOn(GenerationService, 'checkJobStatus')
+      .mockResolvedValueOnce(processing)
+      .mockRejectedValueOnce(new Error('Network Error'))
+      .mockRejectedValueOnce(new Error('Network Error'))
+      .mockResolvedValueOnce(completed);
+    const onUpdate = jest.fn();
+
+    await expect(GenerationService.waitForJob('job-1', { interval: 1, onUpdate })).resolves.toBe(completed);
+    expect(checkJobStatus).toHaveBeenCalledTimes(4);
+    expect(onUpdate).toHaveBeenCalledTimes(2);
+  });
+
+  test('should give up after too many failed checks in a row', async () => {
+    jest.spyOn(GenerationService, 'checkJobStatus').mockRejectedValue(new Error('Network Error'));
+
+    await expect(GenerationService.waitForJob('job-1', { interval: 1, maxStatusErrors: 3 }))
+      .rejects.toThrow('Network Error');
+    expect(GenerationService.checkJobStatus).toHaveBeenCalledTimes(3);
+  });
+
+  test('should reject when the job fails', async () => {
+    jest.spyOn(GenerationService, 'checkJobStatus').mockResolvedValue({ jobId: 'job-1', status: 'failed', error: 'Out of capacity' });
+
+    await expect(GenerationService.waitForJob('job-1', { interval: 1 })).rejects.toThrow('Out of capacity');
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Tests for the template catalog query sent to the server
+ */
+import { InternalAxiosRequestConfig } from 'axios';
+import api from '../axios';
+import TemplateService from '../template.service';
+
+jest.mock('react-toastify', () => ({
+  toast: { error: jest.fn() },
+}));
+
+describe('TemplateService.getTemplates', () => {
+  let requests: InternalAxiosRequestConfig[];
+
+  beforeEach(() => {
+    requests = [];
+    api.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+      requests.push(config);
+      return {
+        data: { templates: [], total: 0, page: 1, limit: 12, categoryCounts: {} },
+        status: 200,
+        statusText: '',
+        headers: {},
+        config,
+      };
+    };
+  });
+
+  afterEach(() => {
+    api.defaults.adapter = undefined;
+  });
+
+  test('should send paging, filters and sort as query params', async () => {
+    await TemplateService.getTemplates({
+      page: 2,
+      limit: 12,
+      search: 'sale',
+      category: 'promotion',
+      owner: 'team',
+      sort: 'popular',
+    });
+
+    expect(requests[0].url).toBe('/templates');
+    expect(requests[0].params).toEqual({
+      page: 2,
+      limit: 12,
+      search: 'sale',
+      category: 'promotion',
+      owner: 'team',
+      sort: 'popular',
+    });
+  });
+
+  test('should leave out an empty search and the all-owners filter', async () => {
+    await TemplateService.getTemplates({ page: 1, limit: 12, search: '', owner: 'all', sort: 'newest' });
+
+    expect(requests[0].params.search).toBeUndefined();
+    expect(requests[0].params.owner).toBeUndefined();
+  });
+});
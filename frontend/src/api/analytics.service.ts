@@ -0,0 +1,72 @@
+import api from './axios';
+import { AdFormat, AdMetrics, AdStyle, CreativeFormat } from '../types/ad';
+import { AdFilter } from '../types/adTypes';
+
+export type DateRange = NonNullable<AdFilter['dateRange']>;
+
+// One day of delivery for an ad
+export interface DailyAdMetrics extends AdMetrics {
+  date: string; // YYYY-MM-DD
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  spend: number;
+  revenue: number;
+}
+
+export interface AdMetricsReport {
+  adId: string;
+  title: string;
+  campaignId?: string;
+  adStyle: AdStyle;
+  adFormat: AdFormat;
+  creativeFormat: CreativeFormat;
+  daily: DailyAdMetrics[];
+}
+
+export interface MetricsReport {
+  startDate: string;
+  endDate: string;
+  ads: AdMetricsReport[];
+}
+
+export interface MetricsQuery {
+  dateRange: DateRange;
+  campaignId?: string;
+  adId?: string;
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ * @param date - Date to format
+ * @returns Day string
+ */
+export const toDayString = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Service for reading ad performance reports
+ */
+const AnalyticsService = {
+  /**
+   * Get daily metrics per ad for a date range
+   * @param query - Date range and optional campaign or ad
+   * @returns Metrics report
+   */
+  async getMetrics({ dateRange, campaignId, adId }: MetricsQuery): Promise<MetricsReport> {
+    const response = await api.get<MetricsReport>('/analytics/metrics', {
+      params: {
+        startDate: toDayString(dateRange.startDate),
+        endDate: toDayString(dateRange.endDate),
+        campaignId,
+        adId,
+      },
+    });
+    return response.data;
+  },
+};
+
+export default AnalyticsService;
@@ -1,3 +1,4 @@
+import { AxiosRequestConfig } from 'axios';
 import api from './axios';
 
 export interface Asset {
@@ -75,6 +76,7 @@ export interface CreateAssetInput {
 export interface UpdateAssetInput {
   title?: string;
   isPublic?: boolean;
+  campaignId?: string; // Move the asset to another campaign
 }
 
 export interface JobStatusResponse {
@@ -135,20 +137,22 @@ const AssetService = {
    * Update an asset
    * @param id - Asset ID
    * @param data - Updated asset data
+   * @param config - Request options, e.g. skipErrorToast for bulk actions
    * @returns Updated asset
    */
-  async updateAsset(id: string, data: UpdateAssetInput): Promise<Asset> {
-    const response = await api.put<Asset>(`/assets/${id}`, data);
+  async updateAsset(id: string, data: UpdateAssetInput, config?: AxiosRequestConfig): Promise<Asset> {
+    const response = await api.put<Asset>(`/assets/${id}`, data, config);
     return response.data;
   },
 
   /**
    * Delete an asset
    * @param id - Asset ID
+   * @param config - Request options, e.g. skipErrorToast for bulk actions
    * @returns Success message
    */
-  async deleteAsset(id: string) {
-    const response = await api.delete(`/assets/${id}`);
+  async deleteAsset(id: string, config?: AxiosRequestConfig) {
+    const response = await api.delete(`/assets/${id}`, config);
     return response.data;
   },
 
@@ -190,10 +194,11 @@ const AssetService = {
   /**
    * Increment download count
    * @param id - Asset ID
+   * @param config - Request options, e.g. skipErrorToast for bulk actions
    * @returns Updated asset
    */
-  async trackDownload(id: string): Promise<Asset> {
-    const response = await api.post<Asset>(`/assets/${id}/download`);
+  async trackDownload(id: string, config?: AxiosRequestConfig): Promise<Asset> {
+    const response = await api.post<Asset>(`/assets/${id}/download`, undefined, config);
     return response.data;
   }
 };
@@ -1,4 +1,5 @@
 import api from './axios';
+import { getAccessToken, getRefreshToken, setTokens, clearTokens, isTokenExpired } from './tokenStore';
 
 interface LoginCredentials {
   email: string;
@@ -9,10 +10,19 @@ interface RegisterCredentials {
   name: string;
   email: string;
   password: string;
+  plan?: string; // Plan selected on the pricing page, e.g. "pro"
 }
 
-interface AuthResponse {
+// Profile fields the user can change from the settings page
+export interface ProfileUpdate {
+  name?: string;
+  email?: string;
+  profilePicture?: string;
+}
+
+export interface AuthResponse {
   token: string;
+  refreshToken?: string;
   user: {
     id: string;
     name: string;
@@ -38,6 +48,7 @@ const AuthService = {
    */
   async login(credentials: LoginCredentials): Promise<AuthResponse> {
     const response = await api.post<AuthResponse>('/auth/login', credentials);
+    AuthService.storeSession(response.data);
     return response.data;
   },
 
@@ -48,9 +59,19 @@ const AuthService = {
    */
   async register(credentials: RegisterCredentials): Promise<AuthResponse> {
     const response = await api.post<AuthResponse>('/auth/register', credentials);
+    AuthService.storeSession(response.data);
     return response.data;
   },
 
+  /**
+   * Store the tokens and user from an auth response
+   * @param session - Auth response from login or register
+   */
+  storeSession(session: AuthResponse): void {
+    setTokens({ accessToken: session.token, refreshToken: session.refreshToken });
+    localStorage.setItem('user', JSON.stringify(session.user));
+  },
+
   /**
    * Get current user profile
    * @returns User data
@@ -64,8 +85,8 @@ const AuthService = {
    * Log out the current user
    */
   logout(): void {
-    localStorage.removeItem('token');
     localStorage.removeItem('user');
+    clearTokens();
   },
 
   /**
@@ -73,7 +94,8 @@ const AuthService = {
    * @returns true if authenticated, false otherwise
    */
   isAuthenticated(): boolean {
-    return !!localStorage.getItem('token');
+    const token = getAccessToken();
+    return !!token && (!isTokenExpired(token) || !!getRefreshToken());
   },
 
   /**
@@ -94,6 +116,17 @@ const AuthService = {
     }
   },
 
+  /**
+   * Update the current user's profile
+   * @param updates - Profile fields to change
+   * @returns Updated user data
+   */
+  async updateProfile(updates: ProfileUpdate): Promise<AuthResponse['user']> {
+    const response = await api.patch<AuthResponse['user']>('/users/me', updates);
+    localStorage.setItem('user', JSON.stringify(response.data));
+    return response.data;
+  },
+
   /**
    * Request password reset
    * @param email - User email
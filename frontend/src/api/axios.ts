@@ -1,5 +1,6 @@
 import axios, { AxiosResponse, AxiosError, InternalAxiosRequestConfig } from 'axios';
 import { toast } from 'react-toastify';
+import { getAccessToken, getRefreshToken, setTokens, clearTokens, isTokenExpired } from './tokenStore';
 
 // Create an Axios instance with base URL and default configs
 const axiosInstance = axios.create({
@@ -10,6 +11,13 @@ const axiosInstance = axios.create({
   timeout: 15000, // 15 seconds
 });
 
+// Per-request options read by the interceptors
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    skipErrorToast?: boolean; // The caller reports failures itself, e.g. in a bulk action summary
+  }
+}
+
 // Types for environment
 declare global {
   namespace NodeJS {
@@ -19,11 +27,65 @@ declare global {
   }
 }
 
+// Refresh the access token this many seconds before it expires
+const REFRESH_MARGIN_SECONDS = 60;
+
+// Shared by all requests waiting on the same refresh
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * Exchange the refresh token for a new access token
+ *
+ * Concurrent callers share one request, so requests made while a refresh is
+ * in flight are queued behind it instead of each triggering their own.
+ *
+ * @returns The new access token
+ */
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const refreshToken = getRefreshToken();
+
+    refreshPromise = (refreshToken
+      ? axios.post<{ token: string; refreshToken?: string }>(
+          `${axiosInstance.defaults.baseURL}/auth/refresh-token`,
+          { refreshToken }
+        ).then(response => {
+          setTokens({ accessToken: response.data.token, refreshToken: response.data.refreshToken });
+          return response.data.token;
+        })
+      : Promise.reject(new Error('No refresh token available'))
+    ).finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  return refreshPromise;
+};
+
+// End the session once the tokens can no longer be refreshed
+const expireSession = () => {
+  clearTokens();
+  localStorage.removeItem('user');
+  // Come back to the current page after logging in again
+  const returnTo = encodeURIComponent(window.location.pathname + window.location.search);
+  window.location.href = `/login?session_expired=true&returnTo=${returnTo}`;
+
+  toast.error('Your session has expired. Please log in again.');
+};
+
 // Request interceptor for adding auth token
 axiosInstance.interceptors.request.use(
   async (config: InternalAxiosRequestConfig): Promise<InternalAxiosRequestConfig> => {
-    // Get token from localStorage
-    const token = localStorage.getItem('auth_token');
+    let token = getAccessToken();
+
+    // Refresh ahead of expiry rather than waiting for a 401
+    if (token && getRefreshToken() && isTokenExpired(token, REFRESH_MARGIN_SECONDS)) {
+      try {
+        token = await refreshAccessToken();
+      } catch (error) {
+        // Send the request anyway, the 401 handler ends the session
+      }
+    }
     
     // If token exists, add to headers
     if (token && config.headers) {
@@ -42,8 +104,31 @@ axiosInstance.interceptors.response.use(
   (response: AxiosResponse) => {
     return response;
   },
-  (error: AxiosError) => {
+  async (error: AxiosError) => {
     const response = error.response;
+    const originalRequest = error.config as (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined;
+    
+    // Failed logins and password resets are not expired sessions
+    const isAuthRequest = !!originalRequest?.url?.startsWith('/auth/');
+    
+    // Retry once with a refreshed token before giving up on the session
+    if (response?.status === 401 && originalRequest && !originalRequest._retry && !isAuthRequest && getRefreshToken()) {
+      originalRequest._retry = true;
+      
+      try {
+        const token = await refreshAccessToken();
+        originalRequest.headers.Authorization = `Bearer ${token}`;
+        return axiosInstance(originalRequest);
+      } catch (refreshError) {
+        expireSession();
+        return Promise.reject(error);
+      }
+    }
+    
+    // Requests whose caller reports failures itself stay quiet
+    const notify = (message: string) => {
+      if (!originalRequest?.skipErrorToast) toast.error(message);
+    };
     
     // Handle specific error statuses
     if (response) {
@@ -51,46 +136,42 @@ axiosInstance.interceptors.response.use(
       const data = response.data as { message?: string };
       
       // Authentication errors
-      if (status === 401) {
-        // Clear stored tokens and refresh page to redirect to login
-        localStorage.removeItem('auth_token');
-        window.location.href = '/login?session_expired=true';
-        
-        toast.error('Your session has expired. Please log in again.');
+      if (status === 401 && !isAuthRequest) {
+        expireSession();
       }
       
       // Forbidden
       else if (status === 403) {
-        toast.error('You do not have permission to perform this action.');
+        notify('You do not have permission to perform this action.');
       }
       
       // Not found
       else if (status === 404) {
-        toast.error('The requested resource was not found.');
+        notify('The requested resource was not found.');
       }
       
       // Server error
       else if (status >= 500) {
-        toast.error('A server error occurred. Please try again later.');
+        notify('A server error occurred. Please try again later.');
       }
       
       // Other errors with a message
       else if (data && data.message) {
-        toast.error(data.message);
+        notify(data.message);
       }
       
       // Generic error without specific message
       else {
-        toast.error('An error occurred. Please try again.');
+        notify('An error occurred. Please try again.');
       }
     }
     // Network errors
     else if (error.request) {
-      toast.error('Unable to connect to the server. Please check your internet connection.');
+      notify('Unable to connect to the server. Please check your internet connection.');
     }
     // Other errors
     else {
-      toast.error('An unexpected error occurred.');
+      notify('An unexpected error occurred.');
     }
     
     return Promise.reject(error);
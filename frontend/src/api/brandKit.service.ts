@@ -0,0 +1,81 @@
+import api from './axios';
+import { AdFonts, LogoPosition } from '../types/ad';
+
+export interface BrandLogo {
+  _id?: string;
+  url: string;
+  publicId?: string;
+  label?: string;
+  position: LogoPosition; // Where the logo goes on an ad unless the ad chooses otherwise
+  isDefault?: boolean;
+}
+
+export interface BrandColor {
+  name?: string;
+  hex: string;
+}
+
+export interface BrandVoice {
+  tone: string;
+  bannedWords: string[];
+}
+
+export interface BrandKit {
+  _id: string;
+  name: string;
+  logos: BrandLogo[];
+  palette: BrandColor[]; // The first color is the primary color
+  fonts: AdFonts;
+  voice: BrandVoice;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type BrandKitInput = Pick<BrandKit, 'name' | 'logos' | 'palette' | 'fonts' | 'voice'>;
+
+/**
+ * Service for handling brand kit operations
+ */
+const BrandKitService = {
+  /**
+   * Get all brand kits of the current user
+   * @returns List of brand kits
+   */
+  async getBrandKits(): Promise<BrandKit[]> {
+    const response = await api.get<BrandKit[]>('/brand-kits');
+    return response.data;
+  },
+
+  /**
+   * Create a new brand kit
+   * @param data - Brand kit data
+   * @returns Created brand kit
+   */
+  async createBrandKit(data: BrandKitInput): Promise<BrandKit> {
+    const response = await api.post<BrandKit>('/brand-kits', data);
+    return response.data;
+  },
+
+  /**
+   * Update a brand kit
+   * @param id - Brand kit ID
+   * @param data - Updated brand kit data
+   * @returns Updated brand kit
+   */
+  async updateBrandKit(id: string, data: Partial<BrandKitInput>): Promise<BrandKit> {
+    const response = await api.patch<BrandKit>(`/brand-kits/${id}`, data);
+    return response.data;
+  },
+
+  /**
+   * Delete a brand kit
+   * @param id - Brand kit ID
+   * @returns Success message
+   */
+  async deleteBrandKit(id: string) {
+    const response = await api.delete(`/brand-kits/${id}`);
+    return response.data;
+  },
+};
+
+export default BrandKitService;
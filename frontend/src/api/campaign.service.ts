@@ -1,12 +1,16 @@
 import api from './axios';
 
+export type CampaignStatus = 'draft' | 'active' | 'completed' | 'archived';
+
+export const CAMPAIGN_STATUSES: readonly CampaignStatus[] = ['draft', 'active', 'completed', 'archived'];
+
 export interface Campaign {
   _id: string;
   title: string;
   description?: string;
   isPublic: boolean;
   tags?: string[];
-  status: 'draft' | 'active' | 'completed' | 'archived';
+  status: CampaignStatus;
   lastEdited: string;
   createdAt: string;
   updatedAt: string;
@@ -24,7 +28,7 @@ export interface UpdateCampaignInput {
   description?: string;
   isPublic?: boolean;
   tags?: string[];
-  status?: 'draft' | 'active' | 'completed' | 'archived';
+  status?: CampaignStatus;
 }
 
 /**
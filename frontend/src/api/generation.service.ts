@@ -1,4 +1,6 @@
 import api from './axios';
+import { AdFonts, AdFormat, AdLogo, CreativeFormat, FocalPoint, TitlePosition } from '../types/ad';
+import { getPollingInterval } from '../utils/polling';
 
 export interface AdCopy {
   title: string;
@@ -11,6 +13,8 @@ export interface AdCopyInput {
   productDescription: string;
   tone?: string;
   maxLength?: number;
+  brandVoice?: string; // Tone-of-voice description from the brand kit
+  bannedWords?: string[]; // Words the copy must not contain
 }
 
 export interface ImageAdInput {
@@ -19,36 +23,86 @@ export interface ImageAdInput {
     title: string;
     description: string;
     callToAction?: string;
+    titlePosition?: TitlePosition;
   };
   style: string;
-  logo?: {
-    url: string;
-    position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
-  };
+  adFormat: AdFormat; // Placement the creative is made for
+  creativeFormat?: CreativeFormat;
+  templateId?: string; // Template the ad was started from
+  logo?: AdLogo;
   brandColor?: string;
+  fonts?: AdFonts;
+  brandKitId?: string; // Lets the server apply the rest of the brand kit
+  focalPoint?: FocalPoint; // Saved with the ad so it can be cropped to other placements
+  parentAdId?: string; // Ad this one is another placement of
   resolution?: 'sd' | 'hd' | 'fullhd';
 }
 
+// One card of a carousel; the ad's call to action is shared by every card
+export interface CarouselCardInput {
+  imageUrl: string;
+  headline: string;
+  description?: string;
+  link: string;
+}
+
+export interface CarouselAdInput extends ImageAdInput {
+  cards: CarouselCardInput[];
+}
+
+export type VoiceGender = 'male' | 'female';
+export type VoiceStyle = 'friendly' | 'professional' | 'energetic';
+
+export interface VideoOptions {
+  hasMusic?: boolean;
+  musicTrack?: string; // Music track ID
+  hasVoiceover?: boolean;
+  voiceGender?: VoiceGender;
+  voiceStyle?: VoiceStyle;
+  voiceoverScript?: string; // Read out by the voiceover; generated from the ad copy when empty
+}
+
+// One image of a video, shown for the given number of seconds
+export interface VideoSceneInput {
+  imageUrl: string;
+  duration: number;
+}
+
+export interface MusicTrack {
+  id: string;
+  name: string;
+  mood: string;
+  previewUrl: string;
+  duration: number; // in seconds
+}
+
+export interface VoiceoverScriptInput {
+  productName: string;
+  productDescription: string;
+  voiceStyle?: VoiceStyle;
+  duration: number; // Length of the video in seconds; the script is sized to fit
+  brandVoice?: string;
+  bannedWords?: string[];
+}
+
 export interface VideoAdInput {
   imageUrls: string[];
   adText: {
     title: string;
     description: string;
     callToAction?: string;
+    titlePosition?: TitlePosition;
   };
   style: string;
-  logo?: {
-    url: string;
-    position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
-  };
+  adFormat: AdFormat; // Placement the creative is made for
+  creativeFormat?: CreativeFormat;
+  templateId?: string; // Template the ad was started from
+  logo?: AdLogo;
   brandColor?: string;
-  videoOptions: {
-    hasMusic?: boolean;
-    musicTrack?: string;
-    hasVoiceover?: boolean;
-    voiceGender?: 'male' | 'female';
-    voiceStyle?: 'friendly' | 'professional' | 'energetic';
-  };
+  fonts?: AdFonts;
+  brandKitId?: string; // Lets the server apply the rest of the brand kit
+  videoOptions: VideoOptions;
+  scenes?: VideoSceneInput[]; // Images in play order; imageUrls is used when there are none
   resolution?: 'sd' | 'hd' | 'fullhd';
 }
 
@@ -59,6 +113,22 @@ export interface GenerationResponse {
   estimatedTime?: number; // in seconds
 }
 
+export interface GenerationJobStatus {
+  jobId: string;
+  status: 'processing' | 'completed' | 'failed';
+  progress?: number;
+  result?: any;
+  error?: string;
+  estimatedTime?: number; // remaining time in seconds
+}
+
+export interface WaitForJobOptions {
+  onUpdate?: (status: GenerationJobStatus) => void;
+  interval?: number; // polling interval in milliseconds
+  maxStatusErrors?: number; // consecutive failed status checks before giving up
+  signal?: AbortSignal;
+}
+
 /**
  * Service for handling AI generation operations
  */
@@ -106,6 +176,19 @@ const GenerationService = {
     return response.data;
   },
 
+  /**
+   * Generate a carousel ad
+   * @param input - Carousel ad generation input, with the cards in display order
+   * @returns Generation job information
+   */
+  async generateCarouselAd(input: CarouselAdInput): Promise<GenerationResponse> {
+    const response = await api.post<GenerationResponse>(
+      '/generate/carousel',
+      input
+    );
+    return response.data;
+  },
+
   /**
    * Generate a video ad
    * @param input - Video ad generation input
@@ -119,22 +202,81 @@ const GenerationService = {
     return response.data;
   },
 
+  /**
+   * Get the music tracks that can be added to a video ad
+   * @returns Available music tracks
+   */
+  async getMusicTracks(): Promise<MusicTrack[]> {
+    const response = await api.get<{ success: boolean; tracks: MusicTrack[] }>('/generate/music-tracks');
+    return response.data.tracks;
+  },
+
+  /**
+   * Write a voiceover script for a video ad
+   * @param input - Product information and video length
+   * @returns Script to be read out by the voiceover
+   */
+  async generateVoiceoverScript(input: VoiceoverScriptInput): Promise<string> {
+    const response = await api.post<{ success: boolean; script: string }>(
+      '/generate/voiceover-script',
+      input
+    );
+    return response.data.script;
+  },
+
   /**
    * Check the status of a generation job
    * @param jobId - Job ID
    * @returns Job status information
    */
-  async checkJobStatus(jobId: string): Promise<{
-    jobId: string;
-    status: 'processing' | 'completed' | 'failed';
-    progress?: number;
-    result?: any;
-    error?: string;
-  }> {
-    const response = await api.get(`/generate/status/${jobId}`);
+  async checkJobStatus(jobId: string): Promise<GenerationJobStatus> {
+    const response = await api.get<GenerationJobStatus>(`/generate/status/${jobId}`);
     return response.data;
   },
 
+  /**
+   * Poll a generation job until it completes or fails
+   *
+   * Failed status checks are retried with backoff, since the job keeps
+   * running on the server; only `maxStatusErrors` failures in a row give up.
+   * @param jobId - Job ID
+   * @param options - Progress callback, polling interval, error tolerance and abort signal
+   * @returns Final job status once the job has completed
+   */
+  async waitForJob(jobId: string, options: WaitForJobOptions = {}): Promise<GenerationJobStatus> {
+    const { onUpdate, interval = 2000, maxStatusErrors = 5, signal } = options;
+    let statusErrors = 0;
+
+    while (true) {
+      if (signal?.aborted) {
+        throw new Error('Job tracking was cancelled');
+      }
+
+      let status: GenerationJobStatus;
+      try {
+        status = await GenerationService.checkJobStatus(jobId);
+        statusErrors = 0;
+      } catch (error) {
+        statusErrors += 1;
+        if (statusErrors >= maxStatusErrors) throw error;
+
+        await new Promise(resolve => setTimeout(resolve, getPollingInterval(statusErrors, { initialInterval: interval })));
+        continue;
+      }
+
+      onUpdate?.(status);
+
+      if (status.status === 'completed') {
+        return status;
+      }
+      if (status.status === 'failed') {
+        throw new Error(status.error || 'Generation failed');
+      }
+
+      await new Promise(resolve => setTimeout(resolve, interval));
+    }
+  },
+
   /**
    * Get available style presets
    * @returns List of available style presets
@@ -0,0 +1,101 @@
+import api from './axios';
+import { getAccessToken } from './tokenStore';
+
+export type JobEventType = 'progress' | 'completed' | 'failed';
+
+export interface JobEvent {
+  jobId: string;
+  type: JobEventType;
+  progress?: number;
+  result?: any;
+  error?: string;
+  timestamp: string;
+}
+
+export interface JobEventStreamHandlers {
+  onEvent: (event: JobEvent) => void;
+  onOpen?: () => void;
+  onDisconnect?: () => void;
+}
+
+// Reconnect delays once the browser has given up on the stream
+const INITIAL_RECONNECT_DELAY = 2000;
+const MAX_RECONNECT_DELAY = 60000;
+
+/**
+ * Service for the server-sent job event stream
+ */
+const JobEventsService = {
+  /**
+   * Get the URL of the job event stream for the current user
+   * @returns Stream URL, or null when the user is not logged in
+   */
+  getStreamUrl(): string | null {
+    const token = getAccessToken();
+    if (!token) return null;
+
+    return `${api.defaults.baseURL}/generate/events?token=${encodeURIComponent(token)}`;
+  },
+
+  /**
+   * Open the job event stream
+   *
+   * EventSource retries dropped connections on its own; when it gives up
+   * (e.g. the server rejected the request) the stream is reopened with
+   * exponential backoff. `onDisconnect` fires whenever events may be missed,
+   * so callers can fall back to polling until `onOpen` fires again.
+   *
+   * @param handlers - Event, open and disconnect callbacks
+   * @returns Function that closes the stream
+   */
+  connect(handlers: JobEventStreamHandlers): () => void {
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let reconnectDelay = INITIAL_RECONNECT_DELAY;
+    let isClosed = false;
+
+    const open = () => {
+      const url = JobEventsService.getStreamUrl();
+      if (isClosed || !url || typeof EventSource === 'undefined') {
+        handlers.onDisconnect?.();
+        return;
+      }
+
+      source = new EventSource(url);
+
+      source.onopen = () => {
+        reconnectDelay = INITIAL_RECONNECT_DELAY;
+        handlers.onOpen?.();
+      };
+
+      source.addEventListener('job', (message) => {
+        try {
+          handlers.onEvent(JSON.parse((message as MessageEvent).data));
+        } catch (err) {
+          console.error('Error parsing job event:', err);
+        }
+      });
+
+      source.onerror = () => {
+        handlers.onDisconnect?.();
+
+        if (source?.readyState === EventSource.CLOSED && !isClosed) {
+          source = null;
+          reconnectTimer = setTimeout(open, reconnectDelay);
+          reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+        }
+      };
+    };
+
+    open();
+
+    return () => {
+      isClosed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      source?.close();
+      source = null;
+    };
+  }
+};
+
+export default JobEventsService;
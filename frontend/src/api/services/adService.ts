@@ -1,30 +1,7 @@
 import axios from '../axios';
+import { AdData, AdCreationInput, decodeAdData, encodeAdCreationInput } from '../../types/ad';
 
-export interface AdData {
-  id: string;
-  title: string;
-  description: string;
-  imageUrl: string;
-  callToAction: string;
-  adType: 'image' | 'video';
-  adStyle: string;
-  adFormat: string;
-  primaryColor: string;
-  status: 'draft' | 'processing' | 'ready' | 'failed';
-  createdAt: string;
-  updatedAt: string;
-}
-
-export interface AdCreationInput {
-  title: string;
-  description: string;
-  callToAction: string;
-  adStyle: string;
-  adFormat: string;
-  primaryColor: string;
-  isVideo: boolean;
-  templateId?: string;
-}
+export type { AdData, AdCreationInput } from '../../types/ad';
 
 class AdService {
   /**
@@ -32,8 +9,17 @@ class AdService {
    */
   async getAds(): Promise<AdData[]> {
     try {
-      const response = await axios.get('/api/ads');
-      return response.data;
+      const response = await axios.get<unknown[]>('/api/ads');
+      
+      // Skip malformed items instead of failing the whole list
+      return response.data.reduce<AdData[]>((ads, item) => {
+        try {
+          ads.push(decodeAdData(item));
+        } catch (decodeError) {
+          console.warn('Skipping invalid ad:', decodeError);
+        }
+        return ads;
+      }, []);
     } catch (error) {
       console.error('Error fetching ads:', error);
       throw error;
@@ -46,7 +32,7 @@ class AdService {
   async getAd(id: string): Promise<AdData> {
     try {
       const response = await axios.get(`/api/ads/${id}`);
-      return response.data;
+      return decodeAdData(response.data);
     } catch (error) {
       console.error(`Error fetching ad ${id}:`, error);
       throw error;
@@ -65,7 +51,7 @@ class AdService {
       formData.append('media', mediaFile);
       
       // Append the JSON data
-      formData.append('data', JSON.stringify(data));
+      formData.append('data', JSON.stringify(encodeAdCreationInput(data)));
       
       const response = await axios.post('/api/ads', formData, {
         headers: {
@@ -73,7 +59,7 @@ class AdService {
         },
       });
       
-      return response.data;
+      return decodeAdData(response.data);
     } catch (error) {
       console.error('Error creating ad:', error);
       throw error;
@@ -102,7 +88,7 @@ class AdService {
         },
       });
       
-      return response.data;
+      return decodeAdData(response.data);
     } catch (error) {
       console.error(`Error updating ad ${id}:`, error);
       throw error;
@@ -126,8 +112,8 @@ class AdService {
    */
   async generateVariations(id: string, count: number = 3): Promise<AdData[]> {
     try {
-      const response = await axios.post(`/api/ads/${id}/variations`, { count });
-      return response.data;
+      const response = await axios.post<unknown[]>(`/api/ads/${id}/variations`, { count });
+      return response.data.map(decodeAdData);
     } catch (error) {
       console.error(`Error generating variations for ad ${id}:`, error);
       throw error;
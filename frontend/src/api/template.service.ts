@@ -0,0 +1,122 @@
+import api from './axios';
+import { AdTemplate, AdTemplateSettings } from '../data/templates';
+
+export type TemplateVisibility = 'private' | 'team';
+
+export type TemplateSort = 'newest' | 'popular' | 'alphabetical';
+
+// Who a template in the catalog belongs to
+export type TemplateOwnerFilter = 'all' | 'built-in' | 'mine' | 'team';
+
+// A template saved by a user, listed alongside the built-in templates
+export interface CustomTemplate extends AdTemplate {
+  ownerId: string;
+  ownerName?: string;
+  visibility: TemplateVisibility;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TemplateQuery {
+  page: number; // 1-based
+  limit: number;
+  search?: string;
+  category?: AdTemplate['category'];
+  owner?: TemplateOwnerFilter;
+  sort?: TemplateSort;
+}
+
+// One page of the template catalog
+export interface TemplatePage {
+  templates: AdTemplate[];
+  total: number;
+  page: number;
+  limit: number;
+  categoryCounts: Partial<Record<AdTemplate['category'], number>>; // Matches per category, ignoring the category filter
+}
+
+export interface TemplateInput {
+  name: string;
+  description: string;
+  category: AdTemplate['category'];
+  tags: string[];
+  visibility: TemplateVisibility;
+  settings: AdTemplateSettings;
+}
+
+/**
+ * Service for handling custom template operations
+ */
+const TemplateService = {
+  /**
+   * Search the template catalog: built-in templates plus the user's and their team's
+   * @param query - Page, filters and sort order
+   * @returns One page of matching templates
+   */
+  async getTemplates({ page, limit, search, category, owner, sort }: TemplateQuery): Promise<TemplatePage> {
+    const response = await api.get<TemplatePage>('/templates', {
+      params: {
+        page,
+        limit,
+        search: search || undefined,
+        category,
+        owner: owner === 'all' ? undefined : owner,
+        sort,
+      },
+    });
+    return response.data;
+  },
+
+  /**
+   * Get template by ID
+   * @param id - Template ID
+   * @returns Custom template
+   */
+  async getTemplate(id: string): Promise<CustomTemplate> {
+    const response = await api.get<CustomTemplate>(`/templates/${id}`);
+    return response.data;
+  },
+
+  /**
+   * Record that an ad was started from a template, so popularity reflects real use
+   * @param id - Template ID
+   * @returns Updated usage count
+   */
+  async recordTemplateUse(id: string): Promise<{ usageCount: number }> {
+    const response = await api.post<{ usageCount: number }>(`/templates/${id}/use`);
+    return response.data;
+  },
+
+  /**
+   * Save a new custom template
+   * @param data - Template data
+   * @returns Created template
+   */
+  async createTemplate(data: TemplateInput): Promise<CustomTemplate> {
+    const response = await api.post<CustomTemplate>('/templates', data);
+    return response.data;
+  },
+
+  /**
+   * Update a custom template
+   * @param id - Template ID
+   * @param data - Updated template data
+   * @returns Updated template
+   */
+  async updateTemplate(id: string, data: Partial<TemplateInput>): Promise<CustomTemplate> {
+    const response = await api.patch<CustomTemplate>(`/templates/${id}`, data);
+    return response.data;
+  },
+
+  /**
+   * Delete a custom template
+   * @param id - Template ID
+   * @returns Success message
+   */
+  async deleteTemplate(id: string) {
+    const response = await api.delete(`/templates/${id}`);
+    return response.data;
+  },
+};
+
+export default TemplateService;
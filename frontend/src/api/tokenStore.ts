@@ -0,0 +1,115 @@
+import jwt_decode from 'jwt-decode';
+
+// localStorage keys for the auth tokens
+const ACCESS_TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+
+// Key used by older versions of AuthContext and AuthService
+const LEGACY_ACCESS_TOKEN_KEY = 'token';
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+}
+
+type TokenListener = (tokens: AuthTokens | null) => void;
+
+const listeners = new Set<TokenListener>();
+
+const notify = () => {
+  const accessToken = getAccessToken();
+  const tokens = accessToken
+    ? { accessToken, refreshToken: getRefreshToken() || undefined }
+    : null;
+
+  listeners.forEach(listener => listener(tokens));
+};
+
+/**
+ * Get the stored access token
+ * @returns Access token, or null if the user is not logged in
+ */
+export const getAccessToken = (): string | null => {
+  if (typeof window === 'undefined') return null;
+
+  const token = localStorage.getItem(ACCESS_TOKEN_KEY);
+  if (token) return token;
+
+  // Move a token stored under the legacy key
+  const legacyToken = localStorage.getItem(LEGACY_ACCESS_TOKEN_KEY);
+  if (legacyToken) {
+    localStorage.setItem(ACCESS_TOKEN_KEY, legacyToken);
+    localStorage.removeItem(LEGACY_ACCESS_TOKEN_KEY);
+  }
+  return legacyToken;
+};
+
+/**
+ * Get the stored refresh token
+ * @returns Refresh token, or null if none was issued
+ */
+export const getRefreshToken = (): string | null => {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(REFRESH_TOKEN_KEY);
+};
+
+/**
+ * Store the tokens returned by login, register or refresh
+ * @param tokens - Access token and optional refresh token
+ */
+export const setTokens = ({ accessToken, refreshToken }: AuthTokens) => {
+  localStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
+  if (refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  }
+  notify();
+};
+
+/**
+ * Remove all stored tokens
+ */
+export const clearTokens = () => {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(LEGACY_ACCESS_TOKEN_KEY);
+  notify();
+};
+
+/**
+ * Check whether a JWT has expired or will within the given margin
+ * @param token - JWT to check
+ * @param marginSeconds - Treat the token as expired this many seconds early
+ * @returns true if the token is expired or malformed
+ */
+export const isTokenExpired = (token: string, marginSeconds: number = 0): boolean => {
+  try {
+    const { exp } = jwt_decode<{ exp?: number }>(token);
+    if (typeof exp !== 'number') return false;
+    return exp * 1000 - marginSeconds * 1000 <= Date.now();
+  } catch (error) {
+    return true;
+  }
+};
+
+/**
+ * Listen for token changes, e.g. a refresh or a forced logout
+ * @param listener - Called with the new tokens, or null once they are cleared
+ * @returns Unsubscribe function
+ */
+export const subscribeToTokens = (listener: TokenListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const tokenStore = {
+  getAccessToken,
+  getRefreshToken,
+  setTokens,
+  clearTokens,
+  isTokenExpired,
+  subscribeToTokens,
+};
+
+export default tokenStore;
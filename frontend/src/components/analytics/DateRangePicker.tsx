@@ -0,0 +1,89 @@
+import React from 'react';
+import { Box, TextField, ToggleButton, ToggleButtonGroup } from '@mui/material';
+import { DateRange, toDayString } from '../../api/analytics.service';
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+// Quick ranges ending today, in days
+const PRESETS = [7, 30, 90];
+
+/**
+ * Build a range covering the last `days` days, including today
+ * @param days - Number of days
+ * @returns Date range
+ */
+export const lastDays = (days: number): DateRange => {
+  const endDate = new Date();
+  endDate.setHours(0, 0, 0, 0);
+  const startDate = new Date(endDate);
+  startDate.setDate(endDate.getDate() - (days - 1));
+  return { startDate, endDate };
+};
+
+// Parse a YYYY-MM-DD input value as a local date
+const parseDay = (value: string): Date | null => {
+  const [year, month, day] = value.split('-').map(Number);
+  return year && month && day ? new Date(year, month - 1, day) : null;
+};
+
+/**
+ * Start and end date inputs with quick presets
+ */
+const DateRangePicker: React.FC<DateRangePickerProps> = ({ value, onChange }) => {
+  const today = toDayString(new Date());
+  const spanDays = Math.round((value.endDate.getTime() - value.startDate.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+  const activePreset = toDayString(value.endDate) === today && PRESETS.includes(spanDays) ? spanDays : null;
+
+  const handleDateChange = (field: keyof DateRange) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const date = parseDay(e.target.value);
+    if (!date) return;
+
+    const range = { ...value, [field]: date };
+    // Keep the range ordered by moving the other end along
+    if (range.startDate > range.endDate) {
+      if (field === 'startDate') range.endDate = date;
+      else range.startDate = date;
+    }
+    onChange(range);
+  };
+
+  return (
+    <Box display="flex" flexWrap="wrap" alignItems="center" gap={2}>
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={activePreset}
+        onChange={(_, days: number | null) => days && onChange(lastDays(days))}
+      >
+        {PRESETS.map(days => (
+          <ToggleButton key={days} value={days}>
+            {days}d
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+      <TextField
+        type="date"
+        size="small"
+        label="From"
+        value={toDayString(value.startDate)}
+        onChange={handleDateChange('startDate')}
+        inputProps={{ max: today }}
+        InputLabelProps={{ shrink: true }}
+      />
+      <TextField
+        type="date"
+        size="small"
+        label="To"
+        value={toDayString(value.endDate)}
+        onChange={handleDateChange('endDate')}
+        inputProps={{ max: today }}
+        InputLabelProps={{ shrink: true }}
+      />
+    </Box>
+  );
+};
+
+export default DateRangePicker;
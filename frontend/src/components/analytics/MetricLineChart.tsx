@@ -0,0 +1,74 @@
+import React from 'react';
+import { Box, Typography, useTheme } from '@mui/material';
+import { TimeSeriesPoint } from '../../utils/analytics';
+
+interface MetricLineChartProps {
+  points: TimeSeriesPoint[];
+  formatValue: (value: number) => string;
+  height?: number;
+}
+
+const WIDTH = 800;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 16 };
+
+/**
+ * Lightweight SVG line chart for a daily metric
+ */
+const MetricLineChart: React.FC<MetricLineChartProps> = ({ points, formatValue, height = 240 }) => {
+  const theme = useTheme();
+
+  if (points.length === 0) {
+    return (
+      <Box height={height} display="flex" alignItems="center" justifyContent="center">
+        <Typography variant="body2" color="text.secondary">
+          No data for this period
+        </Typography>
+      </Box>
+    );
+  }
+
+  const maxValue = Math.max(...points.map(point => point.value), 0) || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const x = (index: number) => PADDING.left + (points.length === 1 ? plotWidth / 2 : (index / (points.length - 1)) * plotWidth);
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+
+  const line = points.map((point, index) => `${x(index)},${y(point.value)}`).join(' ');
+  const area = `${x(0)},${PADDING.top + plotHeight} ${line} ${x(points.length - 1)},${PADDING.top + plotHeight}`;
+  const labelStep = Math.max(1, Math.ceil(points.length / 8));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} width="100%" height={height} role="img" aria-label="Metric over time">
+      {[0, 0.5, 1].map(fraction => (
+        <g key={fraction}>
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y(maxValue * fraction)}
+            y2={y(maxValue * fraction)}
+            stroke={theme.palette.divider}
+          />
+          <text x={PADDING.left + 4} y={y(maxValue * fraction) - 4} fontSize={11} fill={theme.palette.text.secondary}>
+            {formatValue(maxValue * fraction)}
+          </text>
+        </g>
+      ))}
+      <polygon points={area} fill={theme.palette.primary.main} opacity={0.12} />
+      <polyline points={line} fill="none" stroke={theme.palette.primary.main} strokeWidth={2} />
+      {points.map((point, index) => (
+        <g key={point.date}>
+          <circle cx={x(index)} cy={y(point.value)} r={3} fill={theme.palette.primary.main}>
+            <title>{`${point.date}: ${formatValue(point.value)}`}</title>
+          </circle>
+          {index % labelStep === 0 && (
+            <text x={x(index)} y={height - 8} fontSize={11} textAnchor="middle" fill={theme.palette.text.secondary}>
+              {point.date.slice(5)}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+export default MetricLineChart;
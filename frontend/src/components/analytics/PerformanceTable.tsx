@@ -0,0 +1,89 @@
+import React from 'react';
+import {
+  Box,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { PerformanceGroup, PerformanceMetric, PERFORMANCE_METRICS, formatMetricValue } from '../../utils/analytics';
+
+interface PerformanceTableProps {
+  groups: PerformanceGroup[];
+  groupLabel: string; // Header of the first column, e.g. "Style"
+  getGroupName?: (key: string) => string;
+  highlightMetric: PerformanceMetric; // Metric drawn as a bar for comparison
+}
+
+// Columns shown for every group
+const COLUMNS: PerformanceMetric[] = ['impressions', 'clicks', 'ctr', 'conversions', 'spend', 'cpc', 'roi'];
+
+/**
+ * Table of performance per group, with a bar comparing one metric across groups
+ */
+const PerformanceTable: React.FC<PerformanceTableProps> = ({
+  groups,
+  groupLabel,
+  getGroupName = key => key,
+  highlightMetric,
+}) => {
+  const maxHighlight = Math.max(...groups.map(group => Math.abs(group.performance[highlightMetric])), 0) || 1;
+
+  if (groups.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary" className="py-6 text-center">
+        No data for this period
+      </Typography>
+    );
+  }
+
+  return (
+    <TableContainer>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>{groupLabel}</TableCell>
+            {COLUMNS.map(metric => (
+              <TableCell key={metric} align="right">
+                {PERFORMANCE_METRICS[metric].label}
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {groups.map(group => (
+            <TableRow key={group.key} hover>
+              <TableCell sx={{ minWidth: 180 }}>
+                <Typography variant="body2">
+                  {getGroupName(group.key)}
+                </Typography>
+                <Box display="flex" alignItems="center" gap={1}>
+                  <LinearProgress
+                    variant="determinate"
+                    value={(Math.abs(group.performance[highlightMetric]) / maxHighlight) * 100}
+                    color={group.performance[highlightMetric] < 0 ? 'error' : 'primary'}
+                    className="flex-1"
+                  />
+                  <Typography variant="caption" color="text.secondary">
+                    {group.adCount} ad{group.adCount === 1 ? '' : 's'}
+                  </Typography>
+                </Box>
+              </TableCell>
+              {COLUMNS.map(metric => (
+                <TableCell key={metric} align="right">
+                  {formatMetricValue(metric, group.performance[metric])}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export default PerformanceTable;
@@ -0,0 +1,61 @@
+import React from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import ErrorIcon from '@mui/icons-material/Error';
+import { BulkActionResult } from '../../utils/bulk';
+
+interface BulkResultDialogProps {
+  open: boolean;
+  title: string;
+  result: BulkActionResult | null;
+  getItemLabel: (id: string) => string;
+  onClose: () => void;
+}
+
+/**
+ * Lists the outcome of a bulk action item by item, failures first
+ */
+const BulkResultDialog: React.FC<BulkResultDialogProps> = ({ open, title, result, getItemLabel, onClose }) => {
+  const items = result ? [...result.failed, ...result.results.filter(item => item.success)] : [];
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent dividers>
+        {result && (
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            {result.succeeded.length} succeeded, {result.failed.length} failed
+          </Typography>
+        )}
+        <List dense>
+          {items.map(item => (
+            <ListItem key={item.id} disableGutters>
+              <ListItemIcon sx={{ minWidth: 36 }}>
+                {item.success
+                  ? <CheckCircleIcon color="success" fontSize="small" />
+                  : <ErrorIcon color="error" fontSize="small" />}
+              </ListItemIcon>
+              <ListItemText primary={getItemLabel(item.id)} secondary={item.error} />
+            </ListItem>
+          ))}
+        </List>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default BulkResultDialog;
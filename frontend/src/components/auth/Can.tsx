@@ -0,0 +1,18 @@
+import React from 'react';
+import { usePermissions } from '../../hooks/usePermissions';
+
+interface CanProps {
+  permission: string;
+  children: React.ReactNode;
+  fallback?: React.ReactNode; // Rendered when the user lacks the permission
+}
+
+/**
+ * Render children only if the logged-in user has a permission
+ */
+const Can: React.FC<CanProps> = ({ permission, children, fallback = null }) => {
+  const { can } = usePermissions();
+  return <>{can(permission) ? children : fallback}</>;
+};
+
+export default Can;
@@ -0,0 +1,77 @@
+import React, { useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { Box, Button, CircularProgress, Container, Typography } from '@mui/material';
+import LockIcon from '@mui/icons-material/Lock';
+import { useAuth } from '../../context/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+
+interface RequireAuthProps {
+  children: React.ReactNode;
+  permission?: string; // Optional permission needed to view the page
+}
+
+/**
+ * Layout wrapper that only renders its children for logged-in users
+ *
+ * Anonymous users are redirected to the login page with a `returnTo`
+ * parameter so they come back here after logging in.
+ */
+export const RequireAuth: React.FC<RequireAuthProps> = ({ children, permission }) => {
+  const router = useRouter();
+  const { user, loading } = useAuth();
+  const { can } = usePermissions();
+
+  useEffect(() => {
+    if (!loading && !user && router.isReady) {
+      router.replace(`/login?returnTo=${encodeURIComponent(router.asPath)}`);
+    }
+  }, [loading, user, router]);
+
+  if (loading || !user) {
+    return (
+      <Box className="min-h-screen flex items-center justify-center">
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (permission && !can(permission)) {
+    return (
+      <Container maxWidth="sm" className="py-20 text-center">
+        <LockIcon color="disabled" sx={{ fontSize: 48, mb: 2 }} />
+        <Typography variant="h5" gutterBottom>
+          You don&apos;t have access to this page
+        </Typography>
+        <Typography variant="body1" color="text.secondary" paragraph>
+          Upgrade your plan or ask your administrator for access.
+        </Typography>
+        <Button component={Link} href="/dashboard" variant="contained">
+          Back to Dashboard
+        </Button>
+      </Container>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+/**
+ * Page-level HOC that wraps a page in RequireAuth
+ * @param Page - Page component to protect
+ * @param options - Optional permission needed to view the page
+ * @returns Protected page component
+ */
+export function withAuth<P extends object>(Page: React.ComponentType<P>, options: { permission?: string } = {}) {
+  const ProtectedPage = (props: P) => (
+    <RequireAuth permission={options.permission}>
+      <Page {...props} />
+    </RequireAuth>
+  );
+
+  ProtectedPage.displayName = `withAuth(${Page.displayName || Page.name || 'Page'})`;
+
+  return ProtectedPage;
+}
+
+export default RequireAuth;
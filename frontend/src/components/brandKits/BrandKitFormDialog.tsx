@@ -0,0 +1,334 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Autocomplete,
+  Avatar,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  LinearProgress,
+  MenuItem,
+  Radio,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import CloudUploadIcon from '@mui/icons-material/CloudUpload';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { BrandColor, BrandKit, BrandKitInput, BrandLogo } from '../../api/brandKit.service';
+import MediaService from '../../api/media.service';
+import FeedbackToast from '../ui/FeedbackToast';
+import { useFormValidation, validationRules } from '../../hooks/useFormValidation';
+import { FONT_FAMILIES, LogoPosition } from '../../types/ad';
+import { LOGO_POSITIONS } from '../../utils/brandKit';
+import { formatFileSize, isValidImage, MAX_IMAGE_SIZE } from '../../utils/image';
+
+interface BrandKitFormData {
+  name: string;
+  logos: BrandLogo[];
+  palette: BrandColor[];
+  headingFont: string;
+  bodyFont: string;
+  tone: string;
+  bannedWords: string[];
+}
+
+interface BrandKitFormDialogProps {
+  open: boolean;
+  brandKit?: BrandKit | null; // Brand kit to edit; omit to create a new one
+  loading?: boolean;
+  onSubmit: (data: BrandKitInput) => void;
+  onClose: () => void;
+}
+
+const EMPTY_FORM: BrandKitFormData = {
+  name: '',
+  logos: [],
+  palette: [{ name: 'Primary', hex: '#4f46e5' }],
+  headingFont: '',
+  bodyFont: '',
+  tone: '',
+  bannedWords: [],
+};
+
+const brandKitValidationRules = {
+  name: [validationRules.required('Name is required'), validationRules.maxLength(60)],
+  tone: [validationRules.maxLength(500)],
+};
+
+/**
+ * Dialog for creating a brand kit or editing an existing one
+ */
+const BrandKitFormDialog: React.FC<BrandKitFormDialogProps> = ({
+  open,
+  brandKit,
+  loading = false,
+  onSubmit,
+  onClose,
+}) => {
+  const isEditing = !!brandKit;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const { formData, handleChange, handleSubmit, resetForm, getFieldProps } = useFormValidation<BrandKitFormData>(
+    EMPTY_FORM,
+    brandKitValidationRules
+  );
+
+  // Load the brand kit into the form each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    resetForm(brandKit ? {
+      name: brandKit.name,
+      logos: brandKit.logos,
+      palette: brandKit.palette,
+      headingFont: brandKit.fonts.heading || '',
+      bodyFont: brandKit.fonts.body || '',
+      tone: brandKit.voice.tone,
+      bannedWords: brandKit.voice.bannedWords,
+    } : EMPTY_FORM);
+  }, [open, brandKit, resetForm]);
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    if (!isValidImage(file)) {
+      FeedbackToast.error(`Please choose a JPEG, PNG, GIF or WebP image under ${formatFileSize(MAX_IMAGE_SIZE, 0)}`, 'Invalid Logo');
+      return;
+    }
+
+    try {
+      setUploadProgress(0);
+      const uploaded = await MediaService.uploadLogo(file, setUploadProgress);
+      handleChange('logos', [
+        ...formData.logos,
+        {
+          url: uploaded.fileUrl,
+          publicId: uploaded.publicId,
+          label: file.name.replace(/\.[^.]+$/, ''),
+          position: 'bottom-right',
+          isDefault: formData.logos.length === 0,
+        },
+      ]);
+    } catch (error: any) {
+      FeedbackToast.error(error.response?.data?.message || 'Failed to upload logo', 'Upload Failed');
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const updateLogo = (index: number, changes: Partial<BrandLogo>) => {
+    handleChange('logos', formData.logos.map((logo, i) => (i === index ? { ...logo, ...changes } : logo)));
+  };
+
+  // Exactly one logo is the default while there are any
+  const setDefaultLogo = (index: number) => {
+    handleChange('logos', formData.logos.map((logo, i) => ({ ...logo, isDefault: i === index })));
+  };
+
+  const removeLogo = (index: number) => {
+    const logos = formData.logos.filter((_, i) => i !== index);
+    if (logos.length > 0 && !logos.some(logo => logo.isDefault)) {
+      logos[0] = { ...logos[0], isDefault: true };
+    }
+    handleChange('logos', logos);
+  };
+
+  const updateColor = (index: number, changes: Partial<BrandColor>) => {
+    handleChange('palette', formData.palette.map((color, i) => (i === index ? { ...color, ...changes } : color)));
+  };
+
+  const onFormSubmit = handleSubmit((data) => {
+    onSubmit({
+      name: data.name.trim(),
+      logos: data.logos,
+      palette: data.palette.map(color => ({ ...color, name: color.name?.trim() || undefined })),
+      fonts: {
+        heading: data.headingFont.trim() || undefined,
+        body: data.bodyFont.trim() || undefined,
+      },
+      voice: {
+        tone: data.tone.trim(),
+        bannedWords: data.bannedWords,
+      },
+    });
+  });
+
+  return (
+    <Dialog open={open} onClose={loading ? undefined : onClose} fullWidth maxWidth="md">
+      <form onSubmit={onFormSubmit} noValidate>
+        <DialogTitle>{isEditing ? 'Edit Brand Kit' : 'New Brand Kit'}</DialogTitle>
+        <DialogContent>
+          <TextField
+            label="Brand name"
+            fullWidth
+            margin="normal"
+            autoFocus
+            {...getFieldProps('name')}
+          />
+
+          <Typography variant="subtitle1" fontWeight={600} mt={2}>
+            Logos
+          </Typography>
+          <Typography variant="body2" color="text.secondary" mb={1}>
+            The default logo is added to generated ads in its own position.
+          </Typography>
+          {formData.logos.map((logo, index) => (
+            <Box key={logo.url} display="flex" alignItems="center" gap={2} mb={1}>
+              <Tooltip title="Default logo">
+                <Radio checked={!!logo.isDefault} onChange={() => setDefaultLogo(index)} size="small" />
+              </Tooltip>
+              <Avatar src={logo.url} alt={logo.label} variant="rounded" sx={{ width: 48, height: 48, bgcolor: 'grey.100' }} />
+              <TextField
+                label="Label"
+                size="small"
+                value={logo.label || ''}
+                onChange={(e) => updateLogo(index, { label: e.target.value })}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                select
+                label="Position"
+                size="small"
+                value={logo.position}
+                onChange={(e) => updateLogo(index, { position: e.target.value as LogoPosition })}
+                sx={{ minWidth: 150 }}
+              >
+                {LOGO_POSITIONS.map(option => (
+                  <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                ))}
+              </TextField>
+              <IconButton aria-label="Remove logo" onClick={() => removeLogo(index)}>
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+          {uploadProgress !== null && <LinearProgress variant="determinate" value={uploadProgress} sx={{ my: 1 }} />}
+          <input ref={fileInputRef} type="file" accept="image/*" hidden onChange={handleLogoChange} />
+          <Button
+            size="small"
+            startIcon={<CloudUploadIcon />}
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploadProgress !== null}
+          >
+            Upload Logo
+          </Button>
+
+          <Typography variant="subtitle1" fontWeight={600} mt={3}>
+            Color palette
+          </Typography>
+          <Typography variant="body2" color="text.secondary" mb={1}>
+            The first color is used as the primary color of new ads.
+          </Typography>
+          {formData.palette.map((color, index) => (
+            <Box key={index} display="flex" alignItems="center" gap={2} mb={1}>
+              <input
+                type="color"
+                value={color.hex}
+                onChange={(e) => updateColor(index, { hex: e.target.value })}
+                className="w-10 h-10 rounded cursor-pointer"
+                style={{ border: 'none' }}
+                aria-label={`Color ${index + 1}`}
+              />
+              <TextField
+                label="Name"
+                size="small"
+                value={color.name || ''}
+                onChange={(e) => updateColor(index, { name: e.target.value })}
+                sx={{ flex: 1 }}
+              />
+              <Typography variant="body2" sx={{ width: 72 }}>{color.hex.toUpperCase()}</Typography>
+              <IconButton
+                aria-label="Remove color"
+                onClick={() => handleChange('palette', formData.palette.filter((_, i) => i !== index))}
+                disabled={formData.palette.length === 1}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+          <Button
+            size="small"
+            startIcon={<AddIcon />}
+            onClick={() => handleChange('palette', [...formData.palette, { hex: '#000000' }])}
+          >
+            Add Color
+          </Button>
+
+          <Typography variant="subtitle1" fontWeight={600} mt={3}>
+            Fonts
+          </Typography>
+          <Box display="flex" gap={2}>
+            <Autocomplete
+              freeSolo
+              fullWidth
+              options={FONT_FAMILIES as string[]}
+              value={formData.headingFont}
+              onInputChange={(_, value) => handleChange('headingFont', value)}
+              renderInput={(params) => <TextField {...params} label="Headings" margin="normal" />}
+            />
+            <Autocomplete
+              freeSolo
+              fullWidth
+              options={FONT_FAMILIES as string[]}
+              value={formData.bodyFont}
+              onInputChange={(_, value) => handleChange('bodyFont', value)}
+              renderInput={(params) => <TextField {...params} label="Body text" margin="normal" />}
+            />
+          </Box>
+
+          <Typography variant="subtitle1" fontWeight={600} mt={3}>
+            Voice
+          </Typography>
+          <TextField
+            label="Tone of voice"
+            fullWidth
+            margin="normal"
+            multiline
+            minRows={2}
+            placeholder="Warm and down to earth. Short sentences, no jargon, always speak to the reader as 'you'."
+            {...getFieldProps('tone')}
+          />
+          <Autocomplete
+            multiple
+            freeSolo
+            options={[]}
+            value={formData.bannedWords}
+            onChange={(_, words) => handleChange('bannedWords', Array.from(new Set(words.map(word => word.trim()).filter(Boolean))))}
+            renderTags={(words, getTagProps) =>
+              words.map((word, index) => (
+                <Chip label={word} size="small" color="error" variant="outlined" {...getTagProps({ index })} key={word} />
+              ))
+            }
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                label="Banned words"
+                margin="normal"
+                helperText="Generated copy never uses these. Press Enter to add a word or phrase."
+              />
+            )}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="contained" disabled={loading || uploadProgress !== null}>
+            {loading ? <CircularProgress size={20} color="inherit" /> : isEditing ? 'Save Changes' : 'Create Brand Kit'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
+
+export default BrandKitFormDialog;
@@ -0,0 +1,164 @@
+import React, { useEffect } from 'react';
+import {
+  Autocomplete,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  MenuItem,
+  Switch,
+  TextField,
+} from '@mui/material';
+import { Campaign, CampaignStatus, CAMPAIGN_STATUSES, CreateCampaignInput, UpdateCampaignInput } from '../../api/campaign.service';
+import { useFormValidation, validationRules } from '../../hooks/useFormValidation';
+
+interface CampaignFormData {
+  title: string;
+  description: string;
+  tags: string[];
+  isPublic: boolean;
+  status: CampaignStatus;
+}
+
+interface CampaignFormDialogProps {
+  open: boolean;
+  campaign?: Campaign | null; // Campaign to edit; omit to create a new one
+  availableTags?: string[]; // Tags already used by other campaigns, offered as suggestions
+  loading?: boolean;
+  onSubmit: (data: CreateCampaignInput | UpdateCampaignInput) => void;
+  onClose: () => void;
+}
+
+const EMPTY_FORM: CampaignFormData = {
+  title: '',
+  description: '',
+  tags: [],
+  isPublic: false,
+  status: 'draft',
+};
+
+const campaignValidationRules = {
+  title: [validationRules.required('Title is required'), validationRules.maxLength(100)],
+  description: [validationRules.maxLength(500)],
+};
+
+/**
+ * Dialog for creating a campaign or editing an existing one
+ */
+const CampaignFormDialog: React.FC<CampaignFormDialogProps> = ({
+  open,
+  campaign,
+  availableTags = [],
+  loading = false,
+  onSubmit,
+  onClose,
+}) => {
+  const isEditing = !!campaign;
+  const { formData, handleChange, handleSubmit, resetForm, getFieldProps } = useFormValidation<CampaignFormData>(
+    EMPTY_FORM,
+    campaignValidationRules
+  );
+
+  // Load the campaign into the form each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    resetForm(campaign ? {
+      title: campaign.title,
+      description: campaign.description || '',
+      tags: campaign.tags || [],
+      isPublic: campaign.isPublic,
+      status: campaign.status,
+    } : EMPTY_FORM);
+  }, [open, campaign, resetForm]);
+
+  const onFormSubmit = handleSubmit((data) => {
+    const input: CreateCampaignInput = {
+      title: data.title.trim(),
+      description: data.description.trim() || undefined,
+      tags: data.tags,
+      isPublic: data.isPublic,
+    };
+
+    onSubmit(isEditing ? { ...input, status: data.status } : input);
+  });
+
+  return (
+    <Dialog open={open} onClose={loading ? undefined : onClose} fullWidth maxWidth="sm">
+      <form onSubmit={onFormSubmit} noValidate>
+        <DialogTitle>{isEditing ? 'Edit Campaign' : 'New Campaign'}</DialogTitle>
+        <DialogContent>
+          <TextField
+            label="Title"
+            fullWidth
+            margin="normal"
+            autoFocus
+            {...getFieldProps('title')}
+          />
+          <TextField
+            label="Description"
+            fullWidth
+            margin="normal"
+            multiline
+            minRows={3}
+            {...getFieldProps('description')}
+          />
+          <Autocomplete
+            multiple
+            freeSolo
+            options={availableTags}
+            value={formData.tags}
+            onChange={(_, tags) => handleChange('tags', Array.from(new Set(tags.map(tag => tag.trim()).filter(Boolean))))}
+            renderTags={(tags, getTagProps) =>
+              tags.map((tag, index) => (
+                <Chip label={tag} size="small" {...getTagProps({ index })} key={tag} />
+              ))
+            }
+            renderInput={(params) => (
+              <TextField {...params} label="Tags" margin="normal" helperText="Press Enter to add a tag" />
+            )}
+          />
+          {isEditing && (
+            <TextField
+              select
+              label="Status"
+              fullWidth
+              margin="normal"
+              value={formData.status}
+              onChange={(e) => handleChange('status', e.target.value)}
+            >
+              {CAMPAIGN_STATUSES.map(status => (
+                <MenuItem key={status} value={status} className="capitalize">
+                  {status}
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
+          <FormControlLabel
+            control={
+              <Switch
+                checked={formData.isPublic}
+                onChange={(e) => handleChange('isPublic', e.target.checked)}
+              />
+            }
+            label="Public campaign"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="contained" disabled={loading}>
+            {loading ? <CircularProgress size={20} color="inherit" /> : isEditing ? 'Save Changes' : 'Create Campaign'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
+
+export default CampaignFormDialog;
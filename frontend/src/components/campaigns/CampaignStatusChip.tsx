@@ -0,0 +1,24 @@
+import React from 'react';
+import { Chip } from '@mui/material';
+import { CampaignStatus } from '../../api/campaign.service';
+
+// Chip colours for each campaign status
+const STATUS_COLORS: Record<CampaignStatus, 'default' | 'primary' | 'success' | 'warning'> = {
+  draft: 'default',
+  active: 'primary',
+  completed: 'success',
+  archived: 'warning',
+};
+
+interface CampaignStatusChipProps {
+  status: CampaignStatus;
+}
+
+/**
+ * Small coloured chip showing a campaign's status
+ */
+const CampaignStatusChip: React.FC<CampaignStatusChipProps> = ({ status }) => (
+  <Chip label={status} size="small" color={STATUS_COLORS[status]} className="capitalize" />
+);
+
+export default CampaignStatusChip;
@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardActions,
+  CardContent,
+  CircularProgress,
+  Grid,
+  IconButton,
+  MenuItem,
+  Paper,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import AutoAwesomeIcon from '@mui/icons-material/AutoAwesome';
+import CheckIcon from '@mui/icons-material/Check';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import CreditCost from '../ui/CreditCost';
+import { BrandKit } from '../../api/brandKit.service';
+import { AdCopy, AdCopyInput } from '../../api/generation.service';
+import { useAdCopy } from '../../hooks/useAdCopy';
+import { useCredits } from '../../hooks/useCredits';
+import { AD_COPY_FIELDS, AD_COPY_TONES, AdCopyField, MAX_DESCRIPTION_LENGTH } from '../../utils/adCopy';
+import { applyBrandVoice, findBannedWords, findBannedWordsInCopy, getBannedWordsMessage } from '../../utils/brandKit';
+import { formatCredits } from '../../utils/credits';
+
+interface AdCopyAssistantProps {
+  current: AdCopy; // Copy currently in the form, to mark which suggestions are in use
+  onApply: (field: AdCopyField, value: string) => void;
+  brandKit?: BrandKit | null; // Its voice guides the copy and its banned words are kept out
+  variationCount?: number;
+}
+
+// Shortest description length worth asking the generator for
+const MIN_DESCRIPTION_LENGTH = 20;
+
+/**
+ * Generates ad copy variations side by side; any field of any variation can
+ * be applied to the form, so copy can be mixed across variations
+ */
+const AdCopyAssistant: React.FC<AdCopyAssistantProps> = ({ current, onApply, brandKit, variationCount = 3 }) => {
+  const [productName, setProductName] = useState('');
+  const [productDescription, setProductDescription] = useState('');
+  const [tone, setTone] = useState<string>(AD_COPY_TONES[0]);
+  const [maxLength, setMaxLength] = useState(MAX_DESCRIPTION_LENGTH);
+  const [variations, setVariations] = useState<AdCopy[]>([]);
+  const [regenerating, setRegenerating] = useState<{ index: number; field: AdCopyField } | null>(null);
+
+  const { generateCopyVariations, isGeneratingVariations, generateCopy, isGeneratingCopy } = useAdCopy();
+  const { getCreditCheck } = useCredits();
+  const variationsCheck = getCreditCheck('AD_COPY_VARIATIONS');
+  const copyCheck = getCreditCheck('AD_COPY_GENERATION');
+
+  const input: AdCopyInput = applyBrandVoice({
+    productName: productName.trim(),
+    productDescription: productDescription.trim(),
+    tone,
+    maxLength: Math.min(MAX_DESCRIPTION_LENGTH, Math.max(MIN_DESCRIPTION_LENGTH, maxLength)),
+  }, brandKit);
+  const bannedWords = brandKit?.voice.bannedWords;
+
+  const handleGenerate = async () => {
+    try {
+      setVariations(await generateCopyVariations(input, variationCount));
+    } catch (err) {
+      // Already shown as a toast
+    }
+  };
+
+  // Replace one field of one variation with a fresh suggestion
+  const handleRegenerate = async (index: number, field: AdCopyField) => {
+    try {
+      setRegenerating({ index, field });
+      const copy = await generateCopy(input);
+      setVariations(prev => prev.map((variation, i) => (i === index ? { ...variation, [field]: copy[field] } : variation)));
+    } catch (err) {
+      // Already shown as a toast
+    } finally {
+      setRegenerating(null);
+    }
+  };
+
+  const handleApplyAll = (variation: AdCopy) => {
+    AD_COPY_FIELDS.forEach(({ field }) => onApply(field, variation[field]));
+  };
+
+  return (
+    <Paper variant="outlined" className="p-4">
+      <Box display="flex" alignItems="center" gap={1} mb={2}>
+        <AutoAwesomeIcon color="primary" />
+        <Typography variant="subtitle1" fontWeight={600}>
+          AI Copy Assistant
+        </Typography>
+      </Box>
+
+      <Grid container spacing={2}>
+        <Grid item xs={12} sm={6}>
+          <TextField
+            label="Product name"
+            size="small"
+            fullWidth
+            required
+            value={productName}
+            onChange={(e) => setProductName(e.target.value)}
+          />
+        </Grid>
+        <Grid item xs={6} sm={3}>
+          <TextField
+            select
+            label="Tone"
+            size="small"
+            fullWidth
+            disabled={!!input.brandVoice}
+            helperText={input.brandVoice ? 'Set by the brand kit' : undefined}
+            value={tone}
+            onChange={(e) => setTone(e.target.value)}
+          >
+            {AD_COPY_TONES.map(option => (
+              <MenuItem key={option} value={option} className="capitalize">
+                {option}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Grid>
+        <Grid item xs={6} sm={3}>
+          <TextField
+            label="Max length"
+            type="number"
+            size="small"
+            fullWidth
+            value={maxLength}
+            onChange={(e) => setMaxLength(Number(e.target.value) || 0)}
+            inputProps={{ min: MIN_DESCRIPTION_LENGTH, max: MAX_DESCRIPTION_LENGTH }}
+            helperText="Description characters"
+          />
+        </Grid>
+        <Grid item xs={12}>
+          <TextField
+            label="Product description"
+            size="small"
+            fullWidth
+            multiline
+            minRows={2}
+            value={productDescription}
+            onChange={(e) => setProductDescription(e.target.value)}
+            helperText="What it is, who it's for and what makes it stand out"
+          />
+        </Grid>
+      </Grid>
+
+      <Box display="flex" justifyContent="flex-end" alignItems="center" gap={2} mt={2}>
+        <CreditCost check={variationsCheck} />
+        <Button
+          variant="contained"
+          onClick={handleGenerate}
+          disabled={!input.productName || isGeneratingVariations || !variationsCheck.isAffordable}
+          startIcon={isGeneratingVariations ? <CircularProgress size={16} color="inherit" /> : <AutoAwesomeIcon />}
+        >
+          {variations.length > 0 ? 'Regenerate All' : 'Generate Copy'}
+        </Button>
+      </Box>
+
+      {variations.length > 0 && (
+        <Grid container spacing={2} mt={1}>
+          {variations.map((variation, index) => (
+            <Grid item xs={12} md={12 / Math.min(variations.length, 3)} key={index}>
+              <Card variant="outlined" className="h-full flex flex-col">
+                <CardContent className="flex-1">
+                  <Typography variant="overline" color="text.secondary">
+                    Variation {index + 1}
+                  </Typography>
+                  {AD_COPY_FIELDS.map(({ field, label }) => {
+                    const isApplied = !!variation[field] && current[field] === variation[field];
+                    const isRegenerating = regenerating?.index === index && regenerating.field === field;
+                    const fieldBannedWords = findBannedWords(variation[field] || '', bannedWords);
+
+                    return (
+                      <Box key={field} mb={1.5}>
+                        <Box display="flex" alignItems="center" justifyContent="space-between">
+                          <Typography variant="caption" color="text.secondary">
+                            {label}
+                          </Typography>
+                          <Box display="flex">
+                            <Tooltip title={`Regenerate ${label.toLowerCase()} (${formatCredits(copyCheck.cost)})`}>
+                              <span>
+                                <IconButton
+                                  size="small"
+                                  aria-label={`Regenerate ${label.toLowerCase()}`}
+                                  onClick={() => handleRegenerate(index, field)}
+                                  disabled={isGeneratingCopy || !copyCheck.isAffordable}
+                                >
+                                  {isRegenerating ? <CircularProgress size={16} /> : <RefreshIcon fontSize="small" />}
+                                </IconButton>
+                              </span>
+                            </Tooltip>
+                            <Tooltip
+                              title={fieldBannedWords.length > 0
+                                ? getBannedWordsMessage(fieldBannedWords)
+                                : isApplied ? 'In use' : `Use this ${label.toLowerCase()}`}
+                            >
+                              <span>
+                                <IconButton
+                                  size="small"
+                                  aria-label={`Use this ${label.toLowerCase()}`}
+                                  color={isApplied ? 'success' : 'default'}
+                                  onClick={() => onApply(field, variation[field])}
+                                  disabled={!variation[field] || fieldBannedWords.length > 0}
+                                >
+                                  <CheckIcon fontSize="small" />
+                                </IconButton>
+                              </span>
+                            </Tooltip>
+                          </Box>
+                        </Box>
+                        <Typography
+                          variant="body2"
+                          className={field === 'title' ? 'font-semibold' : undefined}
+                          color={fieldBannedWords.length > 0 ? 'error' : undefined}
+                        >
+                          {variation[field] || '—'}
+                        </Typography>
+                      </Box>
+                    );
+                  })}
+                </CardContent>
+                <CardActions>
+                  <Button
+                    size="small"
+                    onClick={() => handleApplyAll(variation)}
+                    disabled={findBannedWordsInCopy(variation, bannedWords).length > 0}
+                  >
+                    Use all
+                  </Button>
+                </CardActions>
+              </Card>
+            </Grid>
+          ))}
+        </Grid>
+      )}
+    </Paper>
+  );
+};
+
+export default AdCopyAssistant;
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { 
   Box, 
   TextField, 
@@ -18,6 +18,11 @@ import {
   Tabs,
   Tab,
   Alert,
+  Checkbox,
+  CircularProgress,
+  FormControlLabel,
+  ToggleButton,
+  ToggleButtonGroup,
   SelectChangeEvent
 } from '@mui/material';
 import { useDropzone } from 'react-dropzone';
@@ -27,67 +32,172 @@ import VideoLibraryIcon from '@mui/icons-material/VideoLibrary';
 import FormatColorTextIcon from '@mui/icons-material/FormatColorText';
 import StyleIcon from '@mui/icons-material/Style';
 import PublishIcon from '@mui/icons-material/Publish';
+import BookmarkAddIcon from '@mui/icons-material/BookmarkAdd';
+import CropIcon from '@mui/icons-material/Crop';
 
 import Button from '../ui/Button';
-import { isValidImage, getImageDimensions, resizeImage, formatFileSize } from '../../utils/image';
+import CreditCost from '../ui/CreditCost';
+import AdPlacementPreview from '../ui/AdPlacementPreview';
+import TextSafeZonePreview from '../ui/TextSafeZonePreview';
+import AdCopyAssistant from './AdCopyAssistant';
+import CarouselBuilder from './CarouselBuilder';
+import VideoBuilder from './VideoBuilder';
+import ImageEditorDialog from './ImageEditorDialog';
+import CarouselPreview from '../ui/CarouselPreview';
+import { BrandKit } from '../../api/brandKit.service';
+import { VideoOptions } from '../../api/generation.service';
+import { useAuth } from '../../context/AuthContext';
+import { useAdDefaults } from '../../hooks/useAdDefaults';
+import { useBrandKits } from '../../hooks/useBrandKits';
+import { useCredits } from '../../hooks/useCredits';
+import { useTextCoverage } from '../../hooks/useTextCoverage';
+import { AdCopyField, MAX_DESCRIPTION_LENGTH } from '../../utils/adCopy';
+import {
+  CarouselCard,
+  CarouselValidationResult,
+  createCarouselCard,
+  validateCarouselCards,
+} from '../../utils/carousel';
+import { LOGO_POSITIONS, findBannedWords, getBannedWordsMessage, getDefaultLogo, toAdLogo } from '../../utils/brandKit';
+import {
+  isValidImage,
+  getImageDimensions,
+  formatFileSize,
+  getTextPlacementWarnings,
+  MAX_IMAGE_SIZE,
+} from '../../utils/image';
+import { MAX_SOURCE_IMAGE_SIZE, getCompressionSummary, isCompressibleImage } from '../../utils/compression';
+import { compressImage } from '../../workers/imageCompression';
+import { ImageEdits, getCroppedFocalPoint, getRotatedSize, renderEditedImage } from '../../utils/imageEditor';
+import {
+  MAX_VIDEO_SCENES,
+  VideoScene,
+  createVideoScene,
+  getVideoDuration,
+  validateVideoScenes,
+} from '../../utils/video';
+import {
+  AdStyle,
+  AdFormat,
+  AdLogo,
+  CreativeFormat,
+  FocalPoint,
+  LogoPosition,
+  TitlePosition,
+  AD_STYLES,
+  AD_FORMATS,
+  AD_FORMAT_SPECS,
+  CALL_TO_ACTIONS,
+  TITLE_POSITIONS,
+  adTypeToCreativeFormat,
+  creativeFormatToAdType,
+  findTemplatePlaceholders,
+  getAdFormatLabel,
+} from '../../types/ad';
 
-// Define ad styles
-const AD_STYLES = [
-  { id: 'professional', name: 'Professional', description: 'Clean, corporate look suitable for business ads' },
-  { id: 'vibrant', name: 'Vibrant', description: 'Bold, colorful style to grab attention' },
-  { id: 'minimalist', name: 'Minimalist', description: 'Simple, elegant design with lots of whitespace' },
-  { id: 'retro', name: 'Retro', description: 'Vintage look with classic design elements' },
-  { id: 'futuristic', name: 'Futuristic', description: 'Modern, tech-inspired aesthetic' },
-];
+// Display details for each ad style - keyed by AdStyle so every style is selectable
+const AD_STYLE_DETAILS: Record<AdStyle, { name: string; description: string }> = {
+  professional: { name: 'Professional', description: 'Clean, corporate look suitable for business ads' },
+  vibrant: { name: 'Vibrant', description: 'Bold, colorful style to grab attention' },
+  minimalist: { name: 'Minimalist', description: 'Simple, elegant design with lots of whitespace' },
+  retro: { name: 'Retro', description: 'Vintage look with classic design elements' },
+  futuristic: { name: 'Futuristic', description: 'Modern, tech-inspired aesthetic' },
+  premium: { name: 'Premium', description: 'Luxury, high-end aesthetic' },
+  playful: { name: 'Playful', description: 'Fun, energetic style' },
+  modern: { name: 'Modern', description: 'Contemporary design with clean lines' },
+  urgent: { name: 'Urgent', description: 'Attention-grabbing style for promotions' },
+  seasonal: { name: 'Seasonal', description: 'Holiday or season-specific look' },
+  comparison: { name: 'Comparison', description: 'Before/after and side-by-side layouts' },
+  bold: { name: 'Bold', description: 'High-contrast visuals with heavy typography' },
+  elegant: { name: 'Elegant', description: 'Refined, sophisticated look for lifestyle brands' },
+  trustworthy: { name: 'Trustworthy', description: 'Calm, reassuring style for service businesses' },
+};
+
+// Error for template placeholders left in the copy, e.g. "Replace {product} with your own text"
+const getUnresolvedPlaceholdersMessage = (text: string) =>
+  `Replace ${findTemplatePlaceholders(text).map(key => `{${key}}`).join(', ')} with your own text`;
 
-// Define ad formats
-const AD_FORMATS = [
-  { id: 'square', name: 'Square (1:1)', dimensions: '1080 x 1080 px' },
-  { id: 'portrait', name: 'Portrait (4:5)', dimensions: '1080 x 1350 px' },
-  { id: 'landscape', name: 'Landscape (16:9)', dimensions: '1920 x 1080 px' },
-  { id: 'story', name: 'Story (9:16)', dimensions: '1080 x 1920 px' },
-];
+const CREATIVE_FORMAT_NAMES: Record<CreativeFormat, string> = {
+  'single-image': 'Single Image',
+  carousel: 'Carousel',
+  video: 'Video',
+  collection: 'Collection',
+  slideshow: 'Slideshow',
+};
 
-interface AdFormData {
+export interface AdFormData {
   title: string;
   description: string;
   callToAction: string;
-  adStyle: string;
-  adFormat: string;
+  adStyle: AdStyle;
+  adFormat: AdFormat;
+  creativeFormat: CreativeFormat;
   primaryColor: string;
+  titlePosition: TitlePosition;
   imageFile?: File | null;
+  focalPoint?: FocalPoint; // Within imageFile, set when the image was edited
+  carouselCards: CarouselCard[]; // Used instead of imageFile for carousels
+  videoScenes: VideoScene[]; // Used instead of imageFile for videos built from images
+  videoOptions: VideoOptions;
   isVideo: boolean;
+  brandKit?: BrandKit | null;
+  logo?: AdLogo;
 }
 
+// What the ad is built from: one image or video, carousel cards, or images played as a video
+type MediaMode = 'single' | 'carousel' | 'slideshow';
+
 interface AdCreationFormProps {
   initialData?: Partial<AdFormData>;
   onSubmit: (data: AdFormData) => void;
   isSubmitting?: boolean;
+  onSaveAsTemplate?: (data: AdFormData) => void; // Offers saving the form so far as a template
 }
 
 const AdCreationForm: React.FC<AdCreationFormProps> = ({
   initialData,
   onSubmit,
   isSubmitting = false,
+  onSaveAsTemplate,
 }) => {
-  // Form state
+  const { user } = useAuth();
+  const { defaults } = useAdDefaults();
+  const { getCreditCheck } = useCredits();
+  const { brandKits = [], isLoadingBrandKits } = useBrandKits();
+  
+  // Form state, prefilled from the template and then the user's ad defaults
   const [formData, setFormData] = useState<AdFormData>({
     title: initialData?.title || '',
     description: initialData?.description || '',
     callToAction: initialData?.callToAction || 'Shop Now',
-    adStyle: initialData?.adStyle || 'professional',
-    adFormat: initialData?.adFormat || 'square',
-    primaryColor: initialData?.primaryColor || '#4f46e5',
+    adStyle: initialData?.adStyle || defaults.adStyle,
+    adFormat: initialData?.adFormat || defaults.adFormat,
+    creativeFormat: initialData?.creativeFormat || 'single-image',
+    primaryColor: initialData?.primaryColor || defaults.primaryColor,
+    titlePosition: initialData?.titlePosition || 'center',
+    carouselCards: initialData?.carouselCards
+      || (initialData?.creativeFormat === 'carousel' ? [createCarouselCard(), createCarouselCard()] : []),
     imageFile: initialData?.imageFile || null,
+    videoScenes: initialData?.videoScenes || [],
+    videoOptions: initialData?.videoOptions || {},
     isVideo: initialData?.isVideo || false,
+    brandKit: initialData?.brandKit || null,
+    logo: initialData?.logo,
   });
   
+  // Include a template's custom call to action alongside the standard ones
+  const callToActionOptions = CALL_TO_ACTIONS.includes(formData.callToAction)
+    ? CALL_TO_ACTIONS
+    : [...CALL_TO_ACTIONS, formData.callToAction].filter(Boolean);
+  
   // Form errors
   const [errors, setErrors] = useState<Record<string, string>>({});
   
-  // Step tracking
+  // Step tracking; videos get an extra step for scenes, music and voiceover
   const [activeStep, setActiveStep] = useState(0);
-  const steps = ['Upload Media', 'Ad Content', 'Style & Format', 'Review'];
+  const steps = formData.isVideo
+    ? ['Upload Media', 'Ad Content', 'Video', 'Style & Format', 'Review']
+    : ['Upload Media', 'Ad Content', 'Style & Format', 'Review'];
   
   // Tab state for style selection
   const [styleTab, setStyleTab] = useState(0);
@@ -101,71 +211,114 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
   // File info
   const [fileInfo, setFileInfo] = useState<{name: string, size: string, type: string} | null>(null);
   
+  // Uploaded images are compressed before use; camera metadata is stripped unless kept
+  const [keepImageMetadata, setKeepImageMetadata] = useState(false);
+  const [isCompressingImage, setIsCompressingImage] = useState(false);
+  
+  // Image as uploaded, before any edits; edits are always re-applied to it
+  const [sourceImage, setSourceImage] = useState<File | null>(null);
+  const [imageEdits, setImageEdits] = useState<ImageEdits | null>(null);
+  const [editedFormat, setEditedFormat] = useState<AdFormat | null>(null);
+  const [isEditingImage, setIsEditingImage] = useState(false);
+  
+  const isCarousel = formData.creativeFormat === 'carousel';
+  // Slideshows are videos built from uploaded images
+  const isSlideshow = formData.creativeFormat === 'slideshow';
+  const mediaMode: MediaMode = isCarousel ? 'carousel' : isSlideshow ? 'slideshow' : 'single';
+  
+  // Card problems, shown once the user has tried to move past the cards
+  const [carouselValidation, setCarouselValidation] = useState<CarouselValidationResult | null>(null);
+  
+  // Text detected on the uploaded image as cropped for the chosen format
+  const { coverage: textCoverage, isAnalyzing: isAnalyzingText } = useTextCoverage(
+    formData.isVideo || isCarousel ? null : formData.imageFile,
+    formData.adFormat
+  );
+  const textWarnings = getTextPlacementWarnings({
+    coverage: textCoverage,
+    adFormat: formData.adFormat,
+    titlePosition: formData.titlePosition,
+  });
+  
   // Handle file drop
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
       const file = acceptedFiles[0];
       const isVideoFile = file.type.startsWith('video/');
       
-      // Validate the file
-      if (!isVideoFile && !isValidImage(file)) {
+      // Validate the file; large images are accepted because they're compressed below
+      if (!isVideoFile && !isValidImage(file) && !isCompressibleImage(file)) {
         setErrors(prev => ({ 
           ...prev, 
-          imageFile: 'Invalid file type. Please upload a JPEG, PNG, GIF or WebP image.'
+          imageFile: `Invalid file. Please upload a JPEG, PNG or WebP image under ${formatFileSize(MAX_SOURCE_IMAGE_SIZE, 0)}, or a GIF under ${formatFileSize(MAX_IMAGE_SIZE, 0)}.`
         }));
         return;
       }
       
       try {
-        // If it's an image, get dimensions and resize if necessary
+        let info = { name: file.name, size: formatFileSize(file.size), type: file.type };
+        let previewFile = file;
+        
+        // If it's an image, compress it towards the upload budget
         if (!isVideoFile) {
-          // Get image dimensions
-          const dimensions = await getImageDimensions(file);
-          setImageDimensions(dimensions);
-          
-          // Check if image is too large and needs resizing
           let processedFile = file;
-          if (file.size > 5 * 1024 * 1024) { // 5MB
-            // Resize large images to reduce file size while maintaining quality
-            const resizedBlob = await resizeImage(
-              file,
-              Math.min(dimensions.width, 2048), // max width 2048px
-              Math.min(dimensions.height, 2048), // max height 2048px
-              file.type,
-              0.85
-            );
-            
-            // Convert Blob to File to maintain compatibility
-            processedFile = new File(
-              [resizedBlob], 
-              file.name, 
-              { type: resizedBlob.type }
-            );
+          
+          if (isCompressibleImage(file)) {
+            setIsCompressingImage(true);
+            try {
+              const result = await compressImage(file, { keepExif: keepImageMetadata });
+              processedFile = result.file;
+              info = { name: result.file.name, size: getCompressionSummary(result), type: result.file.type };
+              setImageDimensions({ width: result.width, height: result.height });
+            } finally {
+              setIsCompressingImage(false);
+            }
+          } else {
+            setImageDimensions(await getImageDimensions(file));
           }
           
+          if (processedFile.size > MAX_IMAGE_SIZE) {
+            setErrors(prev => ({
+              ...prev,
+              imageFile: `This image is still over ${formatFileSize(MAX_IMAGE_SIZE, 0)} after compression. Please use a smaller image.`
+            }));
+            return;
+          }
+          previewFile = processedFile;
+          
           setFormData(prev => ({
             ...prev,
             imageFile: processedFile,
-            isVideo: isVideoFile
+            focalPoint: undefined,
+            isVideo: isVideoFile,
+            creativeFormat: creativeFormatToAdType(prev.creativeFormat) === 'image'
+              ? prev.creativeFormat
+              : adTypeToCreativeFormat('image')
           }));
+          setSourceImage(processedFile);
         } else {
           // For video files, just use the original
+          setSourceImage(null);
           setFormData(prev => ({
             ...prev,
             imageFile: file,
-            isVideo: isVideoFile
+            focalPoint: undefined,
+            isVideo: isVideoFile,
+            creativeFormat: creativeFormatToAdType(prev.creativeFormat) === 'video'
+              ? prev.creativeFormat
+              : adTypeToCreativeFormat('video')
           }));
         }
         
+        // A new file starts without edits
+        setImageEdits(null);
+        setEditedFormat(null);
+        
         // Store file info
-        setFileInfo({
-          name: file.name,
-          size: formatFileSize(file.size),
-          type: file.type
-        });
+        setFileInfo(info);
         
         // Create preview URL
-        const objectUrl = URL.createObjectURL(file);
+        const objectUrl = URL.createObjectURL(previewFile);
         setPreviewUrl(objectUrl);
         
         // Clear any previous error
@@ -181,7 +334,7 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
         }));
       }
     }
-  }, []);
+  }, [keepImageMetadata]);
   
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -193,6 +346,49 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
     maxSize: 50 * 1024 * 1024, // 50MB
   });
   
+  // Use an edited image in place of the uploaded one
+  const applyEditedImage = useCallback(async (source: File, file: File, edits: ImageEdits, format: AdFormat) => {
+    const spec = AD_FORMAT_SPECS[format];
+    const sourceSize = getRotatedSize(await getImageDimensions(source), edits.rotation);
+    // The focal point is saved relative to the cropped image, which is what gets uploaded
+    const focalPoint = getCroppedFocalPoint(sourceSize, spec.width / spec.height, edits.focalPoint);
+
+    setImageEdits(edits);
+    setEditedFormat(format);
+    setFormData(prev => ({ ...prev, imageFile: file, adFormat: format, focalPoint }));
+    setPreviewUrl(URL.createObjectURL(file));
+    setFileInfo({
+      name: file.name,
+      size: formatFileSize(file.size),
+      type: file.type
+    });
+    setImageDimensions(await getImageDimensions(file));
+  }, []);
+  
+  // Release each preview once it's replaced, and the last one on unmount
+  useEffect(() => {
+    if (!previewUrl) return;
+    return () => URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+  
+  // Re-crop an edited image around its focal point when another format is picked
+  useEffect(() => {
+    if (!sourceImage || !imageEdits || !editedFormat || editedFormat === formData.adFormat) return;
+
+    let isCurrent = true;
+    renderEditedImage(sourceImage, imageEdits, formData.adFormat)
+      .then(file => {
+        if (isCurrent) return applyEditedImage(sourceImage, file, imageEdits, formData.adFormat);
+      })
+      .catch(error => {
+        console.error('Error cropping image:', error);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [formData.adFormat, sourceImage, imageEdits, editedFormat, applyEditedImage]);
+  
   // Handle form field changes
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | { name?: string; value: unknown }>) => {
     const { name, value } = e.target;
@@ -205,6 +401,12 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
     }
   };
   
+  // Apply a suggestion from the copy assistant
+  const handleApplyCopy = useCallback((field: AdCopyField, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setErrors(prev => (prev[field] ? { ...prev, [field]: '' } : prev));
+  }, []);
+  
   // Handle Select change events specifically
   const handleSelectChange = (e: SelectChangeEvent<string>) => {
     const { name, value } = e.target;
@@ -217,30 +419,124 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
     }
   };
   
+  // Switching brand kits brings in the kit's default logo and primary color
+  const handleBrandKitChange = (e: SelectChangeEvent<string>) => {
+    const brandKit = brandKits.find(kit => kit._id === e.target.value) || null;
+    const defaultLogo = brandKit && getDefaultLogo(brandKit);
+
+    setFormData(prev => ({
+      ...prev,
+      brandKit,
+      logo: defaultLogo ? toAdLogo(defaultLogo) : undefined,
+      primaryColor: brandKit?.palette[0]?.hex || prev.primaryColor,
+    }));
+  };
+  
+  const handleLogoChange = (e: SelectChangeEvent<string>) => {
+    const logo = formData.brandKit?.logos.find(item => item.url === e.target.value);
+    setFormData(prev => ({ ...prev, logo: logo ? toAdLogo(logo) : undefined }));
+  };
+  
+  // Switch between a single media file, a carousel and a slideshow; a new carousel starts with two cards
+  const handleMediaModeChange = (mode: MediaMode) => {
+    setFormData(prev => {
+      const hasVideoFile = !!prev.imageFile?.type.startsWith('video/');
+      return {
+        ...prev,
+        creativeFormat: mode === 'single' ? adTypeToCreativeFormat(hasVideoFile ? 'video' : 'image') : mode,
+        isVideo: mode === 'slideshow' || (mode === 'single' && hasVideoFile),
+        carouselCards: mode === 'carousel' && prev.carouselCards.length === 0
+          ? [createCarouselCard(), createCarouselCard()]
+          : prev.carouselCards,
+      };
+    });
+  };
+  
+  const handleCarouselCardsChange = (carouselCards: CarouselCard[]) => {
+    setFormData(prev => ({ ...prev, carouselCards }));
+    // Keep shown errors up to date as cards are fixed
+    if (carouselValidation) {
+      setCarouselValidation(validateCarouselCards(carouselCards));
+    }
+  };
+  
+  const handleScenesChange = (videoScenes: VideoScene[]) => {
+    setFormData(prev => ({ ...prev, videoScenes }));
+    // Keep a shown error up to date as scenes are fixed
+    if (errors.videoScenes) {
+      setErrors(prev => ({ ...prev, videoScenes: validateVideoScenes(videoScenes).error || '' }));
+    }
+  };
+  
+  // Turn images into scenes, skipping unsupported files and anything past the scene limit
+  const handleAddScenes = (files: File[]) => {
+    const images = files.filter(file => isValidImage(file));
+    const room = MAX_VIDEO_SCENES - formData.videoScenes.length;
+
+    handleScenesChange([...formData.videoScenes, ...images.slice(0, room).map(file => createVideoScene(file))]);
+    setErrors(prev => ({
+      ...prev,
+      videoScenes: images.length < files.length
+        ? 'Some files were skipped. Use JPEG, PNG, GIF or WebP images under 5 MB.'
+        : images.length > room
+        ? `A video can have at most ${MAX_VIDEO_SCENES} images`
+        : '',
+    }));
+  };
+  
+  const sceneDropzone = useDropzone({
+    onDrop: handleAddScenes,
+    accept: {
+      'image/*': ['.jpeg', '.jpg', '.png', '.gif', '.webp']
+    },
+  });
+  
   // Handle style tab change
   const handleStyleTabChange = (_event: React.SyntheticEvent, newValue: number) => {
     setStyleTab(newValue);
   };
   
+  // Words the selected brand kit doesn't allow in the copy
+  const bannedWords = formData.brandKit?.voice.bannedWords;
+  
   // Validate form
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {};
     
     if (!formData.title.trim()) {
       newErrors.title = 'Title is required';
+    } else if (findTemplatePlaceholders(formData.title).length > 0) {
+      newErrors.title = getUnresolvedPlaceholdersMessage(formData.title);
+    } else if (findBannedWords(formData.title, bannedWords).length > 0) {
+      newErrors.title = getBannedWordsMessage(findBannedWords(formData.title, bannedWords));
     }
     
     if (!formData.description.trim()) {
       newErrors.description = 'Description is required';
-    } else if (formData.description.length > 125) {
-      newErrors.description = 'Description must be 125 characters or less';
+    } else if (formData.description.length > MAX_DESCRIPTION_LENGTH) {
+      newErrors.description = `Description must be ${MAX_DESCRIPTION_LENGTH} characters or less`;
+    } else if (findTemplatePlaceholders(formData.description).length > 0) {
+      newErrors.description = getUnresolvedPlaceholdersMessage(formData.description);
+    } else if (findBannedWords(formData.description, bannedWords).length > 0) {
+      newErrors.description = getBannedWordsMessage(findBannedWords(formData.description, bannedWords));
     }
     
     if (!formData.callToAction.trim()) {
       newErrors.callToAction = 'Call to action is required';
     }
     
-    if (!formData.imageFile) {
+    if (isCarousel) {
+      const validation = validateCarouselCards(formData.carouselCards);
+      setCarouselValidation(validation);
+      if (!validation.isValid) {
+        newErrors.carousel = validation.error || 'Some carousel cards need attention';
+      }
+    } else if (isSlideshow) {
+      const validation = validateVideoScenes(formData.videoScenes);
+      if (!validation.isValid) {
+        newErrors.videoScenes = validation.error || 'Some scenes need attention';
+      }
+    } else if (!formData.imageFile) {
       newErrors.imageFile = 'Please upload an image or video';
     }
     
@@ -248,12 +544,30 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
     return Object.keys(newErrors).length === 0;
   };
   
+  // Cost of generating the ad, shown before the final step is submitted
+  const creditCheck = getCreditCheck(formData.isVideo ? 'VIDEO_GENERATION' : 'IMAGE_GENERATION');
+  const isLastStep = activeStep === steps.length - 1;
+  
   // Handle next step
   const handleNext = () => {
-    if (activeStep === steps.length - 1) {
+    if (isLastStep) {
       if (validateForm()) {
         onSubmit(formData);
       }
+    } else if (activeStep === 0 && isCarousel) {
+      // Every card has to be complete before moving on
+      const validation = validateCarouselCards(formData.carouselCards);
+      setCarouselValidation(validation);
+      if (validation.isValid) {
+        setActiveStep(1);
+      }
+    } else if (isSlideshow && (activeStep === 0 || steps[activeStep] === 'Video')) {
+      // A slideshow needs usable images before moving on
+      const validation = validateVideoScenes(formData.videoScenes);
+      setErrors(prev => ({ ...prev, videoScenes: validation.error || '' }));
+      if (validation.isValid) {
+        setActiveStep(prev => prev + 1);
+      }
     } else {
       setActiveStep(prev => prev + 1);
     }
@@ -266,91 +580,209 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
   
   // Render content based on active step
   const renderStepContent = () => {
-    switch (activeStep) {
-      case 0: // Upload Media
+    switch (steps[activeStep]) {
+      case 'Upload Media':
         return (
           <Box className="py-6">
-            <div 
-              {...getRootProps()} 
-              className={`border-2 border-dashed rounded-lg p-8 text-center transition-all cursor-pointer hover:bg-gray-50 ${
-                isDragActive ? 'border-primary-500 bg-primary-50' : 'border-gray-300'
-              }`}
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={mediaMode}
+              onChange={(_, value: MediaMode | null) => value && handleMediaModeChange(value)}
+              className="mb-4"
+              aria-label="Creative format"
             >
-              <input {...getInputProps()} />
-              
-              <div className="flex flex-col items-center justify-center space-y-4">
-                {previewUrl ? (
-                  <>
-                    {formData.isVideo ? (
-                      <video 
-                        src={previewUrl} 
-                        className="max-h-64 mb-4 rounded shadow-sm" 
-                        controls
-                      />
-                    ) : (
-                      <img 
-                        src={previewUrl} 
-                        alt="Preview" 
-                        className="max-h-64 mb-4 rounded shadow-sm" 
+              <ToggleButton value="single">Single Image or Video</ToggleButton>
+              <ToggleButton value="carousel">Carousel</ToggleButton>
+              <ToggleButton value="slideshow">Video from Images</ToggleButton>
+            </ToggleButtonGroup>
+            
+            {isSlideshow ? (
+              <>
+                <div 
+                  {...sceneDropzone.getRootProps()} 
+                  className={`border-2 border-dashed rounded-lg p-8 text-center transition-all cursor-pointer hover:bg-gray-50 ${
+                    sceneDropzone.isDragActive ? 'border-primary-500 bg-primary-50' : 'border-gray-300'
+                  }`}
+                >
+                  <input {...sceneDropzone.getInputProps()} />
+                  
+                  <div className="flex flex-col items-center justify-center space-y-4">
+                    <VideoLibraryIcon className="text-gray-400" style={{ fontSize: 64 }} />
+                    <Typography variant="h6" className="font-medium">
+                      Drag & drop or click to add images
+                    </Typography>
+                    <Typography variant="body2" className="text-gray-500 max-w-md">
+                      Each image becomes a scene of your video. Add up to {MAX_VIDEO_SCENES}, then put them in order
+                      and set how long each one shows in the Video step.
+                    </Typography>
+                  </div>
+                </div>
+                
+                {formData.videoScenes.length > 0 && (
+                  <Box display="flex" flexWrap="wrap" gap={1} mt={2}>
+                    {formData.videoScenes.map((scene, index) => (
+                      <Box
+                        key={scene.id}
+                        component="img"
+                        src={scene.previewUrl}
+                        alt={`Scene ${index + 1}`}
+                        sx={{ width: 64, height: 64, borderRadius: 1, objectFit: 'cover' }}
                       />
-                    )}
+                    ))}
+                  </Box>
+                )}
+                
+                {errors.videoScenes && (
+                  <Alert severity="error" className="mt-4">
+                    {errors.videoScenes}
+                  </Alert>
+                )}
+              </>
+            ) : isCarousel ? (
+              <CarouselBuilder
+                cards={formData.carouselCards}
+                onChange={handleCarouselCardsChange}
+                callToAction={formData.callToAction}
+                error={carouselValidation?.error}
+                cardErrors={carouselValidation?.cardErrors}
+              />
+            ) : (
+              <>
+                <div 
+                  {...getRootProps()} 
+                  className={`border-2 border-dashed rounded-lg p-8 text-center transition-all cursor-pointer hover:bg-gray-50 ${
+                    isDragActive ? 'border-primary-500 bg-primary-50' : 'border-gray-300'
+                  }`}
+                >
+                  <input {...getInputProps()} />
+              
+                  <div className="flex flex-col items-center justify-center space-y-4">
+                    {previewUrl ? (
+                      <>
+                        {formData.isVideo ? (
+                          <video 
+                            src={previewUrl} 
+                            className="max-h-64 mb-4 rounded shadow-sm" 
+                            controls
+                          />
+                        ) : (
+                          <img 
+                            src={previewUrl} 
+                            alt="Preview" 
+                            className="max-h-64 mb-4 rounded shadow-sm" 
+                          />
+                        )}
                     
-                    {fileInfo && (
-                      <div className="text-sm text-gray-600 mt-2">
-                        <p><strong>File:</strong> {fileInfo.name}</p>
-                        <p><strong>Size:</strong> {fileInfo.size}</p>
-                        <p><strong>Type:</strong> {fileInfo.type}</p>
-                        {imageDimensions && (
-                          <p><strong>Dimensions:</strong> {imageDimensions.width} x {imageDimensions.height}px</p>
+                        {fileInfo && (
+                          <div className="text-sm text-gray-600 mt-2">
+                            <p><strong>File:</strong> {fileInfo.name}</p>
+                            <p><strong>Size:</strong> {fileInfo.size}</p>
+                            <p><strong>Type:</strong> {fileInfo.type}</p>
+                            {imageDimensions && (
+                              <p><strong>Dimensions:</strong> {imageDimensions.width} x {imageDimensions.height}px</p>
+                            )}
+                          </div>
                         )}
-                      </div>
-                    )}
                     
-                    <Button 
-                      variant="outlined" 
-                      color="primary" 
-                      startIcon={<CloudUploadIcon />}
-                      className="mt-4"
+                        <Button 
+                          variant="outlined" 
+                          color="primary" 
+                          startIcon={<CloudUploadIcon />}
+                          className="mt-4"
+                        >
+                          Replace {formData.isVideo ? 'Video' : 'Image'}
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <CloudUploadIcon className="text-gray-400" style={{ fontSize: 64 }} />
+                        <Typography variant="h6" className="font-medium">
+                          Drag & drop or click to upload
+                        </Typography>
+                        <Typography variant="body2" className="text-gray-500 max-w-md">
+                          Upload an image or video for your ad. For best results, use high-quality images 
+                          with a minimum resolution of 1080x1080px.
+                        </Typography>
+                        <div className="flex items-center justify-center space-x-4 mt-4">
+                          <div className="flex items-center">
+                            <ImageIcon className="text-primary-500 mr-2" />
+                            <span className="text-sm">Images: JPEG, PNG, WebP</span>
+                          </div>
+                          <div className="flex items-center">
+                            <VideoLibraryIcon className="text-primary-500 mr-2" />
+                            <span className="text-sm">Videos: MP4, WebM, MOV</span>
+                          </div>
+                        </div>
+                        <Button 
+                          variant="primary" 
+                          startIcon={<CloudUploadIcon />}
+                          className="mt-4"
+                        >
+                          Select File
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                
+                <Box display="flex" alignItems="center" justifyContent="space-between" flexWrap="wrap" gap={2} mt={2}>
+                  <FormControlLabel
+                    control={
+                      <Checkbox
+                        checked={keepImageMetadata}
+                        onChange={(e) => setKeepImageMetadata(e.target.checked)}
+                        disabled={isCompressingImage}
+                      />
+                    }
+                    label="Keep photo metadata (EXIF) when compressing uploads"
+                  />
+                  {isCompressingImage && (
+                    <Box display="flex" alignItems="center" gap={1}>
+                      <CircularProgress size={16} />
+                      <Typography variant="body2" color="text.secondary">Compressing image...</Typography>
+                    </Box>
+                  )}
+                </Box>
+            
+                {sourceImage && !formData.isVideo && (
+                  <Box display="flex" alignItems="center" gap={2} mt={2}>
+                    <Button
+                      variant="outlined"
+                      startIcon={<CropIcon />}
+                      onClick={() => setIsEditingImage(true)}
                     >
-                      Replace {formData.isVideo ? 'Video' : 'Image'}
+                      Edit Image
                     </Button>
-                  </>
-                ) : (
-                  <>
-                    <CloudUploadIcon className="text-gray-400" style={{ fontSize: 64 }} />
-                    <Typography variant="h6" className="font-medium">
-                      Drag & drop or click to upload
+                    <Typography variant="body2" color="text.secondary">
+                      {editedFormat
+                        ? `Cropped to ${getAdFormatLabel(editedFormat)}. Other formats are cropped around the same focal point.`
+                        : 'Crop to your ad format, set a focal point, rotate or adjust brightness and contrast.'}
                     </Typography>
-                    <Typography variant="body2" className="text-gray-500 max-w-md">
-                      Upload an image or video for your ad. For best results, use high-quality images 
-                      with a minimum resolution of 1080x1080px.
-                    </Typography>
-                    <div className="flex items-center justify-center space-x-4 mt-4">
-                      <div className="flex items-center">
-                        <ImageIcon className="text-primary-500 mr-2" />
-                        <span className="text-sm">Images: JPEG, PNG, WebP</span>
-                      </div>
-                      <div className="flex items-center">
-                        <VideoLibraryIcon className="text-primary-500 mr-2" />
-                        <span className="text-sm">Videos: MP4, WebM, MOV</span>
-                      </div>
-                    </div>
-                    <Button 
-                      variant="primary" 
-                      startIcon={<CloudUploadIcon />}
-                      className="mt-4"
-                    >
-                      Select File
-                    </Button>
-                  </>
+                  </Box>
                 )}
-              </div>
-            </div>
-            
-            {errors.imageFile && (
-              <Alert severity="error" className="mt-4">
-                {errors.imageFile}
-              </Alert>
+                
+                <ImageEditorDialog
+                  open={isEditingImage}
+                  file={sourceImage}
+                  adFormat={formData.adFormat}
+                  initialEdits={imageEdits}
+                  onSave={(file, edits, format) => {
+                    setIsEditingImage(false);
+                    if (!sourceImage) return;
+                    applyEditedImage(sourceImage, file, edits, format).catch(error => {
+                      console.error('Error reading edited image:', error);
+                    });
+                  }}
+                  onClose={() => setIsEditingImage(false)}
+                />
+                
+                {errors.imageFile && (
+                  <Alert severity="error" className="mt-4">
+                    {errors.imageFile}
+                  </Alert>
+                )}
+              </>
             )}
             
             <Typography variant="body2" className="text-gray-500 mt-4">
@@ -359,7 +791,7 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
           </Box>
         );
         
-      case 1: // Ad Content
+      case 'Ad Content':
         return (
           <Box className="py-6">
             <Grid container spacing={3}>
@@ -390,7 +822,7 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
                   error={!!errors.description}
                   helperText={
                     errors.description || 
-                    `${formData.description.length}/125 characters. Describe your product or service concisely.`
+                    `${formData.description.length}/${MAX_DESCRIPTION_LENGTH} characters. Describe your product or service concisely.`
                   }
                   InputProps={{
                     sx: { borderRadius: '8px' }
@@ -409,26 +841,59 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
                     label="Call to Action"
                     sx={{ borderRadius: '8px' }}
                   >
-                    <MenuItem value="Shop Now">Shop Now</MenuItem>
-                    <MenuItem value="Learn More">Learn More</MenuItem>
-                    <MenuItem value="Sign Up">Sign Up</MenuItem>
-                    <MenuItem value="Get Quote">Get Quote</MenuItem>
-                    <MenuItem value="Contact Us">Contact Us</MenuItem>
-                    <MenuItem value="Book Now">Book Now</MenuItem>
-                    <MenuItem value="Download">Download</MenuItem>
+                    {callToActionOptions.map(cta => (
+                      <MenuItem key={cta} value={cta}>{cta}</MenuItem>
+                    ))}
                   </Select>
                   {errors.callToAction && (
                     <FormHelperText>{errors.callToAction}</FormHelperText>
                   )}
                 </FormControl>
               </Grid>
+              
+              <Grid item xs={12}>
+                <AdCopyAssistant
+                  current={{
+                    title: formData.title,
+                    description: formData.description,
+                    callToAction: formData.callToAction,
+                  }}
+                  brandKit={formData.brandKit}
+                  onApply={handleApplyCopy}
+                />
+              </Grid>
             </Grid>
           </Box>
         );
         
-      case 2: // Style & Format
+      case 'Video':
+        return (
+          <Box className="py-6">
+            <VideoBuilder
+              options={formData.videoOptions}
+              onOptionsChange={videoOptions => setFormData(prev => ({ ...prev, videoOptions }))}
+              scenes={isSlideshow ? formData.videoScenes : undefined}
+              onScenesChange={handleScenesChange}
+              onAddImages={handleAddScenes}
+              scenesError={errors.videoScenes}
+              productName={formData.title}
+              productDescription={formData.description}
+              brandKit={formData.brandKit}
+            />
+          </Box>
+        );
+        
+      case 'Style & Format':
         return (
           <Box className="py-6">
+            {textWarnings.length > 0 && (
+              <Alert severity="warning" className="mb-4">
+                {textWarnings.map(warning => (
+                  <div key={warning}>{warning}</div>
+                ))}
+              </Alert>
+            )}
+            
             <Tabs 
               value={styleTab} 
               onChange={handleStyleTabChange} 
@@ -444,17 +909,17 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
             {styleTab === 0 ? (
               <Grid container spacing={3}>
                 {AD_STYLES.map(style => (
-                  <Grid item xs={12} sm={6} key={style.id}>
+                  <Grid item xs={12} sm={6} key={style}>
                     <Paper 
-                      elevation={formData.adStyle === style.id ? 3 : 1}
-                      onClick={() => setFormData(prev => ({ ...prev, adStyle: style.id }))}
+                      elevation={formData.adStyle === style ? 3 : 1}
+                      onClick={() => setFormData(prev => ({ ...prev, adStyle: style }))}
                       className={`p-4 cursor-pointer transition-all hover:shadow-md ${
-                        formData.adStyle === style.id ? 'border-2 border-primary-500' : ''
+                        formData.adStyle === style ? 'border-2 border-primary-500' : ''
                       }`}
                     >
-                      <Typography variant="h6">{style.name}</Typography>
+                      <Typography variant="h6">{AD_STYLE_DETAILS[style].name}</Typography>
                       <Typography variant="body2" color="textSecondary">
-                        {style.description}
+                        {AD_STYLE_DETAILS[style].description}
                       </Typography>
                     </Paper>
                   </Grid>
@@ -466,12 +931,12 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
                   <Typography variant="subtitle1" gutterBottom>Format</Typography>
                   <Grid container spacing={2}>
                     {AD_FORMATS.map(format => (
-                      <Grid item xs={6} sm={3} key={format.id}>
+                      <Grid item xs={6} sm={3} key={format}>
                         <Paper 
-                          elevation={formData.adFormat === format.id ? 3 : 1}
-                          onClick={() => setFormData(prev => ({ ...prev, adFormat: format.id }))}
+                          elevation={formData.adFormat === format ? 3 : 1}
+                          onClick={() => setFormData(prev => ({ ...prev, adFormat: format }))}
                           className={`p-3 cursor-pointer text-center transition-all hover:shadow-md ${
-                            formData.adFormat === format.id ? 'border-2 border-primary-500' : ''
+                            formData.adFormat === format ? 'border-2 border-primary-500' : ''
                           }`}
                           sx={{
                             height: '100%',
@@ -480,9 +945,9 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
                             justifyContent: 'center'
                           }}
                         >
-                          <Typography variant="body1" fontWeight={500}>{format.name}</Typography>
+                          <Typography variant="body1" fontWeight={500}>{getAdFormatLabel(format)}</Typography>
                           <Typography variant="caption" color="textSecondary">
-                            {format.dimensions}
+                            {AD_FORMAT_SPECS[format].width} x {AD_FORMAT_SPECS[format].height} px
                           </Typography>
                         </Paper>
                       </Grid>
@@ -492,6 +957,31 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
                 
                 <Grid item xs={12}>
                   <Typography variant="subtitle1" gutterBottom>Brand Color</Typography>
+                  {formData.brandKit && (
+                    <Box className="flex items-center gap-2 mb-3">
+                      {formData.brandKit.palette.map((color, index) => (
+                        <Box
+                          key={index}
+                          component="button"
+                          type="button"
+                          title={color.name || color.hex}
+                          aria-label={`Use ${color.name || color.hex}`}
+                          onClick={() => setFormData(prev => ({ ...prev, primaryColor: color.hex }))}
+                          sx={{
+                            width: 32,
+                            height: 32,
+                            borderRadius: '50%',
+                            bgcolor: color.hex,
+                            cursor: 'pointer',
+                            border: 2,
+                            borderColor: formData.primaryColor.toLowerCase() === color.hex.toLowerCase()
+                              ? 'primary.main'
+                              : 'divider',
+                          }}
+                        />
+                      ))}
+                    </Box>
+                  )}
                   <Box className="flex items-center gap-4">
                     <input 
                       type="color" 
@@ -508,12 +998,81 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
                     </Typography>
                   </Box>
                 </Grid>
+                
+                <Grid item xs={12}>
+                  <Typography variant="subtitle1" gutterBottom>Text Placement</Typography>
+                  <Box className="flex flex-col sm:flex-row gap-4">
+                    <FormControl sx={{ minWidth: 200 }}>
+                      <InputLabel id="title-position-label">Title Position</InputLabel>
+                      <Select
+                        labelId="title-position-label"
+                        name="titlePosition"
+                        value={formData.titlePosition}
+                        onChange={handleSelectChange}
+                        label="Title Position"
+                        sx={{ borderRadius: '8px' }}
+                      >
+                        {TITLE_POSITIONS.map(position => (
+                          <MenuItem key={position} value={position} className="capitalize">{position}</MenuItem>
+                        ))}
+                      </Select>
+                      <FormHelperText>
+                        {isAnalyzingText
+                          ? 'Checking the image for text...'
+                          : textCoverage && `About ${Math.round(textCoverage.ratio * 100)}% of the image has text`}
+                      </FormHelperText>
+                    </FormControl>
+                    {previewUrl && !formData.isVideo && (
+                      <TextSafeZonePreview imageUrl={previewUrl} adFormat={formData.adFormat} coverage={textCoverage} />
+                    )}
+                  </Box>
+                </Grid>
+                
+                {formData.brandKit && formData.brandKit.logos.length > 0 && (
+                  <Grid item xs={12}>
+                    <Typography variant="subtitle1" gutterBottom>Logo</Typography>
+                    <Box className="flex gap-4">
+                      <FormControl fullWidth>
+                        <InputLabel id="logo-label">Logo</InputLabel>
+                        <Select
+                          labelId="logo-label"
+                          value={formData.logo?.url || ''}
+                          onChange={handleLogoChange}
+                          label="Logo"
+                          sx={{ borderRadius: '8px' }}
+                        >
+                          <MenuItem value="">No logo</MenuItem>
+                          {formData.brandKit.logos.map(logo => (
+                            <MenuItem key={logo.url} value={logo.url}>{logo.label || 'Logo'}</MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+                      <FormControl fullWidth disabled={!formData.logo}>
+                        <InputLabel id="logo-position-label">Position</InputLabel>
+                        <Select
+                          labelId="logo-position-label"
+                          value={formData.logo?.position || 'bottom-right'}
+                          onChange={e => setFormData(prev => ({
+                            ...prev,
+                            logo: prev.logo && { ...prev.logo, position: e.target.value as LogoPosition },
+                          }))}
+                          label="Position"
+                          sx={{ borderRadius: '8px' }}
+                        >
+                          {LOGO_POSITIONS.map(option => (
+                            <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+                    </Box>
+                  </Grid>
+                )}
               </Grid>
             )}
           </Box>
         );
         
-      case 3: // Review
+      case 'Review':
         return (
           <Box className="py-6">
             <Alert severity="info" className="mb-6">
@@ -549,14 +1108,21 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
                   <Box className="mb-3">
                     <Typography variant="subtitle2" color="textSecondary">Ad Style</Typography>
                     <Typography>
-                      {AD_STYLES.find(s => s.id === formData.adStyle)?.name || formData.adStyle}
+                      {AD_STYLE_DETAILS[formData.adStyle].name}
                     </Typography>
                   </Box>
                   
                   <Box className="mb-3">
                     <Typography variant="subtitle2" color="textSecondary">Format</Typography>
                     <Typography>
-                      {AD_FORMATS.find(f => f.id === formData.adFormat)?.name || formData.adFormat}
+                      {getAdFormatLabel(formData.adFormat)}
+                    </Typography>
+                  </Box>
+                  
+                  <Box className="mb-3">
+                    <Typography variant="subtitle2" color="textSecondary">Creative Format</Typography>
+                    <Typography>
+                      {CREATIVE_FORMAT_NAMES[formData.creativeFormat]}
                     </Typography>
                   </Box>
                   
@@ -567,6 +1133,30 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
                     </Typography>
                   </Box>
                   
+                  {formData.isVideo && (
+                    <Box className="mb-3">
+                      <Typography variant="subtitle2" color="textSecondary">Video</Typography>
+                      <Typography>
+                        {[
+                          isSlideshow && `${formData.videoScenes.length} scenes, ${getVideoDuration(formData.videoScenes)}s`,
+                          formData.videoOptions.hasMusic && 'background music',
+                          formData.videoOptions.hasVoiceover
+                            && `${formData.videoOptions.voiceStyle} ${formData.videoOptions.voiceGender} voiceover`,
+                        ].filter(Boolean).join(' · ') || 'No music or voiceover'}
+                      </Typography>
+                    </Box>
+                  )}
+                  
+                  {formData.brandKit && (
+                    <Box className="mb-3">
+                      <Typography variant="subtitle2" color="textSecondary">Brand Kit</Typography>
+                      <Typography>
+                        {formData.brandKit.name}
+                        {formData.logo && ` · logo ${LOGO_POSITIONS.find(option => option.value === formData.logo?.position)?.label.toLowerCase() || ''}`}
+                      </Typography>
+                    </Box>
+                  )}
+                  
                   <Box className="flex items-center">
                     <Typography variant="subtitle2" color="textSecondary" className="mr-2">
                       Primary Color:
@@ -580,26 +1170,38 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
                 </Paper>
               </Grid>
               
-              {previewUrl && (
-                <Grid item xs={12} className="mt-4">
-                  <Typography variant="subtitle1" gutterBottom>Uploaded Media:</Typography>
-                  <div className="relative w-full max-w-xs mx-auto aspect-square rounded-lg overflow-hidden border">
-                    {formData.isVideo ? (
-                      <video 
-                        src={previewUrl} 
-                        controls 
-                        className="w-full h-full object-cover"
-                      />
-                    ) : (
-                      <img 
-                        src={previewUrl} 
-                        alt="Preview" 
-                        className="w-full h-full object-cover"
-                      />
-                    )}
-                  </div>
+              {(errors.carousel || errors.videoScenes) && (
+                <Grid item xs={12}>
+                  <Alert severity="error">{errors.carousel || errors.videoScenes}</Alert>
                 </Grid>
               )}
+              
+              <Grid item xs={12} className="mt-4">
+                <Typography variant="subtitle1" gutterBottom>Placement Preview</Typography>
+                {isCarousel ? (
+                  <CarouselPreview
+                    cards={formData.carouselCards.map(card => ({ ...card, imageUrl: card.previewUrl }))}
+                    primaryText={formData.description}
+                    callToAction={formData.callToAction}
+                    brandName={formData.brandKit?.name || user?.name || 'Your Brand'}
+                    brandLogoUrl={formData.logo?.url}
+                    primaryColor={formData.primaryColor}
+                  />
+                ) : (
+                  <AdPlacementPreview
+                    title={formData.title}
+                    description={formData.description}
+                    callToAction={formData.callToAction}
+                    mediaUrl={isSlideshow ? formData.videoScenes[0]?.previewUrl : previewUrl}
+                    isVideo={formData.isVideo && !isSlideshow}
+                    adFormat={formData.adFormat}
+                    brandName={formData.brandKit?.name || user?.name || 'Your Brand'}
+                    brandLogoUrl={formData.logo?.url}
+                    primaryColor={formData.primaryColor}
+                    defaultPlacement={formData.adFormat === 'story' ? 'story' : 'feed'}
+                  />
+                )}
+              </Grid>
             </Grid>
           </Box>
         );
@@ -611,6 +1213,25 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
   
   return (
     <Box>
+      {brandKits.length > 0 && (
+        <FormControl fullWidth size="small" className="mb-6" disabled={isLoadingBrandKits}>
+          <InputLabel id="brand-kit-label">Brand Kit</InputLabel>
+          <Select
+            labelId="brand-kit-label"
+            value={formData.brandKit?._id || ''}
+            onChange={handleBrandKitChange}
+            label="Brand Kit"
+            sx={{ borderRadius: '8px' }}
+          >
+            <MenuItem value="">No brand kit</MenuItem>
+            {brandKits.map(kit => (
+              <MenuItem key={kit._id} value={kit._id}>{kit.name}</MenuItem>
+            ))}
+          </Select>
+          <FormHelperText>Applies the brand&apos;s logo, colors, fonts and voice to this ad</FormHelperText>
+        </FormControl>
+      )}
+      
       <Stepper activeStep={activeStep} alternativeLabel className="mb-8">
         {steps.map((label) => (
           <Step key={label}>
@@ -632,14 +1253,27 @@ const AdCreationForm: React.FC<AdCreationFormProps> = ({
           >
             Back
           </Button>
-          <Button 
-            onClick={handleNext}
-            isLoading={isSubmitting && activeStep === steps.length - 1}
-            variant="primary"
-            endIcon={activeStep === steps.length - 1 ? <PublishIcon /> : undefined}
-          >
-            {activeStep === steps.length - 1 ? 'Create Ad' : 'Next'}
-          </Button>
+          <Box className="flex items-center gap-3">
+            {onSaveAsTemplate && (
+              <Button
+                onClick={() => onSaveAsTemplate(formData)}
+                variant="text"
+                startIcon={<BookmarkAddIcon />}
+              >
+                Save as Template
+              </Button>
+            )}
+            {isLastStep && <CreditCost check={creditCheck} />}
+            <Button 
+              onClick={handleNext}
+              isLoading={isSubmitting && isLastStep}
+              disabled={isLastStep && !creditCheck.isAffordable}
+              variant="primary"
+              endIcon={isLastStep ? <PublishIcon /> : undefined}
+            >
+              {isLastStep ? 'Create Ad' : 'Next'}
+            </Button>
+          </Box>
         </Box>
       </Box>
     </Box>
@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Grid,
+  IconButton,
+  Paper,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import AddPhotoAlternateIcon from '@mui/icons-material/AddPhotoAlternate';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import DeleteIcon from '@mui/icons-material/Delete';
+import DragIndicatorIcon from '@mui/icons-material/DragIndicator';
+import {
+  CarouselCard,
+  CarouselCardErrors,
+  MAX_CARD_DESCRIPTION_LENGTH,
+  MAX_CARD_HEADLINE_LENGTH,
+  MAX_CAROUSEL_CARDS,
+  MIN_CAROUSEL_CARDS,
+  createCarouselCard,
+  getCardImageError,
+} from '../../utils/carousel';
+import { moveItem } from '../../utils/reorder';
+
+interface CarouselBuilderProps {
+  cards: CarouselCard[];
+  onChange: (cards: CarouselCard[]) => void;
+  callToAction: string; // Shared by every card
+  error?: string;
+  cardErrors?: Record<string, CarouselCardErrors>;
+}
+
+/**
+ * Edits the cards of a carousel ad; cards can be dragged into a new order
+ */
+const CarouselBuilder: React.FC<CarouselBuilderProps> = ({
+  cards,
+  onChange,
+  callToAction,
+  error,
+  cardErrors = {},
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  // Images rejected when chosen, before the form is validated
+  const [imageErrors, setImageErrors] = useState<Record<string, string>>({});
+
+  const updateCard = (id: string, changes: Partial<CarouselCard>) => {
+    onChange(cards.map(card => (card.id === id ? { ...card, ...changes } : card)));
+  };
+
+  const handleImageChange = (card: CarouselCard, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    const imageError = getCardImageError(file);
+    setImageErrors(prev => ({ ...prev, [card.id]: imageError || '' }));
+    if (imageError) return;
+
+    if (card.previewUrl) URL.revokeObjectURL(card.previewUrl);
+    updateCard(card.id, { file, previewUrl: URL.createObjectURL(file) });
+  };
+
+  const handleAddCard = () => {
+    // New cards usually link to the same site, so start from the last card's link
+    onChange([...cards, createCarouselCard(cards[cards.length - 1]?.link || '')]);
+  };
+
+  const handleRemoveCard = (card: CarouselCard) => {
+    if (card.previewUrl) URL.revokeObjectURL(card.previewUrl);
+    onChange(cards.filter(item => item.id !== card.id));
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      onChange(moveItem(cards, dragIndex, index));
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Box>
+          <Typography variant="subtitle1" fontWeight={600}>
+            Carousel cards ({cards.length}/{MAX_CAROUSEL_CARDS})
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {MIN_CAROUSEL_CARDS}–{MAX_CAROUSEL_CARDS} cards. Every card uses the &quot;{callToAction}&quot; button.
+          </Typography>
+        </Box>
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={<AddIcon />}
+          onClick={handleAddCard}
+          disabled={cards.length >= MAX_CAROUSEL_CARDS}
+        >
+          Add Card
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" className="mb-4">
+          {error}
+        </Alert>
+      )}
+
+      {cards.map((card, index) => {
+        const errors = cardErrors[card.id] || {};
+        const imageError = imageErrors[card.id] || errors.file;
+        const inputId = `carousel-card-image-${card.id}`;
+
+        return (
+          <Paper
+            key={card.id}
+            variant="outlined"
+            draggable
+            onDragStart={(e) => {
+              setDragIndex(index);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDragLeave={() => setDropIndex(prev => (prev === index ? null : prev))}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDrop(index);
+            }}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            className="p-3 mb-3"
+            sx={{
+              opacity: dragIndex === index ? 0.5 : 1,
+              borderColor: dropIndex === index && dragIndex !== index ? 'primary.main' : undefined,
+              borderStyle: dropIndex === index && dragIndex !== index ? 'dashed' : undefined,
+            }}
+          >
+            <Box display="flex" gap={2}>
+              <Box display="flex" flexDirection="column" alignItems="center">
+                <Tooltip title="Drag to reorder">
+                  <DragIndicatorIcon color="action" sx={{ cursor: 'grab' }} />
+                </Tooltip>
+                <Typography variant="caption" fontWeight={600}>{index + 1}</Typography>
+                <IconButton
+                  size="small"
+                  aria-label="Move card up"
+                  onClick={() => onChange(moveItem(cards, index, index - 1))}
+                  disabled={index === 0}
+                >
+                  <ArrowUpwardIcon fontSize="small" />
+                </IconButton>
+                <IconButton
+                  size="small"
+                  aria-label="Move card down"
+                  onClick={() => onChange(moveItem(cards, index, index + 1))}
+                  disabled={index === cards.length - 1}
+                >
+                  <ArrowDownwardIcon fontSize="small" />
+                </IconButton>
+              </Box>
+
+              <Box flexShrink={0}>
+                <input
+                  id={inputId}
+                  type="file"
+                  accept="image/jpeg,image/png,image/gif,image/webp"
+                  hidden
+                  onChange={(e) => handleImageChange(card, e)}
+                />
+                <Box
+                  component="label"
+                  htmlFor={inputId}
+                  sx={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    width: 112,
+                    height: 112,
+                    borderRadius: 1,
+                    overflow: 'hidden',
+                    cursor: 'pointer',
+                    border: 2,
+                    borderStyle: card.previewUrl ? 'solid' : 'dashed',
+                    borderColor: imageError ? 'error.main' : 'divider',
+                    bgcolor: 'grey.50',
+                  }}
+                >
+                  {card.previewUrl ? (
+                    <Box
+                      component="img"
+                      src={card.previewUrl}
+                      alt={card.headline || `Card ${index + 1}`}
+                      draggable={false}
+                      sx={{ width: '100%', height: '100%', objectFit: 'cover' }}
+                    />
+                  ) : (
+                    <AddPhotoAlternateIcon color="action" fontSize="large" />
+                  )}
+                </Box>
+                {imageError && (
+                  <Typography variant="caption" color="error" display="block" sx={{ maxWidth: 112 }}>
+                    {imageError}
+                  </Typography>
+                )}
+              </Box>
+
+              <Grid container spacing={1.5} sx={{ flex: 1 }}>
+                <Grid item xs={12} sm={7}>
+                  <TextField
+                    label="Headline"
+                    size="small"
+                    fullWidth
+                    value={card.headline}
+                    onChange={(e) => updateCard(card.id, { headline: e.target.value })}
+                    error={!!errors.headline}
+                    helperText={errors.headline || `${card.headline.length}/${MAX_CARD_HEADLINE_LENGTH}`}
+                  />
+                </Grid>
+                <Grid item xs={12} sm={5}>
+                  <TextField
+                    label="Description"
+                    size="small"
+                    fullWidth
+                    value={card.description}
+                    onChange={(e) => updateCard(card.id, { description: e.target.value })}
+                    error={!!errors.description}
+                    helperText={errors.description || `${card.description.length}/${MAX_CARD_DESCRIPTION_LENGTH}`}
+                  />
+                </Grid>
+                <Grid item xs={12}>
+                  <TextField
+                    label="Link"
+                    size="small"
+                    fullWidth
+                    type="url"
+                    placeholder="https://example.com/product"
+                    value={card.link}
+                    onChange={(e) => updateCard(card.id, { link: e.target.value })}
+                    error={!!errors.link}
+                    helperText={errors.link}
+                  />
+                </Grid>
+              </Grid>
+
+              <Box>
+                <Tooltip title="Remove card">
+                  <IconButton aria-label="Remove card" onClick={() => handleRemoveCard(card)}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+            </Box>
+          </Paper>
+        );
+      })}
+    </Box>
+  );
+};
+
+export default CarouselBuilder;
@@ -0,0 +1,351 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  IconButton,
+  Slider,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import FlipIcon from '@mui/icons-material/Flip';
+import RotateLeftIcon from '@mui/icons-material/RotateLeft';
+import RotateRightIcon from '@mui/icons-material/RotateRight';
+import { AdFormat, AD_FORMAT_SPECS, AD_FORMATS } from '../../types/ad';
+import {
+  CropRect,
+  DEFAULT_IMAGE_EDITS,
+  ImageEdits,
+  MAX_ADJUSTMENT,
+  MIN_ADJUSTMENT,
+  drawTransformedImage,
+  flipEdits,
+  getEditFilter,
+  getFormatCrops,
+  getRotatedSize,
+  loadImage,
+  renderEditedImage,
+  rotateEdits,
+} from '../../utils/imageEditor';
+
+interface ImageEditorDialogProps {
+  open: boolean;
+  file: File | null; // Original image; edits are always applied to it afresh
+  adFormat: AdFormat;
+  initialEdits?: ImageEdits | null;
+  onSave: (file: File, edits: ImageEdits, adFormat: AdFormat) => void;
+  onClose: () => void;
+}
+
+// Longest side of the on-screen preview
+const PREVIEW_SIZE = 640;
+
+// Shows through transparent parts of the image
+const CHECKERBOARD = 'repeating-conic-gradient(#e5e7eb 0% 25%, #ffffff 0% 50%) 50% / 16px 16px';
+
+// Position a cropped image inside a box the size of the crop
+const getCropImageStyle = (crop: CropRect, size: { width: number; height: number }) => ({
+  position: 'absolute' as const,
+  width: `${(size.width / crop.width) * 100}%`,
+  height: `${(size.height / crop.height) * 100}%`,
+  left: `${(-crop.x / crop.width) * 100}%`,
+  top: `${(-crop.y / crop.height) * 100}%`,
+});
+
+/**
+ * Crops an image to an ad format around a focal point, with rotation, flips and
+ * brightness and contrast adjustments; the edited image is rendered in the browser
+ */
+const ImageEditorDialog: React.FC<ImageEditorDialogProps> = ({
+  open,
+  file,
+  adFormat,
+  initialEdits,
+  onSave,
+  onClose,
+}) => {
+  const [edits, setEdits] = useState<ImageEdits>(DEFAULT_IMAGE_EDITS);
+  const [format, setFormat] = useState<AdFormat>(adFormat);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the last saved edits each time the editor opens
+  useEffect(() => {
+    if (!open) return;
+    setEdits(initialEdits || DEFAULT_IMAGE_EDITS);
+    setFormat(adFormat);
+    setError(null);
+  }, [open, initialEdits, adFormat]);
+
+  useEffect(() => {
+    setImage(null);
+    if (!open || !file) return;
+
+    let isCurrent = true;
+    loadImage(file)
+      .then(img => {
+        if (isCurrent) setImage(img);
+      })
+      .catch(() => {
+        if (isCurrent) setError('This image could not be opened for editing');
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [open, file]);
+
+  // Redraw the rotated and flipped preview; adjustments are previewed with CSS filters
+  const { rotation, flipHorizontal, flipVertical } = edits;
+  useEffect(() => {
+    if (!image) {
+      setPreviewUrl(null);
+      return;
+    }
+
+    const size = getRotatedSize({ width: image.naturalWidth, height: image.naturalHeight }, rotation);
+    const scale = Math.min(1, PREVIEW_SIZE / Math.max(size.width, size.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(size.width * scale));
+    canvas.height = Math.max(1, Math.round(size.height * scale));
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.scale(scale, scale);
+    drawTransformedImage(ctx, image, { rotation, flipHorizontal, flipVertical });
+    setPreviewUrl(canvas.toDataURL('image/png'));
+  }, [image, rotation, flipHorizontal, flipVertical]);
+
+  const size = image
+    ? getRotatedSize({ width: image.naturalWidth, height: image.naturalHeight }, rotation)
+    : null;
+  const crops = size ? getFormatCrops(size, edits.focalPoint) : null;
+  const crop = crops?.[format];
+  const filter = getEditFilter(edits);
+
+  const handleSetFocalPoint = (e: React.MouseEvent<HTMLElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setEdits(prev => ({
+      ...prev,
+      focalPoint: {
+        x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+        y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+      },
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!file) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      onSave(await renderEditedImage(file, edits, format), edits, format);
+    } catch (err) {
+      console.error('Error editing image:', err);
+      setError('The edited image could not be saved. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={isSaving ? undefined : onClose} fullWidth maxWidth="md">
+      <DialogTitle>Edit Image</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" className="mb-4">
+            {error}
+          </Alert>
+        )}
+
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={7}>
+            {previewUrl && size && crop ? (
+              <>
+                <Box
+                  position="relative"
+                  overflow="hidden"
+                  mx="auto"
+                  sx={{ width: 'fit-content', maxWidth: '100%', background: CHECKERBOARD, cursor: 'crosshair' }}
+                  onClick={handleSetFocalPoint}
+                >
+                  <Box
+                    component="img"
+                    src={previewUrl}
+                    alt="Image being edited"
+                    draggable={false}
+                    sx={{ display: 'block', maxWidth: '100%', maxHeight: 420, filter }}
+                  />
+                  {/* Everything outside the crop is dimmed */}
+                  <Box
+                    sx={{
+                      position: 'absolute',
+                      left: `${(crop.x / size.width) * 100}%`,
+                      top: `${(crop.y / size.height) * 100}%`,
+                      width: `${(crop.width / size.width) * 100}%`,
+                      height: `${(crop.height / size.height) * 100}%`,
+                      border: '2px solid white',
+                      boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)',
+                      pointerEvents: 'none',
+                    }}
+                  />
+                  <Box
+                    sx={{
+                      position: 'absolute',
+                      left: `${edits.focalPoint.x * 100}%`,
+                      top: `${edits.focalPoint.y * 100}%`,
+                      width: 18,
+                      height: 18,
+                      transform: 'translate(-50%, -50%)',
+                      borderRadius: '50%',
+                      border: '3px solid white',
+                      boxShadow: '0 0 0 1px rgba(0, 0, 0, 0.5)',
+                      pointerEvents: 'none',
+                    }}
+                  />
+                </Box>
+                <Typography variant="caption" color="text.secondary" display="block" textAlign="center" mt={1}>
+                  Click the image to set the focal point. Every format is cropped around it.
+                </Typography>
+              </>
+            ) : (
+              <Box display="flex" justifyContent="center" alignItems="center" minHeight={240}>
+                {!error && <CircularProgress />}
+              </Box>
+            )}
+          </Grid>
+
+          <Grid item xs={12} md={5}>
+            <Typography variant="subtitle2" gutterBottom>Crop to format</Typography>
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={format}
+              onChange={(_, value: AdFormat | null) => value && setFormat(value)}
+              aria-label="Crop to format"
+              className="mb-4"
+            >
+              {AD_FORMATS.map(option => (
+                <ToggleButton key={option} value={option}>
+                  {AD_FORMAT_SPECS[option].aspectRatio}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+
+            <Typography variant="subtitle2" gutterBottom>Rotate and flip</Typography>
+            <Box display="flex" gap={1} mb={3}>
+              <Tooltip title="Rotate left">
+                <IconButton aria-label="Rotate left" onClick={() => setEdits(prev => rotateEdits(prev, -1))}>
+                  <RotateLeftIcon />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Rotate right">
+                <IconButton aria-label="Rotate right" onClick={() => setEdits(prev => rotateEdits(prev, 1))}>
+                  <RotateRightIcon />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Flip horizontally">
+                <IconButton
+                  aria-label="Flip horizontally"
+                  color={edits.flipHorizontal ? 'primary' : 'default'}
+                  onClick={() => setEdits(prev => flipEdits(prev, 'horizontal'))}
+                >
+                  <FlipIcon />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Flip vertically">
+                <IconButton
+                  aria-label="Flip vertically"
+                  color={edits.flipVertical ? 'primary' : 'default'}
+                  onClick={() => setEdits(prev => flipEdits(prev, 'vertical'))}
+                >
+                  <FlipIcon sx={{ transform: 'rotate(90deg)' }} />
+                </IconButton>
+              </Tooltip>
+            </Box>
+
+            <Typography variant="subtitle2">Brightness</Typography>
+            <Slider
+              size="small"
+              value={edits.brightness}
+              min={MIN_ADJUSTMENT}
+              max={MAX_ADJUSTMENT}
+              valueLabelDisplay="auto"
+              valueLabelFormat={(value) => `${value}%`}
+              onChange={(_, value) => setEdits(prev => ({ ...prev, brightness: value as number }))}
+              aria-label="Brightness"
+            />
+            <Typography variant="subtitle2">Contrast</Typography>
+            <Slider
+              size="small"
+              value={edits.contrast}
+              min={MIN_ADJUSTMENT}
+              max={MAX_ADJUSTMENT}
+              valueLabelDisplay="auto"
+              valueLabelFormat={(value) => `${value}%`}
+              onChange={(_, value) => setEdits(prev => ({ ...prev, contrast: value as number }))}
+              aria-label="Contrast"
+            />
+
+            {previewUrl && size && crops && (
+              <>
+                <Typography variant="subtitle2" gutterBottom mt={2}>Other formats</Typography>
+                <Box display="flex" alignItems="flex-end" gap={1.5}>
+                  {AD_FORMATS.filter(option => option !== format).map(option => (
+                    <Box key={option} textAlign="center">
+                      <Box
+                        position="relative"
+                        overflow="hidden"
+                        borderRadius={0.5}
+                        sx={{
+                          width: 56,
+                          aspectRatio: `${AD_FORMAT_SPECS[option].width} / ${AD_FORMAT_SPECS[option].height}`,
+                          background: CHECKERBOARD,
+                        }}
+                      >
+                        <Box
+                          component="img"
+                          src={previewUrl}
+                          alt={`${AD_FORMAT_SPECS[option].name} crop`}
+                          sx={{ ...getCropImageStyle(crops[option], size), maxWidth: 'none', filter }}
+                        />
+                      </Box>
+                      <Typography variant="caption" color="text.secondary">
+                        {AD_FORMAT_SPECS[option].aspectRatio}
+                      </Typography>
+                    </Box>
+                  ))}
+                </Box>
+              </>
+            )}
+          </Grid>
+        </Grid>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={() => setEdits(DEFAULT_IMAGE_EDITS)} disabled={isSaving} sx={{ mr: 'auto' }}>
+          Reset
+        </Button>
+        <Button onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={isSaving || !image}>
+          {isSaving ? <CircularProgress size={20} color="inherit" /> : 'Apply'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ImageEditorDialog;
@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Grid,
+  InputAdornment,
+  List,
+  ListItemButton,
+  ListItemText,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { AdTemplate, TemplateFormValues, getTemplateFormValues, getTemplateSuggestions } from '../../data/templates';
+import {
+  TemplateVariables,
+  findTemplatePlaceholders,
+  getTemplateVariableDefaults,
+  validateTemplateVariables,
+} from '../../types/ad';
+
+interface TemplateVariablesFormProps {
+  template: AdTemplate;
+  onSubmit: (values: Partial<TemplateFormValues>) => void;
+  onBack: () => void;
+}
+
+// Splits text into plain parts and {key} placeholders
+const PLACEHOLDER_SPLIT_PATTERN = /(\{[a-zA-Z][a-zA-Z0-9_]*\})/;
+
+// Show a suggestion with its unresolved placeholders highlighted
+const renderSuggestion = (text: string) =>
+  text.split(PLACEHOLDER_SPLIT_PATTERN).map((part, index) =>
+    index % 2 === 1 ? (
+      <Box
+        key={index}
+        component="span"
+        sx={{ bgcolor: 'warning.light', color: 'warning.contrastText', px: 0.5, borderRadius: 1 }}
+      >
+        {part}
+      </Box>
+    ) : (
+      part
+    )
+  );
+
+/**
+ * Collects values for a template's variables, previewing the title and
+ * description suggestions as they are filled in
+ */
+const TemplateVariablesForm: React.FC<TemplateVariablesFormProps> = ({ template, onSubmit, onBack }) => {
+  const definitions = useMemo(() => template.settings?.variables || [], [template]);
+  const [variables, setVariables] = useState<TemplateVariables>(() => getTemplateVariableDefaults(definitions));
+  const [titleIndex, setTitleIndex] = useState(0);
+  const [descriptionIndex, setDescriptionIndex] = useState(0);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const suggestions = useMemo(() => getTemplateSuggestions(template, variables), [template, variables]);
+
+  const handleChange = (key: string, value: string) => {
+    setVariables(prev => ({ ...prev, [key]: value }));
+    if (errors[key]) {
+      setErrors(prev => ({ ...prev, [key]: '' }));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const title = suggestions.titles[titleIndex] || '';
+    const description = suggestions.descriptions[descriptionIndex] || '';
+    const { fieldErrors } = validateTemplateVariables(definitions, variables);
+
+    // Variables used by the chosen suggestions are needed even when optional
+    findTemplatePlaceholders(`${title} ${description}`).forEach(key => {
+      const definition = definitions.find(item => item.key === key);
+      if (definition && !fieldErrors[key]) {
+        fieldErrors[key] = `${definition.label} is used by the selected copy`;
+      }
+    });
+
+    setErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) return;
+
+    onSubmit({ ...getTemplateFormValues(template, variables), title, description });
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit} noValidate>
+      <Typography variant="subtitle1" fontWeight={600} gutterBottom>
+        Fill in the template
+      </Typography>
+      <Typography variant="body2" color="text.secondary" mb={3}>
+        These values replace the placeholders in the template&apos;s suggested copy.
+      </Typography>
+
+      <Grid container spacing={4}>
+        <Grid item xs={12} md={5}>
+          {definitions.map(definition => (
+            <TextField
+              key={definition.key}
+              label={definition.label}
+              required={definition.required}
+              fullWidth
+              margin="normal"
+              type={definition.type === 'text' ? 'text' : 'number'}
+              value={variables[definition.key] || ''}
+              placeholder={definition.hint}
+              onChange={(e) => handleChange(definition.key, e.target.value)}
+              error={!!errors[definition.key]}
+              helperText={errors[definition.key]}
+              inputProps={definition.type === 'text' ? { maxLength: definition.maxLength } : { min: 0 }}
+              InputProps={definition.type === 'percent'
+                ? { endAdornment: <InputAdornment position="end">%</InputAdornment> }
+                : undefined}
+            />
+          ))}
+        </Grid>
+
+        <Grid item xs={12} md={7}>
+          <Typography variant="overline" color="text.secondary">Title</Typography>
+          <List dense disablePadding>
+            {suggestions.titles.map((title, index) => (
+              <ListItemButton key={index} selected={index === titleIndex} onClick={() => setTitleIndex(index)}>
+                <ListItemText primary={renderSuggestion(title)} />
+              </ListItemButton>
+            ))}
+          </List>
+
+          <Typography variant="overline" color="text.secondary" display="block" mt={2}>
+            Description
+          </Typography>
+          <List dense disablePadding>
+            {suggestions.descriptions.map((description, index) => (
+              <ListItemButton
+                key={index}
+                selected={index === descriptionIndex}
+                onClick={() => setDescriptionIndex(index)}
+              >
+                <ListItemText primary={renderSuggestion(description)} />
+              </ListItemButton>
+            ))}
+          </List>
+        </Grid>
+      </Grid>
+
+      <Box display="flex" justifyContent="space-between" mt={4}>
+        <Button variant="outlined" onClick={onBack}>
+          Choose Another Template
+        </Button>
+        <Button type="submit" variant="contained">
+          Continue
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default TemplateVariablesForm;
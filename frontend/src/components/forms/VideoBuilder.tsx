@@ -0,0 +1,415 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  FormControlLabel,
+  Grid,
+  IconButton,
+  MenuItem,
+  Paper,
+  Slider,
+  Switch,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import AddPhotoAlternateIcon from '@mui/icons-material/AddPhotoAlternate';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import AutoAwesomeIcon from '@mui/icons-material/AutoAwesome';
+import DeleteIcon from '@mui/icons-material/Delete';
+import DragIndicatorIcon from '@mui/icons-material/DragIndicator';
+import MusicNoteIcon from '@mui/icons-material/MusicNote';
+import PauseIcon from '@mui/icons-material/Pause';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import RecordVoiceOverIcon from '@mui/icons-material/RecordVoiceOver';
+import CreditCost from '../ui/CreditCost';
+import { BrandKit } from '../../api/brandKit.service';
+import { VideoOptions, VoiceGender, VoiceStyle } from '../../api/generation.service';
+import { useAdCopy } from '../../hooks/useAdCopy';
+import { useCredits } from '../../hooks/useCredits';
+import { useMusicTracks } from '../../hooks/useMusicTracks';
+import { applyBrandVoice, findBannedWords, getBannedWordsMessage } from '../../utils/brandKit';
+import { moveItem } from '../../utils/reorder';
+import {
+  MAX_SCENE_DURATION,
+  MAX_VIDEO_SCENES,
+  MIN_SCENE_DURATION,
+  VOICE_GENDERS,
+  VOICE_STYLES,
+  VideoScene,
+  clampSceneDuration,
+  countWords,
+  getScriptWordLimit,
+  getVideoDuration,
+} from '../../utils/video';
+
+interface VideoBuilderProps {
+  options: VideoOptions;
+  onOptionsChange: (options: VideoOptions) => void;
+  scenes?: VideoScene[]; // Only for videos built from images
+  onScenesChange?: (scenes: VideoScene[]) => void;
+  onAddImages?: (files: File[]) => void;
+  scenesError?: string;
+  productName: string; // Ad copy the voiceover script is written from
+  productDescription: string;
+  brandKit?: BrandKit | null; // Its voice guides the script and its banned words are kept out
+}
+
+/**
+ * Video settings: scene order and timing, background music and voiceover
+ */
+const VideoBuilder: React.FC<VideoBuilderProps> = ({
+  options,
+  onOptionsChange,
+  scenes,
+  onScenesChange,
+  onAddImages,
+  scenesError,
+  productName,
+  productDescription,
+  brandKit,
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [playingTrackId, setPlayingTrackId] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const { musicTracks, isLoadingMusicTracks } = useMusicTracks(!!options.hasMusic);
+  const { generateVoiceoverScript, isGeneratingScript } = useAdCopy();
+  const { getCreditCheck } = useCredits();
+  const scriptCheck = getCreditCheck('AD_COPY_GENERATION');
+
+  // Uploaded videos have their own length, so the script can only be sized for scenes
+  const duration = scenes ? getVideoDuration(scenes) : undefined;
+  const wordLimit = duration !== undefined ? getScriptWordLimit(duration) : undefined;
+  const script = options.voiceoverScript || '';
+  const wordCount = countWords(script);
+  const bannedWordsInScript = findBannedWords(script, brandKit?.voice.bannedWords);
+
+  // Stop the preview when the builder goes away
+  useEffect(() => () => audioRef.current?.pause(), []);
+
+  const updateOptions = (changes: Partial<VideoOptions>) => {
+    onOptionsChange({ ...options, ...changes });
+  };
+
+  const updateScene = (id: string, changes: Partial<VideoScene>) => {
+    onScenesChange?.((scenes || []).map(scene => (scene.id === id ? { ...scene, ...changes } : scene)));
+  };
+
+  const handleRemoveScene = (scene: VideoScene) => {
+    URL.revokeObjectURL(scene.previewUrl);
+    onScenesChange?.((scenes || []).filter(item => item.id !== scene.id));
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && scenes) {
+      onScenesChange?.(moveItem(scenes, dragIndex, index));
+    }
+    setDragIndex(null);
+  };
+
+  const handleImagesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = ''; // Allow picking the same files again
+    if (files.length > 0) onAddImages?.(files);
+  };
+
+  const handleTogglePreview = (trackId: string, previewUrl: string) => {
+    audioRef.current?.pause();
+    if (playingTrackId === trackId) {
+      setPlayingTrackId(null);
+      return;
+    }
+
+    const audio = new Audio(previewUrl);
+    audio.onended = () => setPlayingTrackId(null);
+    audio.play().catch(() => setPlayingTrackId(null));
+    audioRef.current = audio;
+    setPlayingTrackId(trackId);
+  };
+
+  const handleMusicToggle = (hasMusic: boolean) => {
+    if (!hasMusic) {
+      audioRef.current?.pause();
+      setPlayingTrackId(null);
+    }
+    updateOptions({ hasMusic, musicTrack: hasMusic ? options.musicTrack : undefined });
+  };
+
+  const handleGenerateScript = async () => {
+    try {
+      const voiceoverScript = await generateVoiceoverScript(applyBrandVoice({
+        productName: productName.trim(),
+        productDescription: productDescription.trim(),
+        voiceStyle: options.voiceStyle,
+        duration: duration || MAX_SCENE_DURATION,
+      }, brandKit));
+      updateOptions({ voiceoverScript });
+    } catch (err) {
+      // Already shown as a toast
+    }
+  };
+
+  return (
+    <Box>
+      {scenes && (
+        <Box mb={4}>
+          <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+            <Box>
+              <Typography variant="subtitle1" fontWeight={600}>
+                Scenes ({scenes.length}/{MAX_VIDEO_SCENES})
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                Drag the images into the order they should play. Total length: {duration}s
+              </Typography>
+            </Box>
+            <Button
+              variant="outlined"
+              size="small"
+              component="label"
+              startIcon={<AddPhotoAlternateIcon />}
+              disabled={scenes.length >= MAX_VIDEO_SCENES}
+            >
+              Add Images
+              <input
+                type="file"
+                accept="image/jpeg,image/png,image/gif,image/webp"
+                multiple
+                hidden
+                onChange={handleImagesChange}
+              />
+            </Button>
+          </Box>
+
+          {scenesError && (
+            <Alert severity="error" className="mb-4">
+              {scenesError}
+            </Alert>
+          )}
+
+          {scenes.map((scene, index) => (
+            <Paper
+              key={scene.id}
+              variant="outlined"
+              draggable
+              onDragStart={(e) => {
+                setDragIndex(index);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(index);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              className="p-2 mb-2"
+              sx={{ opacity: dragIndex === index ? 0.5 : 1 }}
+            >
+              <Box display="flex" alignItems="center" gap={2}>
+                <Tooltip title="Drag to reorder">
+                  <DragIndicatorIcon color="action" sx={{ cursor: 'grab' }} />
+                </Tooltip>
+                <Typography variant="caption" fontWeight={600}>{index + 1}</Typography>
+                <Box
+                  component="img"
+                  src={scene.previewUrl}
+                  alt={`Scene ${index + 1}`}
+                  draggable={false}
+                  sx={{ width: 64, height: 64, borderRadius: 1, objectFit: 'cover', flexShrink: 0 }}
+                />
+                <Box flex={1} px={1}>
+                  <Typography variant="caption" color="text.secondary">
+                    Shown for {scene.duration}s
+                  </Typography>
+                  <Slider
+                    size="small"
+                    value={scene.duration}
+                    min={MIN_SCENE_DURATION}
+                    max={MAX_SCENE_DURATION}
+                    step={1}
+                    marks
+                    valueLabelDisplay="auto"
+                    valueLabelFormat={(value) => `${value}s`}
+                    onChange={(_, value) => updateScene(scene.id, { duration: clampSceneDuration(value as number) })}
+                    aria-label={`Scene ${index + 1} duration`}
+                  />
+                </Box>
+                <IconButton
+                  size="small"
+                  aria-label="Move scene up"
+                  onClick={() => onScenesChange?.(moveItem(scenes, index, index - 1))}
+                  disabled={index === 0}
+                >
+                  <ArrowUpwardIcon fontSize="small" />
+                </IconButton>
+                <IconButton
+                  size="small"
+                  aria-label="Move scene down"
+                  onClick={() => onScenesChange?.(moveItem(scenes, index, index + 1))}
+                  disabled={index === scenes.length - 1}
+                >
+                  <ArrowDownwardIcon fontSize="small" />
+                </IconButton>
+                <Tooltip title="Remove scene">
+                  <IconButton aria-label="Remove scene" onClick={() => handleRemoveScene(scene)}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+            </Paper>
+          ))}
+        </Box>
+      )}
+
+      <Paper variant="outlined" className="p-4 mb-4">
+        <Box display="flex" alignItems="center" gap={1}>
+          <MusicNoteIcon color="primary" />
+          <FormControlLabel
+            control={<Switch checked={!!options.hasMusic} onChange={(e) => handleMusicToggle(e.target.checked)} />}
+            label="Background music"
+          />
+        </Box>
+
+        {options.hasMusic && (
+          <Box mt={2}>
+            {isLoadingMusicTracks ? (
+              <CircularProgress size={24} />
+            ) : musicTracks.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">No music tracks are available right now.</Typography>
+            ) : (
+              musicTracks.map(track => (
+                <Box
+                  key={track.id}
+                  display="flex"
+                  alignItems="center"
+                  gap={1}
+                  p={1}
+                  mb={1}
+                  borderRadius={1}
+                  border={1}
+                  borderColor={options.musicTrack === track.id ? 'primary.main' : 'divider'}
+                  bgcolor={options.musicTrack === track.id ? 'action.selected' : undefined}
+                  sx={{ cursor: 'pointer' }}
+                  onClick={() => updateOptions({ musicTrack: track.id })}
+                >
+                  <IconButton
+                    size="small"
+                    aria-label={playingTrackId === track.id ? `Pause ${track.name}` : `Play ${track.name}`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleTogglePreview(track.id, track.previewUrl);
+                    }}
+                  >
+                    {playingTrackId === track.id ? <PauseIcon /> : <PlayArrowIcon />}
+                  </IconButton>
+                  <Box flex={1}>
+                    <Typography variant="body2" fontWeight={600}>{track.name}</Typography>
+                    <Typography variant="caption" color="text.secondary" className="capitalize">
+                      {track.mood} · {track.duration}s
+                    </Typography>
+                  </Box>
+                  {options.musicTrack === track.id && (
+                    <Typography variant="caption" color="primary" fontWeight={600}>Selected</Typography>
+                  )}
+                </Box>
+              ))
+            )}
+          </Box>
+        )}
+      </Paper>
+
+      <Paper variant="outlined" className="p-4">
+        <Box display="flex" alignItems="center" gap={1}>
+          <RecordVoiceOverIcon color="primary" />
+          <FormControlLabel
+            control={(
+              <Switch
+                checked={!!options.hasVoiceover}
+                onChange={(e) => updateOptions({
+                  hasVoiceover: e.target.checked,
+                  voiceGender: options.voiceGender || 'female',
+                  voiceStyle: options.voiceStyle || 'friendly',
+                })}
+              />
+            )}
+            label="Voiceover"
+          />
+        </Box>
+
+        {options.hasVoiceover && (
+          <Grid container spacing={2} mt={0}>
+            <Grid item xs={12} sm={6}>
+              <Typography variant="caption" color="text.secondary" display="block" mb={0.5}>Voice</Typography>
+              <ToggleButtonGroup
+                exclusive
+                size="small"
+                value={options.voiceGender || 'female'}
+                onChange={(_, value: VoiceGender | null) => value && updateOptions({ voiceGender: value })}
+                aria-label="Voice"
+              >
+                {VOICE_GENDERS.map(option => (
+                  <ToggleButton key={option.value} value={option.value}>{option.label}</ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+            </Grid>
+            <Grid item xs={12} sm={6}>
+              <TextField
+                select
+                label="Style"
+                size="small"
+                fullWidth
+                value={options.voiceStyle || 'friendly'}
+                onChange={(e) => updateOptions({ voiceStyle: e.target.value as VoiceStyle })}
+              >
+                {VOICE_STYLES.map(option => (
+                  <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                label="Voiceover script"
+                multiline
+                minRows={3}
+                fullWidth
+                placeholder="Leave empty to have a script written from your ad copy"
+                value={script}
+                onChange={(e) => updateOptions({ voiceoverScript: e.target.value })}
+                error={bannedWordsInScript.length > 0 || (wordLimit !== undefined && wordCount > wordLimit)}
+                helperText={bannedWordsInScript.length > 0
+                  ? getBannedWordsMessage(bannedWordsInScript)
+                  : wordLimit !== undefined
+                  ? `${wordCount}/${wordLimit} words fit in ${duration}s${wordCount > wordLimit ? ' - shorten the script or lengthen the scenes' : ''}`
+                  : `${wordCount} words`}
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <Box display="flex" alignItems="center" gap={1}>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={isGeneratingScript ? <CircularProgress size={16} /> : <AutoAwesomeIcon />}
+                  onClick={handleGenerateScript}
+                  disabled={isGeneratingScript || !productName.trim() || !scriptCheck.isAffordable}
+                >
+                  {script ? 'Rewrite Script' : 'Write Script'}
+                </Button>
+                <CreditCost check={scriptCheck} />
+                {!productName.trim() && (
+                  <Typography variant="caption" color="text.secondary">Add an ad title first</Typography>
+                )}
+              </Box>
+            </Grid>
+          </Grid>
+        )}
+      </Paper>
+    </Box>
+  );
+};
+
+export default VideoBuilder;
@@ -0,0 +1,56 @@
+import React from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { Box, Container, Paper, Typography } from '@mui/material';
+
+interface AuthLayoutProps {
+  title: string;
+  subtitle?: string;
+  pageTitle: string;
+  children: React.ReactNode;
+  footer?: React.ReactNode;
+}
+
+/**
+ * Centered card layout shared by the login, registration and password pages
+ */
+const AuthLayout: React.FC<AuthLayoutProps> = ({ title, subtitle, pageTitle, children, footer }) => {
+  return (
+    <>
+      <Head>
+        <title>{`${pageTitle} - Facebook Ad Creator`}</title>
+      </Head>
+
+      <Box className="min-h-screen bg-gray-50 flex items-center py-12">
+        <Container maxWidth="xs">
+          <Box textAlign="center" mb={4}>
+            <Link href="/" className="text-2xl font-bold text-primary-600">
+              AdCreatorAI
+            </Link>
+          </Box>
+
+          <Paper elevation={0} className="p-8 border border-gray-200 rounded-lg">
+            <Typography variant="h5" component="h1" className="font-bold" gutterBottom>
+              {title}
+            </Typography>
+            {subtitle && (
+              <Typography variant="body2" color="text.secondary" mb={3}>
+                {subtitle}
+              </Typography>
+            )}
+
+            {children}
+          </Paper>
+
+          {footer && (
+            <Box textAlign="center" mt={3}>
+              {footer}
+            </Box>
+          )}
+        </Container>
+      </Box>
+    </>
+  );
+};
+
+export default AuthLayout;
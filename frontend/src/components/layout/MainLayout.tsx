@@ -19,16 +19,24 @@ import {
   Avatar,
   Menu,
   MenuItem,
+  Chip,
+  Tooltip,
 } from '@mui/material';
 import DashboardIcon from '@mui/icons-material/Dashboard';
 import AddCircleOutlineIcon from '@mui/icons-material/AddCircleOutline';
 import AnalyticsIcon from '@mui/icons-material/BarChart';
+import FolderIcon from '@mui/icons-material/Folder';
+import PhotoLibraryIcon from '@mui/icons-material/PhotoLibrary';
+import PaletteIcon from '@mui/icons-material/Palette';
 import SettingsIcon from '@mui/icons-material/Settings';
 import MenuIcon from '@mui/icons-material/Menu';
 import NotificationsIcon from '@mui/icons-material/Notifications';
 import AccountCircleIcon from '@mui/icons-material/AccountCircle';
 import HelpOutlineIcon from '@mui/icons-material/HelpOutline';
 import LogoutIcon from '@mui/icons-material/Logout';
+import TollIcon from '@mui/icons-material/Toll';
+import { useAuth } from '../../context/AuthContext';
+import { formatCredits } from '../../utils/credits';
 
 interface MainLayoutProps {
   children: React.ReactNode;
@@ -36,6 +44,7 @@ interface MainLayoutProps {
 
 const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
   const router = useRouter();
+  const { user, logout } = useAuth();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
   
@@ -59,10 +68,8 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
   };
   
   const handleLogout = () => {
-    // Implement logout logic here
-    console.log('Logging out...');
     handleUserMenuClose();
-    router.push('/login');
+    logout();
   };
   
   const navigationItems = [
@@ -78,6 +85,24 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
       path: '/create-ad',
       active: isActive('/create-ad')
     },
+    { 
+      text: 'Campaigns', 
+      icon: <FolderIcon />, 
+      path: '/campaigns',
+      active: isActive('/campaigns')
+    },
+    { 
+      text: 'Assets', 
+      icon: <PhotoLibraryIcon />, 
+      path: '/assets',
+      active: isActive('/assets')
+    },
+    { 
+      text: 'Brand Kits', 
+      icon: <PaletteIcon />, 
+      path: '/brand-kits',
+      active: isActive('/brand-kits')
+    },
     { 
       text: 'Analytics', 
       icon: <AnalyticsIcon />, 
@@ -214,6 +239,18 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
           <Box sx={{ flexGrow: 1 }} />
           
           <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            {user?.planDetails && (
+              <Tooltip title="Credits remaining">
+                <Chip
+                  icon={<TollIcon />}
+                  label={formatCredits(user.planDetails.creditsRemaining)}
+                  onClick={() => router.push('/settings')}
+                  variant="outlined"
+                  size="small"
+                  sx={{ mr: 1 }}
+                />
+              </Tooltip>
+            )}
             <IconButton size="large" color="inherit" sx={{ mr: 1 }}>
               <NotificationsIcon />
             </IconButton>
@@ -225,7 +262,7 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
               aria-controls="user-menu"
               aria-haspopup="true"
             >
-              <Avatar sx={{ width: 32, height: 32, bgcolor: 'primary.main' }}>
+              <Avatar src={user?.profilePicture} sx={{ width: 32, height: 32, bgcolor: 'primary.main' }}>
                 <AccountCircleIcon />
               </Avatar>
             </IconButton>
@@ -243,9 +280,9 @@ const MainLayout: React.FC<MainLayoutProps> = ({ children }) => {
               }}
             >
               <Box px={2} py={1}>
-                <Typography variant="subtitle2">John Doe</Typography>
+                <Typography variant="subtitle2">{user?.name}</Typography>
                 <Typography variant="body2" color="text.secondary">
-                  john.doe@example.com
+                  {user?.email}
                 </Typography>
               </Box>
               <Divider />
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Button, Grid, MenuItem, Paper, TextField, Typography } from '@mui/material';
+import FeedbackToast from '../ui/FeedbackToast';
+import { AdDefaults, FALLBACK_AD_DEFAULTS, useAdDefaults } from '../../hooks/useAdDefaults';
+import { AdFormat, AdStyle, AD_FORMATS, AD_STYLES, getAdFormatLabel } from '../../types/ad';
+
+/**
+ * Default ad style, format and brand color used to prefill new ads
+ */
+const AdDefaultsSection: React.FC = () => {
+  const { defaults, updateDefaults } = useAdDefaults();
+  const [draft, setDraft] = useState<AdDefaults>(defaults);
+
+  // Keep the form in sync with the saved defaults
+  useEffect(() => {
+    setDraft(defaults);
+  }, [defaults]);
+
+  const isUnchanged = (Object.keys(draft) as Array<keyof AdDefaults>).every(key => draft[key] === defaults[key]);
+
+  const handleSave = () => {
+    updateDefaults(draft);
+    FeedbackToast.success('New ads will start with these settings', 'Defaults Saved');
+  };
+
+  return (
+    <Paper className="p-6">
+      <Typography variant="h6" gutterBottom>
+        Ad Defaults
+      </Typography>
+      <Typography variant="body2" color="text.secondary" mb={2}>
+        Used when you create an ad. Templates can still override them.
+      </Typography>
+      <Grid container spacing={2} alignItems="center">
+        <Grid item xs={12} sm={4}>
+          <TextField
+            select
+            fullWidth
+            label="Style"
+            value={draft.adStyle}
+            onChange={(e) => setDraft(prev => ({ ...prev, adStyle: e.target.value as AdStyle }))}
+          >
+            {AD_STYLES.map(style => (
+              <MenuItem key={style} value={style} className="capitalize">
+                {style}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Grid>
+        <Grid item xs={12} sm={4}>
+          <TextField
+            select
+            fullWidth
+            label="Format"
+            value={draft.adFormat}
+            onChange={(e) => setDraft(prev => ({ ...prev, adFormat: e.target.value as AdFormat }))}
+          >
+            {AD_FORMATS.map(format => (
+              <MenuItem key={format} value={format}>
+                {getAdFormatLabel(format)}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Grid>
+        <Grid item xs={12} sm={4}>
+          <Box className="flex items-center gap-4">
+            <input
+              type="color"
+              aria-label="Brand color"
+              value={draft.primaryColor}
+              onChange={(e) => setDraft(prev => ({ ...prev, primaryColor: e.target.value }))}
+              className="w-12 h-12 rounded-full cursor-pointer"
+              style={{ border: 'none' }}
+            />
+            <Box>
+              <Typography variant="body2" color="text.secondary">Brand Color</Typography>
+              <Typography>{draft.primaryColor.toUpperCase()}</Typography>
+            </Box>
+          </Box>
+        </Grid>
+      </Grid>
+      <Box display="flex" justifyContent="flex-end" gap={1} mt={3}>
+        <Button onClick={() => setDraft(FALLBACK_AD_DEFAULTS)}>
+          Reset
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={isUnchanged}>
+          Save Defaults
+        </Button>
+      </Box>
+    </Paper>
+  );
+};
+
+export default AdDefaultsSection;
@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Avatar,
+  Box,
+  Button,
+  CircularProgress,
+  LinearProgress,
+  Paper,
+  TextField,
+  Typography,
+} from '@mui/material';
+import PhotoCameraIcon from '@mui/icons-material/PhotoCamera';
+import MediaService from '../../api/media.service';
+import FeedbackToast from '../ui/FeedbackToast';
+import { useAuth } from '../../context/AuthContext';
+import { useFormValidation, validationRules } from '../../hooks/useFormValidation';
+import { formatFileSize, isValidImage, MAX_IMAGE_SIZE, VALID_IMAGE_TYPES } from '../../utils/image';
+
+interface ProfileFormData {
+  name: string;
+  email: string;
+}
+
+const EMPTY_PROFILE: ProfileFormData = { name: '', email: '' };
+
+const profileValidationRules = {
+  name: [validationRules.required('Name is required'), validationRules.maxLength(100)],
+  email: [validationRules.required('Email is required'), validationRules.email()],
+};
+
+/**
+ * Name, email and profile picture of the logged-in user
+ */
+const ProfileSection: React.FC = () => {
+  const { user, updateProfile } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const { formData, handleSubmit, resetForm, getFieldProps } = useFormValidation<ProfileFormData>(
+    EMPTY_PROFILE,
+    profileValidationRules
+  );
+
+  // Load the profile into the form once the user is known
+  useEffect(() => {
+    if (user) resetForm({ name: user.name, email: user.email });
+  }, [user, resetForm]);
+
+  const isUnchanged = !user || (formData.name.trim() === user.name && formData.email.trim() === user.email);
+
+  const onFormSubmit = handleSubmit(async (data) => {
+    try {
+      setIsSaving(true);
+      await updateProfile({ name: data.name.trim(), email: data.email.trim() });
+      FeedbackToast.success('Your profile has been updated', 'Profile Saved');
+    } catch (error: any) {
+      FeedbackToast.error(error.response?.data?.message || 'Failed to update profile', 'Error');
+    } finally {
+      setIsSaving(false);
+    }
+  });
+
+  const handlePictureChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    if (!isValidImage(file)) {
+      FeedbackToast.error(`Please choose a JPEG, PNG, GIF or WebP image under ${formatFileSize(MAX_IMAGE_SIZE, 0)}`, 'Invalid Image');
+      return;
+    }
+
+    try {
+      setUploadProgress(0);
+      const uploaded = await MediaService.uploadImage(file, setUploadProgress);
+      await updateProfile({ profilePicture: uploaded.fileUrl });
+      FeedbackToast.success('Your profile picture has been updated', 'Picture Saved');
+    } catch (error: any) {
+      FeedbackToast.error(error.response?.data?.message || 'Failed to upload profile picture', 'Upload Failed');
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  return (
+    <Paper className="p-6">
+      <Typography variant="h6" gutterBottom>
+        Profile
+      </Typography>
+      <Box display="flex" flexWrap="wrap" gap={4}>
+        <Box display="flex" flexDirection="column" alignItems="center" gap={1}>
+          <Avatar src={user?.profilePicture} alt={user?.name} sx={{ width: 96, height: 96, fontSize: 36 }}>
+            {user?.name?.charAt(0).toUpperCase()}
+          </Avatar>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={VALID_IMAGE_TYPES.join(',')}
+            hidden
+            onChange={handlePictureChange}
+          />
+          <Button
+            size="small"
+            startIcon={<PhotoCameraIcon />}
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploadProgress !== null}
+          >
+            Change picture
+          </Button>
+          {uploadProgress !== null && (
+            <LinearProgress variant="determinate" value={uploadProgress} sx={{ width: '100%' }} />
+          )}
+        </Box>
+
+        <Box component="form" onSubmit={onFormSubmit} noValidate flex={1} minWidth={260}>
+          <TextField label="Name" fullWidth margin="normal" {...getFieldProps('name')} />
+          <TextField label="Email" type="email" fullWidth margin="normal" {...getFieldProps('email')} />
+          <Box display="flex" justifyContent="flex-end" mt={2}>
+            <Button
+              type="submit"
+              variant="contained"
+              disabled={isSaving || isUnchanged}
+              startIcon={isSaving ? <CircularProgress size={16} color="inherit" /> : undefined}
+            >
+              Save Profile
+            </Button>
+          </Box>
+        </Box>
+      </Box>
+    </Paper>
+  );
+};
+
+export default ProfileSection;
@@ -0,0 +1,259 @@
+import React, { useEffect } from 'react';
+import {
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { CustomTemplate, TemplateInput, TemplateVisibility } from '../../api/template.service';
+import { AdTemplate, AdTemplateSettings, TEMPLATE_CATEGORIES } from '../../data/templates';
+import { useFormValidation, validationRules } from '../../hooks/useFormValidation';
+import { CALL_TO_ACTIONS, FONT_FAMILIES, getAdFormatLabel } from '../../types/ad';
+
+interface TemplateFormData {
+  name: string;
+  description: string;
+  category: AdTemplate['category'];
+  visibility: TemplateVisibility;
+  tags: string[];
+  fontFamily: string;
+  callToActionOptions: string[];
+  aiPrompt: string;
+}
+
+interface TemplateFormDialogProps {
+  open: boolean;
+  settings?: AdTemplateSettings | null; // Settings captured from an ad, for a new template
+  template?: CustomTemplate | null; // Template to edit; its own settings are used
+  availableTags?: string[]; // Tags already used by other templates, offered as suggestions
+  loading?: boolean;
+  onSubmit: (data: TemplateInput) => void;
+  onClose: () => void;
+}
+
+const VISIBILITY_OPTIONS: Array<{ value: TemplateVisibility; label: string; description: string }> = [
+  { value: 'private', label: 'Private', description: 'Only you can see and use it' },
+  { value: 'team', label: 'Team', description: 'Everyone on your team can use it' },
+];
+
+const EMPTY_FORM: TemplateFormData = {
+  name: '',
+  description: '',
+  category: 'other',
+  visibility: 'private',
+  tags: [],
+  fontFamily: '',
+  callToActionOptions: [],
+  aiPrompt: '',
+};
+
+const templateValidationRules = {
+  name: [validationRules.required('Name is required'), validationRules.maxLength(60)],
+  description: [validationRules.maxLength(200)],
+  aiPrompt: [validationRules.maxLength(500)],
+};
+
+// Tidy a list typed into a free-form autocomplete
+const uniqueValues = (values: string[]) => Array.from(new Set(values.map(value => value.trim()).filter(Boolean)));
+
+/**
+ * Dialog for saving an ad as a custom template or editing a saved one
+ */
+const TemplateFormDialog: React.FC<TemplateFormDialogProps> = ({
+  open,
+  settings,
+  template,
+  availableTags = [],
+  loading = false,
+  onSubmit,
+  onClose,
+}) => {
+  const isEditing = !!template;
+  const baseSettings = template?.settings || settings;
+  const { formData, handleChange, handleSubmit, resetForm, getFieldProps } = useFormValidation<TemplateFormData>(
+    EMPTY_FORM,
+    templateValidationRules
+  );
+
+  // Load the template or captured settings into the form each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    const source = template?.settings || settings;
+    resetForm({
+      ...EMPTY_FORM,
+      ...(template && {
+        name: template.name,
+        description: template.description,
+        category: template.category,
+        visibility: template.visibility,
+        tags: template.tags,
+      }),
+      fontFamily: source?.fontFamily || '',
+      // The default call to action leads the options
+      callToActionOptions: uniqueValues([source?.callToAction || '', ...(source?.callToActionOptions || [])]),
+      aiPrompt: source?.aiPrompt || '',
+    });
+  }, [open, template, settings, resetForm]);
+
+  const onFormSubmit = handleSubmit((data) => {
+    if (!baseSettings) return;
+
+    const callToActionOptions = uniqueValues(data.callToActionOptions);
+
+    onSubmit({
+      name: data.name.trim(),
+      description: data.description.trim(),
+      category: data.category,
+      tags: data.tags,
+      visibility: data.visibility,
+      settings: {
+        ...baseSettings,
+        fontFamily: data.fontFamily.trim() || undefined,
+        callToAction: callToActionOptions[0],
+        callToActionOptions: callToActionOptions.length > 0 ? callToActionOptions : undefined,
+        aiPrompt: data.aiPrompt.trim() || undefined,
+      },
+    });
+  });
+
+  return (
+    <Dialog open={open} onClose={loading ? undefined : onClose} fullWidth maxWidth="sm">
+      <form onSubmit={onFormSubmit} noValidate>
+        <DialogTitle>{isEditing ? 'Edit Template' : 'Save as Template'}</DialogTitle>
+        <DialogContent>
+          {baseSettings && (
+            <Box display="flex" flexWrap="wrap" alignItems="center" gap={1} mb={1}>
+              <Typography variant="body2" color="text.secondary">
+                Captures
+              </Typography>
+              <Chip size="small" label={baseSettings.adStyle} className="capitalize" />
+              <Chip size="small" label={baseSettings.creativeFormat} className="capitalize" />
+              {baseSettings.adFormat && <Chip size="small" label={getAdFormatLabel(baseSettings.adFormat)} />}
+              <Chip
+                size="small"
+                label={baseSettings.primaryColor}
+                icon={
+                  <Box
+                    component="span"
+                    sx={{ width: 12, height: 12, borderRadius: '50%', bgcolor: baseSettings.primaryColor, ml: 1 }}
+                  />
+                }
+              />
+            </Box>
+          )}
+          <TextField
+            label="Name"
+            fullWidth
+            margin="normal"
+            autoFocus
+            {...getFieldProps('name')}
+          />
+          <TextField
+            label="Description"
+            fullWidth
+            margin="normal"
+            multiline
+            minRows={2}
+            {...getFieldProps('description')}
+          />
+          <Box display="flex" gap={2}>
+            <TextField
+              select
+              label="Category"
+              fullWidth
+              margin="normal"
+              value={formData.category}
+              onChange={(e) => handleChange('category', e.target.value)}
+            >
+              {TEMPLATE_CATEGORIES.map(category => (
+                <MenuItem key={category} value={category} className="capitalize">
+                  {category}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              label="Visibility"
+              fullWidth
+              margin="normal"
+              value={formData.visibility}
+              onChange={(e) => handleChange('visibility', e.target.value)}
+              helperText={VISIBILITY_OPTIONS.find(option => option.value === formData.visibility)?.description}
+            >
+              {VISIBILITY_OPTIONS.map(option => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Box>
+          <Autocomplete
+            freeSolo
+            options={FONT_FAMILIES as string[]}
+            value={formData.fontFamily}
+            onInputChange={(_, value) => handleChange('fontFamily', value)}
+            renderInput={(params) => <TextField {...params} label="Font family" margin="normal" />}
+          />
+          <Autocomplete
+            multiple
+            freeSolo
+            options={CALL_TO_ACTIONS as string[]}
+            value={formData.callToActionOptions}
+            onChange={(_, options) => handleChange('callToActionOptions', uniqueValues(options))}
+            renderTags={(options, getTagProps) =>
+              options.map((option, index) => (
+                <Chip label={option} size="small" {...getTagProps({ index })} key={option} />
+              ))
+            }
+            renderInput={(params) => (
+              <TextField {...params} label="Call to action options" margin="normal" helperText="The first one is the default" />
+            )}
+          />
+          <TextField
+            label="AI prompt"
+            fullWidth
+            margin="normal"
+            multiline
+            minRows={2}
+            placeholder="Extra instructions for the image generator, e.g. soft natural light, lots of negative space"
+            {...getFieldProps('aiPrompt')}
+          />
+          <Autocomplete
+            multiple
+            freeSolo
+            options={availableTags}
+            value={formData.tags}
+            onChange={(_, tags) => handleChange('tags', uniqueValues(tags))}
+            renderTags={(tags, getTagProps) =>
+              tags.map((tag, index) => (
+                <Chip label={tag} size="small" {...getTagProps({ index })} key={tag} />
+              ))
+            }
+            renderInput={(params) => (
+              <TextField {...params} label="Tags" margin="normal" helperText="Press Enter to add a tag" />
+            )}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="contained" disabled={loading || !baseSettings}>
+            {loading ? <CircularProgress size={20} color="inherit" /> : isEditing ? 'Save Changes' : 'Save Template'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
+
+export default TemplateFormDialog;
@@ -0,0 +1,237 @@
+import React from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  IconButton,
+  Typography,
+} from '@mui/material';
+import AspectRatioIcon from '@mui/icons-material/AspectRatio';
+import CloseIcon from '@mui/icons-material/Close';
+import DownloadIcon from '@mui/icons-material/Download';
+import EditIcon from '@mui/icons-material/Edit';
+import AdPlacementPreview from './AdPlacementPreview';
+import CreditCost from './CreditCost';
+import { useCredits } from '../../hooks/useCredits';
+import { useTextCoverage } from '../../hooks/useTextCoverage';
+import { AdData, AD_FORMAT_SPECS, AD_FORMATS, getAdFormatLabel } from '../../types/ad';
+import { formatMetricValue } from '../../utils/analytics';
+import { getTextPlacementWarnings } from '../../utils/image';
+import { AdPlacementGroup, canGeneratePlacements, getMissingPlacements } from '../../utils/placements';
+
+interface AdDetailDialogProps {
+  ad: AdData | null;
+  brandName: string;
+  placementGroup?: AdPlacementGroup; // The ad's source and placements, when it has any
+  onViewAd?: (id: string) => void;
+  onGeneratePlacements?: (group: AdPlacementGroup) => Promise<unknown>;
+  isGeneratingPlacements?: boolean;
+  onDownloadPlacements?: (group: AdPlacementGroup) => Promise<unknown>;
+  isDownloadingPlacements?: boolean;
+  onEdit?: (id: string) => void;
+  onClose: () => void;
+}
+
+// Metrics shown when the ad has run
+const DETAIL_METRICS = ['impressions', 'clicks', 'conversions'] as const;
+
+/**
+ * An ad's details next to previews of it in each Facebook placement
+ */
+const AdDetailDialog: React.FC<AdDetailDialogProps> = ({
+  ad,
+  brandName,
+  placementGroup,
+  onViewAd,
+  onGeneratePlacements,
+  isGeneratingPlacements = false,
+  onDownloadPlacements,
+  isDownloadingPlacements = false,
+  onEdit,
+  onClose,
+}) => {
+  // Generated images are checked for text the same way uploads are
+  const { coverage } = useTextCoverage(
+    ad?.adType === 'image' && ad.status === 'ready' ? ad.imageUrl : null,
+    ad?.adFormat || 'square'
+  );
+  const textWarnings = ad ? getTextPlacementWarnings({ coverage, adFormat: ad.adFormat }) : [];
+  const details = ad ? [
+    { label: 'Format', value: getAdFormatLabel(ad.adFormat) },
+    { label: 'Style', value: ad.adStyle },
+    { label: 'Call to action', value: ad.callToAction },
+    { label: 'Created', value: new Date(ad.createdAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) },
+  ] : [];
+  const { getCreditCheck } = useCredits();
+  const missingPlacements = placementGroup ? getMissingPlacements(placementGroup) : [];
+  const placementsCreditCheck = getCreditCheck('IMAGE_GENERATION', missingPlacements.length);
+
+  const handlePlacementAction = async (action?: (group: AdPlacementGroup) => Promise<unknown>) => {
+    if (!action || !placementGroup) return;
+    try {
+      await action(placementGroup);
+    } catch (err) {
+      // Already shown as a toast
+    }
+  };
+
+  return (
+    <Dialog open={!!ad} onClose={onClose} fullWidth maxWidth="lg">
+      {ad && (
+        <>
+          <DialogTitle className="flex justify-between items-center">
+            <span className="line-clamp-1">{ad.title}</span>
+            <IconButton edge="end" onClick={onClose} aria-label="close">
+              <CloseIcon />
+            </IconButton>
+          </DialogTitle>
+          <DialogContent dividers>
+            <Grid container spacing={4}>
+              <Grid item xs={12} md={8}>
+                <AdPlacementPreview
+                  key={ad.id}
+                  title={ad.title}
+                  description={ad.description}
+                  callToAction={ad.callToAction}
+                  mediaUrl={ad.imageUrl}
+                  isVideo={ad.adType === 'video'}
+                  adFormat={ad.adFormat}
+                  brandName={brandName}
+                  primaryColor={ad.primaryColor}
+                  defaultPlacement={ad.adFormat === 'story' ? 'story' : 'feed'}
+                />
+              </Grid>
+              <Grid item xs={12} md={4}>
+                <Chip label={ad.status} size="small" className="capitalize" sx={{ mb: 2 }} />
+                {textWarnings.map(warning => (
+                  <Alert key={warning} severity="warning" sx={{ mb: 2 }}>
+                    {warning}
+                  </Alert>
+                ))}
+                {details.map(detail => (
+                  <Box key={detail.label} mb={1.5}>
+                    <Typography variant="subtitle2" color="text.secondary">{detail.label}</Typography>
+                    <Typography className="capitalize">{detail.value}</Typography>
+                  </Box>
+                ))}
+                <Box mb={1.5}>
+                  <Typography variant="subtitle2" color="text.secondary">Description</Typography>
+                  <Typography variant="body2">{ad.description}</Typography>
+                </Box>
+                {ad.metrics && (
+                  <Box display="flex" gap={3} mt={2}>
+                    {DETAIL_METRICS.map(metric => (
+                      <Box key={metric}>
+                        <Typography variant="h6">{formatMetricValue(metric, ad.metrics?.[metric] || 0)}</Typography>
+                        <Typography variant="caption" color="text.secondary" className="capitalize">{metric}</Typography>
+                      </Box>
+                    ))}
+                  </Box>
+                )}
+                {placementGroup && (
+                  <Box mt={3}>
+                    <Typography variant="subtitle2" color="text.secondary" gutterBottom>Placements</Typography>
+                    <Box display="flex" alignItems="flex-end" gap={1.5} mb={1.5}>
+                      {AD_FORMATS.map(format => {
+                        const spec = AD_FORMAT_SPECS[format];
+                        const placement = format === placementGroup.ad.adFormat
+                          ? placementGroup.ad
+                          : placementGroup.placements.find(item => item.adFormat === format);
+
+                        return (
+                          <Box key={format} textAlign="center">
+                            <Box
+                              component={placement && onViewAd ? 'button' : 'div'}
+                              onClick={placement && onViewAd ? () => onViewAd(placement.id) : undefined}
+                              aria-label={placement ? `View ${spec.name} placement` : `No ${spec.name} placement yet`}
+                              overflow="hidden"
+                              borderRadius={0.5}
+                              p={0}
+                              sx={{
+                                width: 48,
+                                aspectRatio: `${spec.width} / ${spec.height}`,
+                                border: 2,
+                                borderStyle: placement ? 'solid' : 'dashed',
+                                borderColor: placement?.id === ad.id ? 'primary.main' : 'divider',
+                                bgcolor: 'action.hover',
+                                cursor: placement && onViewAd ? 'pointer' : 'default',
+                              }}
+                            >
+                              {placement?.imageUrl && placement.adType === 'image' && (
+                                <Box
+                                  component="img"
+                                  src={placement.imageUrl}
+                                  alt={`${spec.name} placement`}
+                                  sx={{ display: 'block', width: '100%', height: '100%', objectFit: 'cover' }}
+                                />
+                              )}
+                            </Box>
+                            <Typography variant="caption" color="text.secondary" display="block">
+                              {placement === placementGroup.ad ? 'Original' : spec.aspectRatio}
+                            </Typography>
+                          </Box>
+                        );
+                      })}
+                    </Box>
+                    <Box display="flex" flexWrap="wrap" gap={1}>
+                      {onGeneratePlacements && missingPlacements.length > 0 && (
+                        <Box display="flex" alignItems="center" gap={1}>
+                          <Button
+                            size="small"
+                            variant="outlined"
+                            startIcon={isGeneratingPlacements ? <CircularProgress size={16} color="inherit" /> : <AspectRatioIcon />}
+                            onClick={() => handlePlacementAction(onGeneratePlacements)}
+                            disabled={
+                              isGeneratingPlacements ||
+                              !canGeneratePlacements(placementGroup.ad) ||
+                              !placementsCreditCheck.isAffordable
+                            }
+                          >
+                            {isGeneratingPlacements ? 'Generating...' : 'Generate All Placements'}
+                          </Button>
+                          <CreditCost check={placementsCreditCheck} />
+                        </Box>
+                      )}
+                      {onDownloadPlacements && placementGroup.placements.length > 0 && (
+                        <Button
+                          size="small"
+                          startIcon={isDownloadingPlacements ? <CircularProgress size={16} color="inherit" /> : <DownloadIcon />}
+                          onClick={() => handlePlacementAction(onDownloadPlacements)}
+                          disabled={isDownloadingPlacements}
+                        >
+                          {isDownloadingPlacements ? 'Downloading...' : 'Download All'}
+                        </Button>
+                      )}
+                    </Box>
+                    {!canGeneratePlacements(placementGroup.ad) && missingPlacements.length > 0 && (
+                      <Typography variant="caption" color="text.secondary" display="block" mt={1}>
+                        Placements can be generated from finished single-image ads that kept their uploaded image.
+                      </Typography>
+                    )}
+                  </Box>
+                )}
+              </Grid>
+            </Grid>
+          </DialogContent>
+          <DialogActions>
+            {onEdit && (
+              <Button startIcon={<EditIcon />} onClick={() => onEdit(ad.id)}>
+                Edit
+              </Button>
+            )}
+            <Button onClick={onClose}>Close</Button>
+          </DialogActions>
+        </>
+      )}
+    </Dialog>
+  );
+};
+
+export default AdDetailDialog;
@@ -0,0 +1,295 @@
+import React, { useState } from 'react';
+import { Avatar, Box, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
+import SmartphoneIcon from '@mui/icons-material/Smartphone';
+import DesktopWindowsIcon from '@mui/icons-material/DesktopWindows';
+import PublicIcon from '@mui/icons-material/Public';
+import MoreHorizIcon from '@mui/icons-material/MoreHoriz';
+import ThumbUpOutlinedIcon from '@mui/icons-material/ThumbUpOutlined';
+import ChatBubbleOutlineIcon from '@mui/icons-material/ChatBubbleOutline';
+import ShareOutlinedIcon from '@mui/icons-material/ShareOutlined';
+import { AdFormat, AD_FORMAT_SPECS } from '../../types/ad';
+import { truncateCopy } from '../../utils/adCopy';
+
+export type AdPlacement = 'feed' | 'story' | 'right-column' | 'marketplace';
+export type PreviewDevice = 'mobile' | 'desktop';
+
+export const AD_PLACEMENTS: Array<{ value: AdPlacement; label: string }> = [
+  { value: 'feed', label: 'Feed' },
+  { value: 'story', label: 'Story' },
+  { value: 'right-column', label: 'Right column' },
+  { value: 'marketplace', label: 'Marketplace' },
+];
+
+interface AdPlacementPreviewProps {
+  title: string;
+  description: string;
+  callToAction: string;
+  mediaUrl?: string | null;
+  isVideo?: boolean;
+  adFormat: AdFormat;
+  brandName: string;
+  brandLogoUrl?: string;
+  primaryColor?: string;
+  defaultPlacement?: AdPlacement;
+}
+
+// Facebook cuts primary text off with "See more" at about this length
+const PRIMARY_TEXT_PREVIEW_LENGTH = 125;
+
+const FRAME_WIDTHS: Record<PreviewDevice, number> = { mobile: 320, desktop: 500 };
+
+/**
+ * Shows an ad inside mockups of the Facebook placements it can run in
+ */
+const AdPlacementPreview: React.FC<AdPlacementPreviewProps> = ({
+  title,
+  description,
+  callToAction,
+  mediaUrl,
+  isVideo = false,
+  adFormat,
+  brandName,
+  brandLogoUrl,
+  primaryColor,
+  defaultPlacement = 'feed',
+}) => {
+  const [placement, setPlacement] = useState<AdPlacement>(defaultPlacement);
+  const [device, setDevice] = useState<PreviewDevice>('mobile');
+
+  // The right column only exists on desktop
+  const frameDevice: PreviewDevice = placement === 'right-column' ? 'desktop' : device;
+  const spec = AD_FORMAT_SPECS[adFormat];
+  const aspectRatio = `${spec.width} / ${spec.height}`;
+  const displayTitle = title || 'Your headline';
+  const displayDescription = description || 'Your primary text';
+
+  const renderMedia = (sx?: object) => (
+    <Box sx={{ aspectRatio, width: '100%', bgcolor: 'grey.200', overflow: 'hidden', ...sx }}>
+      {mediaUrl && (isVideo ? (
+        <Box component="video" src={mediaUrl} muted loop autoPlay playsInline sx={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+      ) : (
+        <Box component="img" src={mediaUrl} alt={displayTitle} sx={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+      ))}
+    </Box>
+  );
+
+  const renderCallToAction = (fullWidth = false) => (
+    <Box
+      component="span"
+      sx={{
+        display: fullWidth ? 'block' : 'inline-block',
+        textAlign: 'center',
+        px: 1.5,
+        py: 0.75,
+        borderRadius: 1,
+        fontSize: 13,
+        fontWeight: 600,
+        whiteSpace: 'nowrap',
+        bgcolor: primaryColor || 'grey.300',
+        color: primaryColor ? 'common.white' : 'text.primary',
+      }}
+    >
+      {callToAction}
+    </Box>
+  );
+
+  const renderBrandHeader = (light = false) => (
+    <Box display="flex" alignItems="center" gap={1}>
+      <Avatar src={brandLogoUrl} sx={{ width: 32, height: 32, bgcolor: primaryColor, fontSize: 14 }}>
+        {brandName.charAt(0).toUpperCase()}
+      </Avatar>
+      <Box flex={1} minWidth={0}>
+        <Typography variant="body2" fontWeight={600} noWrap color={light ? 'common.white' : undefined}>
+          {brandName}
+        </Typography>
+        <Box display="flex" alignItems="center" gap={0.5} color={light ? 'grey.300' : 'text.secondary'}>
+          <Typography variant="caption">Sponsored ·</Typography>
+          <PublicIcon sx={{ fontSize: 12 }} />
+        </Box>
+      </Box>
+      <MoreHorizIcon sx={{ color: light ? 'common.white' : 'text.secondary' }} />
+    </Box>
+  );
+
+  const renderFeed = () => {
+    const primaryText = truncateCopy(displayDescription, PRIMARY_TEXT_PREVIEW_LENGTH);
+    const isTruncated = primaryText.endsWith('…');
+
+    return (
+      <Box bgcolor="background.paper">
+        <Box p={1.5}>
+          {renderBrandHeader()}
+          <Typography variant="body2" mt={1}>
+            {primaryText}
+            {isTruncated && <Box component="span" color="text.secondary"> See more</Box>}
+          </Typography>
+        </Box>
+        {renderMedia()}
+        <Box display="flex" alignItems="center" gap={1} px={1.5} py={1} bgcolor="grey.100">
+          <Box flex={1} minWidth={0}>
+            <Typography variant="caption" color="text.secondary" display="block" noWrap>
+              {brandName.toUpperCase()}
+            </Typography>
+            <Typography variant="body2" fontWeight={600} className="line-clamp-2">
+              {displayTitle}
+            </Typography>
+          </Box>
+          {renderCallToAction()}
+        </Box>
+        <Box display="flex" justifyContent="space-around" py={1} color="text.secondary" borderTop={1} borderColor="divider">
+          {[
+            { icon: <ThumbUpOutlinedIcon fontSize="small" />, label: 'Like' },
+            { icon: <ChatBubbleOutlineIcon fontSize="small" />, label: 'Comment' },
+            { icon: <ShareOutlinedIcon fontSize="small" />, label: 'Share' },
+          ].map(action => (
+            <Box key={action.label} display="flex" alignItems="center" gap={0.5}>
+              {action.icon}
+              <Typography variant="caption" fontWeight={600}>{action.label}</Typography>
+            </Box>
+          ))}
+        </Box>
+      </Box>
+    );
+  };
+
+  // Stories fill a 9:16 screen; other formats sit centered on a blurred copy of the media
+  const renderStory = () => (
+    <Box sx={{ position: 'relative', aspectRatio: '9 / 16', bgcolor: 'grey.900', overflow: 'hidden' }}>
+      {mediaUrl && !isVideo && adFormat !== 'story' && (
+        <Box
+          component="img"
+          src={mediaUrl}
+          alt=""
+          sx={{ position: 'absolute', inset: 0, width: '100%', height: '100%', objectFit: 'cover', filter: 'blur(24px)', opacity: 0.6 }}
+        />
+      )}
+      <Box sx={{ position: 'absolute', inset: 0, display: 'flex', alignItems: 'center' }}>
+        {renderMedia({ bgcolor: 'transparent' })}
+      </Box>
+      <Box sx={{ position: 'absolute', top: 0, left: 0, right: 0, p: 1.5, background: 'linear-gradient(rgba(0,0,0,0.5), transparent)' }}>
+        <Box height={2} bgcolor="rgba(255,255,255,0.8)" borderRadius={1} mb={1.5} />
+        {renderBrandHeader(true)}
+      </Box>
+      <Box sx={{ position: 'absolute', bottom: 0, left: 0, right: 0, p: 2, background: 'linear-gradient(transparent, rgba(0,0,0,0.6))' }}>
+        <Typography variant="body2" color="common.white" fontWeight={600} mb={1.5} className="line-clamp-2">
+          {displayTitle}
+        </Typography>
+        {renderCallToAction(true)}
+      </Box>
+    </Box>
+  );
+
+  const renderRightColumn = () => (
+    <Box bgcolor="background.paper" p={1.5}>
+      <Typography variant="caption" color="text.secondary" fontWeight={600}>
+        Sponsored
+      </Typography>
+      <Box display="flex" gap={1.5} mt={1}>
+        <Box width={140} flexShrink={0} borderRadius={1} overflow="hidden">
+          {renderMedia()}
+        </Box>
+        <Box minWidth={0}>
+          <Typography variant="body2" fontWeight={600} className="line-clamp-2">
+            {displayTitle}
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {brandName}
+          </Typography>
+        </Box>
+      </Box>
+    </Box>
+  );
+
+  const renderMarketplace = () => (
+    <Box bgcolor="background.paper" p={1.5}>
+      <Typography variant="subtitle2" fontWeight={700} mb={1}>
+        Today&apos;s picks
+      </Typography>
+      <Box display="grid" gridTemplateColumns="1fr 1fr" gap={1}>
+        <Box>
+          <Box borderRadius={1} overflow="hidden">
+            {renderMedia()}
+          </Box>
+          <Typography variant="body2" fontWeight={600} mt={0.5} className="line-clamp-2">
+            {displayTitle}
+          </Typography>
+          <Typography variant="caption" color="text.secondary" display="block">
+            Sponsored · {brandName}
+          </Typography>
+        </Box>
+        {/* Neighbouring listings, to show the ad in context */}
+        <Box>
+          <Box sx={{ aspectRatio: '1 / 1', bgcolor: 'grey.100', borderRadius: 1 }} />
+          <Box height={10} width="70%" bgcolor="grey.100" borderRadius={1} mt={1} />
+          <Box height={8} width="40%" bgcolor="grey.100" borderRadius={1} mt={0.5} />
+        </Box>
+      </Box>
+    </Box>
+  );
+
+  const renderPlacement = () => {
+    switch (placement) {
+      case 'story': return renderStory();
+      case 'right-column': return renderRightColumn();
+      case 'marketplace': return renderMarketplace();
+      default: return renderFeed();
+    }
+  };
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" gap={2} flexWrap="wrap" mb={2}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={placement}
+          onChange={(_, value: AdPlacement | null) => value && setPlacement(value)}
+          aria-label="Placement"
+        >
+          {AD_PLACEMENTS.map(option => (
+            <ToggleButton key={option.value} value={option.value}>
+              {option.label}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={frameDevice}
+          onChange={(_, value: PreviewDevice | null) => value && setDevice(value)}
+          aria-label="Device"
+        >
+          <ToggleButton value="mobile" aria-label="Mobile" disabled={placement === 'right-column'}>
+            <SmartphoneIcon fontSize="small" />
+          </ToggleButton>
+          <ToggleButton value="desktop" aria-label="Desktop">
+            <DesktopWindowsIcon fontSize="small" />
+          </ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+
+      <Box display="flex" justifyContent="center" bgcolor="grey.100" borderRadius={2} p={frameDevice === 'mobile' ? 3 : 2}>
+        <Box
+          sx={{
+            width: '100%',
+            maxWidth: placement === 'right-column' ? 320 : FRAME_WIDTHS[frameDevice],
+            overflow: 'hidden',
+            boxShadow: 3,
+            ...(frameDevice === 'mobile'
+              ? { border: 8, borderColor: 'grey.900', borderRadius: 6 }
+              : { borderRadius: 2 }),
+          }}
+        >
+          {renderPlacement()}
+        </Box>
+      </Box>
+      {placement === 'right-column' && (
+        <Typography variant="caption" color="text.secondary" display="block" textAlign="center" mt={1}>
+          Right column ads only show on desktop
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default AdPlacementPreview;
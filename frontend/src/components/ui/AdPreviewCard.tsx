@@ -6,6 +6,11 @@ import DeleteIcon from '@mui/icons-material/Delete';
 import DownloadIcon from '@mui/icons-material/Download';
 import ShareIcon from '@mui/icons-material/Share';
 import VisibilityIcon from '@mui/icons-material/Visibility';
+import AutoAwesomeIcon from '@mui/icons-material/AutoAwesome';
+import BookmarkAddIcon from '@mui/icons-material/BookmarkAdd';
+import GenerationJobProgress from './GenerationJobProgress';
+import { useCredits } from '../../hooks/useCredits';
+import { formatCredits, getInsufficientCreditsMessage } from '../../utils/credits';
 
 interface AdPreviewCardProps {
   id: string;
@@ -14,11 +19,15 @@ interface AdPreviewCardProps {
   createdAt: string;
   adType: 'image' | 'video';
   status: 'draft' | 'ready' | 'processing' | 'failed';
+  jobId?: string; // Generation job to show live progress for while processing
   onEdit?: (id: string) => void;
   onDelete?: (id: string) => void;
   onDownload?: (id: string) => void;
   onShare?: (id: string) => void;
   onView?: (id: string) => void;
+  onGenerateVariations?: (id: string) => void;
+  onSaveAsTemplate?: (id: string) => void;
+  onJobComplete?: (id: string) => void;
 }
 
 const AdPreviewCard: React.FC<AdPreviewCardProps> = ({
@@ -28,13 +37,19 @@ const AdPreviewCard: React.FC<AdPreviewCardProps> = ({
   createdAt,
   adType,
   status,
+  jobId,
   onEdit,
   onDelete,
   onDownload,
   onShare,
   onView,
+  onGenerateVariations,
+  onSaveAsTemplate,
+  onJobComplete,
 }) => {
   const [isHovered, setIsHovered] = useState(false);
+  const { getCreditCheck } = useCredits();
+  const variationsCheck = getCreditCheck('AD_COPY_VARIATIONS');
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -128,6 +143,36 @@ const AdPreviewCard: React.FC<AdPreviewCardProps> = ({
             </Tooltip>
           )}
           
+          {onGenerateVariations && status === 'ready' && (
+            <Tooltip
+              title={variationsCheck.isAffordable
+                ? `Generate variations (${formatCredits(variationsCheck.cost)})`
+                : getInsufficientCreditsMessage(variationsCheck.cost, variationsCheck.balance || 0)}
+            >
+              {/* Wrapped so the tooltip still shows while the button is disabled */}
+              <span>
+                <IconButton 
+                  onClick={() => onGenerateVariations(id)} 
+                  disabled={!variationsCheck.isAffordable}
+                  className="text-white hover:text-primary-300"
+                >
+                  <AutoAwesomeIcon />
+                </IconButton>
+              </span>
+            </Tooltip>
+          )}
+          
+          {onSaveAsTemplate && (
+            <Tooltip title="Save as template">
+              <IconButton 
+                onClick={() => onSaveAsTemplate(id)} 
+                className="text-white hover:text-primary-300"
+              >
+                <BookmarkAddIcon />
+              </IconButton>
+            </Tooltip>
+          )}
+          
           {onShare && status === 'ready' && (
             <Tooltip title="Share">
               <IconButton 
@@ -164,6 +209,17 @@ const AdPreviewCard: React.FC<AdPreviewCardProps> = ({
             </Tooltip>
           )}
         </Box>
+
+        {status === 'processing' && jobId && (
+          <Box mt={1}>
+            <GenerationJobProgress
+              jobId={jobId}
+              resourceId={id}
+              onComplete={() => onJobComplete?.(id)}
+              onError={() => onJobComplete?.(id)}
+            />
+          </Box>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,180 @@
+import React, { useRef, useState } from 'react';
+import { Avatar, Box, IconButton, Typography } from '@mui/material';
+import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
+import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+
+export interface CarouselPreviewCard {
+  id: string;
+  imageUrl: string | null;
+  headline: string;
+  description?: string;
+}
+
+interface CarouselPreviewProps {
+  cards: CarouselPreviewCard[];
+  primaryText: string;
+  callToAction: string;
+  brandName: string;
+  brandLogoUrl?: string;
+  primaryColor?: string;
+}
+
+// Width of each card; the next card peeks in from the right like in the feed
+const CARD_WIDTH = 240;
+const CARD_GAP = 8;
+
+/**
+ * Feed preview of a carousel ad; cards can be swiped, scrolled or stepped through
+ */
+const CarouselPreview: React.FC<CarouselPreviewProps> = ({
+  cards,
+  primaryText,
+  callToAction,
+  brandName,
+  brandLogoUrl,
+  primaryColor,
+}) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const scrollToCard = (index: number) => {
+    trackRef.current?.scrollTo({ left: index * (CARD_WIDTH + CARD_GAP), behavior: 'smooth' });
+  };
+
+  const handleScroll = () => {
+    if (!trackRef.current) return;
+    setActiveIndex(Math.round(trackRef.current.scrollLeft / (CARD_WIDTH + CARD_GAP)));
+  };
+
+  return (
+    <Box sx={{ maxWidth: 375, mx: 'auto', bgcolor: 'background.paper', borderRadius: 2, boxShadow: 3, overflow: 'hidden' }}>
+      <Box display="flex" alignItems="center" gap={1} p={1.5}>
+        <Avatar src={brandLogoUrl} sx={{ width: 32, height: 32, bgcolor: primaryColor, fontSize: 14 }}>
+          {brandName.charAt(0).toUpperCase()}
+        </Avatar>
+        <Box>
+          <Typography variant="body2" fontWeight={600}>{brandName}</Typography>
+          <Typography variant="caption" color="text.secondary">Sponsored</Typography>
+        </Box>
+      </Box>
+      <Typography variant="body2" px={1.5} pb={1.5}>
+        {primaryText || 'Your primary text'}
+      </Typography>
+
+      <Box position="relative">
+        <Box
+          ref={trackRef}
+          onScroll={handleScroll}
+          sx={{
+            display: 'flex',
+            gap: `${CARD_GAP}px`,
+            px: 1.5,
+            pb: 1.5,
+            overflowX: 'auto',
+            scrollSnapType: 'x mandatory',
+            scrollPaddingLeft: 12,
+            scrollbarWidth: 'none',
+            '&::-webkit-scrollbar': { display: 'none' },
+          }}
+        >
+          {cards.map(card => (
+            <Box
+              key={card.id}
+              sx={{
+                flex: `0 0 ${CARD_WIDTH}px`,
+                scrollSnapAlign: 'start',
+                border: 1,
+                borderColor: 'divider',
+                borderRadius: 1,
+                overflow: 'hidden',
+              }}
+            >
+              <Box sx={{ aspectRatio: '1 / 1', bgcolor: 'grey.200' }}>
+                {card.imageUrl && (
+                  <Box
+                    component="img"
+                    src={card.imageUrl}
+                    alt={card.headline}
+                    draggable={false}
+                    sx={{ width: '100%', height: '100%', objectFit: 'cover' }}
+                  />
+                )}
+              </Box>
+              <Box display="flex" alignItems="center" gap={1} p={1} bgcolor="grey.100">
+                <Box flex={1} minWidth={0}>
+                  <Typography variant="body2" fontWeight={600} noWrap>
+                    {card.headline || 'Headline'}
+                  </Typography>
+                  {card.description && (
+                    <Typography variant="caption" color="text.secondary" display="block" noWrap>
+                      {card.description}
+                    </Typography>
+                  )}
+                </Box>
+                <Box
+                  component="span"
+                  sx={{
+                    px: 1,
+                    py: 0.5,
+                    borderRadius: 1,
+                    fontSize: 12,
+                    fontWeight: 600,
+                    whiteSpace: 'nowrap',
+                    bgcolor: primaryColor || 'grey.300',
+                    color: primaryColor ? 'common.white' : 'text.primary',
+                  }}
+                >
+                  {callToAction}
+                </Box>
+              </Box>
+            </Box>
+          ))}
+        </Box>
+
+        {activeIndex > 0 && (
+          <IconButton
+            size="small"
+            aria-label="Previous card"
+            onClick={() => scrollToCard(activeIndex - 1)}
+            sx={{ position: 'absolute', left: 4, top: '40%', bgcolor: 'background.paper', boxShadow: 1, '&:hover': { bgcolor: 'background.paper' } }}
+          >
+            <ChevronLeftIcon />
+          </IconButton>
+        )}
+        {activeIndex < cards.length - 1 && (
+          <IconButton
+            size="small"
+            aria-label="Next card"
+            onClick={() => scrollToCard(activeIndex + 1)}
+            sx={{ position: 'absolute', right: 4, top: '40%', bgcolor: 'background.paper', boxShadow: 1, '&:hover': { bgcolor: 'background.paper' } }}
+          >
+            <ChevronRightIcon />
+          </IconButton>
+        )}
+      </Box>
+
+      <Box display="flex" justifyContent="center" gap={0.5} pb={1.5}>
+        {cards.map((card, index) => (
+          <Box
+            key={card.id}
+            component="button"
+            type="button"
+            aria-label={`Show card ${index + 1}`}
+            onClick={() => scrollToCard(index)}
+            sx={{
+              width: 6,
+              height: 6,
+              p: 0,
+              border: 'none',
+              borderRadius: '50%',
+              cursor: 'pointer',
+              bgcolor: index === activeIndex ? 'primary.main' : 'grey.300',
+            }}
+          />
+        ))}
+      </Box>
+    </Box>
+  );
+};
+
+export default CarouselPreview;
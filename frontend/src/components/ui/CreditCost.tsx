@@ -0,0 +1,32 @@
+import React from 'react';
+import { Chip, Tooltip } from '@mui/material';
+import TollIcon from '@mui/icons-material/Toll';
+import { CreditCheck, formatCredits, getInsufficientCreditsMessage } from '../../utils/credits';
+
+interface CreditCostProps {
+  check: CreditCheck;
+  size?: 'small' | 'medium';
+}
+
+/**
+ * Cost of an action in credits, flagged when the balance can't cover it
+ */
+const CreditCost: React.FC<CreditCostProps> = ({ check, size = 'small' }) => {
+  const title = check.isAffordable
+    ? check.balance !== undefined ? `You have ${formatCredits(check.balance)} left` : 'Charged when the action starts'
+    : getInsufficientCreditsMessage(check.cost, check.balance || 0);
+
+  return (
+    <Tooltip title={title}>
+      <Chip
+        icon={<TollIcon />}
+        label={formatCredits(check.cost)}
+        size={size}
+        color={check.isAffordable ? 'default' : 'error'}
+        variant="outlined"
+      />
+    </Tooltip>
+  );
+};
+
+export default CreditCost;
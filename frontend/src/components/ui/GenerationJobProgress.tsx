@@ -0,0 +1,70 @@
+import React from 'react';
+import { Box, LinearProgress, Typography, IconButton, Tooltip } from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import { useGenerationJob } from '../../hooks/useGenerationJob';
+import { GenerationJobStatus } from '../../api/generation.service';
+
+interface GenerationJobProgressProps {
+  jobId: string;
+  resourceId?: string;
+  onComplete?: (status: GenerationJobStatus) => void;
+  onError?: (error: string) => void;
+}
+
+/**
+ * Live progress bar for a generation job, used on processing ad cards
+ */
+const GenerationJobProgress: React.FC<GenerationJobProgressProps> = ({
+  jobId,
+  resourceId,
+  onComplete,
+  onError,
+}) => {
+  const { progress, estimatedTime, error, isTracking, isCancelled, cancel } = useGenerationJob(jobId, {
+    resourceId,
+    onComplete,
+    onError,
+  });
+
+  if (isCancelled) {
+    return (
+      <Typography variant="caption" color="text.secondary">
+        Progress tracking stopped
+      </Typography>
+    );
+  }
+
+  if (error) {
+    return (
+      <Typography variant="caption" color="error">
+        {error}
+      </Typography>
+    );
+  }
+
+  return (
+    <Box className="w-full">
+      <Box className="flex items-center gap-2">
+        <LinearProgress
+          variant={progress > 0 ? 'determinate' : 'indeterminate'}
+          value={progress}
+          className="flex-grow"
+          sx={{ height: 6, borderRadius: 3 }}
+        />
+        {isTracking && (
+          <Tooltip title="Stop tracking">
+            <IconButton size="small" onClick={cancel} aria-label="Stop tracking">
+              <CloseIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        )}
+      </Box>
+      <Typography variant="caption" color="text.secondary">
+        {progress.toFixed(0)}%
+        {estimatedTime !== undefined && estimatedTime > 0 && ` · about ${Math.ceil(estimatedTime)}s left`}
+      </Typography>
+    </Box>
+  );
+};
+
+export default GenerationJobProgress;
@@ -21,9 +21,19 @@ interface LoadingOverlayProps {
   message?: string;
   successMessage?: string;
   errorMessage?: string;
+  estimatedTime?: number; // remaining time in seconds
   onClose?: () => void;
 }
 
+// Format a remaining time in seconds, e.g. "about 1 min 30 sec"
+const formatRemainingTime = (seconds: number): string => {
+  const rounded = Math.max(1, Math.round(seconds));
+  if (rounded < 60) return `about ${rounded} sec`;
+  const minutes = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  return rest > 0 ? `about ${minutes} min ${rest} sec` : `about ${minutes} min`;
+};
+
 /**
  * A reusable loading overlay component that provides visual feedback during operations
  * with support for progress indication, success and error states.
@@ -35,6 +45,7 @@ const LoadingOverlay: React.FC<LoadingOverlayProps> = ({
   message = 'Loading...',
   successMessage = 'Operation successful!',
   errorMessage = 'An error occurred',
+  estimatedTime,
   onClose
 }) => {
   if (state === 'idle' && !open) return null;
@@ -124,6 +135,11 @@ const LoadingOverlay: React.FC<LoadingOverlayProps> = ({
                 <Typography variant="body2" color="text.secondary">
                   {progress.toFixed(0)}% Complete
                 </Typography>
+                {estimatedTime !== undefined && estimatedTime > 0 && (
+                  <Typography variant="caption" color="text.secondary">
+                    {formatRemainingTime(estimatedTime)} remaining
+                  </Typography>
+                )}
               </>
             ) : (
               <>
@@ -131,6 +147,11 @@ const LoadingOverlay: React.FC<LoadingOverlayProps> = ({
                 <Typography variant="h6">
                   {message}
                 </Typography>
+                {estimatedTime !== undefined && estimatedTime > 0 && (
+                  <Typography variant="caption" color="text.secondary">
+                    {formatRemainingTime(estimatedTime)} remaining
+                  </Typography>
+                )}
               </>
             )}
           </Box>
@@ -13,22 +13,24 @@ import LockIcon from '@mui/icons-material/Lock';
 import StarIcon from '@mui/icons-material/Star';
 import OpenInNewIcon from '@mui/icons-material/OpenInNew';
 import { AdTemplate } from '../../data/templates';
+import { usePermissions } from '../../hooks/usePermissions';
+import { isCustomTemplate } from '../../hooks/useTemplates';
+import { PERMISSIONS } from '../../utils/permissions';
 import Image from 'next/image';
 
 interface TemplateCardProps {
   template: AdTemplate;
   onSelect: (template: AdTemplate) => void;
   onPreview: (template: AdTemplate) => void;
-  isSubscribed?: boolean;
 }
 
 const TemplateCard: React.FC<TemplateCardProps> = ({
   template,
   onSelect,
   onPreview,
-  isSubscribed = false
 }) => {
-  const isPremiumLocked = template.isPremium && !isSubscribed;
+  const { can } = usePermissions();
+  const isPremiumLocked = template.isPremium && !can(PERMISSIONS.PREMIUM_TEMPLATES);
   
   const handleSelect = () => {
     if (!isPremiumLocked) {
@@ -151,6 +153,19 @@ const TemplateCard: React.FC<TemplateCardProps> = ({
           {template.name}
         </Typography>
         
+        {isCustomTemplate(template) && (
+          <Typography variant="caption" color="text.secondary" sx={{ mb: 1 }}>
+            {template.visibility === 'team' ? 'Team template' : 'Private template'}
+            {template.ownerName && ` · by ${template.ownerName}`}
+          </Typography>
+        )}
+        
+        {!!template.usageCount && (
+          <Typography variant="caption" color="text.secondary" sx={{ mb: 1 }}>
+            Used {template.usageCount.toLocaleString()} {template.usageCount === 1 ? 'time' : 'times'}
+          </Typography>
+        )}
+        
         <Typography 
           variant="body2" 
           color="text.secondary"
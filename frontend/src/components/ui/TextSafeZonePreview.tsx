@@ -0,0 +1,85 @@
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import { AdFormat, AD_FORMAT_SPECS } from '../../types/ad';
+import { STORY_SAFE_ZONES, SafeZone, TextCoverage } from '../../utils/image';
+
+interface TextSafeZonePreviewProps {
+  imageUrl: string;
+  adFormat: AdFormat;
+  coverage?: TextCoverage | null;
+  maxWidth?: number;
+}
+
+const SAFE_ZONE_LABELS: Record<SafeZone, string> = {
+  top: 'Profile and close buttons',
+  bottom: 'Reply bar and call to action',
+};
+
+/**
+ * An image cropped to its ad format, with detected text highlighted and,
+ * for stories, the areas covered by the story UI shaded
+ */
+const TextSafeZonePreview: React.FC<TextSafeZonePreviewProps> = ({ imageUrl, adFormat, coverage, maxWidth = 280 }) => {
+  const spec = AD_FORMAT_SPECS[adFormat];
+
+  return (
+    <Box
+      sx={{
+        position: 'relative',
+        width: '100%',
+        maxWidth,
+        aspectRatio: `${spec.width} / ${spec.height}`,
+        borderRadius: 1,
+        overflow: 'hidden',
+        border: 1,
+        borderColor: 'divider',
+      }}
+    >
+      <Box component="img" src={imageUrl} alt="Creative" sx={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+
+      {coverage && (
+        <Box
+          sx={{
+            position: 'absolute',
+            inset: 0,
+            display: 'grid',
+            gridTemplateRows: `repeat(${coverage.rows}, 1fr)`,
+            gridTemplateColumns: `repeat(${coverage.columns}, 1fr)`,
+          }}
+        >
+          {coverage.cells.map((row, rowIndex) =>
+            row.map((hasText, columnIndex) => (
+              <Box
+                key={`${rowIndex}-${columnIndex}`}
+                sx={hasText ? { bgcolor: 'rgba(245, 158, 11, 0.35)', outline: '1px solid rgba(245, 158, 11, 0.8)' } : undefined}
+              />
+            ))
+          )}
+        </Box>
+      )}
+
+      {adFormat === 'story' && (Object.keys(STORY_SAFE_ZONES) as SafeZone[]).map(zone => (
+        <Box
+          key={zone}
+          sx={{
+            position: 'absolute',
+            left: 0,
+            right: 0,
+            [zone]: 0,
+            height: `${STORY_SAFE_ZONES[zone] * 100}%`,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            background: 'repeating-linear-gradient(45deg, rgba(239, 68, 68, 0.35) 0 8px, rgba(239, 68, 68, 0.15) 8px 16px)',
+          }}
+        >
+          <Typography variant="caption" color="common.white" fontWeight={600} sx={{ textShadow: '0 1px 2px rgba(0,0,0,0.6)' }}>
+            {SAFE_ZONE_LABELS[zone]}
+          </Typography>
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+export default TextSafeZonePreview;
@@ -1,9 +1,11 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/router';
-import axios from 'axios';
-import jwt_decode from 'jwt-decode';
+import AuthService, { ProfileUpdate } from '../api/auth.service';
+import { refreshAccessToken } from '../api/axios';
+import { getAccessToken, getRefreshToken, isTokenExpired, subscribeToTokens } from '../api/tokenStore';
+import { getSafeReturnTo } from '../utils/security';
 
-interface User {
+export interface User {
   id: string;
   name: string;
   email: string;
@@ -16,21 +18,15 @@ interface User {
   profilePicture?: string;
 }
 
-interface JwtPayload {
-  id: string;
-  email: string;
-  name: string;
-  iat: number;
-  exp: number;
-}
-
 interface AuthContextType {
   user: User | null;
   loading: boolean;
-  login: (email: string, password: string) => Promise<void>;
-  register: (name: string, email: string, password: string) => Promise<void>;
+  login: (email: string, password: string, returnTo?: string) => Promise<void>;
+  register: (name: string, email: string, password: string, plan?: string, returnTo?: string) => Promise<void>;
   logout: () => void;
   checkAuth: () => boolean;
+  updateProfile: (updates: ProfileUpdate) => Promise<User>;
+  updateCredits: (update: (creditsRemaining: number) => number) => void;
   error: string | null;
   clearError: () => void;
 }
@@ -55,24 +51,15 @@ const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
   
-  // API URL from environment - memoize to prevent recreation
-  const API_URL = useMemo(() => process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api', []);
-  
-  // Memoize refreshUserData to prevent recreation on each render
-  const refreshUserData = useCallback(async (token: string) => {
+  // Refresh user data in the background
+  const refreshUserData = useCallback(async () => {
     try {
-      const response = await axios.get(`${API_URL}/users/me`, {
-        headers: {
-          Authorization: `Bearer ${token}`
-        }
-      });
-      
-      setUser(response.data);
-      localStorage.setItem('user', JSON.stringify(response.data));
+      const userData = await AuthService.refreshUserData();
+      setUser(userData);
     } catch (error) {
       console.error('Error refreshing user data:', error);
     }
-  }, [API_URL]);
+  }, []);
   
   // Initialize auth state from local storage
   useEffect(() => {
@@ -80,34 +67,30 @@ const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     
     const initializeAuth = async () => {
       try {
-        const token = localStorage.getItem('token');
+        const token = getAccessToken();
         
         if (token) {
-          // Check if token is expired
-          const decoded = jwt_decode<JwtPayload>(token);
-          const currentTime = Date.now() / 1000;
-          
-          if (decoded.exp < currentTime) {
-            // Token is expired, log out
-            localStorage.removeItem('token');
-            localStorage.removeItem('user');
-            if (isMounted) setUser(null);
-          } else {
-            // Token is valid, set user
-            const userJson = localStorage.getItem('user');
-            if (userJson && isMounted) {
-              const userData = JSON.parse(userJson);
-              setUser(userData);
-              
-              // Optionally, refresh user data in background
-              refreshUserData(token);
+          // Try to renew an expired token before giving up on the session
+          if (isTokenExpired(token)) {
+            if (!getRefreshToken()) {
+              throw new Error('Session expired');
             }
+            await refreshAccessToken();
+          }
+          
+          const userJson = localStorage.getItem('user');
+          if (userJson && isMounted) {
+            const userData = JSON.parse(userJson);
+            setUser(userData);
+            
+            // Optionally, refresh user data in background
+            refreshUserData();
           }
         }
       } catch (error) {
         console.error('Auth initialization error:', error);
-        localStorage.removeItem('token');
-        localStorage.removeItem('user');
+        AuthService.logout();
+        if (isMounted) setUser(null);
       } finally {
         if (isMounted) setLoading(false);
       }
@@ -120,81 +103,85 @@ const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
   }, [refreshUserData]);
   
+  // Log out locally when the tokens are cleared elsewhere, e.g. a failed refresh
+  useEffect(() => {
+    return subscribeToTokens(tokens => {
+      if (!tokens) setUser(null);
+    });
+  }, []);
+  
   // Register new user
-  const register = useCallback(async (name: string, email: string, password: string) => {
+  const register = useCallback(async (name: string, email: string, password: string, plan?: string, returnTo?: string) => {
     try {
       setLoading(true);
       setError(null);
       
-      const response = await axios.post(`${API_URL}/auth/register`, {
-        name,
-        email,
-        password
-      });
-      
-      const { token, user } = response.data;
-      
-      localStorage.setItem('token', token);
-      localStorage.setItem('user', JSON.stringify(user));
+      const { user } = await AuthService.register({ name, email, password, plan });
       
       setUser(user);
-      router.push('/dashboard');
+      router.push(getSafeReturnTo(returnTo));
     } catch (error: any) {
       setError(error.response?.data?.message || 'Registration failed');
       throw error;
     } finally {
       setLoading(false);
     }
-  }, [API_URL, router]);
+  }, [router]);
   
   // Login user
-  const login = useCallback(async (email: string, password: string) => {
+  const login = useCallback(async (email: string, password: string, returnTo?: string) => {
     try {
       setLoading(true);
       setError(null);
       
-      const response = await axios.post(`${API_URL}/auth/login`, {
-        email,
-        password
-      });
-      
-      const { token, user } = response.data;
-      
-      localStorage.setItem('token', token);
-      localStorage.setItem('user', JSON.stringify(user));
+      const { user } = await AuthService.login({ email, password });
       
       setUser(user);
-      router.push('/dashboard');
+      router.push(getSafeReturnTo(returnTo));
     } catch (error: any) {
       setError(error.response?.data?.message || 'Login failed');
       throw error;
     } finally {
       setLoading(false);
     }
-  }, [API_URL, router]);
+  }, [router]);
   
   // Logout user
   const logout = useCallback(() => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
+    AuthService.logout();
     setUser(null);
     router.push('/login');
   }, [router]);
   
+  // Update the user's profile and keep the session in sync
+  const updateProfile = useCallback(async (updates: ProfileUpdate) => {
+    const updatedUser = await AuthService.updateProfile(updates);
+    setUser(updatedUser);
+    return updatedUser;
+  }, []);
+  
+  // Change the credit balance locally, e.g. optimistically after spending credits
+  const updateCredits = useCallback((update: (creditsRemaining: number) => number) => {
+    setUser(prevUser => {
+      if (!prevUser?.planDetails) return prevUser;
+      
+      const updatedUser = {
+        ...prevUser,
+        planDetails: {
+          ...prevUser.planDetails,
+          creditsRemaining: Math.max(0, update(prevUser.planDetails.creditsRemaining)),
+        },
+      };
+      localStorage.setItem('user', JSON.stringify(updatedUser));
+      return updatedUser;
+    });
+  }, []);
+  
   // Check if user is authenticated
   const checkAuth = useCallback((): boolean => {
     if (typeof window === 'undefined') return false;
     
-    const token = localStorage.getItem('token');
-    if (!token) return false;
-    
-    try {
-      const decoded = jwt_decode<JwtPayload>(token);
-      const currentTime = Date.now() / 1000;
-      return decoded.exp > currentTime;
-    } catch (error) {
-      return false;
-    }
+    return AuthService.isAuthenticated();
   }, []);
   
   // Clear error
@@ -210,9 +197,11 @@ const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     register,
     logout,
     checkAuth,
+    updateProfile,
+    updateCredits,
     error,
     clearError
-  }), [user, loading, login, register, logout, checkAuth, error, clearError]);
+  }), [user, loading, login, register, logout, checkAuth, updateProfile, updateCredits, error, clearError]);
   
   return (
     <AuthContext.Provider value={contextValue}>
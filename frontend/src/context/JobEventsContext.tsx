@@ -0,0 +1,119 @@
+import React, { createContext, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { QueryClient, useQueryClient } from 'react-query';
+import JobEventsService, { JobEvent } from '../api/jobEvents.service';
+import { GenerationJobStatus } from '../api/generation.service';
+import { Asset } from '../api/asset.service';
+import { AdData } from '../types/ad';
+import { adsQueryKey } from '../hooks/useAds';
+import { assetsQueryKey, assetQueryKey } from '../hooks/useAssets';
+import { generationJobQueryKey, getPendingJobs, removePendingJob } from '../hooks/useGenerationJob';
+import { useAuth } from './AuthContext';
+
+interface JobEventsContextType {
+  isConnected: boolean;
+}
+
+const JobEventsContext = createContext<JobEventsContextType | undefined>(undefined);
+
+/**
+ * Whether job events are being pushed to the client
+ *
+ * Unlike other context hooks this does not require a provider: without one
+ * the stream is reported as disconnected and job hooks keep polling.
+ */
+export const useJobEvents = (): JobEventsContextType => {
+  const context = useContext(JobEventsContext);
+  return context || { isConnected: false };
+};
+
+const toJobStatus = (event: JobEvent): GenerationJobStatus['status'] =>
+  event.type === 'progress' ? 'processing' : event.type;
+
+/**
+ * Apply a job event to the react-query caches
+ * @param queryClient - Query client holding the caches
+ * @param event - Job event from the stream
+ */
+export const applyJobEvent = (queryClient: QueryClient, event: JobEvent) => {
+  const status = toJobStatus(event);
+  const isTerminal = status !== 'processing';
+
+  // Job status used by useGenerationJob
+  queryClient.setQueryData<GenerationJobStatus>(generationJobQueryKey(event.jobId), previous => ({
+    ...previous,
+    jobId: event.jobId,
+    status,
+    progress: event.progress ?? previous?.progress,
+    result: event.result ?? previous?.result,
+    error: event.error,
+  }));
+
+  if (!isTerminal) return;
+
+  // Ads and assets track the job by ID, or through a job persisted before a reload
+  const resourceId = getPendingJobs().find(job => job.jobId === event.jobId)?.resourceId;
+  const belongsToJob = (id: string, jobId?: string) => jobId === event.jobId || id === resourceId;
+
+  queryClient.setQueryData<AdData[] | undefined>(adsQueryKey, ads => ads?.map(ad => (
+    belongsToJob(ad.id, ad.jobId)
+      ? { ...ad, status: status === 'completed' ? 'ready' : 'failed', imageUrl: event.result?.fileUrl || ad.imageUrl }
+      : ad
+  )));
+
+  const updateAsset = (asset: Asset): Asset => (
+    belongsToJob(asset._id, asset.jobId)
+      ? {
+          ...asset,
+          status,
+          fileUrl: event.result?.fileUrl || asset.fileUrl,
+          thumbnailUrl: event.result?.thumbnailUrl || asset.thumbnailUrl,
+          errorMessage: event.error,
+        }
+      : asset
+  );
+
+  queryClient.setQueryData<Asset[] | undefined>(assetsQueryKey, assets => assets?.map(updateAsset));
+  if (resourceId) {
+    queryClient.setQueryData<Asset | undefined>(assetQueryKey(resourceId), asset => asset && updateAsset(asset));
+  }
+
+  removePendingJob(event.jobId);
+
+  // Pick up any server-side changes made when the job finished
+  queryClient.invalidateQueries(adsQueryKey);
+  queryClient.invalidateQueries(assetsQueryKey);
+};
+
+/**
+ * Subscribes once to the job event stream while the user is logged in
+ */
+export const JobEventsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const close = JobEventsService.connect({
+      onEvent: event => applyJobEvent(queryClient, event),
+      onOpen: () => setIsConnected(true),
+      onDisconnect: () => setIsConnected(false),
+    });
+
+    return () => {
+      close();
+      setIsConnected(false);
+    };
+  }, [user, queryClient]);
+
+  const contextValue = useMemo(() => ({ isConnected }), [isConnected]);
+
+  return (
+    <JobEventsContext.Provider value={contextValue}>
+      {children}
+    </JobEventsContext.Provider>
+  );
+};
+
+export default JobEventsProvider;
@@ -7,10 +7,21 @@ import {
 import type { PaletteMode } from '@mui/material';
 import CssBaseline from '@mui/material/CssBaseline';
 
+// Theme chosen by the user; 'system' follows the OS setting
+export type ThemePreference = PaletteMode | 'system';
+
+export const THEME_PREFERENCES: readonly ThemePreference[] = ['light', 'dark', 'system'];
+
+// localStorage key for the theme preference
+const THEME_STORAGE_KEY = 'themeMode';
+
+const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+
 // Theme context type
 interface ThemeContextType {
-  mode: PaletteMode;
-  toggleColorMode: () => void;
+  mode: PaletteMode; // Mode in use, with 'system' resolved
+  preference: ThemePreference;
+  setPreference: (preference: ThemePreference) => void;
 }
 
 // Create the context with a default value
@@ -108,47 +119,48 @@ const getDesignTokens = (mode: PaletteMode): ThemeOptions => ({
 
 // Theme provider component
 const ThemeContextProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  // Try to get the theme mode from localStorage
-  const [mode, setMode] = useState<PaletteMode>('light');
+  const [preference, setPreferenceState] = useState<ThemePreference>('system');
+  const [systemMode, setSystemMode] = useState<PaletteMode>('light');
 
-  // Effect to load the theme mode from localStorage on initial render
+  // Effect to load the theme preference from localStorage on initial render
   useEffect(() => {
-    let isMounted = true;
-    
-    const loadTheme = () => {
-      const savedMode = localStorage.getItem('themeMode') as PaletteMode | null;
-      if (savedMode && isMounted) {
-        setMode(savedMode);
-      } else if (window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches && isMounted) {
-        // Use user's system preference as fallback
-        setMode('dark');
-      }
-    };
-    
-    loadTheme();
-    
+    const savedPreference = localStorage.getItem(THEME_STORAGE_KEY) as ThemePreference | null;
+    if (savedPreference && THEME_PREFERENCES.includes(savedPreference)) {
+      setPreferenceState(savedPreference);
+    }
+  }, []);
+
+  // Follow the OS color scheme so 'system' stays in sync
+  useEffect(() => {
+    if (!window.matchMedia) return;
+
+    const query = window.matchMedia(DARK_SCHEME_QUERY);
+    const handleChange = () => setSystemMode(query.matches ? 'dark' : 'light');
+
+    handleChange();
+    query.addEventListener?.('change', handleChange);
     return () => {
-      isMounted = false;
+      query.removeEventListener?.('change', handleChange);
     };
   }, []);
 
-  // Toggle theme function - memoized with useCallback
-  const toggleColorMode = useCallback(() => {
-    setMode((prevMode: PaletteMode) => {
-      const newMode = prevMode === 'light' ? 'dark' : 'light';
-      localStorage.setItem('themeMode', newMode);
-      return newMode;
-    });
+  // Change and persist the theme preference - memoized with useCallback
+  const setPreference = useCallback((newPreference: ThemePreference) => {
+    setPreferenceState(newPreference);
+    localStorage.setItem(THEME_STORAGE_KEY, newPreference);
   }, []);
 
+  const mode: PaletteMode = preference === 'system' ? systemMode : preference;
+
   // Create the theme based on current mode - memoized with useMemo
   const theme = useMemo(() => createTheme(getDesignTokens(mode)), [mode]);
   
   // Memoize the context value to prevent unnecessary re-renders
   const contextValue = useMemo(() => ({
     mode,
-    toggleColorMode,
-  }), [mode, toggleColorMode]);
+    preference,
+    setPreference,
+  }), [mode, preference, setPreference]);
 
   return (
     <ThemeContext.Provider value={contextValue}>
@@ -0,0 +1,127 @@
+/**
+ * Tests for the job event stream and cache updates
+ */
+import { QueryClient } from 'react-query';
+import JobEventsService from '../../api/jobEvents.service';
+import { applyJobEvent } from '../JobEventsContext';
+import { adsQueryKey } from '../../hooks/useAds';
+import { assetsQueryKey } from '../../hooks/useAssets';
+import { generationJobQueryKey, savePendingJob, getPendingJobs } from '../../hooks/useGenerationJob';
+
+jest.mock('../AuthContext', () => ({
+  useAuth: () => ({ user: null }),
+}));
+
+// Stand-in for the server's event stream
+class FakeEventSource {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSED = 2;
+  static instances: FakeEventSource[] = [];
+
+  url: string;
+  readyState = FakeEventSource.CONNECTING;
+  onopen: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  private listeners: Record<string, Array<(message: { data: string }) => void>> = {};
+
+  constructor(url: string) {
+    this.url = url;
+    FakeEventSource.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (message: { data: string }) => void) {
+    this.listeners[type] = [...(this.listeners[type] || []), listener];
+  }
+
+  close() {
+    this.readyState = FakeEventSource.CLOSED;
+  }
+
+  // Helpers used by the tests to drive the stream
+  open() {
+    this.readyState = FakeEventSource.OPEN;
+    this.onopen?.();
+  }
+
+  emit(type: string, data: object) {
+    this.listeners[type]?.forEach(listener => listener({ data: JSON.stringify(data) }));
+  }
+
+  fail() {
+    this.readyState = FakeEventSource.CLOSED;
+    this.onerror?.();
+  }
+}
+
+describe('Job events', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    localStorage.clear();
+    localStorage.setItem('auth_token', 'test-token');
+    FakeEventSource.instances = [];
+    (global as any).EventSource = FakeEventSource;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete (global as any).EventSource;
+  });
+
+  test('should stream events and reconnect after the stream drops', () => {
+    const onEvent = jest.fn();
+    const onOpen = jest.fn();
+    const onDisconnect = jest.fn();
+
+    const close = JobEventsService.connect({ onEvent, onOpen, onDisconnect });
+    const source = FakeEventSource.instances[0];
+
+    expect(source.url).toContain('/generate/events?token=test-token');
+
+    source.open();
+    source.emit('job', { jobId: 'job-1', type: 'progress', progress: 40 });
+
+    expect(onOpen).toHaveBeenCalledTimes(1);
+    expect(onEvent).toHaveBeenCalledWith({ jobId: 'job-1', type: 'progress', progress: 40 });
+
+    // Dropped stream: report the disconnect so callers fall back to polling
+    source.fail();
+    expect(onDisconnect).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(2000);
+    expect(FakeEventSource.instances).toHaveLength(2);
+
+    close();
+    expect(FakeEventSource.instances[1].readyState).toBe(FakeEventSource.CLOSED);
+  });
+
+  test('should update job, ad and asset caches when a job completes', () => {
+    const queryClient = new QueryClient();
+    savePendingJob('job-1', 'asset-1');
+
+    queryClient.setQueryData(adsQueryKey, [
+      { id: 'ad-1', jobId: 'job-1', status: 'processing', imageUrl: '' },
+      { id: 'ad-2', status: 'processing', imageUrl: '' },
+    ]);
+    queryClient.setQueryData(assetsQueryKey, [
+      { _id: 'asset-1', status: 'processing', fileUrl: '' },
+    ]);
+
+    applyJobEvent(queryClient, {
+      jobId: 'job-1',
+      type: 'completed',
+      progress: 100,
+      result: { fileUrl: 'https://example.com/ad.png' },
+      timestamp: '2024-01-01T00:00:00.000Z',
+    });
+
+    expect(queryClient.getQueryData(generationJobQueryKey('job-1'))).toEqual(
+      expect.objectContaining({ status: 'completed', progress: 100 })
+    );
+    expect(queryClient.getQueryData<any[]>(adsQueryKey)?.map(ad => ad.status)).toEqual(['ready', 'processing']);
+    expect(queryClient.getQueryData<any[]>(assetsQueryKey)?.[0]).toEqual(
+      expect.objectContaining({ status: 'completed', fileUrl: 'https://example.com/ad.png' })
+    );
+    expect(getPendingJobs()).toEqual([]);
+  });
+});
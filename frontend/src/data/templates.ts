@@ -1,12 +1,25 @@
-import { AdStyle, AdFormat } from '../types/adTypes';
+import {
+  AdStyle,
+  AdFormat,
+  CreativeFormat,
+  AdCreationInput,
+  TemplateVariableDefinition,
+  TemplateVariables,
+  applyTemplateVariables,
+  creativeFormatToAdType,
+  defaultAdFormatFor,
+  getTemplateVariableDefaults,
+} from '../types/ad';
 
 export interface AdTemplateSettings {
   adStyle: AdStyle;
-  adFormat: AdFormat;
+  creativeFormat: CreativeFormat;
+  adFormat?: AdFormat; // Placement, defaults to the creative format's usual placement
   primaryColor: string;
   fontFamily?: string;
-  titleSuggestions?: string[];
+  titleSuggestions?: string[]; // May contain {key} placeholders for the variables below
   descriptionSuggestions?: string[];
+  variables?: TemplateVariableDefinition[];
   descriptionTips?: string[];
   callToAction?: string;
   callToActionOptions?: string[];
@@ -24,8 +37,18 @@ export interface AdTemplate {
   isPremium: boolean;
   settings?: AdTemplateSettings;
   tags: string[];
+  createdAt?: string; // Set on templates served by the catalog API
+  usageCount?: number; // Ads started from the template
 }
 
+export const TEMPLATE_CATEGORIES: readonly AdTemplate['category'][] = [
+  'promotion',
+  'awareness',
+  'conversion',
+  'engagement',
+  'other',
+];
+
 // Sample templates
 export const templates: AdTemplate[] = [
   {
@@ -39,7 +62,7 @@ export const templates: AdTemplate[] = [
     tags: ['business', 'professional', 'services', 'consulting'],
     settings: {
       adStyle: 'modern',
-      adFormat: 'single-image',
+      creativeFormat: 'single-image',
       primaryColor: '#2563EB',
       titleSuggestions: [
         'Elevate Your Business Strategy',
@@ -65,19 +88,24 @@ export const templates: AdTemplate[] = [
     tags: ['product', 'launch', 'new', 'innovative'],
     settings: {
       adStyle: 'bold',
-      adFormat: 'single-image',
+      creativeFormat: 'single-image',
       primaryColor: '#DC2626',
       titleSuggestions: [
         'Introducing Our Revolutionary Product',
-        'The Wait Is Over: Discover the New [Product]',
-        'Change the Way You [Activity] Forever'
+        'The Wait Is Over: Discover the New {product}',
+        'Change the Way You {activity} Forever'
       ],
       descriptionSuggestions: [
         'Engineered for performance, designed for convenience. See why customers can\'t stop talking about it.',
-        'The future of [industry] is here. Be among the first to experience the difference.',
+        'The future of {industry} is here. Be among the first to experience the difference.',
         'Combining cutting-edge technology with sleek design. Limited quantities available.'
       ],
       callToAction: 'Shop Now',
+      variables: [
+        { key: 'product', label: 'Product name', type: 'text', required: true, maxLength: 30, hint: 'AirPods Pro' },
+        { key: 'activity', label: 'Activity', type: 'text', maxLength: 20, hint: 'Work Out' },
+        { key: 'industry', label: 'Industry', type: 'text', maxLength: 30, hint: 'home fitness' },
+      ],
     }
   },
   {
@@ -91,7 +119,7 @@ export const templates: AdTemplate[] = [
     tags: ['luxury', 'lifestyle', 'premium', 'exclusive'],
     settings: {
       adStyle: 'elegant',
-      adFormat: 'carousel',
+      creativeFormat: 'carousel',
       primaryColor: '#8B5CF6',
       titleSuggestions: [
         'Elevate Your Everyday Experience',
@@ -117,19 +145,23 @@ export const templates: AdTemplate[] = [
     tags: ['sale', 'promotion', 'discount', 'limited-time'],
     settings: {
       adStyle: 'vibrant',
-      adFormat: 'single-image',
+      creativeFormat: 'single-image',
       primaryColor: '#F59E0B',
       titleSuggestions: [
-        'Limited Time Offer: Save 40% Today!',
+        'Limited Time Offer: Save {discount} Today!',
         'Flash Sale: Don\'t Miss These Deals!',
         'Exclusive Weekend Promotion'
       ],
       descriptionSuggestions: [
-        'Our biggest sale of the season. Use code FLASH40 at checkout for extra savings!',
+        'Our biggest sale of the season. Use code {promoCode} at checkout for extra savings!',
         'Limited quantities available. Shop now before your favorites sell out!',
         'Members get early access! Sign up now to unlock special offers.'
       ],
       callToAction: 'Shop Sale',
+      variables: [
+        { key: 'discount', label: 'Discount', type: 'percent', defaultValue: '40', required: true },
+        { key: 'promoCode', label: 'Promo code', type: 'text', defaultValue: 'FLASH40', maxLength: 20 },
+      ],
     }
   },
   {
@@ -143,19 +175,23 @@ export const templates: AdTemplate[] = [
     tags: ['service', 'reliable', 'professional', 'local'],
     settings: {
       adStyle: 'trustworthy',
-      adFormat: 'video',
+      creativeFormat: 'video',
       primaryColor: '#10B981',
       titleSuggestions: [
         'Service You Can Count On',
         'Trusted by Thousands of Customers',
-        'Professional [Service] with Guaranteed Results'
+        'Professional {service} with Guaranteed Results'
       ],
       descriptionSuggestions: [
-        '5-star rated service with over 1,000 satisfied customers in [location].',
+        '5-star rated service with over 1,000 satisfied customers in {location}.',
         'Our certified professionals deliver exceptional results, backed by our satisfaction guarantee.',
         'Fast, reliable, and professional. See why customers choose us year after year.'
       ],
       callToAction: 'Book Now',
+      variables: [
+        { key: 'service', label: 'Service', type: 'text', required: true, maxLength: 30, hint: 'Plumbing' },
+        { key: 'location', label: 'Location', type: 'text', maxLength: 40, hint: 'Austin' },
+      ],
     }
   },
   {
@@ -169,7 +205,7 @@ export const templates: AdTemplate[] = [
     tags: ['collection', 'fun', 'colorful', 'creative'],
     settings: {
       adStyle: 'playful',
-      adFormat: 'collection',
+      creativeFormat: 'collection',
       primaryColor: '#EC4899',
       titleSuggestions: [
         'Discover Our Colorful Collection',
@@ -186,6 +222,81 @@ export const templates: AdTemplate[] = [
   }
 ];
 
+// Form values a template pre-fills in the ad creation form
+export type TemplateFormValues = Pick<
+  AdCreationInput,
+  'title' | 'description' | 'callToAction' | 'adStyle' | 'adFormat' | 'creativeFormat' | 'primaryColor' | 'isVideo'
+>;
+
+// Title and description suggestions with the variables substituted
+export const getTemplateSuggestions = (
+  template: AdTemplate,
+  variables: TemplateVariables = getTemplateVariableDefaults(template.settings?.variables)
+): { titles: string[]; descriptions: string[] } => {
+  const definitions = template.settings?.variables;
+  const apply = (text: string) => applyTemplateVariables(text, variables, definitions);
+
+  return {
+    titles: (template.settings?.titleSuggestions || []).map(apply),
+    descriptions: (template.settings?.descriptionSuggestions || []).map(apply),
+  };
+};
+
+// Convert a template's settings into ad creation form values
+export const getTemplateFormValues = (
+  template: AdTemplate,
+  variables?: TemplateVariables
+): Partial<TemplateFormValues> => {
+  const settings = template.settings;
+  if (!settings) return {};
+
+  const suggestions = getTemplateSuggestions(template, variables);
+
+  return {
+    adStyle: settings.adStyle,
+    adFormat: settings.adFormat || defaultAdFormatFor(settings.creativeFormat),
+    creativeFormat: settings.creativeFormat,
+    isVideo: creativeFormatToAdType(settings.creativeFormat) === 'video',
+    title: suggestions.titles[0] || '',
+    description: suggestions.descriptions[0] || '',
+    callToAction: settings.callToAction || settings.callToActionOptions?.[0] || '',
+    primaryColor: settings.primaryColor,
+  };
+};
+
+// Ad fields a custom template is captured from - fits both saved ads and the in-progress form
+export type TemplateSource = Pick<AdCreationInput, 'adStyle' | 'adFormat' | 'creativeFormat' | 'primaryColor'> &
+  Partial<Pick<AdCreationInput, 'title' | 'description' | 'callToAction'>>;
+
+// Template settings that can't be read from an ad and are chosen when saving
+export type TemplateSettingsExtras = Pick<AdTemplateSettings, 'fontFamily' | 'callToActionOptions' | 'aiPrompt'>;
+
+// Capture an ad's creative settings so it can be saved as a template
+export const createTemplateSettings = (
+  source: TemplateSource,
+  extras: TemplateSettingsExtras = {}
+): AdTemplateSettings => {
+  const title = source.title?.trim();
+  const description = source.description?.trim();
+  const callToAction = source.callToAction?.trim() || extras.callToActionOptions?.[0];
+  const callToActionOptions = Array.from(new Set(
+    [callToAction, ...(extras.callToActionOptions || [])].map(option => option?.trim()).filter(Boolean) as string[]
+  ));
+
+  return {
+    adStyle: source.adStyle,
+    creativeFormat: source.creativeFormat,
+    adFormat: source.adFormat,
+    primaryColor: source.primaryColor,
+    fontFamily: extras.fontFamily?.trim() || undefined,
+    titleSuggestions: title ? [title] : [],
+    descriptionSuggestions: description ? [description] : [],
+    callToAction,
+    callToActionOptions: callToActionOptions.length > 0 ? callToActionOptions : undefined,
+    aiPrompt: extras.aiPrompt?.trim() || undefined,
+  };
+};
+
 // Get a template by ID
 export const getTemplateById = (id: string): AdTemplate | undefined => {
   return templates.find(template => template.id === id);
@@ -0,0 +1,38 @@
+/**
+ * Tests for the ad defaults saved from the settings page
+ */
+import { FALLBACK_AD_DEFAULTS, getAdDefaults, saveAdDefaults } from '../useAdDefaults';
+
+describe('getAdDefaults', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('returns the fallback defaults when nothing is saved', () => {
+    expect(getAdDefaults()).toEqual(FALLBACK_AD_DEFAULTS);
+  });
+
+  it('returns saved defaults', () => {
+    const defaults = { adStyle: 'bold' as const, adFormat: 'story' as const, primaryColor: '#ff0000' };
+    saveAdDefaults(defaults);
+
+    expect(getAdDefaults()).toEqual(defaults);
+  });
+
+  it('falls back per field for invalid saved values', () => {
+    localStorage.setItem('adDefaults', JSON.stringify({ adStyle: 'bold', adFormat: 'poster', primaryColor: 'red' }));
+
+    expect(getAdDefaults()).toEqual({
+      adStyle: 'bold',
+      adFormat: FALLBACK_AD_DEFAULTS.adFormat,
+      primaryColor: FALLBACK_AD_DEFAULTS.primaryColor,
+    });
+  });
+
+  it('ignores corrupt saved data', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('adDefaults', '{not json');
+
+    expect(getAdDefaults()).toEqual(FALLBACK_AD_DEFAULTS);
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Tests for campaign filtering on the campaigns page
+ */
+import { filterCampaigns } from '../useCampaigns';
+import { Campaign } from '../../api/campaign.service';
+
+const createCampaign = (id: string, status: Campaign['status'], tags?: string[]): Campaign => ({
+  _id: id,
+  title: `Campaign ${id}`,
+  isPublic: false,
+  tags,
+  status,
+  lastEdited: '2024-01-01T00:00:00.000Z',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+describe('filterCampaigns', () => {
+  const campaigns = [
+    createCampaign('1', 'draft', ['summer', 'sale']),
+    createCampaign('2', 'active', ['summer']),
+    createCampaign('3', 'active'),
+  ];
+
+  test('should filter by status', () => {
+    expect(filterCampaigns(campaigns, 'all', []).map(c => c._id)).toEqual(['1', '2', '3']);
+    expect(filterCampaigns(campaigns, 'active', []).map(c => c._id)).toEqual(['2', '3']);
+  });
+
+  test('should only keep campaigns carrying every selected tag', () => {
+    expect(filterCampaigns(campaigns, 'all', ['summer']).map(c => c._id)).toEqual(['1', '2']);
+    expect(filterCampaigns(campaigns, 'all', ['summer', 'sale']).map(c => c._id)).toEqual(['1']);
+    expect(filterCampaigns(campaigns, 'active', ['sale'])).toEqual([]);
+  });
+});
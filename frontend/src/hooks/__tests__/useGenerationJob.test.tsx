@@ -0,0 +1,107 @@
+/**
+ * Tests for useGenerationJob hook
+ */
+import React from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from 'react-query';
+import GenerationService from '../../api/generation.service';
+import {
+  useGenerationJob,
+  getPollingInterval,
+  getPendingJobs,
+  savePendingJob,
+  removePendingJob,
+} from '../useGenerationJob';
+
+jest.mock('../../api/generation.service', () => ({
+  __esModule: true,
+  default: {
+    checkJobStatus: jest.fn(),
+  },
+}));
+
+const checkJobStatus = GenerationService.checkJobStatus as jest.Mock;
+
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false } },
+  });
+  const Wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+  return Wrapper;
+};
+
+describe('useGenerationJob Hook', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+  });
+
+  test('should back off exponentially up to the max interval', () => {
+    const options = { initialInterval: 1000, maxInterval: 5000, backoffFactor: 2 };
+
+    expect(getPollingInterval(0, options)).toBe(1000);
+    expect(getPollingInterval(2, options)).toBe(4000);
+    expect(getPollingInterval(10, options)).toBe(5000);
+  });
+
+  test('should persist and remove pending jobs', () => {
+    savePendingJob('job-1', 'ad-1');
+    savePendingJob('job-2');
+    savePendingJob('job-1', 'ad-1');
+
+    expect(getPendingJobs().map(job => job.jobId)).toEqual(['job-1', 'job-2']);
+    expect(getPendingJobs()[0].resourceId).toBe('ad-1');
+
+    removePendingJob('job-1');
+    removePendingJob('job-2');
+
+    expect(getPendingJobs()).toEqual([]);
+    expect(localStorage.getItem('pendingGenerationJobs')).toBeNull();
+  });
+
+  test('should stop tracking and forget the job once it completes', async () => {
+    checkJobStatus.mockResolvedValueOnce({ jobId: 'job-1', status: 'completed', progress: 100 });
+    const onComplete = jest.fn();
+
+    const { result } = renderHook(
+      () => useGenerationJob('job-1', { resourceId: 'ad-1', onComplete }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.status).toBe('completed'));
+
+    expect(result.current.progress).toBe(100);
+    expect(result.current.isTracking).toBe(false);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(getPendingJobs()).toEqual([]);
+  });
+
+  test('should report the job error when it fails', async () => {
+    checkJobStatus.mockResolvedValueOnce({ jobId: 'job-1', status: 'failed', error: 'Out of credits' });
+
+    const { result } = renderHook(() => useGenerationJob('job-1'), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(result.current.status).toBe('failed'));
+
+    expect(result.current.error).toBe('Out of credits');
+  });
+
+  test('should forget the job when cancelled', async () => {
+    checkJobStatus.mockResolvedValue({ jobId: 'job-1', status: 'processing', progress: 10 });
+
+    const { result } = renderHook(() => useGenerationJob('job-1'), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(result.current.progress).toBe(10));
+    expect(getPendingJobs()).toHaveLength(1);
+
+    act(() => {
+      result.current.cancel();
+    });
+
+    expect(result.current.isCancelled).toBe(true);
+    expect(result.current.isTracking).toBe(false);
+    expect(getPendingJobs()).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import { useMemo } from 'react';
+import { useMutation } from 'react-query';
+import GenerationService, { AdCopy, AdCopyInput, VoiceoverScriptInput } from '../api/generation.service';
+import FeedbackToast from '../components/ui/FeedbackToast';
+import { useCredits } from './useCredits';
+import { fitAdCopy } from '../utils/adCopy';
+
+/**
+ * Generate ad copy with the AI copywriter, charging credits for each request
+ */
+export function useAdCopy() {
+  const { spendCredits } = useCredits();
+
+  // Several complete variations to choose from
+  const generateVariationsMutation = useMutation<AdCopy[], Error, { input: AdCopyInput; count?: number }>(
+    ['generateAdCopyVariations'],
+    ({ input, count }) => spendCredits('AD_COPY_VARIATIONS', () =>
+      GenerationService.generateAdCopyVariations(input, count)
+    ),
+    {
+      onError: (error) => {
+        FeedbackToast.error(error.message || 'Failed to generate ad copy', 'Copy Generation Failed');
+      },
+    }
+  );
+
+  // A single copy suggestion, used to regenerate one field
+  const generateCopyMutation = useMutation<AdCopy, Error, AdCopyInput>(
+    ['generateAdCopy'],
+    (input) => spendCredits('AD_COPY_GENERATION', () => GenerationService.generateAdCopy(input)),
+    {
+      onError: (error) => {
+        FeedbackToast.error(error.message || 'Failed to generate ad copy', 'Copy Generation Failed');
+      },
+    }
+  );
+
+  // Script for a video's voiceover, sized to the length of the video
+  const generateScriptMutation = useMutation<string, Error, VoiceoverScriptInput>(
+    ['generateVoiceoverScript'],
+    (input) => spendCredits('AD_COPY_GENERATION', () => GenerationService.generateVoiceoverScript(input)),
+    {
+      onError: (error) => {
+        FeedbackToast.error(error.message || 'Failed to write a voiceover script', 'Script Generation Failed');
+      },
+    }
+  );
+
+  const { mutateAsync: generateVariations, isLoading: isGeneratingVariations } = generateVariationsMutation;
+  const { mutateAsync: generateCopy, isLoading: isGeneratingCopy } = generateCopyMutation;
+  const { mutateAsync: generateVoiceoverScript, isLoading: isGeneratingScript } = generateScriptMutation;
+
+  // Results are tidied to fit the ad form before they're returned
+  return useMemo(() => ({
+    generateCopyVariations: async (input: AdCopyInput, count?: number) => {
+      const variations = await generateVariations({ input, count });
+      return (variations || []).map(copy => fitAdCopy(copy, input.maxLength));
+    },
+    isGeneratingVariations,
+
+    generateCopy: async (input: AdCopyInput) => fitAdCopy(await generateCopy(input), input.maxLength),
+    isGeneratingCopy,
+
+    generateVoiceoverScript: async (input: VoiceoverScriptInput) => (await generateVoiceoverScript(input)).trim(),
+    isGeneratingScript,
+  }), [
+    generateVariations,
+    isGeneratingVariations,
+    generateCopy,
+    isGeneratingCopy,
+    generateVoiceoverScript,
+    isGeneratingScript,
+  ]);
+}
+
+export default useAdCopy;
@@ -0,0 +1,70 @@
+import { useCallback, useMemo, useState } from 'react';
+import { AdFormat, AdStyle, isAdFormat, isAdStyle } from '../types/ad';
+
+// localStorage key for the user's ad defaults
+const AD_DEFAULTS_STORAGE_KEY = 'adDefaults';
+
+// Values used to prefill new ads
+export interface AdDefaults {
+  adStyle: AdStyle;
+  adFormat: AdFormat;
+  primaryColor: string; // Brand color as #rrggbb
+}
+
+export const FALLBACK_AD_DEFAULTS: AdDefaults = {
+  adStyle: 'professional',
+  adFormat: 'square',
+  primaryColor: '#4f46e5',
+};
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Get the saved ad defaults, falling back field by field when missing or invalid
+ * @returns Ad defaults
+ */
+export const getAdDefaults = (): AdDefaults => {
+  if (typeof window === 'undefined') return FALLBACK_AD_DEFAULTS;
+
+  try {
+    const saved = JSON.parse(localStorage.getItem(AD_DEFAULTS_STORAGE_KEY) || '{}');
+    return {
+      adStyle: isAdStyle(saved.adStyle) ? saved.adStyle : FALLBACK_AD_DEFAULTS.adStyle,
+      adFormat: isAdFormat(saved.adFormat) ? saved.adFormat : FALLBACK_AD_DEFAULTS.adFormat,
+      primaryColor: typeof saved.primaryColor === 'string' && HEX_COLOR_PATTERN.test(saved.primaryColor)
+        ? saved.primaryColor
+        : FALLBACK_AD_DEFAULTS.primaryColor,
+    };
+  } catch (err) {
+    console.error('Error parsing ad defaults:', err);
+    return FALLBACK_AD_DEFAULTS;
+  }
+};
+
+/**
+ * Persist the ad defaults
+ * @param defaults - Ad defaults to save
+ */
+export const saveAdDefaults = (defaults: AdDefaults) => {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(AD_DEFAULTS_STORAGE_KEY, JSON.stringify(defaults));
+};
+
+/**
+ * The user's default ad style, format and brand color
+ */
+export function useAdDefaults() {
+  const [defaults, setDefaults] = useState<AdDefaults>(getAdDefaults);
+
+  const updateDefaults = useCallback((newDefaults: AdDefaults) => {
+    saveAdDefaults(newDefaults);
+    setDefaults(newDefaults);
+  }, []);
+
+  return useMemo(() => ({
+    defaults,
+    updateDefaults,
+  }), [defaults, updateDefaults]);
+}
+
+export default useAdDefaults;
@@ -1,7 +1,21 @@
 import { useQuery, useMutation, useQueryClient, UseQueryResult } from 'react-query';
 import { useCallback, useMemo } from 'react';
-import adService, { AdData, AdCreationInput } from '../api/services/adService';
+import adService from '../api/services/adService';
+import GenerationService, { GenerationResponse } from '../api/generation.service';
+import { AdData, AdCreationInput, AdFormat, AD_FORMAT_SPECS } from '../types/ad';
 import FeedbackToast from '../components/ui/FeedbackToast';
+import { useCredits } from './useCredits';
+import { exportAdsToZip, getAdFileExtension, getAdFilename, AdExportResult } from '../utils/adExport';
+import { runBulkAction, BulkItemResult } from '../utils/bulk';
+import {
+  AdPlacementGroup,
+  getMissingPlacements,
+  getPlacementFileTitle,
+  groupAdPlacements,
+  toPlacementInput,
+} from '../utils/placements';
+import { getInsufficientCreditsMessage } from '../utils/credits';
+import { formatError } from '../utils/errors';
 
 // Types for API errors
 interface ApiError {
@@ -10,27 +24,34 @@ interface ApiError {
   details?: unknown;
 }
 
-// Custom error formatter for consistent error handling 
-const formatError = (error: unknown): string => {
-  if (typeof error === 'string') return error;
-  if (error && typeof error === 'object') {
-    if ('message' in error && typeof error.message === 'string') return error.message;
-    if ('error' in error && typeof error.error === 'string') return error.error;
-  }
-  return 'An unexpected error occurred';
+// Save a blob through a temporary download link
+const saveBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+
+  // Cleanup
+  setTimeout(() => {
+    window.URL.revokeObjectURL(url);
+    a.remove();
+  }, 100);
 };
 
+// Query keys shared with other modules that update the ads cache
+export const adsQueryKey = ['ads'];
+export const adQueryKey = (id: string) => ['ad', id];
+
 export function useAds() {
   const queryClient = useQueryClient();
+  const { getCreditCheck, spendCredits } = useCredits();
   
   // Cache configurations
   const defaultCacheTime = 10 * 60 * 1000; // 10 minutes
   const defaultStaleTime = 5 * 60 * 1000; // 5 minutes
   
-  // Query key factory functions for consistency
-  const adsQueryKey = useMemo(() => ['ads'], []);
-  const adQueryKey = useCallback((id: string) => ['ad', id], []);
-
   // Get all ads with optimized configuration
   const {
     data: ads,
@@ -46,6 +67,9 @@ export function useAds() {
     },
   });
 
+  // Placement variants listed under the ad they were made from
+  const adGroups = useMemo(() => groupAdPlacements(ads || []), [ads]);
+
   // Get a specific ad - optimized to be reused throughout the app
   const useAd = useCallback((id: string): UseQueryResult<AdData, unknown> => {
     return useQuery(adQueryKey(id), () => adService.getAd(id), {
@@ -57,7 +81,7 @@ export function useAds() {
         FeedbackToast.error(formatError(error), 'Error Loading Ad');
       },
     });
-  }, [adQueryKey, defaultStaleTime, defaultCacheTime]);
+  }, [defaultStaleTime, defaultCacheTime]);
 
   // Create new ad - with improved error handling and types
   const createAdMutation = useMutation<
@@ -128,7 +152,7 @@ export function useAds() {
     {id: string, count?: number}
   >(
     ['generateVariations'],
-    ({id, count}) => adService.generateVariations(id, count),
+    ({id, count}) => spendCredits('AD_COPY_VARIATIONS', () => adService.generateVariations(id, count)),
     {
       onSuccess: (variations, {id}) => {
         // Update the specific ad cache
@@ -155,19 +179,9 @@ export function useAds() {
     {
       onSuccess: (blob, id) => {
         try {
-          // Create a download link
-          const url = window.URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = `ad-${id}.png`;
-          document.body.appendChild(a);
-          a.click();
-          
-          // Cleanup
-          setTimeout(() => {
-            window.URL.revokeObjectURL(url);
-            a.remove();
-          }, 100);
+          const ad = queryClient.getQueryData<AdData[]>(adsQueryKey)?.find(item => item.id === id);
+          const extension = getAdFileExtension(ad || { adType: 'image', imageUrl: '' }, blob.type);
+          saveBlob(blob, getAdFilename(ad || { id, title: '' }, extension));
           
           FeedbackToast.success('Ad downloaded successfully!', 'Download Complete');
         } catch (err) {
@@ -182,6 +196,120 @@ export function useAds() {
     }
   );
 
+  // Export several ads as a ZIP with a manifest and CSV sheet
+  const exportAdsMutation = useMutation<
+    AdExportResult,
+    ApiError,
+    AdData[]
+  >(
+    ['exportAds'],
+    (adsToExport) => exportAdsToZip(adsToExport, (id) => adService.downloadAd(id)),
+    {
+      onSuccess: (result) => {
+        if (result.files.length === 0) {
+          FeedbackToast.error('None of the selected ads could be downloaded', 'Export Failed');
+          return;
+        }
+
+        saveBlob(result.archive, `ads-export-${new Date().toISOString().slice(0, 10)}.zip`);
+
+        if (result.failed.length > 0) {
+          FeedbackToast.warning(
+            `Exported ${result.files.length} ads; ${result.failed.length} failed and are listed in manifest.json`,
+            'Export Partially Complete'
+          );
+        } else {
+          FeedbackToast.success(`Exported ${result.files.length} ads`, 'Export Complete');
+        }
+      },
+      onError: (error) => {
+        FeedbackToast.error(formatError(error), 'Export Failed');
+      },
+    }
+  );
+
+  // Generate the ad's uploaded image again for every format it doesn't have yet
+  const generatePlacementsMutation = useMutation<
+    { started: GenerationResponse[]; failed: BulkItemResult[] },
+    ApiError,
+    AdPlacementGroup
+  >(
+    ['generatePlacements'],
+    async (group) => {
+      const formats = getMissingPlacements(group);
+      const creditCheck = getCreditCheck('IMAGE_GENERATION', formats.length);
+      if (!creditCheck.isAffordable) {
+        throw new Error(getInsufficientCreditsMessage(creditCheck.cost, creditCheck.balance || 0));
+      }
+
+      const started: GenerationResponse[] = [];
+      const { failed } = await runBulkAction(formats, async (format) => {
+        started.push(await spendCredits('IMAGE_GENERATION', () =>
+          GenerationService.generateImageAd(toPlacementInput(group.ad, format as AdFormat))
+        ));
+      });
+
+      if (started.length === 0 && failed.length > 0) {
+        throw new Error(failed[0].error || 'Placements could not be generated');
+      }
+      return { started, failed };
+    },
+    {
+      onSuccess: ({ started, failed }) => {
+        // The new ads show up as processing until their jobs finish
+        queryClient.invalidateQueries(adsQueryKey);
+
+        if (failed.length > 0) {
+          FeedbackToast.warning(
+            `Generating ${started.length} placements; ${failed.map(item => AD_FORMAT_SPECS[item.id as AdFormat].name).join(', ')} failed`,
+            'Placements Partially Started'
+          );
+        } else {
+          FeedbackToast.success(`Generating ${started.length} placements`, 'Placements Started');
+        }
+      },
+      onError: (error) => {
+        FeedbackToast.error(formatError(error), 'Placement Generation Failed');
+      },
+    }
+  );
+
+  // Download an ad and all of its placements as one ZIP
+  const downloadPlacementsMutation = useMutation<
+    AdExportResult,
+    ApiError,
+    AdPlacementGroup
+  >(
+    ['downloadPlacements'],
+    (group) => exportAdsToZip(
+      [group.ad, ...group.placements],
+      (id) => adService.downloadAd(id),
+      getPlacementFileTitle
+    ),
+    {
+      onSuccess: (result, group) => {
+        if (result.files.length === 0) {
+          FeedbackToast.error('None of the placements could be downloaded', 'Download Failed');
+          return;
+        }
+
+        saveBlob(result.archive, getAdFilename({ id: group.ad.id, title: `${group.ad.title} placements` }, 'zip'));
+
+        if (result.failed.length > 0) {
+          FeedbackToast.warning(
+            `Downloaded ${result.files.length} placements; ${result.failed.length} failed and are listed in manifest.json`,
+            'Download Partially Complete'
+          );
+        } else {
+          FeedbackToast.success(`Downloaded ${result.files.length} placements`, 'Download Complete');
+        }
+      },
+      onError: (error) => {
+        FeedbackToast.error(formatError(error), 'Download Failed');
+      },
+    }
+  );
+
   // Share ad - with improved error handling and types
   const shareAdMutation = useMutation<
     {shareUrl: string}, 
@@ -218,6 +346,7 @@ export function useAds() {
     adsError,
     refetchAds,
     useAd,
+    adGroups,
     
     // Mutations
     createAd: createAdMutation.mutateAsync,
@@ -235,6 +364,15 @@ export function useAds() {
     downloadAd: downloadAdMutation.mutateAsync,
     isDownloadingAd: downloadAdMutation.isLoading,
     
+    exportAds: exportAdsMutation.mutateAsync,
+    isExportingAds: exportAdsMutation.isLoading,
+    
+    generatePlacements: generatePlacementsMutation.mutateAsync,
+    isGeneratingPlacements: generatePlacementsMutation.isLoading,
+    
+    downloadPlacements: downloadPlacementsMutation.mutateAsync,
+    isDownloadingPlacements: downloadPlacementsMutation.isLoading,
+    
     shareAd: shareAdMutation.mutateAsync,
     isSharingAd: shareAdMutation.isLoading,
   }), [
@@ -243,6 +381,7 @@ export function useAds() {
     adsError,
     refetchAds,
     useAd,
+    adGroups,
     createAdMutation.mutateAsync,
     createAdMutation.isLoading,
     updateAdMutation.mutateAsync,
@@ -253,6 +392,12 @@ export function useAds() {
     generateVariationsMutation.isLoading,
     downloadAdMutation.mutateAsync,
     downloadAdMutation.isLoading,
+    exportAdsMutation.mutateAsync,
+    exportAdsMutation.isLoading,
+    generatePlacementsMutation.mutateAsync,
+    generatePlacementsMutation.isLoading,
+    downloadPlacementsMutation.mutateAsync,
+    downloadPlacementsMutation.isLoading,
     shareAdMutation.mutateAsync,
     shareAdMutation.isLoading,
   ]);
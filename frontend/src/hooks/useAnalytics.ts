@@ -0,0 +1,39 @@
+import { useQuery } from 'react-query';
+import AnalyticsService, { DateRange, toDayString } from '../api/analytics.service';
+import FeedbackToast from '../components/ui/FeedbackToast';
+
+// Query keys shared with other modules that update the analytics cache
+export const analyticsQueryKey = (dateRange: DateRange) => [
+  'analytics',
+  toDayString(dateRange.startDate),
+  toDayString(dateRange.endDate),
+];
+
+/**
+ * Fetch the performance report of all ads for a date range
+ * @param dateRange - Days to report on, inclusive
+ */
+export function useAnalytics(dateRange: DateRange) {
+  const {
+    data: report,
+    isLoading: isLoadingReport,
+    error: reportError,
+    refetch: refetchReport,
+  } = useQuery(analyticsQueryKey(dateRange), () => AnalyticsService.getMetrics({ dateRange }), {
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    keepPreviousData: true,
+    retry: 2,
+    onError: () => {
+      FeedbackToast.error('Failed to load analytics', 'Error Loading Analytics');
+    },
+  });
+
+  return {
+    report,
+    isLoadingReport,
+    reportError,
+    refetchReport,
+  };
+}
+
+export default useAnalytics;
@@ -0,0 +1,168 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from 'react-query';
+import AssetService, { Asset } from '../api/asset.service';
+import FeedbackToast from '../components/ui/FeedbackToast';
+import { getAdFileExtension } from '../utils/adExport';
+import { runBulkAction, BulkActionResult } from '../utils/bulk';
+import { sanitizeImageFilename } from '../utils/imageSecurityUtils';
+import { allCampaignAssetsQueryKey } from './useCampaigns';
+
+// Query keys shared with other modules that update the asset caches
+export const assetsQueryKey = ['assets'];
+export const assetQueryKey = (id: string) => ['asset', id];
+
+/**
+ * Fetch all assets of the current user
+ */
+export function useAssets() {
+  const {
+    data: assets,
+    isLoading: isLoadingAssets,
+    error: assetsError,
+    refetch: refetchAssets,
+  } = useQuery(assetsQueryKey, () => AssetService.getAllUserAssets(), {
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: 2,
+    onError: () => {
+      FeedbackToast.error('Failed to load assets', 'Error Loading Assets');
+    },
+  });
+
+  return {
+    assets,
+    isLoadingAssets,
+    assetsError,
+    refetchAssets,
+  };
+}
+
+/**
+ * Fetch a single asset
+ * @param id - Asset ID
+ */
+export function useAsset(id?: string) {
+  return useQuery(assetQueryKey(id || ''), () => AssetService.getAsset(id as string), {
+    enabled: !!id,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: 2,
+  });
+}
+
+// Failures of single assets are summarised by reportBulkResult instead of a toast each
+const bulkRequestConfig = { skipErrorToast: true };
+
+// Save an asset's file through a temporary link; fetching first keeps the
+// `download` attribute working for files served from another origin
+const downloadAssetFile = async (asset: Asset) => {
+  const response = await fetch(asset.fileUrl);
+  if (!response.ok) {
+    throw new Error(`Download failed with status ${response.status}`);
+  }
+
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+  const extension = getAdFileExtension({ adType: asset.type, imageUrl: asset.fileUrl }, blob.type);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = sanitizeImageFilename(asset.title || `asset-${asset._id}`, extension);
+  document.body.appendChild(a);
+  a.click();
+
+  setTimeout(() => {
+    window.URL.revokeObjectURL(url);
+    a.remove();
+  }, 100);
+
+  await AssetService.trackDownload(asset._id, bulkRequestConfig);
+};
+
+// Summarise a bulk action in a single toast; per-item details are shown by the caller
+const reportBulkResult = (result: BulkActionResult, action: string) => {
+  const total = result.results.length;
+
+  if (result.failed.length === 0) {
+    FeedbackToast.success(`${action} ${total} asset${total === 1 ? '' : 's'}`, 'Bulk Action Complete');
+  } else if (result.succeeded.length === 0) {
+    FeedbackToast.error(`Could not ${action.toLowerCase()} any of the ${total} selected assets`, 'Bulk Action Failed');
+  } else {
+    FeedbackToast.warning(
+      `${action} ${result.succeeded.length} of ${total} assets; ${result.failed.length} failed`,
+      'Bulk Action Partially Complete'
+    );
+  }
+};
+
+/**
+ * Delete, download, publish or move many assets at once
+ *
+ * Every action runs per asset and resolves with the outcome of each one,
+ * so partial failures can be listed to the user.
+ */
+export function useAssetBulkActions() {
+  const queryClient = useQueryClient();
+  const [isRunning, setIsRunning] = useState(false);
+
+  const run = useCallback(async (
+    ids: string[],
+    action: (id: string) => Promise<unknown>,
+    label: string
+  ): Promise<BulkActionResult> => {
+    setIsRunning(true);
+    try {
+      const result = await runBulkAction(ids, action);
+      reportBulkResult(result, label);
+      return result;
+    } finally {
+      setIsRunning(false);
+    }
+  }, []);
+
+  // Refresh every asset list the changed assets may appear in
+  const refreshAssets = useCallback(() => {
+    queryClient.invalidateQueries(assetsQueryKey);
+    queryClient.invalidateQueries(allCampaignAssetsQueryKey);
+  }, [queryClient]);
+
+  const deleteAssets = useCallback(async (ids: string[]) => {
+    const result = await run(ids, id => AssetService.deleteAsset(id, bulkRequestConfig), 'Deleted');
+    queryClient.setQueryData<Asset[] | undefined>(assetsQueryKey, assets =>
+      assets?.filter(asset => !result.succeeded.includes(asset._id))
+    );
+    result.succeeded.forEach(id => queryClient.removeQueries(assetQueryKey(id)));
+    refreshAssets();
+    return result;
+  }, [queryClient, run, refreshAssets]);
+
+  const setAssetsVisibility = useCallback(async (ids: string[], isPublic: boolean) => {
+    const result = await run(ids, id => AssetService.updateAsset(id, { isPublic }, bulkRequestConfig), isPublic ? 'Published' : 'Unpublished');
+    refreshAssets();
+    return result;
+  }, [run, refreshAssets]);
+
+  const moveAssets = useCallback(async (ids: string[], campaignId: string) => {
+    const result = await run(ids, id => AssetService.updateAsset(id, { campaignId }, bulkRequestConfig), 'Moved');
+    refreshAssets();
+    return result;
+  }, [run, refreshAssets]);
+
+  const downloadAssets = useCallback(async (assets: Asset[]) => {
+    const assetsById = new Map(assets.map(asset => [asset._id, asset]));
+    const result = await run(
+      Array.from(assetsById.keys()),
+      id => downloadAssetFile(assetsById.get(id) as Asset),
+      'Downloaded'
+    );
+    refreshAssets();
+    return result;
+  }, [run, refreshAssets]);
+
+  return useMemo(() => ({
+    isRunning,
+    deleteAssets,
+    setAssetsVisibility,
+    moveAssets,
+    downloadAssets,
+  }), [isRunning, deleteAssets, setAssetsVisibility, moveAssets, downloadAssets]);
+}
+
+export default useAssets;
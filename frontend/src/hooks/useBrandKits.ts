@@ -0,0 +1,90 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import BrandKitService, { BrandKit, BrandKitInput } from '../api/brandKit.service';
+import FeedbackToast from '../components/ui/FeedbackToast';
+import { formatError } from '../utils/errors';
+
+// Query key shared with other modules that update the brand kit cache
+export const brandKitsQueryKey = ['brandKits'];
+
+/**
+ * Fetch the brand kits of the current user together with create, update and delete mutations
+ */
+export function useBrandKits() {
+  const queryClient = useQueryClient();
+
+  const {
+    data: brandKits,
+    isLoading: isLoadingBrandKits,
+    error: brandKitsError,
+  } = useQuery(brandKitsQueryKey, () => BrandKitService.getBrandKits(), {
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    retry: 2,
+    onError: (error: unknown) => {
+      FeedbackToast.error(formatError(error), 'Error Loading Brand Kits');
+    },
+  });
+
+  const createBrandKitMutation = useMutation<BrandKit, unknown, BrandKitInput>(
+    (data) => BrandKitService.createBrandKit(data),
+    {
+      onSuccess: (brandKit) => {
+        queryClient.invalidateQueries(brandKitsQueryKey);
+        FeedbackToast.success(`Brand kit "${brandKit.name}" created`, 'Brand Kit Created');
+      },
+      onError: (error) => {
+        FeedbackToast.error(formatError(error), 'Brand Kit Creation Failed');
+      },
+    }
+  );
+
+  const updateBrandKitMutation = useMutation<BrandKit, unknown, { id: string; data: Partial<BrandKitInput> }>(
+    ({ id, data }) => BrandKitService.updateBrandKit(id, data),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(brandKitsQueryKey);
+        FeedbackToast.success('Brand kit updated successfully!', 'Brand Kit Updated');
+      },
+      onError: (error) => {
+        FeedbackToast.error(formatError(error), 'Update Failed');
+      },
+    }
+  );
+
+  const deleteBrandKitMutation = useMutation<void, unknown, string>(
+    (id) => BrandKitService.deleteBrandKit(id),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(brandKitsQueryKey);
+        FeedbackToast.success('Brand kit deleted successfully!', 'Brand Kit Deleted');
+      },
+      onError: (error) => {
+        FeedbackToast.error(formatError(error), 'Deletion Failed');
+      },
+    }
+  );
+
+  return useMemo(() => ({
+    brandKits,
+    isLoadingBrandKits,
+    brandKitsError,
+    createBrandKit: createBrandKitMutation.mutateAsync,
+    isCreatingBrandKit: createBrandKitMutation.isLoading,
+    updateBrandKit: updateBrandKitMutation.mutateAsync,
+    isUpdatingBrandKit: updateBrandKitMutation.isLoading,
+    deleteBrandKit: deleteBrandKitMutation.mutateAsync,
+    isDeletingBrandKit: deleteBrandKitMutation.isLoading,
+  }), [
+    brandKits,
+    isLoadingBrandKits,
+    brandKitsError,
+    createBrandKitMutation.mutateAsync,
+    createBrandKitMutation.isLoading,
+    updateBrandKitMutation.mutateAsync,
+    updateBrandKitMutation.isLoading,
+    deleteBrandKitMutation.mutateAsync,
+    deleteBrandKitMutation.isLoading,
+  ]);
+}
+
+export default useBrandKits;
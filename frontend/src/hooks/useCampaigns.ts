@@ -0,0 +1,138 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import CampaignService, { Campaign, CreateCampaignInput, UpdateCampaignInput } from '../api/campaign.service';
+import AssetService from '../api/asset.service';
+import FeedbackToast from '../components/ui/FeedbackToast';
+import { formatError } from '../utils/errors';
+
+// Query keys shared with other modules that update the campaign caches
+export const campaignsQueryKey = ['campaigns'];
+export const campaignQueryKey = (id: string) => ['campaign', id];
+export const allCampaignAssetsQueryKey = ['campaignAssets'];
+export const campaignAssetsQueryKey = (id: string) => [...allCampaignAssetsQueryKey, id];
+
+/**
+ * Fetch the campaigns of the current user together with create, update and delete mutations
+ */
+export function useCampaigns() {
+  const queryClient = useQueryClient();
+
+  const {
+    data: campaigns,
+    isLoading: isLoadingCampaigns,
+    error: campaignsError,
+    refetch: refetchCampaigns,
+  } = useQuery(campaignsQueryKey, () => CampaignService.getCampaigns(), {
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: 2,
+    onError: (error: unknown) => {
+      FeedbackToast.error(formatError(error), 'Error Loading Campaigns');
+    },
+  });
+
+  const createCampaignMutation = useMutation<Campaign, unknown, CreateCampaignInput>(
+    (data) => CampaignService.createCampaign(data),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(campaignsQueryKey);
+        FeedbackToast.success('Campaign created successfully!', 'Campaign Created');
+      },
+      onError: (error) => {
+        FeedbackToast.error(formatError(error), 'Campaign Creation Failed');
+      },
+    }
+  );
+
+  const updateCampaignMutation = useMutation<Campaign, unknown, { id: string; data: UpdateCampaignInput }>(
+    ({ id, data }) => CampaignService.updateCampaign(id, data),
+    {
+      onSuccess: (campaign, { id }) => {
+        queryClient.setQueryData(campaignQueryKey(id), campaign);
+        queryClient.invalidateQueries(campaignsQueryKey);
+        FeedbackToast.success('Campaign updated successfully!', 'Campaign Updated');
+      },
+      onError: (error) => {
+        FeedbackToast.error(formatError(error), 'Update Failed');
+      },
+    }
+  );
+
+  const deleteCampaignMutation = useMutation<void, unknown, string>(
+    (id) => CampaignService.deleteCampaign(id),
+    {
+      onSuccess: (_, id) => {
+        queryClient.invalidateQueries(campaignsQueryKey);
+        queryClient.removeQueries(campaignQueryKey(id));
+        queryClient.removeQueries(campaignAssetsQueryKey(id));
+        FeedbackToast.success('Campaign deleted successfully!', 'Campaign Deleted');
+      },
+      onError: (error) => {
+        FeedbackToast.error(formatError(error), 'Deletion Failed');
+      },
+    }
+  );
+
+  return useMemo(() => ({
+    campaigns,
+    isLoadingCampaigns,
+    campaignsError,
+    refetchCampaigns,
+    createCampaign: createCampaignMutation.mutateAsync,
+    isCreatingCampaign: createCampaignMutation.isLoading,
+    updateCampaign: updateCampaignMutation.mutateAsync,
+    isUpdatingCampaign: updateCampaignMutation.isLoading,
+    deleteCampaign: deleteCampaignMutation.mutateAsync,
+    isDeletingCampaign: deleteCampaignMutation.isLoading,
+  }), [
+    campaigns,
+    isLoadingCampaigns,
+    campaignsError,
+    refetchCampaigns,
+    createCampaignMutation.mutateAsync,
+    createCampaignMutation.isLoading,
+    updateCampaignMutation.mutateAsync,
+    updateCampaignMutation.isLoading,
+    deleteCampaignMutation.mutateAsync,
+    deleteCampaignMutation.isLoading,
+  ]);
+}
+
+/**
+ * Fetch a single campaign
+ * @param id - Campaign ID
+ */
+export function useCampaign(id?: string) {
+  return useQuery(campaignQueryKey(id || ''), () => CampaignService.getCampaign(id as string), {
+    enabled: !!id,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: 2,
+  });
+}
+
+/**
+ * Fetch the assets that belong to a campaign
+ * @param id - Campaign ID
+ */
+export function useCampaignAssets(id?: string) {
+  return useQuery(campaignAssetsQueryKey(id || ''), () => AssetService.getAssets(id as string), {
+    enabled: !!id,
+    staleTime: 60 * 1000, // 1 minute
+    retry: 2,
+  });
+}
+
+/**
+ * Filter campaigns by status and tags; a campaign must carry every selected tag
+ * @param campaigns - Campaigns to filter
+ * @param status - Status to keep, or 'all'
+ * @param tags - Tags that must all be present
+ * @returns Matching campaigns
+ */
+export function filterCampaigns(campaigns: Campaign[], status: Campaign['status'] | 'all', tags: string[]): Campaign[] {
+  return campaigns.filter(campaign => {
+    if (status !== 'all' && campaign.status !== status) return false;
+    return tags.every(tag => campaign.tags?.includes(tag));
+  });
+}
+
+export default useCampaigns;
@@ -0,0 +1,56 @@
+import { useCallback, useMemo } from 'react';
+import { useAuth } from '../context/AuthContext';
+import {
+  CreditOperation,
+  checkCredits,
+  getInsufficientCreditsBalance,
+  getInsufficientCreditsMessage,
+} from '../utils/credits';
+
+/**
+ * Credit balance of the logged-in user and helpers to spend it
+ *
+ * The balance is updated optimistically when an operation starts and
+ * corrected if the server refuses or the operation fails.
+ */
+export function useCredits() {
+  const { user, updateCredits } = useAuth();
+  const balance = user?.planDetails?.creditsRemaining;
+
+  const getCreditCheck = useCallback(
+    (operation: CreditOperation, count?: number) => checkCredits(operation, balance, count),
+    [balance]
+  );
+
+  const spendCredits = useCallback(async <T>(operation: CreditOperation, action: () => Promise<T>): Promise<T> => {
+    const { cost, isAffordable } = checkCredits(operation, balance);
+    if (!isAffordable) {
+      throw new Error(getInsufficientCreditsMessage(cost, balance || 0));
+    }
+
+    updateCredits(credits => credits - cost);
+
+    try {
+      return await action();
+    } catch (error) {
+      const available = getInsufficientCreditsBalance(error);
+      if (available !== null) {
+        // The server knows better; take its balance and explain the refusal
+        updateCredits(() => available);
+        throw new Error(getInsufficientCreditsMessage(cost, available));
+      }
+
+      // Refund the optimistic charge
+      updateCredits(credits => credits + cost);
+      throw error;
+    }
+  }, [balance, updateCredits]);
+
+  return useMemo(() => ({
+    balance,
+    getCreditCheck,
+    spendCredits,
+  }), [balance, getCreditCheck, spendCredits]);
+}
+
+export default useCredits;
@@ -175,6 +175,12 @@ export const validationRules = {
       }
     },
   
+  password: (message = 'Password must contain at least one letter and one number') => 
+    (value: string) => {
+      if (!value) return null;
+      return /[a-zA-Z]/.test(value) && /\d/.test(value) ? null : message;
+    },
+  
   match: (fieldToMatch: string, message = 'Fields do not match') => 
     (value: any, formData?: Record<string, any>) => {
       if (!formData) return null;
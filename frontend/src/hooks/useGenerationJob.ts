@@ -0,0 +1,201 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useQuery, useQueryClient } from 'react-query';
+import GenerationService, { GenerationJobStatus } from '../api/generation.service';
+import { useJobEvents } from '../context/JobEventsContext';
+import { getPollingInterval, PollingOptions } from '../utils/polling';
+
+export { getPollingInterval };
+export type { PollingOptions };
+
+// localStorage key for in-flight generation jobs
+const PENDING_JOBS_STORAGE_KEY = 'pendingGenerationJobs';
+
+// A generation job that is still being tracked, persisted across reloads
+export interface PendingGenerationJob {
+  jobId: string;
+  resourceId?: string; // Ad or asset the job is generating
+  startedAt: string;
+}
+
+export interface UseGenerationJobOptions extends PollingOptions {
+  resourceId?: string;
+  onComplete?: (status: GenerationJobStatus) => void;
+  onError?: (error: string) => void;
+}
+
+export const generationJobQueryKey = (jobId: string) => ['generationJob', jobId];
+
+/**
+ * Whether a job status is final and no longer needs polling
+ */
+export const isTerminalJobStatus = (status?: GenerationJobStatus['status']): boolean =>
+  status === 'completed' || status === 'failed';
+
+/**
+ * Get the generation jobs that were in flight when the page was last open
+ * @returns Persisted pending jobs
+ */
+export const getPendingJobs = (): PendingGenerationJob[] => {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const saved = localStorage.getItem(PENDING_JOBS_STORAGE_KEY);
+    const jobs = saved ? JSON.parse(saved) : [];
+    return Array.isArray(jobs) ? jobs : [];
+  } catch (err) {
+    console.error('Error parsing pending generation jobs:', err);
+    return [];
+  }
+};
+
+const setPendingJobs = (jobs: PendingGenerationJob[]) => {
+  if (typeof window === 'undefined') return;
+
+  if (jobs.length > 0) {
+    localStorage.setItem(PENDING_JOBS_STORAGE_KEY, JSON.stringify(jobs));
+  } else {
+    localStorage.removeItem(PENDING_JOBS_STORAGE_KEY);
+  }
+};
+
+/**
+ * Persist an in-flight job so tracking resumes after a reload
+ * @param jobId - Job ID
+ * @param resourceId - Optional ad or asset ID the job belongs to
+ */
+export const savePendingJob = (jobId: string, resourceId?: string) => {
+  const jobs = getPendingJobs();
+  const existing = jobs.find(job => job.jobId === jobId);
+
+  if (existing) {
+    if (!resourceId || existing.resourceId === resourceId) return;
+    existing.resourceId = resourceId;
+  } else {
+    jobs.push({ jobId, resourceId, startedAt: new Date().toISOString() });
+  }
+
+  setPendingJobs(jobs);
+};
+
+/**
+ * Stop persisting a job once it has finished or was cancelled
+ * @param jobId - Job ID
+ */
+export const removePendingJob = (jobId: string) => {
+  const jobs = getPendingJobs();
+  const remaining = jobs.filter(job => job.jobId !== jobId);
+
+  if (remaining.length !== jobs.length) {
+    setPendingJobs(remaining);
+  }
+};
+
+/**
+ * Track a generation job until it completes, fails or is cancelled
+ *
+ * Polls `GenerationService.checkJobStatus`, backing off exponentially while
+ * the job reports no progress. While the job event stream is connected the
+ * status is fetched once and then kept up to date by pushed events. The job
+ * ID is persisted to localStorage while it is in flight so a reload can pick
+ * it up again via `getPendingJobs`.
+ *
+ * @param jobId - Job ID to track, or null/undefined to stay idle
+ * @param options - Polling configuration and completion callbacks
+ */
+export function useGenerationJob(jobId?: string | null, options: UseGenerationJobOptions = {}) {
+  const queryClient = useQueryClient();
+  const { isConnected: isStreamConnected } = useJobEvents();
+  const [isCancelled, setIsCancelled] = useState(false);
+  const { resourceId, onComplete, onError, initialInterval, maxInterval, backoffFactor } = options;
+
+  // Consecutive polls without progress, drives the backoff
+  const unchangedPollsRef = useRef(0);
+  const lastProgressRef = useRef<number | undefined>(undefined);
+
+  // Reset tracking state when a different job is passed in
+  useEffect(() => {
+    setIsCancelled(false);
+    unchangedPollsRef.current = 0;
+    lastProgressRef.current = undefined;
+  }, [jobId]);
+
+  const isEnabled = !!jobId && !isCancelled;
+
+  // Persist the job while it is being tracked
+  useEffect(() => {
+    if (isEnabled && jobId) {
+      savePendingJob(jobId, resourceId);
+    }
+  }, [isEnabled, jobId, resourceId]);
+
+  const query = useQuery(
+    generationJobQueryKey(jobId || ''),
+    async () => {
+      const status = await GenerationService.checkJobStatus(jobId as string);
+
+      if (status.progress !== undefined && status.progress !== lastProgressRef.current) {
+        unchangedPollsRef.current = 0;
+        lastProgressRef.current = status.progress;
+      } else {
+        unchangedPollsRef.current += 1;
+      }
+
+      if (isTerminalJobStatus(status.status)) {
+        removePendingJob(status.jobId || (jobId as string));
+      }
+
+      return status;
+    },
+    {
+      enabled: isEnabled,
+      retry: 2,
+      refetchOnWindowFocus: false,
+      refetchInterval: (data) => {
+        // Pushed events keep the cache current while the stream is up
+        if (isTerminalJobStatus(data?.status) || isStreamConnected) return false;
+        return getPollingInterval(unchangedPollsRef.current, { initialInterval, maxInterval, backoffFactor });
+      },
+    }
+  );
+
+  const status = query.data;
+
+  // Notify once the job finishes, whether it was polled or pushed
+  const notifiedJobIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!jobId || !status || !isTerminalJobStatus(status.status)) return;
+    if (notifiedJobIdRef.current === jobId) return;
+    notifiedJobIdRef.current = jobId;
+
+    if (status.status === 'completed') {
+      onComplete?.(status);
+    } else {
+      onError?.(status.error || 'Generation failed');
+    }
+  }, [jobId, status, onComplete, onError]);
+
+  // Stop polling and forget the job
+  const cancel = useCallback(() => {
+    if (!jobId) return;
+
+    setIsCancelled(true);
+    queryClient.cancelQueries(generationJobQueryKey(jobId));
+    removePendingJob(jobId);
+  }, [jobId, queryClient]);
+
+  return useMemo(() => ({
+    status: status?.status,
+    progress: status?.status === 'completed' ? 100 : status?.progress ?? 0,
+    estimatedTime: status?.estimatedTime,
+    result: status?.result,
+    error: status?.status === 'failed'
+      ? status.error || 'Generation failed'
+      : query.error instanceof Error ? query.error.message : null,
+    isTracking: isEnabled && !isTerminalJobStatus(status?.status),
+    isCancelled,
+    cancel,
+  }), [status, query.error, isEnabled, isCancelled, cancel]);
+}
+
+export default useGenerationJob;
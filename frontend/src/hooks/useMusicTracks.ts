@@ -0,0 +1,32 @@
+import { useQuery } from 'react-query';
+import GenerationService from '../api/generation.service';
+import FeedbackToast from '../components/ui/FeedbackToast';
+
+export const musicTracksQueryKey = ['musicTracks'];
+
+/**
+ * Fetch the music tracks that can be added to video ads
+ * @param enabled - Only fetch once music is actually wanted
+ */
+export function useMusicTracks(enabled = true) {
+  const {
+    data: musicTracks,
+    isLoading: isLoadingMusicTracks,
+    error: musicTracksError,
+  } = useQuery(musicTracksQueryKey, () => GenerationService.getMusicTracks(), {
+    enabled,
+    staleTime: 60 * 60 * 1000, // 1 hour; the library rarely changes
+    retry: 2,
+    onError: () => {
+      FeedbackToast.error('Could not load the music library', 'Error Loading Music');
+    },
+  });
+
+  return {
+    musicTracks: musicTracks || [],
+    isLoadingMusicTracks,
+    musicTracksError,
+  };
+}
+
+export default useMusicTracks;
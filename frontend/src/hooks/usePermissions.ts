@@ -0,0 +1,26 @@
+import { useCallback, useMemo } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { getAccessToken } from '../api/tokenStore';
+import { isPermitted } from '../utils/permissions';
+
+/**
+ * Permission checks for the logged-in user
+ *
+ * Combines the permissions of the user's subscription tier with any
+ * permissions carried in the access token.
+ */
+export function usePermissions() {
+  const { user } = useAuth();
+
+  const can = useCallback((permission: string): boolean => {
+    if (!user) return false;
+    return isPermitted(permission, user.subscriptionTier, getAccessToken());
+  }, [user]);
+
+  return useMemo(() => ({
+    can,
+    subscriptionTier: user?.subscriptionTier,
+  }), [can, user]);
+}
+
+export default usePermissions;
@@ -0,0 +1,131 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from 'react-query';
+import TemplateService, {
+  CustomTemplate,
+  TemplateInput,
+  TemplateOwnerFilter,
+  TemplateQuery,
+} from '../api/template.service';
+import FeedbackToast from '../components/ui/FeedbackToast';
+import { AdTemplate } from '../data/templates';
+import { formatError } from '../utils/errors';
+
+// Query keys shared with other modules that update the template catalog
+export const templatesQueryKey = ['templates'];
+export const templateCatalogQueryKey = (query: TemplateQuery) => [...templatesQueryKey, query];
+
+export const TEMPLATE_OWNER_FILTERS: Array<{ value: TemplateOwnerFilter; label: string }> = [
+  { value: 'all', label: 'Anyone' },
+  { value: 'built-in', label: 'Built-in' },
+  { value: 'mine', label: 'Me' },
+  { value: 'team', label: 'My team' },
+];
+
+/**
+ * Whether a template was saved by a user rather than shipped with the app
+ */
+export const isCustomTemplate = (template: AdTemplate): template is CustomTemplate =>
+  'ownerId' in template && !!(template as CustomTemplate).ownerId;
+
+/**
+ * Fetch one page of the template catalog; the previous page stays visible while the next loads
+ * @param query - Page, filters and sort order
+ */
+export function useTemplateCatalog(query: TemplateQuery) {
+  const {
+    data: catalog,
+    isLoading: isLoadingCatalog,
+    isFetching: isFetchingCatalog,
+    error: catalogError,
+  } = useQuery(templateCatalogQueryKey(query), () => TemplateService.getTemplates(query), {
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    keepPreviousData: true,
+    retry: 2,
+    onError: (error: unknown) => {
+      FeedbackToast.error(formatError(error), 'Error Loading Templates');
+    },
+  });
+
+  return {
+    catalog,
+    isLoadingCatalog,
+    isFetchingCatalog,
+    catalogError,
+  };
+}
+
+/**
+ * Create, update and delete custom templates and record when a template is used
+ */
+export function useTemplates() {
+  const queryClient = useQueryClient();
+
+  const createTemplateMutation = useMutation<CustomTemplate, unknown, TemplateInput>(
+    (data) => TemplateService.createTemplate(data),
+    {
+      onSuccess: (template) => {
+        queryClient.invalidateQueries(templatesQueryKey);
+        FeedbackToast.success(`"${template.name}" saved to your templates`, 'Template Saved');
+      },
+      onError: (error) => {
+        FeedbackToast.error(formatError(error), 'Saving Template Failed');
+      },
+    }
+  );
+
+  const updateTemplateMutation = useMutation<CustomTemplate, unknown, { id: string; data: Partial<TemplateInput> }>(
+    ({ id, data }) => TemplateService.updateTemplate(id, data),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(templatesQueryKey);
+        FeedbackToast.success('Template updated successfully!', 'Template Updated');
+      },
+      onError: (error) => {
+        FeedbackToast.error(formatError(error), 'Update Failed');
+      },
+    }
+  );
+
+  const deleteTemplateMutation = useMutation<void, unknown, string>(
+    (id) => TemplateService.deleteTemplate(id),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(templatesQueryKey);
+        FeedbackToast.success('Template deleted successfully!', 'Template Deleted');
+      },
+      onError: (error) => {
+        FeedbackToast.error(formatError(error), 'Deletion Failed');
+      },
+    }
+  );
+
+  // Usage only feeds the popular sort, so failures aren't worth interrupting the user for
+  const recordTemplateUseMutation = useMutation<{ usageCount: number }, unknown, string>(
+    (id) => TemplateService.recordTemplateUse(id),
+    {
+      onSuccess: () => {
+        queryClient.invalidateQueries(templatesQueryKey);
+      },
+    }
+  );
+
+  return useMemo(() => ({
+    createTemplate: createTemplateMutation.mutateAsync,
+    isCreatingTemplate: createTemplateMutation.isLoading,
+    updateTemplate: updateTemplateMutation.mutateAsync,
+    isUpdatingTemplate: updateTemplateMutation.isLoading,
+    deleteTemplate: deleteTemplateMutation.mutateAsync,
+    isDeletingTemplate: deleteTemplateMutation.isLoading,
+    recordTemplateUse: recordTemplateUseMutation.mutate,
+  }), [
+    createTemplateMutation.mutateAsync,
+    createTemplateMutation.isLoading,
+    updateTemplateMutation.mutateAsync,
+    updateTemplateMutation.isLoading,
+    deleteTemplateMutation.mutateAsync,
+    deleteTemplateMutation.isLoading,
+    recordTemplateUseMutation.mutate,
+  ]);
+}
+
+export default useTemplates;
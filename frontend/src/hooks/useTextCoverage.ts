@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { AdFormat, AD_FORMAT_SPECS } from '../types/ad';
+import { TextCoverage, analyzeTextCoverage } from '../utils/image';
+
+/**
+ * Estimate how much text an image has once cropped to an ad format
+ * @param source - Image file or URL; pass nothing for videos or before an upload
+ * @param adFormat - Format the image will be cropped to
+ * @returns The coverage, or null while analyzing or if the image can't be read
+ */
+export function useTextCoverage(source: File | Blob | string | null | undefined, adFormat: AdFormat) {
+  const [coverage, setCoverage] = useState<TextCoverage | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  useEffect(() => {
+    setCoverage(null);
+    setIsAnalyzing(!!source);
+    if (!source) return;
+
+    // Ignore results for an image or format that has since changed
+    let isCurrent = true;
+
+    analyzeTextCoverage(source, AD_FORMAT_SPECS[adFormat])
+      .then(result => {
+        if (isCurrent) setCoverage(result);
+      })
+      .catch(err => {
+        console.error('Error analyzing image text:', err);
+      })
+      .finally(() => {
+        if (isCurrent) setIsAnalyzing(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [source, adFormat]);
+
+  return { coverage, isAnalyzing };
+}
+
+export default useTextCoverage;
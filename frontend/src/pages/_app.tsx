@@ -5,6 +5,7 @@ import { ReactQueryDevtools } from 'react-query/devtools';
 import { ToastContainer } from 'react-toastify';
 import { AuthProvider } from '../context/AuthContext';
 import ThemeContextProvider from '../context/ThemeContext';
+import { JobEventsProvider } from '../context/JobEventsContext';
 import '../styles/globals.css';
 import 'react-toastify/dist/ReactToastify.css';
 import dynamic from 'next/dynamic';
@@ -35,7 +36,9 @@ export default function App({
       <QueryClientProvider client={queryClient}>
         <ThemeContextProvider>
           <AuthProvider>
-            <Component {...pageProps} />
+            <JobEventsProvider>
+              <Component {...pageProps} />
+            </JobEventsProvider>
             
             {/* Enhanced Toast Container */}
             <ToastContainer
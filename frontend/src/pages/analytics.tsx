@@ -0,0 +1,211 @@
+import React, { useMemo, useState } from 'react';
+import Head from 'next/head';
+import {
+  Box,
+  Card,
+  CardContent,
+  Container,
+  Grid,
+  MenuItem,
+  Paper,
+  Skeleton,
+  Tab,
+  Tabs,
+  TextField,
+  Typography,
+} from '@mui/material';
+import MainLayout from '../components/layout/MainLayout';
+import DateRangePicker, { lastDays } from '../components/analytics/DateRangePicker';
+import MetricLineChart from '../components/analytics/MetricLineChart';
+import PerformanceTable from '../components/analytics/PerformanceTable';
+import { withAuth } from '../components/auth/RequireAuth';
+import { DateRange } from '../api/analytics.service';
+import { useAnalytics } from '../hooks/useAnalytics';
+import { useCampaigns } from '../hooks/useCampaigns';
+import { getAdFormatLabel, isAdFormat } from '../types/ad';
+import {
+  PerformanceMetric,
+  PERFORMANCE_METRICS,
+  buildTimeSeries,
+  formatMetricValue,
+  groupPerformance,
+  summarizePerformance,
+} from '../utils/analytics';
+
+type ComparisonKey = 'adStyle' | 'adFormat' | 'creativeFormat';
+
+// Headline metrics shown as cards
+const SUMMARY_METRICS: PerformanceMetric[] = ['impressions', 'clicks', 'ctr', 'conversions', 'spend', 'cpc', 'roi'];
+
+const COMPARISONS: Array<{ key: ComparisonKey; label: string }> = [
+  { key: 'adStyle', label: 'Style' },
+  { key: 'adFormat', label: 'Placement' },
+  { key: 'creativeFormat', label: 'Creative Format' },
+];
+
+const AnalyticsPage = () => {
+  const [dateRange, setDateRange] = useState<DateRange>(() => lastDays(30));
+  const [campaignFilter, setCampaignFilter] = useState('all');
+  const [chartMetric, setChartMetric] = useState<PerformanceMetric>('impressions');
+  const [comparison, setComparison] = useState<ComparisonKey>('adStyle');
+
+  const { report, isLoadingReport } = useAnalytics(dateRange);
+  const { campaigns = [] } = useCampaigns();
+
+  const campaignTitles = useMemo(
+    () => Object.fromEntries(campaigns.map(campaign => [campaign._id, campaign.title])),
+    [campaigns]
+  );
+  const getCampaignName = (id: string) => campaignTitles[id] || (id === 'none' ? 'No campaign' : id);
+
+  const allAds = useMemo(() => report?.ads || [], [report]);
+  const ads = useMemo(
+    () => campaignFilter === 'all' ? allAds : allAds.filter(ad => ad.campaignId === campaignFilter),
+    [allAds, campaignFilter]
+  );
+
+  const summary = useMemo(() => summarizePerformance(ads.flatMap(ad => ad.daily)), [ads]);
+  const series = useMemo(() => buildTimeSeries(ads, chartMetric), [ads, chartMetric]);
+  const comparisonGroups = useMemo(() => groupPerformance(ads, ad => ad[comparison]), [ads, comparison]);
+  const campaignGroups = useMemo(() => groupPerformance(allAds, ad => ad.campaignId || 'none'), [allAds]);
+  const adGroups = useMemo(() => groupPerformance(ads, ad => ad.adId), [ads]);
+  const adTitles = useMemo(() => Object.fromEntries(allAds.map(ad => [ad.adId, ad.title])), [allAds]);
+
+  // Campaigns present in the report, even if they aren't in the campaign list
+  const campaignOptions = useMemo(
+    () => Array.from(new Set(allAds.map(ad => ad.campaignId).filter((id): id is string => !!id))),
+    [allAds]
+  );
+
+  return (
+    <MainLayout>
+      <Head>
+        <title>Analytics - Facebook Ad Creator</title>
+        <meta name="description" content="Track how your ads perform" />
+      </Head>
+
+      <Container maxWidth="xl" className="py-6">
+        <Box display="flex" justifyContent="space-between" alignItems="center" flexWrap="wrap" gap={2} mb={3}>
+          <Typography variant="h5" component="h1" className="font-bold">
+            Analytics
+          </Typography>
+          <Box display="flex" flexWrap="wrap" alignItems="center" gap={2}>
+            <TextField
+              select
+              size="small"
+              label="Campaign"
+              value={campaignFilter}
+              onChange={(e) => setCampaignFilter(e.target.value)}
+              sx={{ minWidth: 200 }}
+            >
+              <MenuItem value="all">All campaigns</MenuItem>
+              {campaignOptions.map(id => (
+                <MenuItem key={id} value={id}>
+                  {getCampaignName(id)}
+                </MenuItem>
+              ))}
+            </TextField>
+            <DateRangePicker value={dateRange} onChange={setDateRange} />
+          </Box>
+        </Box>
+
+        {/* Aggregate metrics */}
+        <Grid container spacing={2} mb={3}>
+          {SUMMARY_METRICS.map(metric => (
+            <Grid item xs={6} sm={4} md={12 / 7} key={metric}>
+              <Card
+                className="cursor-pointer h-full"
+                onClick={() => setChartMetric(metric)}
+                sx={{ outline: chartMetric === metric ? '2px solid' : 'none', outlineColor: 'primary.main' }}
+              >
+                <CardContent>
+                  <Typography variant="overline" color="text.secondary">
+                    {PERFORMANCE_METRICS[metric].label}
+                  </Typography>
+                  {isLoadingReport ? (
+                    <Skeleton variant="text" height={36} />
+                  ) : (
+                    <Typography variant="h6" className="font-bold">
+                      {formatMetricValue(metric, summary[metric])}
+                    </Typography>
+                  )}
+                </CardContent>
+              </Card>
+            </Grid>
+          ))}
+        </Grid>
+
+        {/* Time series */}
+        <Paper className="p-4 mb-6">
+          <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+            <Typography variant="h6">{PERFORMANCE_METRICS[chartMetric].label} over time</Typography>
+            <TextField
+              select
+              size="small"
+              value={chartMetric}
+              onChange={(e) => setChartMetric(e.target.value as PerformanceMetric)}
+              sx={{ minWidth: 180 }}
+            >
+              {(Object.keys(PERFORMANCE_METRICS) as PerformanceMetric[]).map(metric => (
+                <MenuItem key={metric} value={metric}>
+                  {PERFORMANCE_METRICS[metric].label}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Box>
+          {isLoadingReport ? (
+            <Skeleton variant="rounded" height={240} />
+          ) : (
+            <MetricLineChart points={series} formatValue={(value) => formatMetricValue(chartMetric, value)} />
+          )}
+        </Paper>
+
+        {/* Style and format comparison */}
+        <Paper className="p-4 mb-6">
+          <Box display="flex" justifyContent="space-between" alignItems="center" flexWrap="wrap" mb={1}>
+            <Typography variant="h6">Compare by</Typography>
+            <Tabs value={comparison} onChange={(_, value: ComparisonKey) => setComparison(value)}>
+              {COMPARISONS.map(option => (
+                <Tab key={option.key} value={option.key} label={option.label} />
+              ))}
+            </Tabs>
+          </Box>
+          <PerformanceTable
+            groups={comparisonGroups}
+            groupLabel={COMPARISONS.find(option => option.key === comparison)?.label || ''}
+            getGroupName={(key) => comparison === 'adFormat' && isAdFormat(key)
+              ? getAdFormatLabel(key)
+              : key.charAt(0).toUpperCase() + key.slice(1)}
+            highlightMetric={chartMetric}
+          />
+        </Paper>
+
+        {/* Per campaign */}
+        {campaignFilter === 'all' && (
+          <Paper className="p-4 mb-6">
+            <Typography variant="h6" gutterBottom>By campaign</Typography>
+            <PerformanceTable
+              groups={campaignGroups}
+              groupLabel="Campaign"
+              getGroupName={getCampaignName}
+              highlightMetric={chartMetric}
+            />
+          </Paper>
+        )}
+
+        {/* Per ad */}
+        <Paper className="p-4">
+          <Typography variant="h6" gutterBottom>By ad</Typography>
+          <PerformanceTable
+            groups={adGroups}
+            groupLabel="Ad"
+            getGroupName={(id) => adTitles[id] || id}
+            highlightMetric={chartMetric}
+          />
+        </Paper>
+      </Container>
+    </MainLayout>
+  );
+};
+
+export default withAuth(AnalyticsPage);
@@ -0,0 +1,306 @@
+import React, { useMemo, useState } from 'react';
+import Head from 'next/head';
+import Image from 'next/image';
+import {
+  Box,
+  Button,
+  Card,
+  CardActionArea,
+  CardContent,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Container,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Grid,
+  MenuItem,
+  Paper,
+  Skeleton,
+  TextField,
+  Typography,
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import DownloadIcon from '@mui/icons-material/Download';
+import PublicIcon from '@mui/icons-material/Public';
+import LockIcon from '@mui/icons-material/Lock';
+import DriveFileMoveIcon from '@mui/icons-material/DriveFileMove';
+import PhotoLibraryIcon from '@mui/icons-material/PhotoLibrary';
+import MainLayout from '../components/layout/MainLayout';
+import BulkResultDialog from '../components/assets/BulkResultDialog';
+import ConfirmationDialog from '../components/ui/ConfirmationDialog';
+import { withAuth } from '../components/auth/RequireAuth';
+import { Asset } from '../api/asset.service';
+import { useAssets, useAssetBulkActions } from '../hooks/useAssets';
+import { useCampaigns } from '../hooks/useCampaigns';
+import { BulkActionResult } from '../utils/bulk';
+
+interface BulkReport {
+  title: string;
+  result: BulkActionResult;
+  labels: Record<string, string>; // Asset titles captured before the action, since deleted assets leave the list
+}
+
+const getAssetLabel = (asset: Asset) => asset.title || `Untitled ${asset.type}`;
+
+const AssetLibraryPage = () => {
+  const { assets = [], isLoadingAssets } = useAssets();
+  const { campaigns = [] } = useCampaigns();
+  const { isRunning, deleteAssets, setAssetsVisibility, moveAssets, downloadAssets } = useAssetBulkActions();
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [campaignFilter, setCampaignFilter] = useState('all');
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showMoveDialog, setShowMoveDialog] = useState(false);
+  const [targetCampaignId, setTargetCampaignId] = useState('');
+  const [report, setReport] = useState<BulkReport | null>(null);
+
+  const campaignTitles = useMemo(
+    () => Object.fromEntries(campaigns.map(campaign => [campaign._id, campaign.title])),
+    [campaigns]
+  );
+
+  const visibleAssets = useMemo(
+    () => campaignFilter === 'all' ? assets : assets.filter(asset => asset.campaignId === campaignFilter),
+    [assets, campaignFilter]
+  );
+
+  const selectedAssets = useMemo(
+    () => assets.filter(asset => selectedIds.includes(asset._id)),
+    [assets, selectedIds]
+  );
+
+  const allVisibleSelected = visibleAssets.length > 0 && visibleAssets.every(asset => selectedIds.includes(asset._id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]);
+  };
+
+  const toggleSelectAll = () => {
+    const visibleIds = visibleAssets.map(asset => asset._id);
+    setSelectedIds(prev => allVisibleSelected
+      ? prev.filter(id => !visibleIds.includes(id))
+      : Array.from(new Set([...prev, ...visibleIds]))
+    );
+  };
+
+  // Run a bulk action, then keep only the failed items selected so they can be retried
+  const runAction = async (title: string, action: (ids: string[]) => Promise<BulkActionResult>) => {
+    const labels = Object.fromEntries(selectedAssets.map(asset => [asset._id, getAssetLabel(asset)]));
+    const result = await action(selectedAssets.map(asset => asset._id));
+
+    setSelectedIds(result.failed.map(item => item.id));
+    if (result.failed.length > 0) {
+      setReport({ title, result, labels });
+    }
+  };
+
+  const handleDelete = async () => {
+    setShowDeleteDialog(false);
+    await runAction('Delete Assets', deleteAssets);
+  };
+
+  const handleMove = async () => {
+    setShowMoveDialog(false);
+    await runAction('Move Assets', ids => moveAssets(ids, targetCampaignId));
+  };
+
+  return (
+    <MainLayout>
+      <Head>
+        <title>Asset Library - Facebook Ad Creator</title>
+        <meta name="description" content="Manage all of your generated ads" />
+      </Head>
+
+      <Container maxWidth="xl" className="py-6">
+        <Box display="flex" justifyContent="space-between" alignItems="center" flexWrap="wrap" gap={2} mb={3}>
+          <Typography variant="h5" component="h1" className="font-bold">
+            Asset Library
+          </Typography>
+          <TextField
+            select
+            size="small"
+            label="Campaign"
+            value={campaignFilter}
+            onChange={(e) => setCampaignFilter(e.target.value)}
+            sx={{ minWidth: 220 }}
+          >
+            <MenuItem value="all">All campaigns</MenuItem>
+            {campaigns.map(campaign => (
+              <MenuItem key={campaign._id} value={campaign._id}>
+                {campaign.title}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Box>
+
+        {/* Bulk action toolbar */}
+        <Paper className="sticky top-16 z-10 mb-4 px-3 py-2 flex flex-wrap items-center gap-2" elevation={selectedIds.length ? 3 : 0}>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={allVisibleSelected}
+                indeterminate={!allVisibleSelected && visibleAssets.some(asset => selectedIds.includes(asset._id))}
+                onChange={toggleSelectAll}
+                disabled={visibleAssets.length === 0}
+              />
+            }
+            label={selectedIds.length ? `${selectedIds.length} selected` : 'Select all'}
+          />
+          <Box flexGrow={1} />
+          {isRunning && <CircularProgress size={20} />}
+          <Button
+            startIcon={<DownloadIcon />}
+            disabled={!selectedIds.length || isRunning}
+            onClick={() => runAction('Download Assets', () => downloadAssets(selectedAssets))}
+          >
+            Download
+          </Button>
+          <Button
+            startIcon={<PublicIcon />}
+            disabled={!selectedIds.length || isRunning}
+            onClick={() => runAction('Make Assets Public', ids => setAssetsVisibility(ids, true))}
+          >
+            Make Public
+          </Button>
+          <Button
+            startIcon={<LockIcon />}
+            disabled={!selectedIds.length || isRunning}
+            onClick={() => runAction('Make Assets Private', ids => setAssetsVisibility(ids, false))}
+          >
+            Make Private
+          </Button>
+          <Button
+            startIcon={<DriveFileMoveIcon />}
+            disabled={!selectedIds.length || isRunning || campaigns.length === 0}
+            onClick={() => {
+              setTargetCampaignId('');
+              setShowMoveDialog(true);
+            }}
+          >
+            Move
+          </Button>
+          <Button
+            color="error"
+            startIcon={<DeleteIcon />}
+            disabled={!selectedIds.length || isRunning}
+            onClick={() => setShowDeleteDialog(true)}
+          >
+            Delete
+          </Button>
+        </Paper>
+
+        {isLoadingAssets ? (
+          <Grid container spacing={3}>
+            {Array.from({ length: 8 }).map((_, index) => (
+              <Grid item xs={12} sm={6} md={4} lg={3} key={index}>
+                <Skeleton variant="rounded" height={220} />
+              </Grid>
+            ))}
+          </Grid>
+        ) : visibleAssets.length === 0 ? (
+          <Box className="text-center py-16">
+            <PhotoLibraryIcon color="disabled" sx={{ fontSize: 48, mb: 2 }} />
+            <Typography variant="body1" color="text.secondary">
+              No assets found
+            </Typography>
+          </Box>
+        ) : (
+          <Grid container spacing={3}>
+            {visibleAssets.map(asset => {
+              const isSelected = selectedIds.includes(asset._id);
+
+              return (
+                <Grid item xs={12} sm={6} md={4} lg={3} key={asset._id}>
+                  <Card
+                    className="h-full"
+                    sx={{ outline: isSelected ? '2px solid' : 'none', outlineColor: 'primary.main' }}
+                  >
+                    <CardActionArea onClick={() => toggleSelected(asset._id)} aria-pressed={isSelected}>
+                      <div className="relative aspect-video w-full bg-gray-100 dark:bg-gray-800">
+                        {(asset.thumbnailUrl || asset.fileUrl) && (
+                          <Image
+                            src={asset.thumbnailUrl || asset.fileUrl}
+                            alt={getAssetLabel(asset)}
+                            fill
+                            className="object-cover"
+                          />
+                        )}
+                        <Checkbox
+                          checked={isSelected}
+                          tabIndex={-1}
+                          className="absolute top-1 left-1 bg-white/80 dark:bg-gray-900/80"
+                          size="small"
+                        />
+                        {asset.isPublic && (
+                          <Chip label="Public" size="small" color="primary" className="absolute top-2 right-2" />
+                        )}
+                      </div>
+                      <CardContent>
+                        <Typography variant="subtitle1" noWrap>
+                          {getAssetLabel(asset)}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary" noWrap component="p">
+                          {campaignTitles[asset.campaignId] || 'No campaign'} · {asset.type} · {asset.status}
+                        </Typography>
+                      </CardContent>
+                    </CardActionArea>
+                  </Card>
+                </Grid>
+              );
+            })}
+          </Grid>
+        )}
+      </Container>
+
+      <ConfirmationDialog
+        open={showDeleteDialog}
+        title="Delete Assets"
+        content={`Delete ${selectedIds.length} selected asset${selectedIds.length === 1 ? '' : 's'}? This cannot be undone.`}
+        confirmLabel="Delete"
+        type="danger"
+        onConfirm={handleDelete}
+        onCancel={() => setShowDeleteDialog(false)}
+      />
+
+      <Dialog open={showMoveDialog} onClose={() => setShowMoveDialog(false)} fullWidth maxWidth="xs">
+        <DialogTitle>Move to Campaign</DialogTitle>
+        <DialogContent>
+          <TextField
+            select
+            fullWidth
+            margin="normal"
+            label="Campaign"
+            value={targetCampaignId}
+            onChange={(e) => setTargetCampaignId(e.target.value)}
+          >
+            {campaigns.map(campaign => (
+              <MenuItem key={campaign._id} value={campaign._id}>
+                {campaign.title}
+              </MenuItem>
+            ))}
+          </TextField>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setShowMoveDialog(false)}>Cancel</Button>
+          <Button variant="contained" disabled={!targetCampaignId} onClick={handleMove}>
+            Move {selectedIds.length} Asset{selectedIds.length === 1 ? '' : 's'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <BulkResultDialog
+        open={!!report}
+        title={report?.title || ''}
+        result={report?.result || null}
+        getItemLabel={(id) => report?.labels[id] || id}
+        onClose={() => setReport(null)}
+      />
+    </MainLayout>
+  );
+};
+
+export default withAuth(AssetLibraryPage);
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import Head from 'next/head';
+import {
+  Avatar,
+  AvatarGroup,
+  Box,
+  Button,
+  Card,
+  CardActions,
+  CardContent,
+  Chip,
+  Container,
+  Grid,
+  Skeleton,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import PaletteIcon from '@mui/icons-material/Palette';
+import MainLayout from '../components/layout/MainLayout';
+import BrandKitFormDialog from '../components/brandKits/BrandKitFormDialog';
+import ConfirmationDialog from '../components/ui/ConfirmationDialog';
+import { withAuth } from '../components/auth/RequireAuth';
+import { BrandKit, BrandKitInput } from '../api/brandKit.service';
+import { useBrandKits } from '../hooks/useBrandKits';
+
+const BrandKitsPage = () => {
+  const {
+    brandKits = [],
+    isLoadingBrandKits,
+    createBrandKit,
+    isCreatingBrandKit,
+    updateBrandKit,
+    isUpdatingBrandKit,
+    deleteBrandKit,
+    isDeletingBrandKit,
+  } = useBrandKits();
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingBrandKit, setEditingBrandKit] = useState<BrandKit | null>(null);
+  const [brandKitToDelete, setBrandKitToDelete] = useState<BrandKit | null>(null);
+
+  const openCreateForm = () => {
+    setEditingBrandKit(null);
+    setIsFormOpen(true);
+  };
+
+  const openEditForm = (brandKit: BrandKit) => {
+    setEditingBrandKit(brandKit);
+    setIsFormOpen(true);
+  };
+
+  const handleFormSubmit = async (data: BrandKitInput) => {
+    try {
+      if (editingBrandKit) {
+        await updateBrandKit({ id: editingBrandKit._id, data });
+      } else {
+        await createBrandKit(data);
+      }
+      setIsFormOpen(false);
+    } catch (err) {
+      // The mutation already shows an error toast; keep the dialog open
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!brandKitToDelete) return;
+
+    try {
+      await deleteBrandKit(brandKitToDelete._id);
+    } catch (err) {
+      // The mutation already shows an error toast
+    } finally {
+      setBrandKitToDelete(null);
+    }
+  };
+
+  return (
+    <MainLayout>
+      <Head>
+        <title>Brand Kits - Facebook Ad Creator</title>
+        <meta name="description" content="Logos, colors, fonts and voice for each brand you create ads for" />
+      </Head>
+
+      <Container maxWidth="xl" className="py-6">
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+          <Box>
+            <Typography variant="h5" component="h1" className="font-bold">
+              Brand Kits
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Pick a kit when creating an ad to apply its logo, colors, fonts and voice.
+            </Typography>
+          </Box>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={openCreateForm}>
+            New Brand Kit
+          </Button>
+        </Box>
+
+        {isLoadingBrandKits ? (
+          <Grid container spacing={3}>
+            {Array.from({ length: 6 }).map((_, index) => (
+              <Grid item xs={12} sm={6} md={4} key={index}>
+                <Skeleton variant="rounded" height={200} />
+              </Grid>
+            ))}
+          </Grid>
+        ) : brandKits.length === 0 ? (
+          <Box className="text-center py-16">
+            <PaletteIcon color="disabled" sx={{ fontSize: 48, mb: 2 }} />
+            <Typography variant="h6" gutterBottom>
+              No brand kits yet
+            </Typography>
+            <Button variant="outlined" startIcon={<AddIcon />} onClick={openCreateForm}>
+              Create your first brand kit
+            </Button>
+          </Box>
+        ) : (
+          <Grid container spacing={3}>
+            {brandKits.map(brandKit => (
+              <Grid item xs={12} sm={6} md={4} key={brandKit._id}>
+                <Card className="h-full flex flex-col">
+                  <CardContent className="flex-1">
+                    <Box display="flex" alignItems="center" justifyContent="space-between" mb={2}>
+                      <Typography variant="h6" noWrap>
+                        {brandKit.name}
+                      </Typography>
+                      {brandKit.logos.length > 0 && (
+                        <AvatarGroup max={3}>
+                          {brandKit.logos.map(logo => (
+                            <Avatar key={logo.url} src={logo.url} alt={logo.label} variant="rounded" sx={{ bgcolor: 'grey.100' }} />
+                          ))}
+                        </AvatarGroup>
+                      )}
+                    </Box>
+
+                    <Box display="flex" gap={0.5} mb={2}>
+                      {brandKit.palette.map((color, index) => (
+                        <Tooltip key={index} title={color.name ? `${color.name} ${color.hex}` : color.hex}>
+                          <Box sx={{ width: 28, height: 28, borderRadius: 1, bgcolor: color.hex, border: 1, borderColor: 'divider' }} />
+                        </Tooltip>
+                      ))}
+                    </Box>
+
+                    {(brandKit.fonts.heading || brandKit.fonts.body) && (
+                      <Typography variant="body2" color="text.secondary" mb={1}>
+                        {[brandKit.fonts.heading, brandKit.fonts.body].filter(Boolean).join(' / ')}
+                      </Typography>
+                    )}
+                    {brandKit.voice.tone && (
+                      <Typography variant="body2" className="line-clamp-2" mb={1}>
+                        {brandKit.voice.tone}
+                      </Typography>
+                    )}
+                    {brandKit.voice.bannedWords.length > 0 && (
+                      <Box display="flex" flexWrap="wrap" gap={0.5}>
+                        {brandKit.voice.bannedWords.map(word => (
+                          <Chip key={word} label={word} size="small" color="error" variant="outlined" />
+                        ))}
+                      </Box>
+                    )}
+                  </CardContent>
+                  <CardActions>
+                    <Button size="small" onClick={() => openEditForm(brandKit)}>
+                      Edit
+                    </Button>
+                    <Button size="small" color="error" onClick={() => setBrandKitToDelete(brandKit)}>
+                      Delete
+                    </Button>
+                  </CardActions>
+                </Card>
+              </Grid>
+            ))}
+          </Grid>
+        )}
+      </Container>
+
+      <BrandKitFormDialog
+        open={isFormOpen}
+        brandKit={editingBrandKit}
+        loading={isCreatingBrandKit || isUpdatingBrandKit}
+        onSubmit={handleFormSubmit}
+        onClose={() => setIsFormOpen(false)}
+      />
+
+      <ConfirmationDialog
+        open={!!brandKitToDelete}
+        title="Delete Brand Kit"
+        content={`Are you sure you want to delete "${brandKitToDelete?.name}"? Ads already created with it are not affected.`}
+        confirmLabel="Delete"
+        type="danger"
+        loading={isDeletingBrandKit}
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setBrandKitToDelete(null)}
+      />
+    </MainLayout>
+  );
+};
+
+export default withAuth(BrandKitsPage);
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import Head from 'next/head';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { useQueryClient } from 'react-query';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Container,
+  Grid,
+  Skeleton,
+  Typography,
+} from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import EditIcon from '@mui/icons-material/Edit';
+import PhotoLibraryIcon from '@mui/icons-material/PhotoLibrary';
+import MainLayout from '../../components/layout/MainLayout';
+import CampaignFormDialog from '../../components/campaigns/CampaignFormDialog';
+import CampaignStatusChip from '../../components/campaigns/CampaignStatusChip';
+import GenerationJobProgress from '../../components/ui/GenerationJobProgress';
+import { withAuth } from '../../components/auth/RequireAuth';
+import { UpdateCampaignInput } from '../../api/campaign.service';
+import { useCampaigns, useCampaign, useCampaignAssets, campaignAssetsQueryKey } from '../../hooks/useCampaigns';
+
+const CampaignDetailPage = () => {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const campaignId = typeof router.query.id === 'string' ? router.query.id : undefined;
+
+  const { data: campaign, isLoading: isLoadingCampaign, error: campaignError } = useCampaign(campaignId);
+  const { data: assets = [], isLoading: isLoadingAssets } = useCampaignAssets(campaignId);
+  const { updateCampaign, isUpdatingCampaign } = useCampaigns();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const handleFormSubmit = async (data: UpdateCampaignInput) => {
+    if (!campaignId) return;
+
+    try {
+      await updateCampaign({ id: campaignId, data });
+      setIsFormOpen(false);
+    } catch (err) {
+      // The mutation already shows an error toast; keep the dialog open
+    }
+  };
+
+  // Refresh the asset list once a generation job on this page finishes
+  const handleJobComplete = () => {
+    if (campaignId) {
+      queryClient.invalidateQueries(campaignAssetsQueryKey(campaignId));
+    }
+  };
+
+  if (campaignError) {
+    return (
+      <MainLayout>
+        <Container maxWidth="sm" className="py-20 text-center">
+          <Typography variant="h5" gutterBottom>
+            Campaign not found
+          </Typography>
+          <Button component={Link} href="/campaigns" variant="contained">
+            Back to Campaigns
+          </Button>
+        </Container>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <Head>
+        <title>{campaign ? `${campaign.title} - Campaigns` : 'Campaign'} - Facebook Ad Creator</title>
+      </Head>
+
+      <Container maxWidth="xl" className="py-6">
+        <Button component={Link} href="/campaigns" startIcon={<ArrowBackIcon />} className="mb-4">
+          All Campaigns
+        </Button>
+
+        {isLoadingCampaign || !campaign ? (
+          <Skeleton variant="rounded" height={120} className="mb-6" />
+        ) : (
+          <Box mb={4}>
+            <Box display="flex" justifyContent="space-between" alignItems="flex-start" gap={2}>
+              <Box>
+                <Box display="flex" alignItems="center" gap={1} mb={1}>
+                  <Typography variant="h5" component="h1" className="font-bold">
+                    {campaign.title}
+                  </Typography>
+                  <CampaignStatusChip status={campaign.status} />
+                  {campaign.isPublic && <Chip label="Public" size="small" variant="outlined" />}
+                </Box>
+                {campaign.description && (
+                  <Typography variant="body1" color="text.secondary" paragraph>
+                    {campaign.description}
+                  </Typography>
+                )}
+                <Box display="flex" flexWrap="wrap" gap={0.5}>
+                  {campaign.tags?.map(tag => (
+                    <Chip key={tag} label={tag} size="small" variant="outlined" />
+                  ))}
+                </Box>
+              </Box>
+              <Button variant="outlined" startIcon={<EditIcon />} onClick={() => setIsFormOpen(true)}>
+                Edit
+              </Button>
+            </Box>
+          </Box>
+        )}
+
+        <Typography variant="h6" gutterBottom>
+          Assets ({assets.length})
+        </Typography>
+
+        {isLoadingAssets ? (
+          <Grid container spacing={3}>
+            {Array.from({ length: 4 }).map((_, index) => (
+              <Grid item xs={12} sm={6} md={3} key={index}>
+                <Skeleton variant="rounded" height={200} />
+              </Grid>
+            ))}
+          </Grid>
+        ) : assets.length === 0 ? (
+          <Box className="text-center py-16">
+            <PhotoLibraryIcon color="disabled" sx={{ fontSize: 48, mb: 2 }} />
+            <Typography variant="body1" color="text.secondary">
+              This campaign has no assets yet
+            </Typography>
+          </Box>
+        ) : (
+          <Grid container spacing={3}>
+            {assets.map(asset => (
+              <Grid item xs={12} sm={6} md={3} key={asset._id}>
+                <Card className="h-full">
+                  <div className="relative aspect-video w-full bg-gray-100 dark:bg-gray-800">
+                    {asset.status === 'completed' && (asset.thumbnailUrl || asset.fileUrl) && (
+                      <Image
+                        src={asset.thumbnailUrl || asset.fileUrl}
+                        alt={asset.title || 'Campaign asset'}
+                        fill
+                        className="object-cover"
+                      />
+                    )}
+                    <Chip
+                      label={asset.type === 'video' ? 'Video' : 'Image'}
+                      size="small"
+                      color={asset.type === 'video' ? 'secondary' : 'primary'}
+                      className="absolute top-2 left-2"
+                    />
+                  </div>
+                  <CardContent>
+                    <Typography variant="subtitle1" noWrap>
+                      {asset.title || 'Untitled asset'}
+                    </Typography>
+                    {asset.status === 'processing' && asset.jobId ? (
+                      <GenerationJobProgress
+                        jobId={asset.jobId}
+                        resourceId={asset._id}
+                        onComplete={handleJobComplete}
+                      />
+                    ) : asset.status === 'failed' ? (
+                      <Typography variant="caption" color="error">
+                        {asset.errorMessage || 'Generation failed'}
+                      </Typography>
+                    ) : (
+                      <Typography variant="caption" color="text.secondary">
+                        Created {new Date(asset.createdAt).toLocaleDateString()}
+                      </Typography>
+                    )}
+                  </CardContent>
+                </Card>
+              </Grid>
+            ))}
+          </Grid>
+        )}
+      </Container>
+
+      <CampaignFormDialog
+        open={isFormOpen}
+        campaign={campaign}
+        loading={isUpdatingCampaign}
+        onSubmit={handleFormSubmit}
+        onClose={() => setIsFormOpen(false)}
+      />
+    </MainLayout>
+  );
+};
+
+export default withAuth(CampaignDetailPage);
@@ -0,0 +1,267 @@
+import React, { useMemo, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import {
+  Box,
+  Button,
+  Card,
+  CardActionArea,
+  CardContent,
+  Chip,
+  Container,
+  Grid,
+  IconButton,
+  Menu,
+  MenuItem,
+  Skeleton,
+  Tab,
+  Tabs,
+  Typography,
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import MoreVertIcon from '@mui/icons-material/MoreVert';
+import FolderOpenIcon from '@mui/icons-material/FolderOpen';
+import MainLayout from '../../components/layout/MainLayout';
+import CampaignFormDialog from '../../components/campaigns/CampaignFormDialog';
+import CampaignStatusChip from '../../components/campaigns/CampaignStatusChip';
+import ConfirmationDialog from '../../components/ui/ConfirmationDialog';
+import { withAuth } from '../../components/auth/RequireAuth';
+import { Campaign, CampaignStatus, CAMPAIGN_STATUSES, CreateCampaignInput, UpdateCampaignInput } from '../../api/campaign.service';
+import { useCampaigns, filterCampaigns } from '../../hooks/useCampaigns';
+
+type StatusTab = CampaignStatus | 'all';
+
+const CampaignsPage = () => {
+  const {
+    campaigns = [],
+    isLoadingCampaigns,
+    createCampaign,
+    isCreatingCampaign,
+    updateCampaign,
+    isUpdatingCampaign,
+    deleteCampaign,
+    isDeletingCampaign,
+  } = useCampaigns();
+
+  const [statusTab, setStatusTab] = useState<StatusTab>('all');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingCampaign, setEditingCampaign] = useState<Campaign | null>(null);
+  const [campaignToDelete, setCampaignToDelete] = useState<Campaign | null>(null);
+  const [menuAnchor, setMenuAnchor] = useState<{ element: HTMLElement; campaign: Campaign } | null>(null);
+
+  // Every tag used by any campaign, for the filter bar and the form suggestions
+  const allTags = useMemo(() => {
+    const tags = new Set<string>();
+    campaigns.forEach(campaign => campaign.tags?.forEach(tag => tags.add(tag)));
+    return Array.from(tags).sort();
+  }, [campaigns]);
+
+  const visibleCampaigns = useMemo(
+    () => filterCampaigns(campaigns, statusTab, selectedTags),
+    [campaigns, statusTab, selectedTags]
+  );
+
+  const countByStatus = (status: StatusTab) =>
+    status === 'all' ? campaigns.length : campaigns.filter(campaign => campaign.status === status).length;
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  const openCreateForm = () => {
+    setEditingCampaign(null);
+    setIsFormOpen(true);
+  };
+
+  const openEditForm = (campaign: Campaign) => {
+    setMenuAnchor(null);
+    setEditingCampaign(campaign);
+    setIsFormOpen(true);
+  };
+
+  const handleFormSubmit = async (data: CreateCampaignInput | UpdateCampaignInput) => {
+    try {
+      if (editingCampaign) {
+        await updateCampaign({ id: editingCampaign._id, data });
+      } else {
+        await createCampaign(data as CreateCampaignInput);
+      }
+      setIsFormOpen(false);
+    } catch (err) {
+      // The mutation already shows an error toast; keep the dialog open
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!campaignToDelete) return;
+
+    try {
+      await deleteCampaign(campaignToDelete._id);
+    } catch (err) {
+      // The mutation already shows an error toast
+    } finally {
+      setCampaignToDelete(null);
+    }
+  };
+
+  return (
+    <MainLayout>
+      <Head>
+        <title>Campaigns - Facebook Ad Creator</title>
+        <meta name="description" content="Organize your ads by campaign" />
+      </Head>
+
+      <Container maxWidth="xl" className="py-6">
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+          <Typography variant="h5" component="h1" className="font-bold">
+            Campaigns
+          </Typography>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={openCreateForm}>
+            New Campaign
+          </Button>
+        </Box>
+
+        <Tabs
+          value={statusTab}
+          onChange={(_, value: StatusTab) => setStatusTab(value)}
+          variant="scrollable"
+          scrollButtons="auto"
+          className="mb-4"
+        >
+          {(['all', ...CAMPAIGN_STATUSES] as StatusTab[]).map(status => (
+            <Tab
+              key={status}
+              value={status}
+              label={`${status === 'all' ? 'All' : status.charAt(0).toUpperCase() + status.slice(1)} (${countByStatus(status)})`}
+            />
+          ))}
+        </Tabs>
+
+        {allTags.length > 0 && (
+          <Box display="flex" flexWrap="wrap" alignItems="center" gap={1} mb={3}>
+            <Typography variant="body2" color="text.secondary">
+              Tags:
+            </Typography>
+            {allTags.map(tag => (
+              <Chip
+                key={tag}
+                label={tag}
+                size="small"
+                color={selectedTags.includes(tag) ? 'primary' : 'default'}
+                variant={selectedTags.includes(tag) ? 'filled' : 'outlined'}
+                onClick={() => toggleTag(tag)}
+              />
+            ))}
+            {selectedTags.length > 0 && (
+              <Button size="small" onClick={() => setSelectedTags([])}>
+                Clear
+              </Button>
+            )}
+          </Box>
+        )}
+
+        {isLoadingCampaigns ? (
+          <Grid container spacing={3}>
+            {Array.from({ length: 6 }).map((_, index) => (
+              <Grid item xs={12} sm={6} md={4} key={index}>
+                <Skeleton variant="rounded" height={160} />
+              </Grid>
+            ))}
+          </Grid>
+        ) : visibleCampaigns.length === 0 ? (
+          <Box className="text-center py-16">
+            <FolderOpenIcon color="disabled" sx={{ fontSize: 48, mb: 2 }} />
+            <Typography variant="h6" gutterBottom>
+              {campaigns.length === 0 ? 'No campaigns yet' : 'No campaigns match these filters'}
+            </Typography>
+            {campaigns.length === 0 && (
+              <Button variant="outlined" startIcon={<AddIcon />} onClick={openCreateForm}>
+                Create your first campaign
+              </Button>
+            )}
+          </Box>
+        ) : (
+          <Grid container spacing={3}>
+            {visibleCampaigns.map(campaign => (
+              <Grid item xs={12} sm={6} md={4} key={campaign._id}>
+                <Card className="h-full relative">
+                  <CardActionArea component={Link} href={`/campaigns/${campaign._id}`} className="h-full">
+                    <CardContent>
+                      <Box display="flex" alignItems="center" gap={1} mb={1} pr={4}>
+                        <Typography variant="h6" noWrap className="flex-1">
+                          {campaign.title}
+                        </Typography>
+                        <CampaignStatusChip status={campaign.status} />
+                      </Box>
+                      {campaign.description && (
+                        <Typography variant="body2" color="text.secondary" className="line-clamp-2" mb={1}>
+                          {campaign.description}
+                        </Typography>
+                      )}
+                      <Box display="flex" flexWrap="wrap" gap={0.5} mb={1}>
+                        {campaign.tags?.map(tag => (
+                          <Chip key={tag} label={tag} size="small" variant="outlined" />
+                        ))}
+                      </Box>
+                      <Typography variant="caption" color="text.secondary">
+                        Last edited {new Date(campaign.lastEdited || campaign.updatedAt).toLocaleDateString()}
+                      </Typography>
+                    </CardContent>
+                  </CardActionArea>
+                  <IconButton
+                    size="small"
+                    aria-label="Campaign actions"
+                    onClick={(e) => setMenuAnchor({ element: e.currentTarget, campaign })}
+                    sx={{ position: 'absolute', top: 8, right: 8 }}
+                  >
+                    <MoreVertIcon fontSize="small" />
+                  </IconButton>
+                </Card>
+              </Grid>
+            ))}
+          </Grid>
+        )}
+      </Container>
+
+      <Menu
+        anchorEl={menuAnchor?.element}
+        open={!!menuAnchor}
+        onClose={() => setMenuAnchor(null)}
+      >
+        <MenuItem onClick={() => menuAnchor && openEditForm(menuAnchor.campaign)}>Edit</MenuItem>
+        <MenuItem
+          onClick={() => {
+            setCampaignToDelete(menuAnchor?.campaign || null);
+            setMenuAnchor(null);
+          }}
+          className="text-red-600"
+        >
+          Delete
+        </MenuItem>
+      </Menu>
+
+      <CampaignFormDialog
+        open={isFormOpen}
+        campaign={editingCampaign}
+        availableTags={allTags}
+        loading={isCreatingCampaign || isUpdatingCampaign}
+        onSubmit={handleFormSubmit}
+        onClose={() => setIsFormOpen(false)}
+      />
+
+      <ConfirmationDialog
+        open={!!campaignToDelete}
+        title="Delete Campaign"
+        content={`Are you sure you want to delete "${campaignToDelete?.title}"? This cannot be undone.`}
+        confirmLabel="Delete"
+        type="danger"
+        loading={isDeletingCampaign}
+        onConfirm={handleConfirmDelete}
+        onCancel={() => setCampaignToDelete(null)}
+      />
+    </MainLayout>
+  );
+};
+
+export default withAuth(CampaignsPage);
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, lazy, Suspense } from 'react';
+import React, { useState, useEffect, useCallback, useRef, lazy, Suspense } from 'react';
 import Head from 'next/head';
 import { useRouter } from 'next/router';
 import { 
@@ -13,33 +13,37 @@ import {
   Button
 } from '@mui/material';
 import { motion } from 'framer-motion';
+import { useQueryClient } from 'react-query';
 import ArrowBackIcon from '@mui/icons-material/ArrowBack';
 
 // Lazy load components to improve initial load time
 const AdCreationForm = lazy(() => import('../components/forms/AdCreationForm'));
+const TemplateVariablesForm = lazy(() => import('../components/forms/TemplateVariablesForm'));
 // Import our new UX enhancement components
 import LoadingOverlay, { LoadingState } from '../components/ui/LoadingOverlay';
 import ConfirmationDialog from '../components/ui/ConfirmationDialog';
 import FeedbackToast from '../components/ui/FeedbackToast';
+import TemplateFormDialog from '../components/templates/TemplateFormDialog';
 
 // Create a temporary TemplateGallery component since the import is missing
-import { AdTemplate } from '../data/templates';
+import { AdTemplate, AdTemplateSettings, createTemplateSettings, getTemplateFormValues } from '../data/templates';
 const TemplateGallery: React.FC<{ onSelectTemplate: (template: AdTemplate) => void }> = ({ onSelectTemplate }) => (
   <div>Template Gallery Component</div>
 );
-import { useAds } from '../hooks/useAds';
-
-// Define our local interface for form data
-interface AdFormData {
-  title: string;
-  description: string;
-  callToAction: string;
-  adStyle: string;
-  adFormat: string;
-  primaryColor: string;
-  imageFile?: File | null;
-  isVideo: boolean;
-}
+import { adsQueryKey } from '../hooks/useAds';
+import { savePendingJob, removePendingJob, isTerminalJobStatus } from '../hooks/useGenerationJob';
+import { usePermissions } from '../hooks/usePermissions';
+import { useCredits } from '../hooks/useCredits';
+import { useTemplates } from '../hooks/useTemplates';
+import { withAuth } from '../components/auth/RequireAuth';
+import { PERMISSIONS } from '../utils/permissions';
+import { applyBrandKit } from '../utils/brandKit';
+import { getInsufficientCreditsMessage } from '../utils/credits';
+import type { AdFormData } from '../components/forms/AdCreationForm';
+import MediaService from '../api/media.service';
+import TemplateService, { TemplateInput } from '../api/template.service';
+import { getGeneratedVideoUrl } from '../utils/video';
+import GenerationService, { GenerationJobStatus, GenerationResponse } from '../api/generation.service';
 
 // Animation variants - define outside component to prevent recreation
 const containerVariants = {
@@ -68,13 +72,34 @@ const CreateAdPage = () => {
   const [currentStep, setCurrentStep] = useState(0);
   const [selectedTemplate, setSelectedTemplate] = useState<AdTemplate | null>(null);
   const [initialFormValues, setInitialFormValues] = useState<Partial<AdFormData>>({});
+  // Whether the selected template still needs values for its placeholders
+  const [needsTemplateVariables, setNeedsTemplateVariables] = useState(false);
   const [showExitDialog, setShowExitDialog] = useState(false);
+  const [estimatedTime, setEstimatedTime] = useState<number | undefined>(undefined);
+  const [processingError, setProcessingError] = useState<string | null>(null);
+  // Settings captured from the form when saving it as a template
+  const [templateSettings, setTemplateSettings] = useState<AdTemplateSettings | null>(null);
+  // Finished video, played back before leaving the page
+  const [generatedVideoUrl, setGeneratedVideoUrl] = useState<string | null>(null);
+  
+  // Aborts job polling when the user leaves the page
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const { getCreditCheck, spendCredits } = useCredits();
+  const { createTemplate, isCreatingTemplate, recordTemplateUse } = useTemplates();
   
   // Get the templateId from URL query params
   const { templateId } = router.query;
-  
-  // Get the createAd function from our hook
-  const { createAd, isCreatingAd } = useAds();
+
+  const isProcessing = processingState === 'loading' || processingState === 'processing';
+
+  // Stop tracking the generation job on unmount
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
 
   // Memoize steps to prevent re-creation on each render
   const steps = ['Select Template', 'Customize Ad', 'Review & Create'];
@@ -86,13 +111,15 @@ const CreateAdPage = () => {
     if (templateId && typeof templateId === 'string') {
       // Logic to fetch and set the selected template based on templateId
       // This would typically be handled by a function from your templates service
-      import('../data/templates').then(({ getTemplateById }) => {
+      import('../data/templates').then(async ({ getTemplateById }) => {
+        // IDs that aren't built-in belong to templates saved by users
+        const template = getTemplateById(templateId) || await TemplateService.getTemplate(templateId).catch(() => undefined);
         if (!isMounted) return;
         
-        const template = getTemplateById(templateId);
         if (template) {
-          handleSelectTemplate(template);
-          setCurrentStep(1); // Skip to customize step
+          // Skips to the customize step unless the template is locked; the
+          // templates page already counted the use when it linked here
+          handleSelectTemplate(template, false);
         } else {
           // Template not found
           FeedbackToast.error('Template not found', 'Error');
@@ -111,110 +138,222 @@ const CreateAdPage = () => {
   }, [templateId]);
 
   // Handle template selection with useCallback to avoid recreation on each render
-  const handleSelectTemplate = useCallback((template: AdTemplate) => {
+  const handleSelectTemplate = useCallback((template: AdTemplate, recordUse: boolean = true) => {
+    if (template.isPremium && !can(PERMISSIONS.PREMIUM_TEMPLATES)) {
+      FeedbackToast.warning('Upgrade to Pro to use premium templates', 'Premium Template');
+      return;
+    }
+    
+    // Count the use for the popular sort, without holding up selection
+    if (recordUse) {
+      recordTemplateUse(template.id);
+    }
+    
     setSelectedTemplate(template);
     
     // Pre-populate form with template settings
-    if (template.settings) {
-      setInitialFormValues({
-        adStyle: template.settings.adStyle || '',
-        adFormat: template.settings.adFormat || '',
-        title: template.settings.titleSuggestions?.[0] || '',
-        description: template.settings.descriptionSuggestions?.[0] || '',
-        callToAction: template.settings.callToAction || '',
-        primaryColor: template.settings.primaryColor || '#1877F2',
-      });
-    }
+    setInitialFormValues(getTemplateFormValues(template));
+    setNeedsTemplateVariables(!!template.settings?.variables?.length);
     
     // Move to next step
     setCurrentStep(1);
     
     // Show feedback toast
     FeedbackToast.success(`Template "${template.name}" selected`, 'Template Selected');
-  }, []);
+  }, [can, recordTemplateUse]);
 
   const handleSubmit = useCallback(async (formData: AdFormData) => {
+    const isCarousel = formData.creativeFormat === 'carousel';
+    const isSlideshow = formData.creativeFormat === 'slideshow';
+    // Carousel and slideshow images are uploaded in card or scene order
+    const mediaFiles = (isCarousel
+      ? formData.carouselCards.map(card => card.file)
+      : isSlideshow
+      ? formData.videoScenes.map(scene => scene.file)
+      : [formData.imageFile]
+    ).filter((file): file is File => !!file);
+
+    if (mediaFiles.length === 0 || (isCarousel && mediaFiles.length < formData.carouselCards.length)) {
+      FeedbackToast.error(
+        isCarousel
+          ? 'Every carousel card needs an image'
+          : isSlideshow
+          ? 'Add at least one image for your video'
+          : 'Please upload an image or video file',
+        'Missing Media'
+      );
+      return;
+    }
+    
+    // Don't upload anything if the generation can't be paid for
+    const creditCheck = getCreditCheck(formData.isVideo ? 'VIDEO_GENERATION' : 'IMAGE_GENERATION');
+    if (!creditCheck.isAffordable) {
+      FeedbackToast.error(getInsufficientCreditsMessage(creditCheck.cost, creditCheck.balance || 0), 'Not Enough Credits');
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    // Set to review step
+    setCurrentStep(2);
+    setProcessingError(null);
+    setEstimatedTime(undefined);
+    setGeneratedVideoUrl(null);
+
+    // Set once a job has started; tells a finished job apart from one we lost track of
+    let jobState: GenerationJobStatus['status'] | undefined;
+
     try {
-      if (!formData.imageFile) {
-        FeedbackToast.error('Please upload an image or video file', 'Missing Media');
-        return;
-      }
-      
-      // Set to review step
-      setCurrentStep(2);
-      
-      // Start the upload/creation process
+      // Upload the media with real upload progress
       setProcessingState('loading');
       setProgressValue(0);
-      
-      // Simulate upload progress
-      const uploadTimer = setInterval(() => {
-        setProgressValue(prev => {
-          if (prev >= 100) {
-            clearInterval(uploadTimer);
-            return 100;
+
+      const imageUrls = isCarousel || isSlideshow
+        ? (await MediaService.uploadMultipleImages(mediaFiles, setProgressValue)).map(file => file.fileUrl)
+        : [(await MediaService.uploadImage(mediaFiles[0], setProgressValue)).fileUrl];
+
+      // Start the generation job
+      setProcessingState('processing');
+      setProgressValue(0);
+
+      const adText = {
+        title: formData.title,
+        description: formData.description,
+        callToAction: formData.callToAction,
+        titlePosition: formData.titlePosition,
+      };
+
+      const generationInput = {
+        imageUrls,
+        adText,
+        style: formData.adStyle,
+        adFormat: formData.adFormat,
+        creativeFormat: formData.creativeFormat,
+        templateId: selectedTemplate?.id,
+        brandColor: formData.primaryColor,
+        focalPoint: formData.focalPoint,
+        // The brand kit's fonts come along; the logo is whichever one was picked in the form
+        ...(formData.brandKit ? { logo: formData.logo } : {}),
+      };
+
+      // Credits are charged when the job starts, so only the request is wrapped
+      const job: GenerationResponse = formData.isVideo
+        ? await spendCredits('VIDEO_GENERATION', () => GenerationService.generateVideoAd(applyBrandKit({
+            ...generationInput,
+            videoOptions: {
+              ...formData.videoOptions,
+              voiceoverScript: formData.videoOptions.voiceoverScript?.trim() || undefined,
+            },
+            scenes: isSlideshow
+              ? formData.videoScenes.map((scene, index) => ({ imageUrl: imageUrls[index], duration: scene.duration }))
+              : undefined,
+          }, formData.brandKit)))
+        : isCarousel
+        ? await spendCredits('IMAGE_GENERATION', () => GenerationService.generateCarouselAd(applyBrandKit({
+            ...generationInput,
+            cards: formData.carouselCards.map((card, index) => ({
+              imageUrl: imageUrls[index],
+              headline: card.headline.trim(),
+              description: card.description.trim() || undefined,
+              link: card.link.trim(),
+            })),
+          }, formData.brandKit)))
+        : await spendCredits('IMAGE_GENERATION', () => GenerationService.generateImageAd(applyBrandKit(
+            generationInput,
+            formData.brandKit
+          )));
+
+      setEstimatedTime(job.estimatedTime);
+      jobState = job.status;
+
+      if (job.status === 'failed') {
+        throw new Error('Generation failed');
+      }
+
+      // Follow the job until it completes or fails. The job stays persisted
+      // until then so the dashboard can keep tracking it if this page can't.
+      let finishedJob: GenerationJobStatus | undefined;
+      if (job.status !== 'completed') {
+        savePendingJob(job.jobId, job.assetId);
+        finishedJob = await GenerationService.waitForJob(job.jobId, {
+          signal: abortController.signal,
+          onUpdate: status => {
+            jobState = status.status;
+            if (typeof status.progress === 'number') {
+              setProgressValue(status.progress);
+            }
+            setEstimatedTime(status.estimatedTime);
+          },
+        }).finally(() => {
+          if (isTerminalJobStatus(jobState)) {
+            removePendingJob(job.jobId);
           }
-          return prev + 5;
         });
-      }, 150);
-      
-      // After "upload" is complete, move to generation phase
+      }
+
+      if (abortController.signal.aborted) return;
+
+      setProgressValue(100);
+      setEstimatedTime(undefined);
+      queryClient.invalidateQueries(adsQueryKey);
+
+      // Play a finished video here rather than sending the user straight to the dashboard
+      const videoUrl = formData.isVideo ? getGeneratedVideoUrl(finishedJob?.result) : null;
+      if (videoUrl) {
+        setGeneratedVideoUrl(videoUrl);
+        setProcessingState('idle');
+        FeedbackToast.success('Your video ad is ready to watch', 'Ad Created');
+        return;
+      }
+
+      setProcessingState('success');
+      FeedbackToast.success('Your ad has been created successfully!', 'Ad Created');
+
+      // Redirect to dashboard after a short delay
       setTimeout(() => {
-        clearInterval(uploadTimer);
-        setProgressValue(0);
-        setProcessingState('processing');
-        
-        // Simulate generation progress
-        const generationTimer = setInterval(() => {
-          setProgressValue(prev => {
-            if (prev >= 100) {
-              clearInterval(generationTimer);
-              return 100;
-            }
-            return prev + 2;
-          });
-        }, 100);
-        
-        // Actual API call
-        createAd({ 
-          data: {
-            title: formData.title,
-            description: formData.description,
-            callToAction: formData.callToAction,
-            adStyle: formData.adStyle,
-            adFormat: formData.adFormat,
-            primaryColor: formData.primaryColor,
-            isVideo: formData.isVideo,
-            templateId: selectedTemplate?.id // Pass the template ID if one was selected
-          }, 
-          mediaFile: formData.imageFile as File
-        })
-          .then(newAd => {
-            // Show success state and cleanup
-            clearInterval(generationTimer);
-            setProgressValue(100);
-            setProcessingState('success');
-            FeedbackToast.success('Your ad has been created successfully!', 'Ad Created');
-            
-            // Redirect to dashboard after a short delay
-            setTimeout(() => {
-              router.push('/dashboard');
-            }, 1500);
-          })
-          .catch(err => {
-            clearInterval(generationTimer);
-            console.error('Error creating ad:', err);
-            setProcessingState('error');
-            FeedbackToast.error('Failed to create ad. Please try again.', 'Error');
-          });
-      }, 3000);
-      
+        router.push('/dashboard');
+      }, 1500);
     } catch (err) {
+      // The user left the page, nothing to report
+      if (abortController.signal.aborted) return;
+
       console.error('Error creating ad:', err);
+      // The job is still running; the dashboard picks it up from the pending jobs
+      const message = jobState === 'processing'
+        ? 'We lost track of your ad while it was generating. It will appear on your dashboard once it is ready.'
+        : err instanceof Error && err.message
+        ? err.message
+        : 'Failed to create ad. Please try again.';
+      setProcessingError(message);
+      setEstimatedTime(undefined);
       setProcessingState('error');
-      FeedbackToast.error('An unexpected error occurred. Please try again.', 'Error');
+      FeedbackToast.error(message, 'Error');
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+    }
+  }, [queryClient, router, getCreditCheck, spendCredits, selectedTemplate]);
+
+  // Capture the form so far, keeping the extras of the template it started from
+  const handleSaveAsTemplate = useCallback((formData: AdFormData) => {
+    const settings = selectedTemplate?.settings;
+    setTemplateSettings(createTemplateSettings(formData, {
+      fontFamily: settings?.fontFamily,
+      callToActionOptions: settings?.callToActionOptions,
+      aiPrompt: settings?.aiPrompt,
+    }));
+  }, [selectedTemplate]);
+
+  const handleTemplateSubmit = useCallback(async (data: TemplateInput) => {
+    try {
+      await createTemplate(data);
+      setTemplateSettings(null);
+    } catch (err) {
+      // Already shown as a toast
     }
-  }, [createAd, router, selectedTemplate]);
+  }, [createTemplate]);
 
   const handleGoBack = useCallback(() => {
     if (processingState !== 'idle') {
@@ -230,6 +369,7 @@ const CreateAdPage = () => {
 
   const handleExitConfirm = useCallback(() => {
     setShowExitDialog(false);
+    abortControllerRef.current?.abort();
     router.back();
   }, [router]);
 
@@ -242,6 +382,8 @@ const CreateAdPage = () => {
       router.push('/dashboard');
     } else if (processingState === 'error') {
       setProcessingState('idle');
+      setProcessingError(null);
+      setCurrentStep(1);
     }
   }, [processingState, router]);
 
@@ -282,11 +424,23 @@ const CreateAdPage = () => {
                   </Box>
                 )}
                 <Suspense fallback={<Box sx={{ textAlign: 'center', p: 4 }}><CircularProgress /></Box>}>
-                  <AdCreationForm 
-                    onSubmit={handleSubmit} 
-                    isSubmitting={isCreatingAd} 
-                    initialData={initialFormValues}
-                  />
+                  {selectedTemplate && needsTemplateVariables ? (
+                    <TemplateVariablesForm
+                      template={selectedTemplate}
+                      onSubmit={(values) => {
+                        setInitialFormValues(values);
+                        setNeedsTemplateVariables(false);
+                      }}
+                      onBack={() => setCurrentStep(0)}
+                    />
+                  ) : (
+                    <AdCreationForm 
+                      onSubmit={handleSubmit} 
+                      isSubmitting={isProcessing} 
+                      initialData={initialFormValues}
+                      onSaveAsTemplate={handleSaveAsTemplate}
+                    />
+                  )}
                 </Suspense>
               </Paper>
             </motion.div>
@@ -300,14 +454,33 @@ const CreateAdPage = () => {
             animate="visible"
           >
             <motion.div variants={itemVariants}>
-              <Paper elevation={0} className="p-6 mb-6 text-center">
-                <Typography variant="h5" gutterBottom>
-                  Creating Your Ad
-                </Typography>
-                <Typography variant="body1" paragraph>
-                  Please wait while we process your ad...
-                </Typography>
-              </Paper>
+              {generatedVideoUrl ? (
+                <Paper elevation={0} className="p-6 mb-6 text-center">
+                  <Typography variant="h5" gutterBottom>
+                    Your Video Ad Is Ready
+                  </Typography>
+                  <Box
+                    component="video"
+                    src={generatedVideoUrl}
+                    controls
+                    autoPlay
+                    playsInline
+                    sx={{ display: 'block', width: '100%', maxWidth: 480, maxHeight: '70vh', mx: 'auto', my: 3, borderRadius: 2, bgcolor: 'common.black' }}
+                  />
+                  <Button variant="contained" onClick={() => router.push('/dashboard')}>
+                    Go to Dashboard
+                  </Button>
+                </Paper>
+              ) : (
+                <Paper elevation={0} className="p-6 mb-6 text-center">
+                  <Typography variant="h5" gutterBottom>
+                    Creating Your Ad
+                  </Typography>
+                  <Typography variant="body1" paragraph>
+                    Please wait while we process your ad...
+                  </Typography>
+                </Paper>
+              )}
             </motion.div>
           </motion.div>
         );
@@ -330,7 +503,8 @@ const CreateAdPage = () => {
         progress={progressValue}
         message={processingState === 'loading' ? 'Uploading media...' : 'Generating your ad...'}
         successMessage="Ad created successfully!"
-        errorMessage="Failed to create ad. Please try again."
+        errorMessage={processingError || 'Failed to create ad. Please try again.'}
+        estimatedTime={estimatedTime}
         onClose={handleProcessingComplete}
       />
 
@@ -346,6 +520,14 @@ const CreateAdPage = () => {
         type="warning"
       />
 
+      <TemplateFormDialog
+        open={!!templateSettings}
+        settings={templateSettings}
+        loading={isCreatingTemplate}
+        onSubmit={handleTemplateSubmit}
+        onClose={() => setTemplateSettings(null)}
+      />
+
       <Box className="min-h-screen bg-gray-50 pb-12">
         {/* Header */}
         <Box className="bg-white border-b">
@@ -355,7 +537,7 @@ const CreateAdPage = () => {
                 onClick={handleGoBack}
                 className="mr-4 p-1 rounded-full hover:bg-gray-100"
                 aria-label="Go back"
-                disabled={isCreatingAd}
+                disabled={isProcessing}
               >
                 <ArrowBackIcon />
               </button>
@@ -386,4 +568,4 @@ const CreateAdPage = () => {
   );
 };
 
-export default CreateAdPage; 
\ No newline at end of file
+export default withAuth(CreateAdPage, { permission: PERMISSIONS.CREATE_ADS }); 
\ No newline at end of file
@@ -59,11 +59,32 @@ import DarkModeIcon from '@mui/icons-material/DarkMode';
 import LightModeIcon from '@mui/icons-material/LightMode';
 import EditIcon from '@mui/icons-material/Edit';
 import DeleteIcon from '@mui/icons-material/Delete';
+import ArchiveIcon from '@mui/icons-material/Archive';
 
 import AdPreviewCard from '../components/ui/AdPreviewCard';
+import AdDetailDialog from '../components/ui/AdDetailDialog';
+import TemplateFormDialog from '../components/templates/TemplateFormDialog';
 import { useAds } from '../hooks/useAds';
+import { useTemplates } from '../hooks/useTemplates';
+import { getPendingJobs } from '../hooks/useGenerationJob';
+import { withAuth } from '../components/auth/RequireAuth';
 import { useThemeContext } from '../context/ThemeContext';
+import { useAuth } from '../context/AuthContext';
 import { formatFileSize } from '../utils/image';
+import { findAdPlacementGroup } from '../utils/placements';
+import { AdData, AdStatus, getAdFormatLabel } from '../types/ad';
+import { AdTemplateSettings, createTemplateSettings } from '../data/templates';
+import { TemplateInput } from '../api/template.service';
+
+type StatusFilterKey = 'showDrafts' | 'showProcessing' | 'showReady' | 'showFailed';
+
+// Status filter checkbox for each ad status
+const STATUS_FILTER_KEYS: Record<AdStatus, StatusFilterKey> = {
+  draft: 'showDrafts',
+  processing: 'showProcessing',
+  ready: 'showReady',
+  failed: 'showFailed',
+};
 
 // Animation variants for framer-motion
 const containerVariants = {
@@ -87,7 +108,8 @@ const itemVariants = {
 
 const Dashboard = () => {
   const router = useRouter();
-  const { mode, toggleColorMode } = useThemeContext();
+  const { mode, setPreference } = useThemeContext();
+  const { user } = useAuth();
   const [tabValue, setTabValue] = useState(0);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedAdId, setSelectedAdId] = useState<string | null>(null);
@@ -99,7 +121,7 @@ const Dashboard = () => {
   const [sortOption, setSortOption] = useState<'newest' | 'oldest' | 'az' | 'za'>('newest');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [showRecent, setShowRecent] = useState(true);
-  const [filters, setFilters] = useState({
+  const [filters, setFilters] = useState<Record<StatusFilterKey, boolean>>({
     showDrafts: true,
     showProcessing: true,
     showReady: true,
@@ -110,13 +132,29 @@ const Dashboard = () => {
   const { 
     ads, 
     isLoadingAds, 
+    refetchAds,
     deleteAd, 
     isDeletingAd,
     downloadAd,
     isDownloadingAd,
+    generateVariations,
+    exportAds,
+    isExportingAds,
     shareAd,
-    isSharingAd
+    isSharingAd,
+    adGroups,
+    generatePlacements,
+    isGeneratingPlacements,
+    downloadPlacements,
+    isDownloadingPlacements
   } = useAds();
+  const { createTemplate, isCreatingTemplate } = useTemplates();
+
+  // Settings captured from the ad being saved as a template
+  const [templateSettings, setTemplateSettings] = useState<AdTemplateSettings | null>(null);
+
+  // Ad open in the detail view
+  const [viewingAdId, setViewingAdId] = useState<string | null>(null);
 
   // Recently viewed IDs (would normally come from local storage or API)
   const [recentlyViewed, setRecentlyViewed] = useState<string[]>([]);
@@ -133,6 +171,24 @@ const Dashboard = () => {
     }
   }, []);
 
+  // Generation jobs still in flight from before the last reload, by ad ID
+  const [pendingJobIds, setPendingJobIds] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const jobIds: Record<string, string> = {};
+    getPendingJobs().forEach(job => {
+      if (job.resourceId) {
+        jobIds[job.resourceId] = job.jobId;
+      }
+    });
+    setPendingJobIds(jobIds);
+  }, []);
+
+  // Reload ads once a processing ad's generation job has finished
+  const handleJobComplete = () => {
+    refetchAds();
+  };
+
   // Handle tab change
   const handleTabChange = (_event: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue);
@@ -193,7 +249,7 @@ const Dashboard = () => {
     setRecentlyViewed(updatedRecent);
     localStorage.setItem('recentlyViewedAds', JSON.stringify(updatedRecent));
     
-    router.push(`/ad/${adId}`);
+    setViewingAdId(adId);
   };
 
   // Edit ad
@@ -206,6 +262,37 @@ const Dashboard = () => {
     await downloadAd(id);
   };
   
+  // Generate variations of an ad; the mutation reports failures
+  const handleGenerateVariations = async (id: string) => {
+    try {
+      await generateVariations({ id });
+    } catch (err) {
+      // Already shown as a toast
+    }
+  };
+  
+  // Save an ad's creative settings as a template
+  const handleSaveAsTemplate = (id: string) => {
+    const ad = ads?.find(item => item.id === id);
+    if (ad) {
+      setTemplateSettings(createTemplateSettings(ad));
+    }
+  };
+  
+  const handleTemplateSubmit = async (data: TemplateInput) => {
+    try {
+      await createTemplate(data);
+      setTemplateSettings(null);
+    } catch (err) {
+      // Already shown as a toast
+    }
+  };
+  
+  // Export every ready ad in the current results as one ZIP
+  const handleExportAds = async () => {
+    await exportAds(filteredAds.filter(ad => ad.status === 'ready'));
+  };
+  
   // Share ad
   const handleShareAd = async (id: string) => {
     await shareAd(id);
@@ -250,7 +337,8 @@ const Dashboard = () => {
   const getFilteredAds = () => {
     if (!ads) return [];
     
-    let filtered = [...ads];
+    // Placements are listed with the ad they were made from
+    let filtered = adGroups.map(group => group.ad);
     
     // Filter by tab
     if (tabValue === 1) { // Images
@@ -262,13 +350,7 @@ const Dashboard = () => {
     }
     
     // Filter by status checkboxes
-    filtered = filtered.filter(ad => {
-      if (ad.status === 'draft' && !filters.showDrafts) return false;
-      if (ad.status === 'processing' && !filters.showProcessing) return false;
-      if (ad.status === 'ready' && !filters.showReady) return false;
-      if (ad.status === 'failed' && !filters.showFailed) return false;
-      return true;
-    });
+    filtered = filtered.filter(ad => filters[STATUS_FILTER_KEYS[ad.status]]);
     
     // Filter by search query
     if (searchQuery) {
@@ -313,7 +395,7 @@ const Dashboard = () => {
     if (!ads) return [];
     return recentlyViewed
       .map(id => ads.find(ad => ad.id === id))
-      .filter(ad => ad !== undefined) as typeof ads;
+      .filter((ad): ad is AdData => ad !== undefined);
   };
 
   const recentAds = getRecentlyViewedAds();
@@ -349,7 +431,7 @@ const Dashboard = () => {
               </Typography>
               <Box display="flex" alignItems="center" gap={2}>
                 <Tooltip title={`Switch to ${mode === 'light' ? 'dark' : 'light'} mode`}>
-                  <IconButton onClick={toggleColorMode} size="small" className="bg-gray-100 dark:bg-gray-700">
+                  <IconButton onClick={() => setPreference(mode === 'light' ? 'dark' : 'light')} size="small" className="bg-gray-100 dark:bg-gray-700">
                     {mode === 'light' ? <DarkModeIcon fontSize="small" /> : <LightModeIcon fontSize="small" />}
                   </IconButton>
                 </Tooltip>
@@ -691,13 +773,23 @@ const Dashboard = () => {
                 {filteredAds.length} {filteredAds.length === 1 ? 'result' : 'results'} {searchQuery ? `for "${searchQuery}"` : ''}
               </Typography>
               
-              {searchQuery && (
-                <Chip 
-                  label={`Clear search: "${searchQuery}"`}
-                  onDelete={() => setSearchQuery('')}
+              <Box display="flex" alignItems="center" gap={1}>
+                {searchQuery && (
+                  <Chip 
+                    label={`Clear search: "${searchQuery}"`}
+                    onDelete={() => setSearchQuery('')}
+                    size="small"
+                  />
+                )}
+                <MuiButton
                   size="small"
-                />
-              )}
+                  startIcon={isExportingAds ? <CircularProgress size={16} color="inherit" /> : <ArchiveIcon />}
+                  onClick={handleExportAds}
+                  disabled={isExportingAds || !filteredAds.some(ad => ad.status === 'ready')}
+                >
+                  {isExportingAds ? 'Exporting...' : 'Export ZIP'}
+                </MuiButton>
+              </Box>
             </Box>
           )}
 
@@ -736,10 +828,14 @@ const Dashboard = () => {
                               createdAt={ad.createdAt}
                               adType={ad.adType}
                               status={ad.status}
+                              jobId={ad.jobId || pendingJobIds[ad.id]}
+                              onJobComplete={handleJobComplete}
                               onView={() => handleViewAd(ad.id)}
                               onEdit={() => handleEditAd(ad.id)}
                               onDelete={() => handleDeleteDialogOpen(ad.id)}
                               onDownload={() => handleDownloadAd(ad.id)}
+                              onGenerateVariations={() => handleGenerateVariations(ad.id)}
+                              onSaveAsTemplate={() => handleSaveAsTemplate(ad.id)}
                               onShare={() => handleShareAd(ad.id)}
                             />
                           </motion.div>
@@ -770,7 +866,7 @@ const Dashboard = () => {
                           <Box className="flex-grow min-w-0">
                             <Typography variant="subtitle1" noWrap>{ad.title}</Typography>
                             <Typography variant="caption" color="textSecondary">
-                              Created: {new Date(ad.createdAt).toLocaleDateString()}
+                              Created: {new Date(ad.createdAt).toLocaleDateString()} · {getAdFormatLabel(ad.adFormat)}
                             </Typography>
                           </Box>
                           
@@ -920,9 +1016,30 @@ const Dashboard = () => {
             </MuiButton>
           </DialogActions>
         </Dialog>
+
+        <AdDetailDialog
+          ad={ads?.find(ad => ad.id === viewingAdId) || null}
+          brandName={user?.name || 'Your Brand'}
+          placementGroup={viewingAdId ? findAdPlacementGroup(adGroups, viewingAdId) : undefined}
+          onViewAd={setViewingAdId}
+          onGeneratePlacements={generatePlacements}
+          isGeneratingPlacements={isGeneratingPlacements}
+          onDownloadPlacements={downloadPlacements}
+          isDownloadingPlacements={isDownloadingPlacements}
+          onEdit={handleEditAd}
+          onClose={() => setViewingAdId(null)}
+        />
+
+        <TemplateFormDialog
+          open={!!templateSettings}
+          settings={templateSettings}
+          loading={isCreatingTemplate}
+          onSubmit={handleTemplateSubmit}
+          onClose={() => setTemplateSettings(null)}
+        />
       </Box>
     </>
   );
 };
 
-export default Dashboard; 
\ No newline at end of file
+export default withAuth(Dashboard);
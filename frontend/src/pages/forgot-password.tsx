@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Alert, Button, CircularProgress, TextField, Typography } from '@mui/material';
+import AuthLayout from '../components/layout/AuthLayout';
+import AuthService from '../api/auth.service';
+import { useFormValidation, validationRules } from '../hooks/useFormValidation';
+
+interface ForgotPasswordFormData {
+  email: string;
+}
+
+const forgotPasswordValidationRules = {
+  email: [validationRules.required('Email is required'), validationRules.email()],
+};
+
+const ForgotPasswordPage = () => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { formData, getFieldProps, handleSubmit } = useFormValidation<ForgotPasswordFormData>(
+    { email: '' },
+    forgotPasswordValidationRules
+  );
+
+  const onSubmit = handleSubmit(async (data) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await AuthService.requestPasswordReset(data.email);
+      setIsSent(true);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to send reset link. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  });
+
+  return (
+    <AuthLayout
+      pageTitle="Forgot Password"
+      title="Reset your password"
+      subtitle="Enter your email and we'll send you a link to reset your password"
+      footer={
+        <Typography variant="body2" color="text.secondary">
+          Remembered it?{' '}
+          <Link href="/login" className="text-primary-600 font-medium">
+            Back to log in
+          </Link>
+        </Typography>
+      }
+    >
+      {isSent ? (
+        <Alert severity="success">
+          If an account exists for {formData.email}, you will receive a password reset link shortly.
+        </Alert>
+      ) : (
+        <>
+          {error && (
+            <Alert severity="error" className="mb-4" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <form onSubmit={onSubmit} noValidate>
+            <TextField
+              label="Email"
+              type="email"
+              autoComplete="email"
+              fullWidth
+              margin="normal"
+              {...getFieldProps('email')}
+            />
+
+            <Button
+              type="submit"
+              variant="contained"
+              fullWidth
+              size="large"
+              disabled={isSubmitting}
+              sx={{ mt: 3 }}
+            >
+              {isSubmitting ? <CircularProgress size={24} color="inherit" /> : 'Send Reset Link'}
+            </Button>
+          </form>
+        </>
+      )}
+    </AuthLayout>
+  );
+};
+
+export default ForgotPasswordPage;
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { Alert, Box, Button, CircularProgress, TextField, Typography } from '@mui/material';
+import AuthLayout from '../components/layout/AuthLayout';
+import { useAuth } from '../context/AuthContext';
+import { useFormValidation, validationRules } from '../hooks/useFormValidation';
+import { getSafeReturnTo } from '../utils/security';
+
+interface LoginFormData {
+  email: string;
+  password: string;
+}
+
+const loginValidationRules = {
+  email: [validationRules.required('Email is required'), validationRules.email()],
+  password: [validationRules.required('Password is required')],
+};
+
+const LoginPage = () => {
+  const router = useRouter();
+  const { login, error, clearError } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { getFieldProps, handleSubmit } = useFormValidation<LoginFormData>(
+    { email: '', password: '' },
+    loginValidationRules
+  );
+
+  const sessionExpired = router.query.session_expired === 'true';
+  const passwordReset = router.query.reset === 'success';
+
+  const onSubmit = handleSubmit(async (data) => {
+    setIsSubmitting(true);
+    clearError();
+
+    try {
+      await login(data.email, data.password, getSafeReturnTo(router.query.returnTo));
+    } catch (err) {
+      // The error message is exposed through the auth context
+    } finally {
+      setIsSubmitting(false);
+    }
+  });
+
+  return (
+    <AuthLayout
+      pageTitle="Log In"
+      title="Welcome back"
+      subtitle="Log in to continue creating ads"
+      footer={
+        <Typography variant="body2" color="text.secondary">
+          Don&apos;t have an account?{' '}
+          <Link href="/register" className="text-primary-600 font-medium">
+            Sign up
+          </Link>
+        </Typography>
+      }
+    >
+      {sessionExpired && (
+        <Alert severity="warning" className="mb-4">
+          Your session has expired. Please log in again.
+        </Alert>
+      )}
+      {passwordReset && (
+        <Alert severity="success" className="mb-4">
+          Your password has been reset. You can now log in with your new password.
+        </Alert>
+      )}
+      {error && (
+        <Alert severity="error" className="mb-4" onClose={clearError}>
+          {error}
+        </Alert>
+      )}
+
+      <form onSubmit={onSubmit} noValidate>
+        <TextField
+          label="Email"
+          type="email"
+          autoComplete="email"
+          fullWidth
+          margin="normal"
+          {...getFieldProps('email')}
+        />
+        <TextField
+          label="Password"
+          type="password"
+          autoComplete="current-password"
+          fullWidth
+          margin="normal"
+          {...getFieldProps('password')}
+        />
+
+        <Box textAlign="right" mt={1}>
+          <Link href="/forgot-password" className="text-sm text-primary-600">
+            Forgot password?
+          </Link>
+        </Box>
+
+        <Button
+          type="submit"
+          variant="contained"
+          fullWidth
+          size="large"
+          disabled={isSubmitting}
+          sx={{ mt: 3 }}
+        >
+          {isSubmitting ? <CircularProgress size={24} color="inherit" /> : 'Log In'}
+        </Button>
+      </form>
+    </AuthLayout>
+  );
+};
+
+export default LoginPage;
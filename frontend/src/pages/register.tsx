@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { Alert, Button, Chip, CircularProgress, TextField, Typography } from '@mui/material';
+import AuthLayout from '../components/layout/AuthLayout';
+import { useAuth } from '../context/AuthContext';
+import { useFormValidation, validationRules } from '../hooks/useFormValidation';
+import { getSafeReturnTo } from '../utils/security';
+
+interface RegisterFormData {
+  name: string;
+  email: string;
+  password: string;
+  confirmPassword: string;
+}
+
+// Plans that can be selected on the pricing page
+const PLAN_NAMES: Record<string, string> = {
+  free: 'Free',
+  pro: 'Pro',
+};
+
+const registerValidationRules = {
+  name: [validationRules.required('Name is required'), validationRules.maxLength(50)],
+  email: [validationRules.required('Email is required'), validationRules.email()],
+  password: [
+    validationRules.required('Password is required'),
+    validationRules.minLength(8, 'Password must be at least 8 characters'),
+    validationRules.password(),
+  ],
+  confirmPassword: [
+    validationRules.required('Please confirm your password'),
+    validationRules.match('password', 'Passwords do not match'),
+  ],
+};
+
+const RegisterPage = () => {
+  const router = useRouter();
+  const { register, error, clearError } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { getFieldProps, handleSubmit } = useFormValidation<RegisterFormData>(
+    { name: '', email: '', password: '', confirmPassword: '' },
+    registerValidationRules
+  );
+
+  // Plan selected on the pricing page, e.g. /register?plan=pro
+  const plan = typeof router.query.plan === 'string' && PLAN_NAMES[router.query.plan]
+    ? router.query.plan
+    : undefined;
+
+  const onSubmit = handleSubmit(async (data) => {
+    setIsSubmitting(true);
+    clearError();
+
+    try {
+      await register(data.name, data.email, data.password, plan, getSafeReturnTo(router.query.returnTo));
+    } catch (err) {
+      // The error message is exposed through the auth context
+    } finally {
+      setIsSubmitting(false);
+    }
+  });
+
+  return (
+    <AuthLayout
+      pageTitle="Sign Up"
+      title="Create your account"
+      subtitle="Start creating AI-powered ads in minutes"
+      footer={
+        <Typography variant="body2" color="text.secondary">
+          Already have an account?{' '}
+          <Link href="/login" className="text-primary-600 font-medium">
+            Log in
+          </Link>
+        </Typography>
+      }
+    >
+      {plan && (
+        <Chip
+          label={`${PLAN_NAMES[plan]} plan selected`}
+          color="primary"
+          variant="outlined"
+          className="mb-2"
+        />
+      )}
+      {error && (
+        <Alert severity="error" className="mb-4" onClose={clearError}>
+          {error}
+        </Alert>
+      )}
+
+      <form onSubmit={onSubmit} noValidate>
+        <TextField
+          label="Name"
+          autoComplete="name"
+          fullWidth
+          margin="normal"
+          {...getFieldProps('name')}
+        />
+        <TextField
+          label="Email"
+          type="email"
+          autoComplete="email"
+          fullWidth
+          margin="normal"
+          {...getFieldProps('email')}
+        />
+        <TextField
+          label="Password"
+          type="password"
+          autoComplete="new-password"
+          fullWidth
+          margin="normal"
+          {...getFieldProps('password')}
+        />
+        <TextField
+          label="Confirm Password"
+          type="password"
+          autoComplete="new-password"
+          fullWidth
+          margin="normal"
+          {...getFieldProps('confirmPassword')}
+        />
+
+        <Button
+          type="submit"
+          variant="contained"
+          fullWidth
+          size="large"
+          disabled={isSubmitting}
+          sx={{ mt: 3 }}
+        >
+          {isSubmitting ? <CircularProgress size={24} color="inherit" /> : 'Create Account'}
+        </Button>
+      </form>
+    </AuthLayout>
+  );
+};
+
+export default RegisterPage;
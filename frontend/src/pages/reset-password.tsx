@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { Alert, Button, CircularProgress, TextField, Typography } from '@mui/material';
+import AuthLayout from '../components/layout/AuthLayout';
+import AuthService from '../api/auth.service';
+import { useFormValidation, validationRules } from '../hooks/useFormValidation';
+
+interface ResetPasswordFormData {
+  password: string;
+  confirmPassword: string;
+}
+
+const resetPasswordValidationRules = {
+  password: [
+    validationRules.required('Password is required'),
+    validationRules.minLength(8, 'Password must be at least 8 characters'),
+    validationRules.password(),
+  ],
+  confirmPassword: [
+    validationRules.required('Please confirm your password'),
+    validationRules.match('password', 'Passwords do not match'),
+  ],
+};
+
+const ResetPasswordPage = () => {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { getFieldProps, handleSubmit } = useFormValidation<ResetPasswordFormData>(
+    { password: '', confirmPassword: '' },
+    resetPasswordValidationRules
+  );
+
+  // Token from the link in the reset email, e.g. /reset-password?token=...
+  const token = typeof router.query.token === 'string' ? router.query.token : '';
+
+  const onSubmit = handleSubmit(async (data) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await AuthService.resetPassword(token, data.password);
+      router.push('/login?reset=success');
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to reset password. The link may have expired.');
+      setIsSubmitting(false);
+    }
+  });
+
+  return (
+    <AuthLayout
+      pageTitle="Reset Password"
+      title="Choose a new password"
+      footer={
+        <Typography variant="body2" color="text.secondary">
+          <Link href="/login" className="text-primary-600 font-medium">
+            Back to log in
+          </Link>
+        </Typography>
+      }
+    >
+      {router.isReady && !token ? (
+        <Alert severity="error">
+          This reset link is invalid.{' '}
+          <Link href="/forgot-password" className="font-medium underline">
+            Request a new one
+          </Link>
+        </Alert>
+      ) : (
+        <>
+          {error && (
+            <Alert severity="error" className="mb-4" onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <form onSubmit={onSubmit} noValidate>
+            <TextField
+              label="New Password"
+              type="password"
+              autoComplete="new-password"
+              fullWidth
+              margin="normal"
+              {...getFieldProps('password')}
+            />
+            <TextField
+              label="Confirm New Password"
+              type="password"
+              autoComplete="new-password"
+              fullWidth
+              margin="normal"
+              {...getFieldProps('confirmPassword')}
+            />
+
+            <Button
+              type="submit"
+              variant="contained"
+              fullWidth
+              size="large"
+              disabled={isSubmitting || !token}
+              sx={{ mt: 3 }}
+            >
+              {isSubmitting ? <CircularProgress size={24} color="inherit" /> : 'Reset Password'}
+            </Button>
+          </form>
+        </>
+      )}
+    </AuthLayout>
+  );
+};
+
+export default ResetPasswordPage;
@@ -0,0 +1,146 @@
+import React from 'react';
+import Head from 'next/head';
+import {
+  Box,
+  Chip,
+  Container,
+  Grid,
+  LinearProgress,
+  Paper,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import LightModeIcon from '@mui/icons-material/LightMode';
+import DarkModeIcon from '@mui/icons-material/DarkMode';
+import SettingsBrightnessIcon from '@mui/icons-material/SettingsBrightness';
+import MainLayout from '../components/layout/MainLayout';
+import ProfileSection from '../components/settings/ProfileSection';
+import AdDefaultsSection from '../components/settings/AdDefaultsSection';
+import { withAuth } from '../components/auth/RequireAuth';
+import { useAuth } from '../context/AuthContext';
+import { ThemePreference, useThemeContext } from '../context/ThemeContext';
+
+const THEME_OPTIONS: Array<{ value: ThemePreference; label: string; icon: React.ReactElement }> = [
+  { value: 'light', label: 'Light', icon: <LightModeIcon fontSize="small" /> },
+  { value: 'dark', label: 'Dark', icon: <DarkModeIcon fontSize="small" /> },
+  { value: 'system', label: 'System', icon: <SettingsBrightnessIcon fontSize="small" /> },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Format an ISO date for display, tolerating missing or invalid values
+const formatPlanDate = (value?: string) => {
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date.toLocaleDateString() : '—';
+};
+
+const SettingsPage = () => {
+  const { user } = useAuth();
+  const { mode, preference, setPreference } = useThemeContext();
+
+  const planDetails = user?.planDetails;
+  const planStart = planDetails ? new Date(planDetails.planStart).getTime() : NaN;
+  const planEnd = planDetails ? new Date(planDetails.planEnd).getTime() : NaN;
+  const hasPlanPeriod = !isNaN(planStart) && !isNaN(planEnd) && planEnd > planStart;
+  const periodProgress = hasPlanPeriod
+    ? Math.min(100, Math.max(0, ((Date.now() - planStart) / (planEnd - planStart)) * 100))
+    : 0;
+  const daysLeft = hasPlanPeriod ? Math.max(0, Math.ceil((planEnd - Date.now()) / DAY_MS)) : 0;
+
+  return (
+    <MainLayout>
+      <Head>
+        <title>Settings - Facebook Ad Creator</title>
+        <meta name="description" content="Manage your profile, plan and preferences" />
+      </Head>
+
+      <Container maxWidth="md" className="py-6">
+        <Typography variant="h5" component="h1" className="font-bold" mb={3}>
+          Settings
+        </Typography>
+
+        <Grid container spacing={3}>
+          <Grid item xs={12}>
+            <ProfileSection />
+          </Grid>
+
+          {/* Plan and credits */}
+          <Grid item xs={12}>
+            <Paper className="p-6">
+              <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+                <Typography variant="h6">Plan & Credits</Typography>
+                <Chip
+                  label={user?.subscriptionTier || 'free'}
+                  color={user?.subscriptionTier === 'pro' ? 'primary' : 'default'}
+                  className="capitalize"
+                />
+              </Box>
+              {planDetails ? (
+                <Grid container spacing={3}>
+                  <Grid item xs={12} sm={4}>
+                    <Typography variant="overline" color="text.secondary">Credits remaining</Typography>
+                    <Typography variant="h4" className="font-bold">
+                      {planDetails.creditsRemaining.toLocaleString()}
+                    </Typography>
+                  </Grid>
+                  <Grid item xs={12} sm={8}>
+                    <Typography variant="overline" color="text.secondary">Billing period</Typography>
+                    <Typography variant="body1">
+                      {formatPlanDate(planDetails.planStart)} – {formatPlanDate(planDetails.planEnd)}
+                    </Typography>
+                    {hasPlanPeriod && (
+                      <>
+                        <LinearProgress variant="determinate" value={periodProgress} className="my-2" />
+                        <Typography variant="caption" color="text.secondary">
+                          {daysLeft} day{daysLeft === 1 ? '' : 's'} left in this period
+                        </Typography>
+                      </>
+                    )}
+                  </Grid>
+                </Grid>
+              ) : (
+                <Typography variant="body2" color="text.secondary">
+                  No plan details are available for your account yet.
+                </Typography>
+              )}
+            </Paper>
+          </Grid>
+
+          {/* Appearance */}
+          <Grid item xs={12}>
+            <Paper className="p-6">
+              <Typography variant="h6" gutterBottom>
+                Appearance
+              </Typography>
+              <ToggleButtonGroup
+                exclusive
+                value={preference}
+                onChange={(_, value: ThemePreference | null) => value && setPreference(value)}
+                aria-label="Theme"
+              >
+                {THEME_OPTIONS.map(option => (
+                  <ToggleButton key={option.value} value={option.value} className="gap-2">
+                    {option.icon}
+                    {option.label}
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+              {preference === 'system' && (
+                <Typography variant="body2" color="text.secondary" mt={1}>
+                  Following your device, currently {mode}.
+                </Typography>
+              )}
+            </Paper>
+          </Grid>
+
+          <Grid item xs={12}>
+            <AdDefaultsSection />
+          </Grid>
+        </Grid>
+      </Container>
+    </MainLayout>
+  );
+};
+
+export default withAuth(SettingsPage);
@@ -16,6 +16,8 @@ import {
   DialogTitle,
   IconButton,
   Divider,
+  Pagination,
+  LinearProgress,
   useMediaQuery
 } from '@mui/material';
 import { useTheme } from '@mui/material/styles';
@@ -23,12 +25,27 @@ import SearchIcon from '@mui/icons-material/Search';
 import FilterListIcon from '@mui/icons-material/FilterList';
 import SortIcon from '@mui/icons-material/Sort';
 import CloseIcon from '@mui/icons-material/Close';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import PersonIcon from '@mui/icons-material/Person';
 // Temporary Layout component until the real one is created
 const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => (
   <div>{children}</div>
 );
 import TemplateCard from '../../components/ui/TemplateCard';
-import { templates as allTemplates, AdTemplate } from '../../data/templates';
+import TemplateFormDialog from '../../components/templates/TemplateFormDialog';
+import ConfirmationDialog from '../../components/ui/ConfirmationDialog';
+import Can from '../../components/auth/Can';
+import { PERMISSIONS } from '../../utils/permissions';
+import { AdTemplate, TEMPLATE_CATEGORIES } from '../../data/templates';
+import { CustomTemplate, TemplateInput, TemplateOwnerFilter, TemplateSort } from '../../api/template.service';
+import { useAuth } from '../../context/AuthContext';
+import {
+  TEMPLATE_OWNER_FILTERS,
+  isCustomTemplate,
+  useTemplateCatalog,
+  useTemplates,
+} from '../../hooks/useTemplates';
 import { useRouter } from 'next/router';
 import Image from 'next/image';
 import Head from 'next/head';
@@ -39,73 +56,84 @@ interface CategoryTabProps {
   count: number;
 }
 
+const PAGE_SIZE = 12;
+
+// Wait for typing to pause before searching the catalog
+const SEARCH_DELAY_MS = 300;
+
 const TemplateGallery: React.FC = () => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
   const router = useRouter();
   const [searchQuery, setSearchQuery] = useState('');
-  const [category, setCategory] = useState('all');
-  const [sortBy, setSortBy] = useState('newest');
-  const [filteredTemplates, setFilteredTemplates] = useState<AdTemplate[]>([]);
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [category, setCategory] = useState<AdTemplate['category'] | 'all'>('all');
+  const [sortBy, setSortBy] = useState<TemplateSort>('newest');
+  const [ownerFilter, setOwnerFilter] = useState<TemplateOwnerFilter>('all');
+  const [page, setPage] = useState(1);
   const [previewTemplate, setPreviewTemplate] = useState<AdTemplate | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<CustomTemplate | null>(null);
+  const [templateToDelete, setTemplateToDelete] = useState<CustomTemplate | null>(null);
   
-  // Mock user subscription status - in a real app, this would come from an auth context
-  const isSubscribed = false;
+  const { user } = useAuth();
+  const {
+    updateTemplate,
+    isUpdatingTemplate,
+    deleteTemplate,
+    isDeletingTemplate,
+    recordTemplateUse,
+  } = useTemplates();
 
-  // Use useMemo for derived values to avoid recalculations on every render
-  const categories = useMemo(() => {
-    return ['all', ...Array.from(new Set(allTemplates.map(t => t.category)))];
+  // Any change to the filters starts again from the first page, in the same
+  // render so the catalog isn't fetched for the old page first
+  const updateFilter = useCallback(<T,>(setFilter: (value: T) => void, value: T) => {
+    setFilter(value);
+    setPage(1);
   }, []);
+
+  useEffect(() => {
+    const search = searchQuery.trim();
+    const timer = setTimeout(() => {
+      if (search !== debouncedSearch) updateFilter(setDebouncedSearch, search);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery, debouncedSearch, updateFilter]);
+
+  // Searching, filtering, sorting and paging all happen on the server
+  const { catalog, isLoadingCatalog, isFetchingCatalog } = useTemplateCatalog({
+    page,
+    limit: PAGE_SIZE,
+    search: debouncedSearch,
+    category: category === 'all' ? undefined : category,
+    owner: ownerFilter,
+    sort: sortBy,
+  });
+  const templates = useMemo(() => catalog?.templates || [], [catalog]);
+  const pageCount = catalog ? Math.ceil(catalog.total / catalog.limit) : 0;
+
+  const allTags = useMemo(
+    () => Array.from(new Set(templates.flatMap(t => t.tags || []))).sort(),
+    [templates]
+  );
   
-  // Create category tabs with counts using useMemo
+  // Create category tabs with the server's counts for the other filters
   const categoryTabs: CategoryTabProps[] = useMemo(() => {
-    return categories.map(cat => ({
+    const counts = catalog?.categoryCounts || {};
+    return ['all', ...TEMPLATE_CATEGORIES].map(cat => ({
       label: cat === 'all' ? 'All Templates' : cat.charAt(0).toUpperCase() + cat.slice(1),
       value: cat,
-      count: cat === 'all' ? allTemplates.length : allTemplates.filter(t => t.category === cat).length
+      count: cat === 'all'
+        ? Object.values(counts).reduce((sum, count) => sum + (count || 0), 0)
+        : counts[cat as AdTemplate['category']] || 0
     }));
-  }, [categories]);
-
-  // Memoize the filter function to prevent unnecessary recalculations
-  useEffect(() => {
-    let filtered = [...allTemplates];
-    
-    // Filter by category
-    if (category !== 'all') {
-      filtered = filtered.filter(t => t.category === category);
-    }
-    
-    // Filter by search query
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(t => 
-        t.name.toLowerCase().includes(query) || 
-        t.description.toLowerCase().includes(query) ||
-        (t.tags || []).some(tag => tag.toLowerCase().includes(query))
-      );
-    }
-    
-    // Sort templates
-    switch(sortBy) {
-      case 'newest':
-        // In a real app, this would sort by creation date
-        filtered = [...filtered].reverse();
-        break;
-      case 'popular':
-        // In a real app, this would sort by popularity metrics
-        filtered = [...filtered].sort((a, b) => ((b.tags || []).length - (a.tags || []).length));
-        break;
-      case 'alphabetical':
-        filtered = [...filtered].sort((a, b) => a.name.localeCompare(b.name));
-        break;
-    }
-    
-    setFilteredTemplates(filtered);
-  }, [category, searchQuery, sortBy]);
+  }, [catalog]);
 
   // Memoize callback functions passed as props
   const handleSelectTemplate = useCallback((template: AdTemplate) => {
+    // Count the use for the popular sort, without holding up navigation
+    recordTemplateUse(template.id);
+
     // Navigate to the ad creation page with the selected template
     router.push({
       pathname: '/create-ad',
@@ -113,7 +141,7 @@ const TemplateGallery: React.FC = () => {
         templateId: template.id
       }
     });
-  }, [router]);
+  }, [router, recordTemplateUse]);
 
   const handlePreviewTemplate = useCallback((template: AdTemplate) => {
     setPreviewTemplate(template);
@@ -124,6 +152,35 @@ const TemplateGallery: React.FC = () => {
     setIsModalOpen(false);
   }, []);
 
+  const handleEditSubmit = async (data: TemplateInput) => {
+    if (!editingTemplate) return;
+
+    try {
+      const updated = await updateTemplate({ id: editingTemplate.id, data });
+      setEditingTemplate(null);
+      setPreviewTemplate(updated);
+    } catch (err) {
+      // Already shown as a toast
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!templateToDelete) return;
+
+    try {
+      await deleteTemplate(templateToDelete.id);
+      setTemplateToDelete(null);
+      closePreviewModal();
+    } catch (err) {
+      // Already shown as a toast
+    }
+  };
+
+  // Only the owner can change a saved template
+  const ownedPreviewTemplate = previewTemplate && isCustomTemplate(previewTemplate) && previewTemplate.ownerId === user?.id
+    ? previewTemplate
+    : null;
+
   return (
     <Layout>
       <Head>
@@ -188,11 +245,32 @@ const TemplateGallery: React.FC = () => {
           />
           
           <Box sx={{ display: 'flex', gap: 2 }}>
+            {/* Owner Dropdown */}
+            <TextField
+              select
+              value={ownerFilter}
+              onChange={(e) => updateFilter(setOwnerFilter, e.target.value as TemplateOwnerFilter)}
+              label="Owned By"
+              variant="outlined"
+              InputProps={{
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <PersonIcon fontSize="small" />
+                  </InputAdornment>
+                )
+              }}
+              sx={{ minWidth: '150px' }}
+            >
+              {TEMPLATE_OWNER_FILTERS.map(option => (
+                <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+              ))}
+            </TextField>
+
             {/* Sort Dropdown */}
             <TextField
               select
               value={sortBy}
-              onChange={(e) => setSortBy(e.target.value)}
+              onChange={(e) => updateFilter(setSortBy, e.target.value as TemplateSort)}
               label="Sort By"
               variant="outlined"
               InputProps={{
@@ -215,7 +293,7 @@ const TemplateGallery: React.FC = () => {
         <Box sx={{ mb: 4, borderBottom: 1, borderColor: 'divider' }}>
           <Tabs
             value={category}
-            onChange={(_, value) => setCategory(value)}
+            onChange={(_, value) => updateFilter(setCategory, value)}
             variant={isMobile ? "scrollable" : "standard"}
             scrollButtons={isMobile ? "auto" : undefined}
             allowScrollButtonsMobile
@@ -252,20 +330,24 @@ const TemplateGallery: React.FC = () => {
           </Tabs>
         </Box>
         
+        {/* Shown while another page or filter loads over the current results */}
+        <Box sx={{ height: 4, mb: 2 }}>
+          {isFetchingCatalog && <LinearProgress />}
+        </Box>
+        
         {/* Template Grid */}
         <Grid container spacing={3}>
-          {filteredTemplates.length > 0 ? (
-            filteredTemplates.map((template: AdTemplate) => (
+          {templates.length > 0 ? (
+            templates.map((template: AdTemplate) => (
               <Grid item xs={12} sm={6} md={4} lg={3} key={template.id}>
                 <TemplateCard
                   template={template}
                   onSelect={handleSelectTemplate}
                   onPreview={handlePreviewTemplate}
-                  isSubscribed={isSubscribed}
                 />
               </Grid>
             ))
-          ) : (
+          ) : !isLoadingCatalog && (
             <Box 
               sx={{ 
                 width: '100%', 
@@ -281,7 +363,9 @@ const TemplateGallery: React.FC = () => {
                 onClick={() => {
                   setSearchQuery('');
                   setCategory('all');
+                  setOwnerFilter('all');
                   setSortBy('newest');
+                  setPage(1);
                 }}
                 sx={{ mt: 2 }}
               >
@@ -291,6 +375,20 @@ const TemplateGallery: React.FC = () => {
           )}
         </Grid>
         
+        {/* Pagination */}
+        {pageCount > 1 && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+            <Pagination
+              count={pageCount}
+              page={page}
+              onChange={(_event, value) => setPage(value)}
+              color="primary"
+              showFirstButton
+              showLastButton
+            />
+          </Box>
+        )}
+        
         {/* Template Preview Modal */}
         <Dialog
           open={isModalOpen}
@@ -345,6 +443,19 @@ const TemplateGallery: React.FC = () => {
                     {previewTemplate.description}
                   </Typography>
                   
+                  {isCustomTemplate(previewTemplate) && (
+                    <>
+                      <Typography variant="subtitle1" fontWeight="bold" sx={{ mt: 2 }}>
+                        Owner
+                      </Typography>
+                      <Typography variant="body2" color="text.secondary" gutterBottom>
+                        {previewTemplate.ownerId === user?.id ? 'You' : previewTemplate.ownerName || 'A teammate'}
+                        {' · '}
+                        {previewTemplate.visibility === 'team' ? 'Shared with your team' : 'Private'}
+                      </Typography>
+                    </>
+                  )}
+                  
                   <Typography variant="subtitle1" fontWeight="bold" sx={{ mt: 2 }}>
                     Suggested Elements
                   </Typography>
@@ -364,6 +475,16 @@ const TemplateGallery: React.FC = () => {
                         <strong>CTAs:</strong> {previewTemplate.settings.callToActionOptions.join(', ')}
                       </Typography>
                     )}
+                    {previewTemplate.settings?.fontFamily && (
+                      <Typography component="li" variant="body2" color="text.secondary">
+                        <strong>Font:</strong> {previewTemplate.settings.fontFamily}
+                      </Typography>
+                    )}
+                    {previewTemplate.settings?.aiPrompt && (
+                      <Typography component="li" variant="body2" color="text.secondary">
+                        <strong>AI prompt:</strong> {previewTemplate.settings.aiPrompt}
+                      </Typography>
+                    )}
                   </Box>
                   
                   <Typography variant="subtitle1" fontWeight="bold" sx={{ mt: 2 }}>
@@ -380,26 +501,80 @@ const TemplateGallery: React.FC = () => {
                     ))}
                   </Box>
                   
-                  <Button
-                    variant="contained"
-                    color="primary"
-                    fullWidth
-                    sx={{ mt: 3 }}
-                    onClick={() => {
-                      closePreviewModal();
-                      handleSelectTemplate(previewTemplate);
-                    }}
-                    disabled={previewTemplate.isPremium && !isSubscribed}
+                  <Can
+                    permission={previewTemplate.isPremium ? PERMISSIONS.PREMIUM_TEMPLATES : PERMISSIONS.CREATE_ADS}
+                    fallback={
+                      <Button
+                        variant="contained"
+                        color="primary"
+                        fullWidth
+                        sx={{ mt: 3 }}
+                        disabled
+                      >
+                        {previewTemplate.isPremium ? 'Upgrade to Use This Template' : 'Log In to Use This Template'}
+                      </Button>
+                    }
                   >
-                    {previewTemplate.isPremium && !isSubscribed 
-                      ? 'Upgrade to Use This Template' 
-                      : 'Use This Template'}
-                  </Button>
+                    <Button
+                      variant="contained"
+                      color="primary"
+                      fullWidth
+                      sx={{ mt: 3 }}
+                      onClick={() => {
+                        closePreviewModal();
+                        handleSelectTemplate(previewTemplate);
+                      }}
+                    >
+                      Use This Template
+                    </Button>
+                  </Can>
+
+                  {ownedPreviewTemplate && (
+                    <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+                      <Button
+                        variant="outlined"
+                        fullWidth
+                        startIcon={<EditIcon />}
+                        onClick={() => setEditingTemplate(ownedPreviewTemplate)}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="outlined"
+                        color="error"
+                        fullWidth
+                        startIcon={<DeleteIcon />}
+                        onClick={() => setTemplateToDelete(ownedPreviewTemplate)}
+                      >
+                        Delete
+                      </Button>
+                    </Box>
+                  )}
                 </Grid>
               </Grid>
             )}
           </DialogContent>
         </Dialog>
+
+        <TemplateFormDialog
+          open={!!editingTemplate}
+          template={editingTemplate}
+          availableTags={allTags}
+          loading={isUpdatingTemplate}
+          onSubmit={handleEditSubmit}
+          onClose={() => setEditingTemplate(null)}
+        />
+
+        <ConfirmationDialog
+          open={!!templateToDelete}
+          title="Delete Template"
+          content={`Delete "${templateToDelete?.name}"? Ads already created from it are not affected.`}
+          confirmLabel="Delete"
+          type="danger"
+          loading={isDeletingTemplate}
+          onConfirm={handleConfirmDelete}
+          onCancel={() => setTemplateToDelete(null)}
+        />
       </Container>
     </Layout>
   );
@@ -0,0 +1,213 @@
+/**
+ * Tests for the ad domain model converters and validators
+ */
+import {
+  decodeAdData,
+  validateAdData,
+  encodeAdCreationInput,
+  normalizeAdStyle,
+  adTypeToCreativeFormat,
+  creativeFormatToAdType,
+  applyTemplateVariables,
+  findTemplatePlaceholders,
+  validateTemplateVariables,
+  AdCreationInput,
+  TemplateVariableDefinition,
+} from '../ad';
+import { templates, createTemplateSettings, getTemplateFormValues, getTemplateSuggestions } from '../../data/templates';
+
+const validAd = {
+  id: 'ad-1',
+  title: 'Summer Sale',
+  description: 'Up to 50% off',
+  imageUrl: 'https://example.com/ad.png',
+  callToAction: 'Shop Now',
+  adType: 'image',
+  adStyle: 'vibrant',
+  adFormat: 'square',
+  creativeFormat: 'single-image',
+  primaryColor: '#FF0000',
+  status: 'ready',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+};
+
+describe('Ad domain model', () => {
+  describe('validateAdData', () => {
+    test('should accept a valid ad', () => {
+      expect(validateAdData(validAd)).toEqual({ isValid: true, issues: undefined });
+    });
+
+    test('should report every invalid field', () => {
+      const result = validateAdData({ ...validAd, adStyle: 'neon', status: 'published' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.issues).toEqual([
+        'Invalid ad style: neon',
+        'Invalid status: published',
+      ]);
+    });
+
+    test('should reject non-object input', () => {
+      expect(validateAdData(null).isValid).toBe(false);
+      expect(validateAdData('ad').isValid).toBe(false);
+    });
+  });
+
+  describe('decodeAdData', () => {
+    test('should decode a valid ad', () => {
+      expect(decodeAdData(validAd)).toEqual(expect.objectContaining({
+        adFormat: 'square',
+        creativeFormat: 'single-image',
+        adStyle: 'vibrant',
+      }));
+    });
+
+    test('should map a legacy creative format sent as adFormat', () => {
+      const { creativeFormat, ...legacy } = validAd;
+      const decoded = decodeAdData({ ...legacy, adType: 'video', adFormat: 'video', adStyle: 'minimal' });
+
+      expect(decoded.creativeFormat).toBe('video');
+      expect(decoded.adFormat).toBe('portrait');
+      expect(decoded.adStyle).toBe('minimalist');
+    });
+
+    test('should keep the branding the creative was generated with', () => {
+      const decoded = decodeAdData({
+        ...validAd,
+        titlePosition: 'bottom',
+        logo: { url: 'https://cdn.example.com/logo.png' },
+        brandKitId: 'kit-1',
+      });
+
+      expect(decoded).toEqual(expect.objectContaining({
+        titlePosition: 'bottom',
+        logo: { url: 'https://cdn.example.com/logo.png' },
+        brandKitId: 'kit-1',
+      }));
+      expect(decodeAdData({ ...validAd, titlePosition: 'side', logo: 'logo.png' })).toEqual(expect.objectContaining({
+        titlePosition: undefined,
+        logo: undefined,
+      }));
+    });
+
+    test('should throw for invalid data', () => {
+      expect(() => decodeAdData({ ...validAd, adFormat: 'banner' })).toThrow('Invalid ad format: banner');
+    });
+  });
+
+  describe('converters', () => {
+    test('should convert between ad type and creative format', () => {
+      expect(adTypeToCreativeFormat('image')).toBe('single-image');
+      expect(adTypeToCreativeFormat('image', 3)).toBe('carousel');
+      expect(adTypeToCreativeFormat('video')).toBe('video');
+      expect(creativeFormatToAdType('slideshow')).toBe('video');
+      expect(creativeFormatToAdType('collection')).toBe('image');
+    });
+
+    test('should normalize legacy style names', () => {
+      expect(normalizeAdStyle('minimal')).toBe('minimalist');
+      expect(normalizeAdStyle('bold')).toBe('bold');
+      expect(normalizeAdStyle('unknown')).toBeNull();
+    });
+
+    test('should keep isVideo consistent with the creative format', () => {
+      const input: AdCreationInput = {
+        title: 'Title',
+        description: 'Description',
+        callToAction: 'Learn More',
+        adStyle: 'modern',
+        adFormat: 'story',
+        creativeFormat: 'single-image',
+        primaryColor: '#000000',
+        isVideo: true,
+      };
+
+      expect(encodeAdCreationInput(input)).toEqual(expect.objectContaining({
+        creativeFormat: 'video',
+        isVideo: true,
+      }));
+    });
+  });
+
+  describe('template settings', () => {
+    test('every template should produce valid form values', () => {
+      templates.forEach(template => {
+        const values = getTemplateFormValues(template);
+
+        expect(normalizeAdStyle(values.adStyle)).toBe(values.adStyle);
+        expect(values.adFormat).toBeDefined();
+        expect(values.isVideo).toBe(template.settings?.creativeFormat === 'video');
+      });
+    });
+
+    test('every placeholder in a template should be a declared variable', () => {
+      templates.forEach(template => {
+        const declared = (template.settings?.variables || []).map(variable => variable.key);
+        const suggestions = [
+          ...(template.settings?.titleSuggestions || []),
+          ...(template.settings?.descriptionSuggestions || []),
+        ];
+
+        suggestions.forEach(text => {
+          findTemplatePlaceholders(text).forEach(key => expect(declared).toContain(key));
+        });
+      });
+    });
+
+    test('suggestions should substitute variable values', () => {
+      const template = templates.find(item => item.settings?.variables?.some(variable => variable.key === 'discount'));
+      const { titles } = getTemplateSuggestions(template!, { discount: '25' });
+
+      expect(titles).toContain('Limited Time Offer: Save 25% Today!');
+    });
+
+    test('an ad saved as a template should fill the form the same way', () => {
+      const ad = {
+        title: ' Summer Sale ',
+        description: 'Everything must go',
+        callToAction: 'Shop Now',
+        adStyle: 'vibrant' as const,
+        adFormat: 'story' as const,
+        creativeFormat: 'single-image' as const,
+        primaryColor: '#FF0000',
+      };
+      const settings = createTemplateSettings(ad, { callToActionOptions: ['Learn More', 'Shop Now'], aiPrompt: ' ' });
+
+      expect(settings.callToActionOptions).toEqual(['Shop Now', 'Learn More']);
+      expect(settings.aiPrompt).toBeUndefined();
+      expect(getTemplateFormValues({ ...templates[0], settings })).toEqual({ ...ad, title: 'Summer Sale', isVideo: false });
+    });
+  });
+
+  describe('template variables', () => {
+    const definitions: TemplateVariableDefinition[] = [
+      { key: 'product', label: 'Product name', type: 'text', required: true, maxLength: 10 },
+      { key: 'discount', label: 'Discount', type: 'percent' },
+    ];
+
+    test('should find each placeholder once', () => {
+      expect(findTemplatePlaceholders('{product} and {discount} off {product}')).toEqual(['product', 'discount']);
+    });
+
+    test('should substitute and format known values', () => {
+      expect(applyTemplateVariables('New {product}: {discount} off', { product: 'Blender', discount: '20' }, definitions))
+        .toBe('New Blender: 20% off');
+    });
+
+    test('should leave placeholders without a value in place', () => {
+      expect(applyTemplateVariables('New {product} for {city}', { product: ' ' })).toBe('New {product} for {city}');
+    });
+
+    test('should report missing, too long and invalid values', () => {
+      expect(validateTemplateVariables(definitions, { product: '', discount: '20' }).fieldErrors)
+        .toEqual({ product: 'Product name is required' });
+      expect(validateTemplateVariables(definitions, { product: 'Blender Pro 3000', discount: '150' }).fieldErrors)
+        .toEqual({
+          product: 'Product name must be 10 characters or less',
+          discount: 'Discount must be between 0 and 100',
+        });
+      expect(validateTemplateVariables(definitions, { product: 'Blender' }).isValid).toBe(true);
+    });
+  });
+});
@@ -1,9 +1,17 @@
 /**
  * Ad Types for the Facebook Ad Creator application
+ *
+ * This is the canonical ad domain module. An ad has two independent format
+ * dimensions:
+ * - `adFormat` is the placement aspect ratio (square, portrait, landscape, story)
+ * - `creativeFormat` is the creative type (single image, carousel, video, ...)
+ *
+ * Other modules should import ad types from here and use the converters and
+ * validators below instead of declaring their own string unions.
  */
 
 // Ad styles
-export type AdStyle = 
+export type AdStyle =
   'professional' |   // Clean, corporate look
   'vibrant' |        // Bold, colorful style
   'minimalist' |     // Simple, elegant design with whitespace
@@ -14,15 +22,126 @@ export type AdStyle =
   'modern' |         // Contemporary design
   'urgent' |         // Attention-grabbing, promotional
   'seasonal' |       // Holiday or season-specific
-  'comparison';      // For before/after, comparison layouts
+  'comparison' |     // For before/after, comparison layouts
+  'bold' |           // High-contrast, heavy typography
+  'elegant' |        // Refined, sophisticated look
+  'trustworthy';     // Calm, reassuring style for services
 
-// Ad formats supported by Facebook
-export type AdFormat = 
+export const AD_STYLES: readonly AdStyle[] = [
+  'professional',
+  'vibrant',
+  'minimalist',
+  'retro',
+  'futuristic',
+  'premium',
+  'playful',
+  'modern',
+  'urgent',
+  'seasonal',
+  'comparison',
+  'bold',
+  'elegant',
+  'trustworthy',
+];
+
+// Legacy style names still returned by older API responses and templates
+const AD_STYLE_ALIASES: Record<string, AdStyle> = {
+  minimal: 'minimalist',
+};
+
+// Ad formats supported by Facebook (placement aspect ratio)
+export type AdFormat =
   'square' |         // 1:1 (1080 x 1080px)
   'portrait' |       // 4:5 (1080 x 1350px)
   'landscape' |      // 16:9 (1920 x 1080px)
   'story';           // 9:16 (1080 x 1920px)
 
+export interface AdFormatSpec {
+  id: AdFormat;
+  name: string;
+  aspectRatio: string;
+  width: number;
+  height: number;
+}
+
+export const AD_FORMAT_SPECS: Record<AdFormat, AdFormatSpec> = {
+  square: { id: 'square', name: 'Square', aspectRatio: '1:1', width: 1080, height: 1080 },
+  portrait: { id: 'portrait', name: 'Portrait', aspectRatio: '4:5', width: 1080, height: 1350 },
+  landscape: { id: 'landscape', name: 'Landscape', aspectRatio: '16:9', width: 1920, height: 1080 },
+  story: { id: 'story', name: 'Story', aspectRatio: '9:16', width: 1080, height: 1920 },
+};
+
+export const AD_FORMATS = Object.keys(AD_FORMAT_SPECS) as AdFormat[];
+
+// Creative formats supported by Facebook (what kind of creative is delivered)
+export type CreativeFormat =
+  'single-image' |
+  'carousel' |
+  'video' |
+  'collection' |
+  'slideshow';
+
+export const CREATIVE_FORMATS: readonly CreativeFormat[] = [
+  'single-image',
+  'carousel',
+  'video',
+  'collection',
+  'slideshow',
+];
+
+// Standard call-to-action buttons offered by Facebook
+export const CALL_TO_ACTIONS: readonly string[] = [
+  'Shop Now',
+  'Learn More',
+  'Sign Up',
+  'Get Quote',
+  'Contact Us',
+  'Book Now',
+  'Download',
+];
+
+// Common fonts for text on the creative; any other font can be typed in
+export const FONT_FAMILIES: readonly string[] = [
+  'Inter',
+  'Roboto',
+  'Montserrat',
+  'Poppins',
+  'Lato',
+  'Open Sans',
+  'Playfair Display',
+  'Merriweather',
+];
+
+// Where the title is rendered on the creative
+export type TitlePosition = 'top' | 'center' | 'bottom';
+
+export const TITLE_POSITIONS: readonly TitlePosition[] = ['top', 'center', 'bottom'];
+
+export type LogoPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface AdLogo {
+  url: string;
+  position?: LogoPosition;
+}
+
+// Brand fonts for text rendered onto the creative
+export interface AdFonts {
+  heading?: string;
+  body?: string;
+}
+
+export type AdType = 'image' | 'video';
+
+export type AdStatus = 'draft' | 'processing' | 'ready' | 'failed';
+
+export const AD_STATUSES: readonly AdStatus[] = ['draft', 'processing', 'ready', 'failed'];
+
+// Position within an image, as fractions of its width and height
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
 // Ad data interface
 export interface AdData {
   id: string;
@@ -30,13 +149,23 @@ export interface AdData {
   description: string;
   imageUrl: string;
   callToAction: string;
-  adType: 'image' | 'video';
+  adType: AdType;
   adStyle: AdStyle;
   adFormat: AdFormat;
+  creativeFormat: CreativeFormat;
   primaryColor: string;
-  status: 'draft' | 'processing' | 'ready' | 'failed';
+  status: AdStatus;
   createdAt: string;
   updatedAt: string;
+  jobId?: string; // Generation job while the ad is processing
+  parentAdId?: string; // Ad this one is another placement of
+  focalPoint?: FocalPoint; // Kept in view when the creative is cropped to other formats
+  sourceImageUrl?: string; // Uploaded image the creative was generated from
+  // Branding the creative was generated with, reused for its placements
+  titlePosition?: TitlePosition;
+  logo?: AdLogo;
+  fonts?: AdFonts;
+  brandKitId?: string;
   metrics?: AdMetrics;
 }
 
@@ -47,10 +176,16 @@ export interface AdCreationInput {
   callToAction: string;
   adStyle: AdStyle;
   adFormat: AdFormat;
+  creativeFormat: CreativeFormat;
   primaryColor: string;
   isVideo: boolean;
   templateId?: string; // Reference to a template if used
   customPrompt?: string; // Additional instructions for AI
+  targetUrl?: string;
+  brandName?: string;
+  parentAdId?: string;
+  focalPoint?: FocalPoint;
+  images?: File[];
 }
 
 // Ad metrics interface
@@ -66,21 +201,338 @@ export interface AdMetrics {
   savedCount?: number;
 }
 
-// Template variable for placeholder text
+/**
+ * Result of validating untyped ad data
+ */
+export interface AdValidationResult {
+  isValid: boolean;
+  issues?: string[];
+}
+
+/**
+ * Type guard for ad styles
+ */
+export const isAdStyle = (value: unknown): value is AdStyle =>
+  typeof value === 'string' && (AD_STYLES as readonly string[]).includes(value);
+
+/**
+ * Type guard for placement formats
+ */
+export const isAdFormat = (value: unknown): value is AdFormat =>
+  typeof value === 'string' && value in AD_FORMAT_SPECS;
+
+/**
+ * Type guard for focal points
+ */
+export const isFocalPoint = (value: unknown): value is FocalPoint => {
+  if (!value || typeof value !== 'object') return false;
+  const { x, y } = value as Record<string, unknown>;
+  return typeof x === 'number' && typeof y === 'number' && x >= 0 && x <= 1 && y >= 0 && y <= 1;
+};
+
+/**
+ * Type guard for logos placed on a creative
+ */
+export const isAdLogo = (value: unknown): value is AdLogo =>
+  !!value && typeof value === 'object' && typeof (value as Record<string, unknown>).url === 'string';
+
+/**
+ * Type guard for creative formats
+ */
+export const isCreativeFormat = (value: unknown): value is CreativeFormat =>
+  typeof value === 'string' && (CREATIVE_FORMATS as readonly string[]).includes(value);
+
+/**
+ * Type guard for ad statuses
+ */
+export const isAdStatus = (value: unknown): value is AdStatus =>
+  typeof value === 'string' && (AD_STATUSES as readonly string[]).includes(value);
+
+/**
+ * Normalize a style name, resolving legacy aliases
+ * @param value - Style name from an API response, template or form
+ * @returns The canonical style, or null if it is unknown
+ */
+export const normalizeAdStyle = (value: unknown): AdStyle | null => {
+  if (isAdStyle(value)) return value;
+  if (typeof value === 'string' && AD_STYLE_ALIASES[value]) return AD_STYLE_ALIASES[value];
+  return null;
+};
+
+/**
+ * Get the media type produced by a creative format
+ */
+export const creativeFormatToAdType = (format: CreativeFormat): AdType =>
+  format === 'video' || format === 'slideshow' ? 'video' : 'image';
+
+/**
+ * Infer the creative format from a media type and the number of images
+ */
+export const adTypeToCreativeFormat = (adType: AdType, imageCount: number = 1): CreativeFormat => {
+  if (adType === 'video') return 'video';
+  return imageCount > 1 ? 'carousel' : 'single-image';
+};
+
+/**
+ * Default placement used when a creative format does not specify one
+ */
+export const defaultAdFormatFor = (format: CreativeFormat): AdFormat => {
+  switch (format) {
+    case 'video':
+      return 'portrait';
+    case 'single-image':
+    case 'carousel':
+    case 'collection':
+    case 'slideshow':
+    default:
+      return 'square';
+  }
+};
+
+/**
+ * Get a display label for a placement, e.g. "Square (1:1)"
+ */
+export const getAdFormatLabel = (format: AdFormat): string => {
+  const spec = AD_FORMAT_SPECS[format];
+  return `${spec.name} (${spec.aspectRatio})`;
+};
+
+/**
+ * Validate untyped ad data, e.g. an API response
+ * @param raw - Value to validate
+ * @returns Validation result with a list of issues
+ */
+export const validateAdData = (raw: unknown): AdValidationResult => {
+  const issues: string[] = [];
+
+  if (!raw || typeof raw !== 'object') {
+    return { isValid: false, issues: ['Ad data must be an object'] };
+  }
+
+  const data = raw as Record<string, unknown>;
+
+  ['id', 'title', 'createdAt', 'updatedAt'].forEach(field => {
+    if (typeof data[field] !== 'string' || !data[field]) {
+      issues.push(`Missing or invalid "${field}"`);
+    }
+  });
+
+  if (data.adType !== 'image' && data.adType !== 'video') {
+    issues.push(`Invalid ad type: ${String(data.adType)}`);
+  }
+
+  if (!normalizeAdStyle(data.adStyle)) {
+    issues.push(`Invalid ad style: ${String(data.adStyle)}`);
+  }
+
+  // Older responses sent the creative format in "adFormat"
+  if (!isAdFormat(data.adFormat) && !isCreativeFormat(data.adFormat)) {
+    issues.push(`Invalid ad format: ${String(data.adFormat)}`);
+  }
+
+  if (data.creativeFormat !== undefined && !isCreativeFormat(data.creativeFormat)) {
+    issues.push(`Invalid creative format: ${String(data.creativeFormat)}`);
+  }
+
+  if (!isAdStatus(data.status)) {
+    issues.push(`Invalid status: ${String(data.status)}`);
+  }
+
+  return {
+    isValid: issues.length === 0,
+    issues: issues.length > 0 ? issues : undefined
+  };
+};
+
+/**
+ * Decode untyped ad data into the canonical model
+ * @param raw - Value to decode, e.g. an API response item
+ * @returns Canonical ad data
+ * @throws Error if the data does not describe a valid ad
+ */
+export const decodeAdData = (raw: unknown): AdData => {
+  const validation = validateAdData(raw);
+  if (!validation.isValid) {
+    throw new Error(`Invalid ad data: ${validation.issues?.join('; ')}`);
+  }
+
+  const data = raw as Record<string, any>;
+  const adType = data.adType as AdType;
+  const creativeFormat: CreativeFormat = isCreativeFormat(data.creativeFormat)
+    ? data.creativeFormat
+    : isCreativeFormat(data.adFormat)
+      ? data.adFormat
+      : adTypeToCreativeFormat(adType);
+  const adFormat: AdFormat = isAdFormat(data.adFormat)
+    ? data.adFormat
+    : defaultAdFormatFor(creativeFormat);
+
+  return {
+    id: data.id,
+    title: data.title,
+    description: data.description || '',
+    imageUrl: data.imageUrl || '',
+    callToAction: data.callToAction || '',
+    adType,
+    adStyle: normalizeAdStyle(data.adStyle) as AdStyle,
+    adFormat,
+    creativeFormat,
+    primaryColor: data.primaryColor || '#1877F2',
+    status: data.status,
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt,
+    jobId: typeof data.jobId === 'string' ? data.jobId : undefined,
+    parentAdId: typeof data.parentAdId === 'string' && data.parentAdId ? data.parentAdId : undefined,
+    focalPoint: isFocalPoint(data.focalPoint) ? data.focalPoint : undefined,
+    sourceImageUrl: typeof data.sourceImageUrl === 'string' && data.sourceImageUrl ? data.sourceImageUrl : undefined,
+    titlePosition: TITLE_POSITIONS.includes(data.titlePosition) ? data.titlePosition : undefined,
+    logo: isAdLogo(data.logo) ? data.logo : undefined,
+    fonts: data.fonts && typeof data.fonts === 'object' ? data.fonts : undefined,
+    brandKitId: typeof data.brandKitId === 'string' && data.brandKitId ? data.brandKitId : undefined,
+    metrics: data.metrics,
+  };
+};
+
+/**
+ * Encode ad creation input for the API
+ *
+ * Keeps `isVideo` consistent with the creative format so the backend never
+ * receives a video flag for an image creative or vice versa.
+ */
+export const encodeAdCreationInput = (input: AdCreationInput): Omit<AdCreationInput, 'images'> => {
+  const { images, ...rest } = input;
+  const creativeFormat = input.isVideo && creativeFormatToAdType(input.creativeFormat) !== 'video'
+    ? 'video'
+    : input.creativeFormat;
+
+  return {
+    ...rest,
+    creativeFormat,
+    isVideo: creativeFormatToAdType(creativeFormat) === 'video',
+  };
+};
+
+// Values for template placeholders, keyed by variable name
 export interface TemplateVariables {
   [key: string]: string;
 }
 
-// Function to replace template variables in text
+export type TemplateVariableType = 'text' | 'number' | 'percent';
+
+/**
+ * A variable a template declares for its placeholders
+ */
+export interface TemplateVariableDefinition {
+  key: string; // Name used in placeholders, e.g. "product" for {product}
+  label: string;
+  type: TemplateVariableType;
+  defaultValue?: string;
+  required?: boolean;
+  maxLength?: number; // Longest text value, for text variables
+  hint?: string; // Example value shown in the input
+}
+
+/**
+ * Result of validating template variable values
+ */
+export interface TemplateVariablesValidationResult extends AdValidationResult {
+  fieldErrors: Record<string, string>; // Error per variable key
+}
+
+// Placeholders are written as {key}, where key is a variable name
+const TEMPLATE_PLACEHOLDER_PATTERN = /\{([a-zA-Z][a-zA-Z0-9_]*)\}/g;
+
+/**
+ * Find the placeholders used in a text
+ * @param text - Text that may contain {key} placeholders
+ * @returns Unique placeholder keys in order of appearance
+ */
+export const findTemplatePlaceholders = (text: string): string[] => {
+  const keys = Array.from(text.matchAll(TEMPLATE_PLACEHOLDER_PATTERN), match => match[1]);
+  return Array.from(new Set(keys));
+};
+
+/**
+ * Format a variable value for substitution, e.g. "40" as "40%" for a percent
+ * @param definition - Variable definition
+ * @param value - Raw value entered by the user
+ * @returns Value to put in place of the placeholder
+ */
+export const formatTemplateVariable = (definition: TemplateVariableDefinition, value: string): string => {
+  const trimmed = value.trim();
+  if (definition.type === 'percent' && trimmed && !trimmed.endsWith('%')) {
+    return `${trimmed}%`;
+  }
+  return trimmed;
+};
+
+/**
+ * Get the starting values of a template's variables
+ * @param definitions - Variables declared by the template
+ * @returns Default value per variable key
+ */
+export const getTemplateVariableDefaults = (definitions: TemplateVariableDefinition[] = []): TemplateVariables =>
+  Object.fromEntries(definitions.map(definition => [definition.key, definition.defaultValue || '']));
+
+/**
+ * Replace {key} placeholders with variable values
+ *
+ * Placeholders without a value are left in place so they can be detected.
+ * @param text - Text with placeholders
+ * @param variables - Values per variable key
+ * @param definitions - Optional definitions used to format values by type
+ * @returns Text with the known placeholders substituted
+ */
 export const applyTemplateVariables = (
-  text: string, 
-  variables: TemplateVariables
+  text: string,
+  variables: TemplateVariables,
+  definitions: TemplateVariableDefinition[] = []
 ): string => {
-  let result = text;
-  
-  Object.entries(variables).forEach(([key, value]) => {
-    result = result.replace(new RegExp(`{${key}}`, 'g'), value);
+  return text.replace(TEMPLATE_PLACEHOLDER_PATTERN, (placeholder, key: string) => {
+    const value = variables[key];
+    if (value === undefined || !value.trim()) return placeholder;
+
+    const definition = definitions.find(item => item.key === key);
+    return definition ? formatTemplateVariable(definition, value) : value.trim();
+  });
+};
+
+/**
+ * Validate values for a template's variables
+ * @param definitions - Variables declared by the template
+ * @param variables - Values entered by the user
+ * @returns Validation result with an error per invalid variable
+ */
+export const validateTemplateVariables = (
+  definitions: TemplateVariableDefinition[],
+  variables: TemplateVariables
+): TemplateVariablesValidationResult => {
+  const fieldErrors: Record<string, string> = {};
+
+  definitions.forEach(definition => {
+    const value = (variables[definition.key] || '').trim();
+
+    if (!value) {
+      if (definition.required) fieldErrors[definition.key] = `${definition.label} is required`;
+      return;
+    }
+
+    if (definition.type !== 'text') {
+      const number = Number(value.replace(/%$/, ''));
+      if (!Number.isFinite(number)) {
+        fieldErrors[definition.key] = `${definition.label} must be a number`;
+      } else if (definition.type === 'percent' && (number < 0 || number > 100)) {
+        fieldErrors[definition.key] = `${definition.label} must be between 0 and 100`;
+      }
+    } else if (definition.maxLength && value.length > definition.maxLength) {
+      fieldErrors[definition.key] = `${definition.label} must be ${definition.maxLength} characters or less`;
+    }
   });
-  
-  return result;
-}; 
\ No newline at end of file
+
+  const issues = Object.values(fieldErrors);
+  return {
+    isValid: issues.length === 0,
+    issues: issues.length > 0 ? issues : undefined,
+    fieldErrors,
+  };
+};
@@ -1,21 +1,7 @@
-export type AdStyle = 'minimal' | 'bold' | 'elegant' | 'vibrant' | 'trustworthy' | 'modern' | 'professional' | 'playful';
+import { AdStyle, AdFormat, CreativeFormat } from './ad';
 
-export type AdFormat = 'single-image' | 'carousel' | 'video' | 'collection' | 'slideshow';
-
-export interface AdCreationInput {
-  title: string;
-  description: string;
-  callToAction: string;
-  adFormat: AdFormat;
-  adStyle: AdStyle;
-  targetUrl: string;
-  brandName?: string;
-  primaryColor?: string;
-  image?: File;
-  images?: File[];
-  video?: File;
-  templateId?: string;
-}
+// The ad domain model lives in ./ad - these re-exports keep older imports working
+export type { AdStyle, AdFormat, CreativeFormat, AdCreationInput } from './ad';
 
 export interface Ad {
   id: string;
@@ -23,6 +9,7 @@ export interface Ad {
   description: string;
   callToAction: string;
   adFormat: AdFormat;
+  creativeFormat: CreativeFormat;
   adStyle: AdStyle;
   targetUrl: string;
   brandName?: string;
@@ -51,7 +38,8 @@ export interface AdPerformance {
 
 export interface AdFilter {
   status?: string;
-  adFormat?: string;
+  adFormat?: AdFormat;
+  creativeFormat?: CreativeFormat;
   dateRange?: {
     startDate: Date;
     endDate: Date;
@@ -65,4 +53,4 @@ export enum ProcessingState {
   GeneratingAd = 'generating_ad',
   Completed = 'completed',
   Error = 'error'
-} 
\ No newline at end of file
+}
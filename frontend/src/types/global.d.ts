@@ -29,7 +29,8 @@ declare module 'react' {
 // For the ThemeContext
 interface ThemeContextType {
   mode: 'light' | 'dark';
-  toggleColorMode: () => void;
+  preference: 'light' | 'dark' | 'system';
+  setPreference: (preference: 'light' | 'dark' | 'system') => void;
 }
 
 // Extend Next.js Image props to allow for more styling control
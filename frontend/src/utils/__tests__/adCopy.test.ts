@@ -0,0 +1,35 @@
+/**
+ * Tests for tidying generated ad copy before it reaches the ad form
+ */
+import { fitAdCopy, truncateCopy, MAX_DESCRIPTION_LENGTH } from '../adCopy';
+
+describe('truncateCopy', () => {
+  it('leaves short text alone apart from whitespace', () => {
+    expect(truncateCopy('  Fresh   coffee daily ', 40)).toBe('Fresh coffee daily');
+  });
+
+  it('cuts long text at a word boundary with an ellipsis', () => {
+    const result = truncateCopy('Hand roasted beans delivered to your door every week', 30);
+
+    expect(result).toBe('Hand roasted beans delivered…');
+    expect(result.length).toBeLessThanOrEqual(30);
+  });
+
+  it('cuts inside a word when there is no useful boundary', () => {
+    expect(truncateCopy('Supercalifragilistic espresso', 10)).toBe('Supercali…');
+  });
+});
+
+describe('fitAdCopy', () => {
+  it('keeps descriptions within the form limit', () => {
+    const copy = fitAdCopy({ title: ' Title ', description: 'word '.repeat(60), callToAction: 'Shop Now' }, 500);
+
+    expect(copy.title).toBe('Title');
+    expect(copy.description.length).toBeLessThanOrEqual(MAX_DESCRIPTION_LENGTH);
+    expect(copy.callToAction).toBe('Shop Now');
+  });
+
+  it('fills missing fields with empty strings', () => {
+    expect(fitAdCopy({ title: 'Only a title' })).toEqual({ title: 'Only a title', description: '', callToAction: '' });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests for the ZIP export of ads
+ */
+import { TextEncoder } from 'util';
+import { buildAdsCsv, getAdFileExtension, getAdFilename } from '../adExport';
+import { createZip, crc32 } from '../zip';
+import { createAd } from './fixtures/adFixtures';
+
+// jsdom does not provide TextEncoder
+Object.assign(global, { TextEncoder });
+
+describe('ad export', () => {
+  test('should pick the extension from the media type before the URL', () => {
+    expect(getAdFileExtension(createAd({ adType: 'video' }), 'video/mp4')).toBe('mp4');
+    expect(getAdFileExtension(createAd({ imageUrl: 'https://cdn.example.com/a.webp?v=2' }))).toBe('webp');
+    expect(getAdFileExtension(createAd({ adType: 'video', imageUrl: '' }))).toBe('mp4');
+  });
+
+  test('should sanitize filenames and number duplicates', () => {
+    const usedNames = new Set<string>();
+
+    expect(getAdFilename(createAd({ title: 'Sale: 50% off?' }), 'mp4', usedNames)).toBe('Sale 50% off.mp4');
+    expect(getAdFilename(createAd({ title: 'Sale 50% off' }), 'mp4', usedNames)).toBe('Sale 50% off (2).mp4');
+    expect(getAdFilename(createAd({ title: '../' }), 'png', usedNames)).toBe('image.png');
+  });
+
+  test('should quote CSV values and neutralise formulas', () => {
+    const csv = buildAdsCsv([
+      { ad: createAd({ description: 'Big, "bold" deals', callToAction: '=HYPERLINK("x")' }), filename: 'Summer Sale.png' },
+    ]);
+    const [header, row] = csv.split('\r\n');
+
+    expect(header).toBe('File,Title,Description,Call to Action,Format,Style,Primary Color');
+    expect(row).toBe(
+      'Summer Sale.png,Summer Sale,"Big, ""bold"" deals","\'=HYPERLINK(""x"")","single-image, Square (1:1)",vibrant,#FF5733'
+    );
+  });
+
+  test('should write a stored ZIP with a central directory', () => {
+    const archive = createZip([
+      { name: 'manifest.json', data: '{}' },
+      { name: 'ad.png', data: new Uint8Array([1, 2, 3]) },
+    ]);
+    const view = new DataView(archive.buffer);
+    const endOffset = archive.length - 22;
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+    expect(view.getUint16(endOffset + 10, true)).toBe(2);
+    expect(crc32(new Uint8Array(Buffer.from('123456789')))).toBe(0xcbf43926);
+  });
+});
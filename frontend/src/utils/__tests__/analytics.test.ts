@@ -0,0 +1,63 @@
+/**
+ * Tests for ad performance aggregation
+ */
+import { buildTimeSeries, groupPerformance, summarizePerformance } from '../analytics';
+import { AdMetricsReport, DailyAdMetrics } from '../../api/analytics.service';
+
+const day = (date: string, overrides: Partial<DailyAdMetrics> = {}): DailyAdMetrics => ({
+  date,
+  impressions: 1000,
+  clicks: 20,
+  conversions: 2,
+  spend: 10,
+  revenue: 40,
+  ...overrides,
+});
+
+const createReport = (adId: string, adStyle: AdMetricsReport['adStyle'], daily: DailyAdMetrics[]): AdMetricsReport => ({
+  adId,
+  title: adId,
+  adStyle,
+  adFormat: 'square',
+  creativeFormat: 'single-image',
+  daily,
+});
+
+describe('analytics', () => {
+  test('should derive rates from summed totals', () => {
+    const performance = summarizePerformance([day('2024-01-01'), day('2024-01-02', { clicks: 30, spend: 30 })]);
+
+    expect(performance.impressions).toBe(2000);
+    expect(performance.clicks).toBe(50);
+    expect(performance.ctr).toBeCloseTo(2.5);
+    expect(performance.cpc).toBeCloseTo(0.8);
+    expect(performance.roi).toBeCloseTo(100);
+  });
+
+  test('should return zero rates when there is no delivery', () => {
+    const performance = summarizePerformance([]);
+
+    expect(performance.ctr).toBe(0);
+    expect(performance.cpc).toBe(0);
+    expect(performance.roi).toBe(0);
+  });
+
+  test('should combine ads into a daily series and compare groups', () => {
+    const ads = [
+      createReport('ad-1', 'vibrant', [day('2024-01-02'), day('2024-01-01')]),
+      createReport('ad-2', 'vibrant', [day('2024-01-01', { impressions: 500 })]),
+      createReport('ad-3', 'minimalist', [day('2024-01-01', { impressions: 4000 })]),
+    ];
+
+    expect(buildTimeSeries(ads, 'impressions')).toEqual([
+      { date: '2024-01-01', value: 5500 },
+      { date: '2024-01-02', value: 1000 },
+    ]);
+
+    const groups = groupPerformance(ads, ad => ad.adStyle);
+    expect(groups.map(group => [group.key, group.adCount, group.performance.impressions])).toEqual([
+      ['minimalist', 1, 4000],
+      ['vibrant', 2, 2500],
+    ]);
+  });
+});
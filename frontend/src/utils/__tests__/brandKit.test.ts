@@ -0,0 +1,78 @@
+/**
+ * Tests for applying brand kits to generation requests and copy
+ */
+import { BrandKit } from '../../api/brandKit.service';
+import { applyBrandKit, applyBrandVoice, findBannedWords, findBannedWordsInCopy } from '../brandKit';
+
+const brandKit: BrandKit = {
+  _id: 'kit-1',
+  name: 'Harbor Coffee',
+  logos: [
+    { url: 'https://cdn.example.com/wordmark.png', label: 'Wordmark', position: 'top-left' },
+    { url: 'https://cdn.example.com/badge.png', label: 'Badge', position: 'bottom-right', isDefault: true },
+  ],
+  palette: [{ name: 'Navy', hex: '#1e3a8a' }, { hex: '#f59e0b' }],
+  fonts: { heading: 'Playfair Display', body: 'Lato' },
+  voice: { tone: 'Warm and unhurried', bannedWords: ['cheap', 'best ever'] },
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+};
+
+const baseInput = {
+  imageUrls: ['https://cdn.example.com/photo.jpg'],
+  adText: { title: 'Fresh roasts', description: 'Every week', callToAction: 'Shop Now' },
+  style: 'modern',
+  adFormat: 'square' as const,
+};
+
+describe('findBannedWords', () => {
+  it('matches whole words and phrases regardless of case', () => {
+    expect(findBannedWords('Our BEST EVER blend, never Cheap.', brandKit.voice.bannedWords)).toEqual(['cheap', 'best ever']);
+  });
+
+  it('ignores banned words inside longer words', () => {
+    expect(findBannedWords('Cheapest prices on bestever beans', brandKit.voice.bannedWords)).toEqual([]);
+  });
+
+  it('checks every field of generated copy', () => {
+    expect(findBannedWordsInCopy({ title: 'Coffee', description: 'Not cheap', callToAction: 'Shop Now' }, ['cheap']))
+      .toEqual(['cheap']);
+  });
+});
+
+describe('applyBrandKit', () => {
+  it('fills the default logo, primary color and fonts from the kit', () => {
+    expect(applyBrandKit(baseInput, brandKit)).toEqual({
+      ...baseInput,
+      brandKitId: 'kit-1',
+      logo: { url: 'https://cdn.example.com/badge.png', position: 'bottom-right' },
+      brandColor: '#1e3a8a',
+      fonts: { heading: 'Playfair Display', body: 'Lato' },
+    });
+  });
+
+  it('keeps values already chosen for the ad', () => {
+    const logo = { url: 'https://cdn.example.com/wordmark.png', position: 'top-right' as const };
+    const input = applyBrandKit({ ...baseInput, brandColor: '#f59e0b', logo }, brandKit);
+
+    expect(input.brandColor).toBe('#f59e0b');
+    expect(input.logo).toBe(logo);
+  });
+
+  it('leaves the logo off when the ad has none', () => {
+    expect(applyBrandKit({ ...baseInput, logo: undefined }, brandKit).logo).toBeUndefined();
+  });
+
+  it('leaves the input alone without a kit', () => {
+    expect(applyBrandKit(baseInput, null)).toBe(baseInput);
+  });
+});
+
+describe('applyBrandVoice', () => {
+  it('passes the tone and banned words to the copy generator', () => {
+    const input = applyBrandVoice({ productName: 'Cold brew', productDescription: 'Slow steeped', tone: 'friendly' }, brandKit);
+
+    expect(input.brandVoice).toBe('Warm and unhurried');
+    expect(input.bannedWords).toEqual(['cheap', 'best ever']);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Tests for running bulk actions with per-item results
+ */
+import { runBulkAction } from '../bulk';
+
+describe('runBulkAction', () => {
+  test('should report each item and keep going after failures', async () => {
+    const result = await runBulkAction(['a', 'b', 'c'], async (id) => {
+      if (id === 'b') throw new Error('Not allowed');
+    });
+
+    expect(result.results).toEqual([
+      { id: 'a', success: true },
+      { id: 'b', success: false, error: 'Not allowed' },
+      { id: 'c', success: true },
+    ]);
+    expect(result.succeeded).toEqual(['a', 'c']);
+    expect(result.failed).toEqual([{ id: 'b', success: false, error: 'Not allowed' }]);
+  });
+
+  test('should limit the number of actions running at once', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const ids = Array.from({ length: 10 }, (_, index) => `asset-${index}`);
+
+    await runBulkAction(ids, async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+    }, 3);
+
+    expect(maxRunning).toBe(3);
+  });
+
+  test('should use the API error message when present', async () => {
+    const result = await runBulkAction(['a'], async () => {
+      throw { response: { data: { message: 'Asset is locked' } }, message: 'Request failed' };
+    });
+
+    expect(result.failed[0].error).toBe('Asset is locked');
+  });
+});
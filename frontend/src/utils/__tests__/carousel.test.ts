@@ -0,0 +1,46 @@
+/**
+ * Tests for editing and validating carousel cards
+ */
+import { CarouselCard, createCarouselCard, validateCarouselCards } from '../carousel';
+
+const createCard = (overrides: Partial<CarouselCard> = {}): CarouselCard => ({
+  ...createCarouselCard(),
+  file: new File(['image'], 'card.png', { type: 'image/png' }),
+  previewUrl: 'blob:card',
+  headline: 'Single origin beans',
+  link: 'https://example.com/beans',
+  ...overrides,
+});
+
+describe('validateCarouselCards', () => {
+  it('accepts complete cards', () => {
+    expect(validateCarouselCards([createCard(), createCard()])).toEqual({ isValid: true, error: undefined, cardErrors: {} });
+  });
+
+  it('needs between 2 and 10 cards', () => {
+    expect(validateCarouselCards([createCard()]).error).toBe('A carousel needs at least 2 cards');
+    expect(validateCarouselCards(Array.from({ length: 11 }, () => createCard())).error)
+      .toBe('A carousel can have at most 10 cards');
+  });
+
+  it('reports problems with each card separately', () => {
+    const missingImage = createCard({ file: null, previewUrl: null });
+    const badLink = createCard({ headline: '', link: 'example.com' });
+    const result = validateCarouselCards([missingImage, badLink, createCard()]);
+
+    expect(result.isValid).toBe(false);
+    expect(result.cardErrors).toEqual({
+      [missingImage.id]: { file: 'Add an image' },
+      [badLink.id]: {
+        headline: 'Headline is required',
+        link: 'Enter a full web address, e.g. https://example.com/product',
+      },
+    });
+  });
+
+  it('rejects files that are not supported images', () => {
+    const card = createCard({ file: new File(['%PDF'], 'brochure.pdf', { type: 'application/pdf' }) });
+
+    expect(validateCarouselCards([card, createCard()]).cardErrors[card.id].file).toMatch(/JPEG, PNG, GIF or WebP/);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for compressing images towards a size budget
+ */
+import {
+  getCompressionSummary,
+  getEncodeBudget,
+  getScaledSize,
+  isCompressibleImage,
+  MAX_SOURCE_IMAGE_SIZE,
+  searchQuality,
+} from '../compression';
+
+// Encoder whose output grows linearly with quality
+const createEncoder = (bytesAtFullQuality: number) => {
+  const qualities: number[] = [];
+  const encode = jest.fn(async (quality: number) => {
+    qualities.push(quality);
+    return new Blob([new Uint8Array(Math.round(bytesAtFullQuality * quality))]);
+  });
+  return { encode, qualities };
+};
+
+const createFile = (type: string, size: number) => {
+  const file = new File([''], 'photo', { type });
+  Object.defineProperty(file, 'size', { value: size });
+  return file;
+};
+
+describe('image compression', () => {
+  test('should keep the highest quality when it already fits', async () => {
+    const { encode } = createEncoder(1000);
+    const result = await searchQuality(encode, 2000, 0.5, 0.9);
+
+    expect(result).toEqual(expect.objectContaining({ quality: 0.9, withinBudget: true }));
+    expect(encode).toHaveBeenCalledTimes(1);
+  });
+
+  test('should find the highest quality under the budget', async () => {
+    const { encode } = createEncoder(1000);
+    const result = await searchQuality(encode, 700, 0.5, 0.9);
+
+    expect(result.withinBudget).toBe(true);
+    expect(result.blob.size).toBeLessThanOrEqual(700);
+    expect(result.quality).toBeGreaterThan(0.65);
+  });
+
+  test('should fall back to the lowest quality when nothing fits', async () => {
+    const { encode, qualities } = createEncoder(1000);
+    const result = await searchQuality(encode, 100, 0.5, 0.9);
+
+    expect(result).toEqual(expect.objectContaining({ quality: 0.5, withinBudget: false }));
+    expect(qualities[qualities.length - 1]).toBe(0.5);
+  });
+
+  test('should leave room in the budget for the EXIF kept with the image', () => {
+    expect(getEncodeBudget(100000, null)).toBe(100000);
+    expect(getEncodeBudget(100000, new Uint8Array(64 * 1024))).toBeLessThan(100000 - 64 * 1024);
+    expect(getEncodeBudget(1000, new Uint8Array(64 * 1024))).toBe(0);
+  });
+
+  test('should scale images down to the longest side, never up', () => {
+    expect(getScaledSize({ width: 4000, height: 3000 }, 2048)).toEqual({ width: 2048, height: 1536 });
+    expect(getScaledSize({ width: 1000, height: 3000 }, 2048)).toEqual({ width: 683, height: 2048 });
+    expect(getScaledSize({ width: 800, height: 600 }, 2048)).toEqual({ width: 800, height: 600 });
+  });
+
+  test('should only compress still images within the source size limit', () => {
+    expect(isCompressibleImage(createFile('image/jpeg', 20 * 1024 * 1024))).toBe(true);
+    expect(isCompressibleImage(createFile('image/jpeg', MAX_SOURCE_IMAGE_SIZE + 1))).toBe(false);
+    expect(isCompressibleImage(createFile('image/gif', 1024))).toBe(false);
+    expect(isCompressibleImage(createFile('image/svg+xml', 1024))).toBe(false);
+  });
+
+  test('should summarize the sizes before and after', () => {
+    expect(getCompressionSummary({ originalSize: 4 * 1024 * 1024, compressedSize: 1024 * 1024 }))
+      .toBe('4 MB → 1 MB (75% smaller)');
+    expect(getCompressionSummary({ originalSize: 2048, compressedSize: 2048 })).toBe('2 KB');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Tests for the frontend credit cost table and balance checks
+ */
+import {
+  CREDIT_COSTS,
+  checkCredits,
+  formatCredits,
+  getInsufficientCreditsBalance,
+} from '../credits';
+
+describe('checkCredits', () => {
+  it('mirrors the backend cost table', () => {
+    expect(CREDIT_COSTS).toEqual({
+      IMAGE_GENERATION: 1,
+      VIDEO_GENERATION: 3,
+      ENHANCE_IMAGE: 1,
+      AD_COPY_GENERATION: 1,
+      AD_COPY_VARIATIONS: 2,
+    });
+  });
+
+  it('allows operations the balance covers', () => {
+    expect(checkCredits('VIDEO_GENERATION', 3)).toEqual({ cost: 3, balance: 3, isAffordable: true, shortfall: 0 });
+  });
+
+  it('blocks operations that would exceed the balance', () => {
+    expect(checkCredits('VIDEO_GENERATION', 1)).toEqual({ cost: 3, balance: 1, isAffordable: false, shortfall: 2 });
+  });
+
+  it('charges repeated operations for each run', () => {
+    expect(checkCredits('IMAGE_GENERATION', 2, 3)).toEqual({ cost: 3, balance: 2, isAffordable: false, shortfall: 1 });
+  });
+
+  it('leaves an unknown balance to the server', () => {
+    expect(checkCredits('IMAGE_GENERATION').isAffordable).toBe(true);
+  });
+});
+
+describe('formatCredits', () => {
+  it('pluralizes credits', () => {
+    expect(formatCredits(1)).toBe('1 credit');
+    expect(formatCredits(2)).toBe('2 credits');
+  });
+});
+
+describe('getInsufficientCreditsBalance', () => {
+  it('reads the available balance from a 402 response', () => {
+    const error = {
+      response: {
+        status: 402,
+        data: { success: false, error: { code: 'INSUFFICIENT_CREDITS', details: { required: 3, available: 1 } } },
+      },
+    };
+
+    expect(getInsufficientCreditsBalance(error)).toBe(1);
+  });
+
+  it('ignores other errors', () => {
+    expect(getInsufficientCreditsBalance(new Error('Network Error'))).toBeNull();
+    expect(getInsufficientCreditsBalance({ response: { data: { error: { code: 'NOT_FOUND' } } } })).toBeNull();
+  });
+});
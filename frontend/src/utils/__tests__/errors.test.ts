@@ -0,0 +1,21 @@
+/**
+ * Tests for reading messages out of failed requests
+ */
+import { formatError } from '../errors';
+
+describe('formatError', () => {
+  test('should prefer the message sent by the API', () => {
+    const error = Object.assign(new Error('Request failed with status code 403'), {
+      response: { data: { message: 'Asset is locked' } },
+    });
+
+    expect(formatError(error)).toBe('Asset is locked');
+  });
+
+  test('should fall back to the error itself', () => {
+    expect(formatError(new Error('Network Error'))).toBe('Network Error');
+    expect(formatError({ error: 'Not allowed' })).toBe('Not allowed');
+    expect(formatError('Timed out')).toBe('Timed out');
+    expect(formatError(null)).toBe('An unexpected error occurred');
+  });
+});
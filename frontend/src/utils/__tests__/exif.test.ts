@@ -0,0 +1,73 @@
+/**
+ * Tests for copying EXIF metadata into compressed images
+ */
+import { insertJpegExif, insertWebpExif, readJpegExif, resetExifOrientation } from '../exif';
+
+// Little-endian TIFF with one IFD entry: Orientation = 6 (rotated 90° clockwise)
+const createExif = () => new Uint8Array([
+  0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00,
+  0x01, 0x00,
+  0x12, 0x01, 0x03, 0x00, 0x01, 0x00, 0x00, 0x00, 0x06, 0x00, 0x00, 0x00,
+  0x00, 0x00, 0x00, 0x00,
+]);
+
+const createJpeg = (exif?: Uint8Array) => {
+  const app0 = [0xff, 0xe0, 0x00, 0x04, 0x4a, 0x46];
+  const app1 = exif
+    ? [0xff, 0xe1, 0x00, 8 + exif.length, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00, ...Array.from(exif)]
+    : [];
+  return new Uint8Array([0xff, 0xd8, ...app0, ...app1, 0xff, 0xda, 0x00, 0x02, 0xff, 0xd9]);
+};
+
+const ascii = (bytes: Uint8Array, offset: number) => String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 4)));
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(offset, true);
+
+describe('EXIF metadata', () => {
+  test('should read the EXIF block of a JPEG', () => {
+    expect(readJpegExif(createJpeg(createExif()))).toEqual(createExif());
+    expect(readJpegExif(createJpeg())).toBeNull();
+    expect(readJpegExif(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBeNull();
+  });
+
+  test('should reset the orientation without touching the original', () => {
+    const exif = createExif();
+    const reset = resetExifOrientation(exif);
+
+    expect(reset[18]).toBe(1);
+    expect(exif[18]).toBe(6);
+  });
+
+  test('should insert EXIF after the JFIF header of a JPEG', () => {
+    const jpeg = insertJpegExif(createJpeg(), createExif());
+
+    expect(Array.from(jpeg.subarray(8, 10))).toEqual([0xff, 0xe1]);
+    expect(readJpegExif(jpeg)).toEqual(createExif());
+  });
+
+  test('should upgrade a simple lossless WebP to the extended format', () => {
+    // 300x200 VP8L image with alpha; only the header is read
+    const bits = (300 - 1) | ((200 - 1) << 14) | (1 << 28);
+    const vp8l = new Uint8Array([
+      0x52, 0x49, 0x46, 0x46, 18, 0, 0, 0, 0x57, 0x45, 0x42, 0x50,
+      0x56, 0x50, 0x38, 0x4c, 6, 0, 0, 0,
+      0x2f, bits & 0xff, (bits >> 8) & 0xff, (bits >> 16) & 0xff, (bits >>> 24) & 0xff, 0x00,
+    ]);
+    const exif = createExif();
+    const webp = insertWebpExif(new Uint8Array([...Array.from(vp8l), 0, 0, 0, 0]), exif);
+
+    expect(ascii(webp, 12)).toBe('VP8X');
+    expect(webp[20]).toBe(0x08 | 0x10);
+    expect(webp[24] | (webp[25] << 8)).toBe(299);
+    expect(webp[27] | (webp[28] << 8)).toBe(199);
+    expect(ascii(webp, 30)).toBe('VP8L');
+    expect(ascii(webp, webp.length - 8 - exif.length)).toBe('EXIF');
+    expect(readUint32(webp, 4)).toBe(webp.length - 8);
+  });
+
+  test('should leave files it cannot read unchanged', () => {
+    const png = new Uint8Array(32);
+    expect(insertWebpExif(png, createExif())).toBe(png);
+    expect(insertJpegExif(png, createExif())).toBe(png);
+  });
+});
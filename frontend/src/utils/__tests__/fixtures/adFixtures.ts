@@ -0,0 +1,22 @@
+/**
+ * Ad fixtures for testing
+ */
+import { AdData } from '../../../types/ad';
+
+// A finished square image ad; override any field per test
+export const createAd = (overrides: Partial<AdData> = {}): AdData => ({
+  id: 'ad-1',
+  title: 'Summer Sale',
+  description: 'Up to 50% off',
+  imageUrl: 'https://cdn.example.com/ads/ad-1.png',
+  callToAction: 'Shop Now',
+  adType: 'image',
+  adStyle: 'vibrant',
+  adFormat: 'square',
+  creativeFormat: 'single-image',
+  primaryColor: '#FF5733',
+  status: 'ready',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
@@ -0,0 +1,63 @@
+/**
+ * Tests for detecting text on creatives and checking it against story safe zones
+ */
+import { estimateTextCoverage, findSafeZoneViolations, getTextPlacementWarnings } from '../image';
+
+// A white image with "lettering" (alternating black and white columns) in the given area
+const createPixels = (width: number, height: number, text?: { x: number; y: number; width: number; height: number }) => {
+  const data = new Uint8ClampedArray(width * height * 4).fill(255);
+
+  if (text) {
+    for (let y = text.y; y < text.y + text.height; y++) {
+      for (let x = text.x; x < text.x + text.width; x += 2) {
+        const i = (y * width + x) * 4;
+        data[i] = data[i + 1] = data[i + 2] = 0;
+      }
+    }
+  }
+
+  return { data, width, height };
+};
+
+describe('estimateTextCoverage', () => {
+  it('finds no text on a plain image', () => {
+    const coverage = estimateTextCoverage(createPixels(100, 100));
+
+    expect(coverage.ratio).toBe(0);
+    expect(findSafeZoneViolations(coverage)).toEqual([]);
+  });
+
+  it('marks the grid cells that hold text', () => {
+    const coverage = estimateTextCoverage(createPixels(100, 100, { x: 0, y: 40, width: 50, height: 20 }));
+
+    expect(coverage.cells[4].slice(0, 5)).toEqual([true, true, true, true, true]);
+    expect(coverage.cells[4][6]).toBe(false);
+    expect(coverage.ratio).toBeCloseTo(0.1);
+  });
+});
+
+describe('findSafeZoneViolations', () => {
+  it('reports text at the top and bottom of a story', () => {
+    const top = estimateTextCoverage(createPixels(90, 160, { x: 10, y: 0, width: 40, height: 10 }));
+    const bottom = estimateTextCoverage(createPixels(90, 160, { x: 10, y: 150, width: 40, height: 10 }));
+
+    expect(findSafeZoneViolations(top)).toEqual(['top']);
+    expect(findSafeZoneViolations(bottom)).toEqual(['bottom']);
+  });
+});
+
+describe('getTextPlacementWarnings', () => {
+  it('warns when text covers more than 20% of the image', () => {
+    const coverage = estimateTextCoverage(createPixels(100, 100, { x: 0, y: 0, width: 100, height: 30 }));
+
+    expect(getTextPlacementWarnings({ coverage, adFormat: 'square' })).toEqual([
+      'Text covers about 30% of the image. Ads with less than 20% text usually reach more people.',
+    ]);
+  });
+
+  it('only checks title position and safe zones for stories', () => {
+    expect(getTextPlacementWarnings({ adFormat: 'square', titlePosition: 'top' })).toEqual([]);
+    expect(getTextPlacementWarnings({ adFormat: 'story', titlePosition: 'top' })).toHaveLength(1);
+    expect(getTextPlacementWarnings({ adFormat: 'story', titlePosition: 'center' })).toEqual([]);
+  });
+});
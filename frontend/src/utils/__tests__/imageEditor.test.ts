@@ -0,0 +1,102 @@
+/**
+ * Tests for cropping around a focal point and the other in-browser image edits
+ */
+import {
+  DEFAULT_IMAGE_EDITS,
+  applyBrightnessContrast,
+  flipEdits,
+  getEditedImageType,
+  getFocalCrop,
+  getFormatCrops,
+  getRotatedSize,
+  rotateEdits,
+} from '../imageEditor';
+import type { ImageEdits } from '../imageEditor';
+import type { FocalPoint } from '../../types/ad';
+
+describe('getFocalCrop', () => {
+  it('takes the largest crop of the ratio centered on the focal point', () => {
+    expect(getFocalCrop({ width: 2000, height: 1000 }, 1, { x: 0.25, y: 0.5 }))
+      .toEqual({ x: 0, y: 0, width: 1000, height: 1000 });
+    expect(getFocalCrop({ width: 2000, height: 1000 }, 1, { x: 0.6, y: 0.5 }))
+      .toEqual({ x: 700, y: 0, width: 1000, height: 1000 });
+  });
+
+  it('keeps the crop inside the image', () => {
+    expect(getFocalCrop({ width: 1000, height: 1000 }, 16 / 9, { x: 0.5, y: 1 }))
+      .toEqual({ x: 0, y: 437.5, width: 1000, height: 562.5 });
+  });
+
+  it('crops every format around the same point', () => {
+    const crops = getFormatCrops({ width: 1080, height: 1920 }, { x: 0.5, y: 0.2 });
+
+    expect(crops.story).toEqual({ x: 0, y: 0, width: 1080, height: 1920 });
+    expect(crops.square).toEqual({ x: 0, y: 0, width: 1080, height: 1080 });
+    expect(crops.landscape.y).toBeCloseTo(384 - 303.75);
+  });
+});
+
+// Where drawTransformedImage puts a point of the original image, relative to the drawn size
+const renderPoint = (
+  size: { width: number; height: number },
+  edits: Pick<ImageEdits, 'rotation' | 'flipHorizontal' | 'flipVertical'>,
+  point: FocalPoint
+): FocalPoint => {
+  const angle = (edits.rotation * Math.PI) / 180;
+  const x = (point.x - 0.5) * size.width;
+  const y = (point.y - 0.5) * size.height;
+  const rotated = getRotatedSize(size, edits.rotation);
+
+  return {
+    x: ((x * Math.cos(angle) - y * Math.sin(angle)) * (edits.flipHorizontal ? -1 : 1)) / rotated.width + 0.5,
+    y: ((x * Math.sin(angle) + y * Math.cos(angle)) * (edits.flipVertical ? -1 : 1)) / rotated.height + 0.5,
+  };
+};
+
+describe('rotateEdits and flipEdits', () => {
+  it('take the focal point along', () => {
+    const edits = { ...DEFAULT_IMAGE_EDITS, focalPoint: { x: 0.25, y: 0.125 } };
+
+    expect(rotateEdits(edits, 1)).toMatchObject({ rotation: 90, focalPoint: { x: 0.875, y: 0.25 } });
+    expect(rotateEdits(edits, -1)).toMatchObject({ rotation: 270, focalPoint: { x: 0.125, y: 0.75 } });
+    expect(rotateEdits(rotateEdits(edits, 1), -1)).toEqual(edits);
+    expect(flipEdits(edits, 'horizontal')).toMatchObject({ flipHorizontal: true, focalPoint: { x: 0.75, y: 0.125 } });
+    expect(flipEdits(edits, 'vertical')).toMatchObject({ flipVertical: true, focalPoint: { x: 0.25, y: 0.875 } });
+  });
+
+  it('keep turning the way they say after a flip', () => {
+    const size = { width: 400, height: 200 };
+    const original = { x: 0.25, y: 0.125 };
+    const flipped = flipEdits({ ...DEFAULT_IMAGE_EDITS, focalPoint: original }, 'horizontal');
+    const right = rotateEdits(flipped, 1);
+
+    expect(right).toMatchObject({ rotation: 270, focalPoint: { x: 0.875, y: 0.75 } });
+    expect(renderPoint(size, right, original).x).toBeCloseTo(right.focalPoint.x);
+    expect(renderPoint(size, right, original).y).toBeCloseTo(right.focalPoint.y);
+
+    const both = rotateEdits(flipEdits(flipped, 'vertical'), 1);
+    expect(both.rotation).toBe(90);
+    expect(renderPoint(size, both, original).x).toBeCloseTo(both.focalPoint.x);
+    expect(renderPoint(size, both, original).y).toBeCloseTo(both.focalPoint.y);
+  });
+});
+
+describe('applyBrightnessContrast', () => {
+  it('adjusts color channels and leaves transparency alone', () => {
+    const pixels = new Uint8ClampedArray([100, 128, 200, 0]);
+
+    applyBrightnessContrast(pixels, 120, 100);
+    expect(Array.from(pixels)).toEqual([120, 154, 240, 0]);
+
+    applyBrightnessContrast(pixels, 100, 150);
+    expect(Array.from(pixels)).toEqual([116, 167, 255, 0]);
+  });
+});
+
+describe('getEditedImageType', () => {
+  it('keeps formats that can be written and turns GIFs into PNGs', () => {
+    expect(getEditedImageType('image/png')).toBe('image/png');
+    expect(getEditedImageType('image/jpeg')).toBe('image/jpeg');
+    expect(getEditedImageType('image/gif')).toBe('image/png');
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Tests for permission checks and login redirects
+ */
+import { isPermitted, PERMISSIONS } from '../permissions';
+import { getSafeReturnTo } from '../security';
+
+// Build an unsigned JWT carrying the given permissions
+const createToken = (permissions: string[]) => {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64');
+  return `${encode({ alg: 'none' })}.${encode({ sub: 'user-1', permissions })}.signature`;
+};
+
+describe('permissions', () => {
+  test('should grant permissions from the subscription tier', () => {
+    expect(isPermitted(PERMISSIONS.CREATE_ADS, 'free')).toBe(true);
+    expect(isPermitted(PERMISSIONS.PREMIUM_TEMPLATES, 'free')).toBe(false);
+    expect(isPermitted(PERMISSIONS.PREMIUM_TEMPLATES, 'pro')).toBe(true);
+    expect(isPermitted(PERMISSIONS.CREATE_ADS, undefined)).toBe(false);
+  });
+
+  test('should grant extra permissions carried in the token', () => {
+    const token = createToken([PERMISSIONS.PREMIUM_TEMPLATES]);
+
+    expect(isPermitted(PERMISSIONS.PREMIUM_TEMPLATES, 'free', token)).toBe(true);
+    expect(isPermitted(PERMISSIONS.HD_EXPORT, 'free', token)).toBe(false);
+  });
+
+  test('should only return to relative paths after login', () => {
+    expect(getSafeReturnTo('/create-ad?templateId=template-1')).toBe('/create-ad?templateId=template-1');
+    expect(getSafeReturnTo('https://evil.example.com')).toBe('/dashboard');
+    expect(getSafeReturnTo('//evil.example.com')).toBe('/dashboard');
+    expect(getSafeReturnTo(undefined)).toBe('/dashboard');
+  });
+});
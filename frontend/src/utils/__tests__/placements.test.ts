@@ -0,0 +1,85 @@
+/**
+ * Tests for grouping placement variants under their source ad
+ */
+import {
+  canGeneratePlacements,
+  findAdPlacementGroup,
+  getMissingPlacements,
+  getPlacementFileTitle,
+  groupAdPlacements,
+  toPlacementInput,
+} from '../placements';
+import { createAd } from './fixtures/adFixtures';
+
+describe('ad placements', () => {
+  const source = createAd({
+    focalPoint: { x: 0.25, y: 0.75 },
+    sourceImageUrl: 'https://cdn.example.com/uploads/photo.jpg',
+    titlePosition: 'top',
+    logo: { url: 'https://cdn.example.com/logo.png', position: 'top-right' },
+    fonts: { heading: 'Poppins' },
+    brandKitId: 'kit-1',
+  });
+  const story = createAd({ id: 'ad-2', adFormat: 'story', parentAdId: 'ad-1' });
+  const portrait = createAd({ id: 'ad-3', adFormat: 'portrait', parentAdId: 'ad-1' });
+  const other = createAd({ id: 'ad-4', title: 'Winter Sale' });
+
+  test('should group placements under their source ad in format order', () => {
+    const groups = groupAdPlacements([story, source, other, portrait]);
+
+    expect(groups.map(group => group.ad.id)).toEqual(['ad-1', 'ad-4']);
+    expect(groups[0].placements.map(ad => ad.id)).toEqual(['ad-3', 'ad-2']);
+    expect(groups[1].placements).toEqual([]);
+  });
+
+  test('should keep placements whose source ad is missing on their own', () => {
+    const groups = groupAdPlacements([story, other]);
+
+    expect(groups.map(group => group.ad.id)).toEqual(['ad-2', 'ad-4']);
+  });
+
+  test('should find the group of a source ad or one of its placements', () => {
+    const groups = groupAdPlacements([source, story, other]);
+
+    expect(findAdPlacementGroup(groups, 'ad-2')?.ad.id).toBe('ad-1');
+    expect(findAdPlacementGroup(groups, 'ad-4')?.ad.id).toBe('ad-4');
+    expect(findAdPlacementGroup(groups, 'missing')).toBeUndefined();
+  });
+
+  test('should list the formats without a placement yet', () => {
+    expect(getMissingPlacements({ ad: source, placements: [portrait, story] })).toEqual(['landscape']);
+    expect(getMissingPlacements({ ad: source, placements: [] })).toEqual(['portrait', 'landscape', 'story']);
+  });
+
+  test('should only generate placements of finished single-image ads with an uploaded image', () => {
+    expect(canGeneratePlacements(source)).toBe(true);
+    expect(canGeneratePlacements(createAd())).toBe(false);
+    expect(canGeneratePlacements({ ...story, sourceImageUrl: source.sourceImageUrl })).toBe(false);
+    expect(canGeneratePlacements({ ...source, adType: 'video' })).toBe(false);
+    expect(canGeneratePlacements({ ...source, status: 'processing' })).toBe(false);
+    expect(canGeneratePlacements({ ...source, creativeFormat: 'carousel' })).toBe(false);
+  });
+
+  test('should generate a placement from the uploaded image, not the finished creative', () => {
+    expect(toPlacementInput(source, 'story')).toEqual(expect.objectContaining({
+      imageUrls: ['https://cdn.example.com/uploads/photo.jpg'],
+      adText: { title: 'Summer Sale', description: 'Up to 50% off', callToAction: 'Shop Now', titlePosition: 'top' },
+      adFormat: 'story',
+      parentAdId: 'ad-1',
+      focalPoint: { x: 0.25, y: 0.75 },
+    }));
+  });
+
+  test('should keep the branding of the source ad', () => {
+    expect(toPlacementInput(source, 'landscape')).toEqual(expect.objectContaining({
+      logo: { url: 'https://cdn.example.com/logo.png', position: 'top-right' },
+      fonts: { heading: 'Poppins' },
+      brandKitId: 'kit-1',
+    }));
+  });
+
+  test('should name placement files after their format', () => {
+    expect(getPlacementFileTitle(story)).toBe('Summer Sale - Story 9-16');
+    expect(getPlacementFileTitle(createAd({ title: '' }))).toBe('ad-ad-1 - Square 1-1');
+  });
+});
@@ -0,0 +1,18 @@
+/**
+ * Tests for reordering lists such as carousel cards and video scenes
+ */
+import { moveItem } from '../reorder';
+
+describe('moveItem', () => {
+  it('moves an item and shifts the others along', () => {
+    expect(moveItem(['a', 'b', 'c'], 0, 2)).toEqual(['b', 'c', 'a']);
+    expect(moveItem(['a', 'b', 'c'], 2, 0)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('ignores moves past either end', () => {
+    const items = ['a', 'b'];
+
+    expect(moveItem(items, 0, -1)).toBe(items);
+    expect(moveItem(items, 1, 2)).toBe(items);
+  });
+});
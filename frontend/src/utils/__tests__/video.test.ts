@@ -0,0 +1,57 @@
+/**
+ * Tests for building videos from image scenes
+ */
+import {
+  VideoScene,
+  clampSceneDuration,
+  countWords,
+  getGeneratedVideoUrl,
+  getScriptWordLimit,
+  getVideoDuration,
+  validateVideoScenes,
+} from '../video';
+
+const createScene = (overrides: Partial<VideoScene> = {}): VideoScene => ({
+  id: 'scene-1',
+  file: new File(['image'], 'scene.png', { type: 'image/png' }),
+  previewUrl: 'blob:scene',
+  duration: 3,
+  ...overrides,
+});
+
+describe('scene timing', () => {
+  it('keeps durations to whole seconds between 1 and 10', () => {
+    expect(clampSceneDuration(0)).toBe(1);
+    expect(clampSceneDuration(4.6)).toBe(5);
+    expect(clampSceneDuration(30)).toBe(10);
+    expect(clampSceneDuration(NaN)).toBe(3);
+  });
+
+  it('adds up the length of a video and the words that fit in it', () => {
+    const duration = getVideoDuration([createScene({ duration: 2 }), createScene({ duration: 5 })]);
+
+    expect(duration).toBe(7);
+    expect(getScriptWordLimit(duration)).toBe(17);
+    expect(countWords('  Fresh beans,\n roasted daily ')).toBe(4);
+    expect(countWords('   ')).toBe(0);
+  });
+});
+
+describe('validateVideoScenes', () => {
+  it('needs between 1 and 10 supported images', () => {
+    expect(validateVideoScenes([createScene()])).toEqual({ isValid: true, error: undefined });
+    expect(validateVideoScenes([]).error).toBe('Add at least one image');
+    expect(validateVideoScenes(Array.from({ length: 11 }, () => createScene())).error)
+      .toBe('A video can have at most 10 images');
+    expect(validateVideoScenes([createScene({ file: new File(['%PDF'], 'a.pdf', { type: 'application/pdf' }) })]).isValid)
+      .toBe(false);
+  });
+});
+
+describe('getGeneratedVideoUrl', () => {
+  it('reads the video URL from a job result', () => {
+    expect(getGeneratedVideoUrl({ videoUrl: 'https://cdn.example.com/ad.mp4' })).toBe('https://cdn.example.com/ad.mp4');
+    expect(getGeneratedVideoUrl({ url: 'https://cdn.example.com/ad.mp4' })).toBe('https://cdn.example.com/ad.mp4');
+    expect(getGeneratedVideoUrl(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,45 @@
+import { AdCopy } from '../api/generation.service';
+
+export type AdCopyField = keyof AdCopy;
+
+// Fields of generated copy, in the order they appear in the form
+export const AD_COPY_FIELDS: Array<{ field: AdCopyField; label: string }> = [
+  { field: 'title', label: 'Title' },
+  { field: 'description', label: 'Description' },
+  { field: 'callToAction', label: 'Call to Action' },
+];
+
+// Tones offered to the copy generator
+export const AD_COPY_TONES = ['friendly', 'professional', 'playful', 'urgent', 'luxurious', 'informative'] as const;
+
+// Longest description the ad form accepts
+export const MAX_DESCRIPTION_LENGTH = 125;
+
+/**
+ * Shorten text to a maximum length, cutting at a word boundary where possible
+ * @param text - Text to shorten
+ * @param maxLength - Maximum length, including the ellipsis
+ * @returns Text that fits in maxLength
+ */
+export const truncateCopy = (text: string, maxLength: number): string => {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  if (trimmed.length <= maxLength) return trimmed;
+
+  const cut = trimmed.slice(0, Math.max(0, maxLength - 1));
+  const lastSpace = cut.lastIndexOf(' ');
+  // Only back up to a word boundary when it doesn't lose most of the text
+  const end = lastSpace > maxLength / 2 ? lastSpace : cut.length;
+  return `${cut.slice(0, end).replace(/[\s,.;:!?-]+$/, '')}…`;
+};
+
+/**
+ * Tidy generated copy so it fits the ad form
+ * @param copy - Copy returned by the generator
+ * @param maxLength - Maximum description length
+ * @returns Copy with trimmed fields and a description that fits
+ */
+export const fitAdCopy = (copy: Partial<AdCopy>, maxLength: number = MAX_DESCRIPTION_LENGTH): AdCopy => ({
+  title: (copy.title || '').trim(),
+  description: truncateCopy(copy.description || '', Math.min(maxLength, MAX_DESCRIPTION_LENGTH)),
+  callToAction: (copy.callToAction || '').trim(),
+});
@@ -0,0 +1,202 @@
+/**
+ * Package ads as a ZIP archive for media buyers
+ *
+ * The archive holds one media file per ad, a `manifest.json` describing
+ * every file, and an `ads.csv` with the copy and styling of each ad.
+ */
+import { AdData, AdType, getAdFormatLabel } from '../types/ad';
+import { sanitizeImageFilename } from './imageSecurityUtils';
+import { runBulkAction, BulkItemResult } from './bulk';
+import { createZip, ZipEntry } from './zip';
+
+// File extensions for the media types the API returns
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+};
+
+const DEFAULT_EXTENSIONS: Record<AdType, string> = {
+  image: 'png',
+  video: 'mp4',
+};
+
+export interface ExportedAdFile {
+  ad: AdData;
+  filename: string;
+}
+
+export interface AdExportManifest {
+  exportedAt: string;
+  count: number;
+  ads: Array<{
+    id: string;
+    file: string;
+    title: string;
+    description: string;
+    callToAction: string;
+    adType: AdType;
+    creativeFormat: string;
+    adFormat: string;
+    adStyle: string;
+    primaryColor: string;
+    createdAt: string;
+  }>;
+  failed: Array<{ id: string; title?: string; error?: string }>;
+}
+
+export interface AdExportResult {
+  archive: Blob;
+  files: ExportedAdFile[];
+  failed: BulkItemResult[];
+}
+
+/**
+ * Get the file extension for an ad's media
+ * @param {AdData} ad - The ad
+ * @param {string} mimeType - MIME type of the downloaded file, if known
+ * @returns {string} - Extension without the dot
+ */
+export function getAdFileExtension(ad: Pick<AdData, 'adType' | 'imageUrl'>, mimeType?: string): string {
+  const fromMime = mimeType && MIME_EXTENSIONS[mimeType.split(';')[0].trim().toLowerCase()];
+  if (fromMime) return fromMime;
+
+  const fromUrl = ad.imageUrl?.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  if (fromUrl && Object.values(MIME_EXTENSIONS).includes(fromUrl)) return fromUrl;
+
+  return DEFAULT_EXTENSIONS[ad.adType];
+}
+
+/**
+ * Build a safe, unique filename for an ad
+ * @param {AdData} ad - The ad
+ * @param {string} extension - File extension without the dot
+ * @param {Set<string>} usedNames - Names already taken in the archive; the new name is added
+ * @returns {string} - Filename such as "Summer Sale (2).mp4"
+ */
+export function getAdFilename(ad: Pick<AdData, 'id' | 'title'>, extension: string, usedNames: Set<string> = new Set()): string {
+  const filename = sanitizeImageFilename(ad.title || `ad-${ad.id}`, extension);
+  const base = filename.slice(0, -(extension.length + 1));
+
+  let candidate = filename;
+  for (let n = 2; usedNames.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} (${n}).${extension}`;
+  }
+
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+}
+
+// Quote a CSV value and neutralise spreadsheet formulas
+function escapeCsvValue(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Build the CSV sheet listing the copy and styling of each exported ad
+ * @param {ExportedAdFile[]} files - Exported ads and their filenames
+ * @returns {string} - CSV with a header row
+ */
+export function buildAdsCsv(files: ExportedAdFile[]): string {
+  const header = ['File', 'Title', 'Description', 'Call to Action', 'Format', 'Style', 'Primary Color'];
+  const rows = files.map(({ ad, filename }) => [
+    filename,
+    ad.title,
+    ad.description,
+    ad.callToAction,
+    `${ad.creativeFormat}, ${getAdFormatLabel(ad.adFormat)}`,
+    ad.adStyle,
+    ad.primaryColor,
+  ]);
+
+  return [header, ...rows]
+    .map(row => row.map(value => escapeCsvValue(value || '')).join(','))
+    .join('\r\n');
+}
+
+/**
+ * Build the manifest describing the exported files
+ * @param {ExportedAdFile[]} files - Exported ads and their filenames
+ * @param {Array} failed - Ads that could not be downloaded
+ * @returns {AdExportManifest} - Manifest written to manifest.json
+ */
+export function buildAdsManifest(
+  files: ExportedAdFile[],
+  failed: AdExportManifest['failed'] = []
+): AdExportManifest {
+  return {
+    exportedAt: new Date().toISOString(),
+    count: files.length,
+    ads: files.map(({ ad, filename }) => ({
+      id: ad.id,
+      file: filename,
+      title: ad.title,
+      description: ad.description,
+      callToAction: ad.callToAction,
+      adType: ad.adType,
+      creativeFormat: ad.creativeFormat,
+      adFormat: ad.adFormat,
+      adStyle: ad.adStyle,
+      primaryColor: ad.primaryColor,
+      createdAt: ad.createdAt,
+    })),
+    failed,
+  };
+}
+
+/**
+ * Download the media of several ads and package it with a manifest and CSV
+ * @param {AdData[]} ads - Ads to export
+ * @param {Function} fetchMedia - Downloads the media of one ad
+ * @param {Function} getFileTitle - Title each file is named after; the ad's title by default
+ * @returns {Promise<AdExportResult>} - The archive and the ads that failed to download
+ */
+export async function exportAdsToZip(
+  ads: AdData[],
+  fetchMedia: (id: string) => Promise<Blob>,
+  getFileTitle: (ad: AdData) => string = ad => ad.title
+): Promise<AdExportResult> {
+  const adsById = new Map(ads.map(ad => [ad.id, ad]));
+  const media = new Map<string, { data: Uint8Array; extension: string }>();
+
+  const { failed } = await runBulkAction(Array.from(adsById.keys()), async (id) => {
+    const blob = await fetchMedia(id);
+    const ad = adsById.get(id) as AdData;
+    media.set(id, {
+      data: new Uint8Array(await blob.arrayBuffer()),
+      extension: getAdFileExtension(ad, blob.type),
+    });
+  });
+
+  // Name files in the original order so duplicates are numbered predictably
+  const usedNames = new Set(['manifest.json', 'ads.csv']);
+  const files: ExportedAdFile[] = [];
+  const entries: ZipEntry[] = [];
+
+  adsById.forEach((ad, id) => {
+    const file = media.get(id);
+    if (!file) return;
+
+    const filename = getAdFilename({ id, title: getFileTitle(ad) }, file.extension, usedNames);
+    files.push({ ad, filename });
+    entries.push({ name: filename, data: file.data });
+  });
+
+  const manifest = buildAdsManifest(
+    files,
+    failed.map(item => ({ id: item.id, title: adsById.get(item.id)?.title, error: item.error }))
+  );
+  entries.push({ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+  entries.push({ name: 'ads.csv', data: buildAdsCsv(files) });
+
+  return {
+    archive: new Blob([createZip(entries)], { type: 'application/zip' }),
+    files,
+    failed,
+  };
+}
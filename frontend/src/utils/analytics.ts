@@ -0,0 +1,123 @@
+/**
+ * Aggregation helpers for ad performance reports
+ */
+import { AdPerformance } from '../types/adTypes';
+import { AdMetricsReport, DailyAdMetrics } from '../api/analytics.service';
+
+export type PerformanceMetric = keyof AdPerformance;
+
+export interface TimeSeriesPoint {
+  date: string;
+  value: number;
+}
+
+export interface PerformanceGroup {
+  key: string;
+  adCount: number;
+  performance: AdPerformance;
+}
+
+// Display settings for each metric
+export const PERFORMANCE_METRICS: Record<PerformanceMetric, { label: string; format: 'number' | 'percent' | 'currency' }> = {
+  impressions: { label: 'Impressions', format: 'number' },
+  clicks: { label: 'Clicks', format: 'number' },
+  ctr: { label: 'CTR', format: 'percent' },
+  conversions: { label: 'Conversions', format: 'number' },
+  conversionRate: { label: 'Conversion Rate', format: 'percent' },
+  spend: { label: 'Spend', format: 'currency' },
+  cpc: { label: 'CPC', format: 'currency' },
+  costPerConversion: { label: 'Cost / Conversion', format: 'currency' },
+  roi: { label: 'ROI', format: 'percent' },
+};
+
+// Divide, returning 0 instead of NaN or Infinity for empty denominators
+const ratio = (numerator: number, denominator: number) => denominator ? numerator / denominator : 0;
+
+/**
+ * Sum daily metrics into an AdPerformance with derived rates
+ * @param {DailyAdMetrics[]} days - Daily metrics, possibly from several ads
+ * @returns {AdPerformance} - Totals and rates; percentages are 0-100
+ */
+export function summarizePerformance(days: DailyAdMetrics[]): AdPerformance {
+  const totals = days.reduce(
+    (sum, day) => ({
+      impressions: sum.impressions + day.impressions,
+      clicks: sum.clicks + day.clicks,
+      conversions: sum.conversions + day.conversions,
+      spend: sum.spend + day.spend,
+      revenue: sum.revenue + day.revenue,
+    }),
+    { impressions: 0, clicks: 0, conversions: 0, spend: 0, revenue: 0 }
+  );
+
+  return {
+    impressions: totals.impressions,
+    clicks: totals.clicks,
+    ctr: ratio(totals.clicks, totals.impressions) * 100,
+    conversions: totals.conversions,
+    conversionRate: ratio(totals.conversions, totals.clicks) * 100,
+    spend: totals.spend,
+    cpc: ratio(totals.spend, totals.clicks),
+    costPerConversion: ratio(totals.spend, totals.conversions),
+    roi: ratio(totals.revenue - totals.spend, totals.spend) * 100,
+  };
+}
+
+/**
+ * Build a daily series of one metric across ads
+ * @param {AdMetricsReport[]} ads - Ads to combine
+ * @param {PerformanceMetric} metric - Metric to chart
+ * @returns {TimeSeriesPoint[]} - One point per day, in date order
+ */
+export function buildTimeSeries(ads: AdMetricsReport[], metric: PerformanceMetric): TimeSeriesPoint[] {
+  const daysByDate = new Map<string, DailyAdMetrics[]>();
+  ads.forEach(ad => ad.daily.forEach(day => {
+    daysByDate.set(day.date, [...(daysByDate.get(day.date) || []), day]);
+  }));
+
+  return Array.from(daysByDate.keys())
+    .sort()
+    .map(date => ({ date, value: summarizePerformance(daysByDate.get(date) || [])[metric] }));
+}
+
+/**
+ * Summarize performance per group of ads, e.g. per style or campaign
+ * @param {AdMetricsReport[]} ads - Ads to group
+ * @param {Function} getKey - Group key of an ad
+ * @returns {PerformanceGroup[]} - Groups sorted by impressions, largest first
+ */
+export function groupPerformance(
+  ads: AdMetricsReport[],
+  getKey: (ad: AdMetricsReport) => string
+): PerformanceGroup[] {
+  const groups = new Map<string, AdMetricsReport[]>();
+  ads.forEach(ad => {
+    const key = getKey(ad);
+    groups.set(key, [...(groups.get(key) || []), ad]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, groupAds]) => ({
+      key,
+      adCount: groupAds.length,
+      performance: summarizePerformance(groupAds.flatMap(ad => ad.daily)),
+    }))
+    .sort((a, b) => b.performance.impressions - a.performance.impressions);
+}
+
+/**
+ * Format a metric value for display
+ * @param {PerformanceMetric} metric - Metric being shown
+ * @param {number} value - Raw value
+ * @returns {string} - e.g. "12,400", "1.25%" or "$0.42"
+ */
+export function formatMetricValue(metric: PerformanceMetric, value: number): string {
+  switch (PERFORMANCE_METRICS[metric].format) {
+    case 'percent':
+      return `${value.toFixed(2)}%`;
+    case 'currency':
+      return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+    default:
+      return Math.round(value).toLocaleString('en-US');
+  }
+}
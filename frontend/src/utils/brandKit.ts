@@ -0,0 +1,104 @@
+import {
+  AdCopy,
+  AdCopyInput,
+  ImageAdInput,
+  VideoAdInput,
+  VoiceoverScriptInput,
+} from '../api/generation.service';
+import { BrandKit, BrandLogo } from '../api/brandKit.service';
+import { AdLogo, LogoPosition } from '../types/ad';
+
+export const LOGO_POSITIONS: Array<{ value: LogoPosition; label: string }> = [
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' },
+];
+
+/**
+ * The logo a brand kit puts on ads unless another is chosen
+ * @param kit - Brand kit
+ * @returns The logo marked as default, else the first logo
+ */
+export const getDefaultLogo = (kit: BrandKit): BrandLogo | undefined =>
+  kit.logos.find(logo => logo.isDefault) || kit.logos[0];
+
+/**
+ * The logo and placement to send with a generation request
+ * @param logo - Brand kit logo
+ * @returns Logo input for the generator
+ */
+export const toAdLogo = (logo: BrandLogo): AdLogo => ({ url: logo.url, position: logo.position });
+
+/**
+ * Fill a generation request from a brand kit; values already on the request win,
+ * and a logo key set to undefined means the ad has no logo
+ * @param input - Image or video generation input
+ * @param kit - Selected brand kit, if any
+ * @returns Input carrying the kit's logo, primary color and fonts
+ */
+export const applyBrandKit = <T extends ImageAdInput | VideoAdInput>(input: T, kit?: BrandKit | null): T => {
+  if (!kit) return input;
+
+  const defaultLogo = getDefaultLogo(kit);
+  return {
+    ...input,
+    brandKitId: kit._id,
+    logo: 'logo' in input ? input.logo : defaultLogo && toAdLogo(defaultLogo),
+    brandColor: input.brandColor || kit.palette[0]?.hex,
+    fonts: input.fonts || kit.fonts,
+  };
+};
+
+/**
+ * Pass a brand kit's voice and banned words to the copy or voiceover script generator
+ * @param input - Copy or script generation input
+ * @param kit - Selected brand kit, if any
+ * @returns Input carrying the brand voice
+ */
+export const applyBrandVoice = <T extends AdCopyInput | VoiceoverScriptInput>(
+  input: T,
+  kit?: BrandKit | null
+): T & Pick<AdCopyInput, 'brandVoice' | 'bannedWords'> => {
+  if (!kit) return input;
+
+  return {
+    ...input,
+    brandVoice: kit.voice.tone || undefined,
+    bannedWords: kit.voice.bannedWords.length > 0 ? kit.voice.bannedWords : undefined,
+  };
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Letters and digits, including accented Latin letters, that can't border a whole word
+const WORD_CHARACTERS = 'a-z0-9\\u00C0-\\u024F';
+
+/**
+ * Find banned words or phrases in text, ignoring case; only whole words match
+ * @param text - Text to check
+ * @param bannedWords - Words and phrases the brand doesn't allow
+ * @returns The banned words found, as listed in the kit
+ */
+export const findBannedWords = (text: string, bannedWords: string[] = []): string[] =>
+  bannedWords.filter(word => {
+    const trimmed = word.trim();
+    return trimmed && new RegExp(`(^|[^${WORD_CHARACTERS}])${escapeRegExp(trimmed)}($|[^${WORD_CHARACTERS}])`, 'i').test(text);
+  });
+
+/**
+ * Find banned words anywhere in a piece of ad copy
+ * @param copy - Ad copy to check
+ * @param bannedWords - Words and phrases the brand doesn't allow
+ * @returns The banned words found
+ */
+export const findBannedWordsInCopy = (copy: Partial<AdCopy>, bannedWords: string[] = []): string[] =>
+  findBannedWords([copy.title, copy.description, copy.callToAction].filter(Boolean).join('\n'), bannedWords);
+
+/**
+ * Error shown when copy uses words the brand kit bans
+ * @param words - Banned words that were found
+ * @returns Message naming the words
+ */
+export const getBannedWordsMessage = (words: string[]): string =>
+  `The brand kit doesn't allow ${words.map(word => `"${word}"`).join(', ')}`;
@@ -0,0 +1,57 @@
+/**
+ * Helpers for running one action over many items and reporting each outcome
+ */
+import { formatError } from './errors';
+
+export interface BulkItemResult {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface BulkActionResult {
+  results: BulkItemResult[];
+  succeeded: string[];
+  failed: BulkItemResult[];
+}
+
+// Requests in flight at once, so large selections don't flood the API
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Run an action for every ID with limited concurrency; a failing item never stops the others
+ * @param {string[]} ids - Item IDs
+ * @param {Function} action - Action to run for a single ID
+ * @param {number} concurrency - Maximum number of actions running at once
+ * @returns {Promise<BulkActionResult>} - Outcome of every item, in the order of `ids`
+ */
+export async function runBulkAction(
+  ids: string[],
+  action: (id: string) => Promise<unknown>,
+  concurrency = DEFAULT_CONCURRENCY
+): Promise<BulkActionResult> {
+  const results: BulkItemResult[] = new Array(ids.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < ids.length) {
+      const index = nextIndex++;
+      const id = ids[index];
+
+      try {
+        await action(id);
+        results[index] = { id, success: true };
+      } catch (error) {
+        results[index] = { id, success: false, error: formatError(error) };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, ids.length) }, worker));
+
+  return {
+    results,
+    succeeded: results.filter(result => result.success).map(result => result.id),
+    failed: results.filter(result => !result.success),
+  };
+}
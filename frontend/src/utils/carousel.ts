@@ -0,0 +1,109 @@
+import { formatFileSize, isValidImage, MAX_IMAGE_SIZE } from './image';
+
+// Facebook carousels take 2 to 10 cards
+export const MIN_CAROUSEL_CARDS = 2;
+export const MAX_CAROUSEL_CARDS = 10;
+
+// Longest card headline and description Facebook shows without cutting them off
+export const MAX_CARD_HEADLINE_LENGTH = 40;
+export const MAX_CARD_DESCRIPTION_LENGTH = 20;
+
+export interface CarouselCard {
+  id: string; // Local key, stable while cards are reordered
+  file: File | null;
+  previewUrl: string | null;
+  headline: string;
+  description: string;
+  link: string;
+}
+
+export type CarouselCardField = 'file' | 'headline' | 'description' | 'link';
+
+export type CarouselCardErrors = Partial<Record<CarouselCardField, string>>;
+
+export interface CarouselValidationResult {
+  isValid: boolean;
+  error?: string; // Problem with the carousel as a whole
+  cardErrors: Record<string, CarouselCardErrors>; // Keyed by card id
+}
+
+let nextCardId = 0;
+
+/**
+ * Create an empty carousel card
+ * @param link - Link to start the card with, e.g. the previous card's
+ * @returns New card
+ */
+export const createCarouselCard = (link = ''): CarouselCard => ({
+  id: `card-${Date.now()}-${nextCardId++}`,
+  file: null,
+  previewUrl: null,
+  headline: '',
+  description: '',
+  link,
+});
+
+/**
+ * Check an image chosen for a card
+ * @param file - Image file
+ * @returns Error message, or undefined when the image can be used
+ */
+export const getCardImageError = (file: File | null): string | undefined => {
+  if (!file) return 'Add an image';
+  if (!isValidImage(file)) return `Use a JPEG, PNG, GIF or WebP image under ${formatFileSize(MAX_IMAGE_SIZE, 0)}`;
+  return undefined;
+};
+
+const isValidLink = (link: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(link).protocol);
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * Validate every card of a carousel
+ * @param cards - Carousel cards
+ * @returns Errors for the carousel and for each card
+ */
+export const validateCarouselCards = (cards: CarouselCard[]): CarouselValidationResult => {
+  const cardErrors: Record<string, CarouselCardErrors> = {};
+
+  cards.forEach(card => {
+    const errors: CarouselCardErrors = {};
+    const headline = card.headline.trim();
+
+    const imageError = getCardImageError(card.file);
+    if (imageError) errors.file = imageError;
+
+    if (!headline) {
+      errors.headline = 'Headline is required';
+    } else if (headline.length > MAX_CARD_HEADLINE_LENGTH) {
+      errors.headline = `Headline must be ${MAX_CARD_HEADLINE_LENGTH} characters or less`;
+    }
+
+    if (card.description.trim().length > MAX_CARD_DESCRIPTION_LENGTH) {
+      errors.description = `Description must be ${MAX_CARD_DESCRIPTION_LENGTH} characters or less`;
+    }
+
+    if (!card.link.trim()) {
+      errors.link = 'Link is required';
+    } else if (!isValidLink(card.link.trim())) {
+      errors.link = 'Enter a full web address, e.g. https://example.com/product';
+    }
+
+    if (Object.keys(errors).length > 0) {
+      cardErrors[card.id] = errors;
+    }
+  });
+
+  let error: string | undefined;
+  if (cards.length < MIN_CAROUSEL_CARDS) {
+    error = `A carousel needs at least ${MIN_CAROUSEL_CARDS} cards`;
+  } else if (cards.length > MAX_CAROUSEL_CARDS) {
+    error = `A carousel can have at most ${MAX_CAROUSEL_CARDS} cards`;
+  }
+
+  return { isValid: !error && Object.keys(cardErrors).length === 0, error, cardErrors };
+};
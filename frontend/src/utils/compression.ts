@@ -0,0 +1,302 @@
+/**
+ * Client-side image compression towards a size budget
+ *
+ * Works on the main thread and in workers alike: images are decoded with
+ * createImageBitmap and drawn on an OffscreenCanvas where available.
+ */
+import { insertExif, readJpegExif, resetExifOrientation } from './exif';
+import { formatFileSize, VALID_IMAGE_TYPES } from './image';
+import { loadImage } from './imageEditor';
+
+export type CompressionType = 'image/avif' | 'image/webp' | 'image/jpeg';
+
+export interface CompressionOptions {
+  maxBytes: number; // Size budget of the compressed file
+  maxDimension: number; // Longest side in pixels
+  types: CompressionType[]; // In order of preference; the first the browser can encode is used
+  keepExif: boolean; // Copy camera metadata from JPEGs; AVIF output never carries it
+  minQuality: number;
+  maxQuality: number;
+}
+
+export interface CompressionResult {
+  file: File;
+  originalSize: number; // in bytes
+  compressedSize: number; // in bytes
+  width: number;
+  height: number;
+  quality: number | null; // null when the original already fit and was kept
+  withinBudget: boolean;
+}
+
+export interface QualitySearchResult {
+  blob: Blob;
+  quality: number;
+  withinBudget: boolean;
+}
+
+// Messages exchanged with the compression worker
+export interface CompressionRequest {
+  id: number;
+  file: File;
+  options: Partial<CompressionOptions>;
+}
+
+export type CompressionResponse =
+  | { id: number; result: CompressionResult }
+  | { id: number; error: string };
+
+export const DEFAULT_COMPRESSION_OPTIONS: CompressionOptions = {
+  maxBytes: 1024 * 1024, // 1MB
+  maxDimension: 2048,
+  types: ['image/webp', 'image/jpeg'],
+  keepExif: false,
+  minQuality: 0.5,
+  maxQuality: 0.92,
+};
+
+// Largest image accepted for compression; the result must still fit MAX_IMAGE_SIZE
+export const MAX_SOURCE_IMAGE_SIZE = 30 * 1024 * 1024;
+
+// Encodes tried per size when searching for a quality
+const QUALITY_SEARCH_STEPS = 6;
+
+// Times an image is shrunk when even the lowest quality is over budget
+const MAX_DOWNSCALES = 3;
+
+// Bytes an EXIF block adds on top of its own: the JPEG segment or WebP chunk
+// headers, and the VP8X header a simple WebP is upgraded with
+const EXIF_OVERHEAD_BYTES = 32;
+
+const EXTENSIONS: Record<CompressionType, string> = {
+  'image/avif': 'avif',
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+};
+
+type CompressionCanvas = OffscreenCanvas | HTMLCanvasElement;
+type DecodedImage = ImageBitmap | HTMLImageElement;
+
+const encodeSupport = new Map<string, Promise<boolean>>();
+
+/**
+ * Whether an image can be compressed; GIFs are left alone so animations survive
+ * @param {File} file - Image file
+ * @returns {boolean} - Whether the file is a supported image within the source size limit
+ */
+export function isCompressibleImage(file: File): boolean {
+  return VALID_IMAGE_TYPES.includes(file.type) && file.type !== 'image/gif' && file.size <= MAX_SOURCE_IMAGE_SIZE;
+}
+
+/**
+ * Size budget for the encoded pixels, leaving room for EXIF inserted afterwards
+ * @param {number} maxBytes - Budget of the whole file
+ * @param {Uint8Array | null} exif - EXIF block that will be kept, if any
+ * @returns {number} - Budget for the encoder output
+ */
+export function getEncodeBudget(maxBytes: number, exif: Uint8Array | null): number {
+  return exif ? Math.max(0, maxBytes - exif.length - EXIF_OVERHEAD_BYTES) : maxBytes;
+}
+
+/**
+ * Size of an image scaled down so its longest side fits, never up
+ * @param {Object} size - Original width and height
+ * @param {number} maxDimension - Longest side allowed
+ * @returns {Object} - Scaled width and height
+ */
+export function getScaledSize(size: { width: number; height: number }, maxDimension: number) {
+  const scale = Math.min(1, maxDimension / Math.max(size.width, size.height));
+  return {
+    width: Math.max(1, Math.round(size.width * scale)),
+    height: Math.max(1, Math.round(size.height * scale)),
+  };
+}
+
+/**
+ * Binary search for the highest quality whose encoding fits the budget
+ * @param {Function} encode - Encodes the image at a quality between 0 and 1
+ * @param {number} maxBytes - Size budget
+ * @param {number} minQuality - Lowest quality to try
+ * @param {number} maxQuality - Highest quality to try
+ * @returns {Promise<QualitySearchResult>} - Best encoding found; the lowest quality one when none fit
+ */
+export async function searchQuality(
+  encode: (quality: number) => Promise<Blob>,
+  maxBytes: number,
+  minQuality: number,
+  maxQuality: number
+): Promise<QualitySearchResult> {
+  const first = await encode(maxQuality);
+  if (first.size <= maxBytes) {
+    return { blob: first, quality: maxQuality, withinBudget: true };
+  }
+
+  let best: QualitySearchResult | null = null;
+  let low = minQuality;
+  let high = maxQuality;
+
+  for (let step = 0; step < QUALITY_SEARCH_STEPS; step++) {
+    const quality = Math.round(((low + high) / 2) * 100) / 100;
+    const blob = await encode(quality);
+
+    if (blob.size <= maxBytes) {
+      best = { blob, quality, withinBudget: true };
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+
+  if (best) return best;
+  return { blob: await encode(minQuality), quality: minQuality, withinBudget: false };
+}
+
+/**
+ * Summary of how much an image was compressed, e.g. "8.4 MB → 912.5 KB (89% smaller)"
+ * @param {CompressionResult} result - Compression outcome
+ * @returns {string} - Sizes before and after
+ */
+export function getCompressionSummary(result: Pick<CompressionResult, 'originalSize' | 'compressedSize'>): string {
+  const before = formatFileSize(result.originalSize);
+  if (result.compressedSize >= result.originalSize) return before;
+
+  const saved = Math.round((1 - result.compressedSize / result.originalSize) * 100);
+  return `${before} → ${formatFileSize(result.compressedSize)} (${saved}% smaller)`;
+}
+
+const createCanvas = (width: number, height: number): CompressionCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const encodeCanvas = (canvas: CompressionCanvas, type: string, quality: number): Promise<Blob> => {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality });
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to create blob from canvas'))),
+      type,
+      quality
+    );
+  });
+};
+
+// Browsers fall back to PNG for types they can't encode
+const canEncode = (type: string): Promise<boolean> => {
+  if (!encodeSupport.has(type)) {
+    encodeSupport.set(
+      type,
+      encodeCanvas(createCanvas(1, 1), type, 0.5)
+        .then(blob => blob.type === type)
+        .catch(() => false)
+    );
+  }
+  return encodeSupport.get(type) as Promise<boolean>;
+};
+
+const getOutputType = async (types: CompressionType[]): Promise<CompressionType> => {
+  for (const type of types) {
+    if (await canEncode(type)) return type;
+  }
+  return 'image/jpeg';
+};
+
+const decodeImage = (file: File): Promise<DecodedImage> =>
+  typeof createImageBitmap === 'function' ? createImageBitmap(file) : loadImage(file);
+
+const drawImage = (image: DecodedImage, size: { width: number; height: number }, type: string) => {
+  const canvas = createCanvas(size.width, size.height);
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  // JPEG can't store transparency, so give it a white background
+  if (type === 'image/jpeg') {
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, size.width, size.height);
+  }
+
+  ctx.drawImage(image, 0, 0, size.width, size.height);
+  return canvas;
+};
+
+/**
+ * Compress an image to fit a size budget, shrinking it when the lowest quality isn't enough
+ * @param {File} file - Image to compress
+ * @param {Partial<CompressionOptions>} options - Overrides of DEFAULT_COMPRESSION_OPTIONS
+ * @returns {Promise<CompressionResult>} - Compressed image; the original when it already fits and has nothing to strip
+ */
+export async function compressImageFile(
+  file: File,
+  options: Partial<CompressionOptions> = {}
+): Promise<CompressionResult> {
+  const settings = { ...DEFAULT_COMPRESSION_OPTIONS, ...options };
+  const exif = file.type === 'image/jpeg' ? readJpegExif(new Uint8Array(await file.arrayBuffer())) : null;
+  const image = await decodeImage(file);
+  const original = { width: image.width, height: image.height };
+
+  try {
+    const fits = file.size <= settings.maxBytes && Math.max(original.width, original.height) <= settings.maxDimension;
+    if (fits && (settings.keepExif || !exif)) {
+      return {
+        file,
+        originalSize: file.size,
+        compressedSize: file.size,
+        ...original,
+        quality: null,
+        withinBudget: true,
+      };
+    }
+
+    const type = await getOutputType(settings.types);
+    const keptExif = settings.keepExif ? exif : null;
+    const budget = getEncodeBudget(settings.maxBytes, keptExif);
+    let size = getScaledSize(original, settings.maxDimension);
+    let result: QualitySearchResult;
+
+    for (let attempt = 0; ; attempt++) {
+      const canvas = drawImage(image, size, type);
+      result = await searchQuality(
+        quality => encodeCanvas(canvas, type, quality),
+        budget,
+        settings.minQuality,
+        settings.maxQuality
+      );
+      if (result.withinBudget || attempt === MAX_DOWNSCALES) break;
+
+      // File size grows roughly with pixel count; aim a little under the budget
+      const scale = Math.sqrt(budget / result.blob.size) * 0.9;
+      size = {
+        width: Math.max(1, Math.round(size.width * scale)),
+        height: Math.max(1, Math.round(size.height * scale)),
+      };
+    }
+
+    let data: Blob = result.blob;
+    if (keptExif) {
+      const bytes = insertExif(new Uint8Array(await data.arrayBuffer()), type, resetExifOrientation(keptExif));
+      data = new Blob([bytes], { type });
+    }
+
+    const name = `${file.name.replace(/\.[^./]+$/, '') || 'image'}.${EXTENSIONS[type]}`;
+    return {
+      file: new File([data], name, { type }),
+      originalSize: file.size,
+      compressedSize: data.size,
+      ...size,
+      quality: result.quality,
+      withinBudget: result.withinBudget && data.size <= settings.maxBytes,
+    };
+  } finally {
+    if ('close' in image) image.close();
+  }
+}
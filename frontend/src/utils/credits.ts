@@ -0,0 +1,71 @@
+/**
+ * Credit cost of each operation, mirroring CREDIT_COSTS in the backend's
+ * credits middleware. Keep the two tables in sync.
+ */
+export const CREDIT_COSTS = {
+  IMAGE_GENERATION: 1,
+  VIDEO_GENERATION: 3,
+  ENHANCE_IMAGE: 1,
+  AD_COPY_GENERATION: 1,
+  AD_COPY_VARIATIONS: 2,
+} as const;
+
+export type CreditOperation = keyof typeof CREDIT_COSTS;
+
+// Outcome of checking an operation against the user's balance
+export interface CreditCheck {
+  cost: number;
+  balance?: number; // Unknown when the user has no plan details
+  isAffordable: boolean;
+  shortfall: number; // Credits missing to afford the operation
+}
+
+/**
+ * Format a number of credits, e.g. "1 credit" or "3 credits"
+ * @param credits - Number of credits
+ * @returns Formatted credits
+ */
+export const formatCredits = (credits: number): string =>
+  `${credits.toLocaleString()} credit${credits === 1 ? '' : 's'}`;
+
+/**
+ * Explain why an operation can't be afforded
+ * @param cost - Credits the operation needs
+ * @param balance - Credits remaining
+ * @returns Message for the user
+ */
+export const getInsufficientCreditsMessage = (cost: number, balance: number): string =>
+  `This needs ${formatCredits(cost)}, but you have ${formatCredits(balance)} left`;
+
+/**
+ * Check whether an operation fits in a credit balance
+ *
+ * An unknown balance isn't blocked here; the server still enforces it.
+ * @param operation - Operation to run
+ * @param balance - Credits remaining, if known
+ * @param count - Number of times the operation runs
+ * @returns Cost of the operation and whether it is affordable
+ */
+export const checkCredits = (operation: CreditOperation, balance?: number, count: number = 1): CreditCheck => {
+  const cost = CREDIT_COSTS[operation] * count;
+
+  if (typeof balance !== 'number') {
+    return { cost, isAffordable: true, shortfall: 0 };
+  }
+
+  const shortfall = Math.max(0, cost - balance);
+  return { cost, balance, isAffordable: shortfall === 0, shortfall };
+};
+
+/**
+ * Get the balance the server reported when it refused an operation for lack of credits
+ * @param error - Error thrown by an API call
+ * @returns Credits available, or null if the error isn't an insufficient credits response
+ */
+export const getInsufficientCreditsBalance = (error: unknown): number | null => {
+  const body = (error as any)?.response?.data;
+  if (body?.error?.code !== 'INSUFFICIENT_CREDITS') return null;
+
+  const available = body.error.details?.available;
+  return typeof available === 'number' ? available : 0;
+};
@@ -0,0 +1,16 @@
+/**
+ * Pull a readable message out of an error thrown by an API call or mutation
+ * @param {unknown} error - Rejection reason
+ * @returns {string} - Message to show the user
+ */
+export function formatError(error: unknown): string {
+  if (typeof error === 'string') return error;
+  if (error && typeof error === 'object') {
+    // The API's own explanation beats axios' generic "Request failed with status code ..."
+    const response = (error as { response?: { data?: { message?: unknown } } }).response;
+    if (typeof response?.data?.message === 'string') return response.data.message;
+    if ('message' in error && typeof error.message === 'string') return error.message;
+    if ('error' in error && typeof error.error === 'string') return error.error;
+  }
+  return 'An unexpected error occurred';
+}
@@ -0,0 +1,173 @@
+/**
+ * Copying camera metadata (EXIF) between image files
+ *
+ * Re-encoding an image through a canvas drops its metadata, so when it should
+ * be kept it is read from the original JPEG and written into the new file.
+ * Only JPEG and WebP files can receive it.
+ */
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const ORIENTATION_TAG = 0x0112;
+
+// Largest EXIF block that fits in a single JPEG APP1 segment
+const MAX_JPEG_EXIF_SIZE = 0xffff - 2 - EXIF_HEADER.length;
+
+const fourCC = (bytes: Uint8Array, offset: number): string =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+/**
+ * Read the EXIF block of a JPEG
+ * @param {Uint8Array} jpeg - JPEG file contents
+ * @returns {Uint8Array|null} - EXIF data (a TIFF structure), or null when the file has none
+ */
+export function readJpegExif(jpeg: Uint8Array): Uint8Array | null {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= jpeg.length && jpeg[offset] === 0xff) {
+    const marker = jpeg[offset + 1];
+    // Metadata segments all come before the image data
+    if (marker === 0xda || marker === 0xd9) break;
+
+    const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+    const isExif = marker === 0xe1 && EXIF_HEADER.every((byte, i) => jpeg[offset + 4 + i] === byte);
+    if (isExif) {
+      return jpeg.slice(offset + 4 + EXIF_HEADER.length, offset + 2 + length);
+    }
+    offset += 2 + length;
+  }
+
+  return null;
+}
+
+/**
+ * Mark EXIF data as upright; canvases draw images already rotated, so keeping the
+ * original orientation would rotate them twice
+ * @param {Uint8Array} exif - EXIF data
+ * @returns {Uint8Array} - Copy of the data with the orientation reset
+ */
+export function resetExifOrientation(exif: Uint8Array): Uint8Array {
+  const result = exif.slice();
+  if (result.length < 8) return result;
+
+  const view = new DataView(result.buffer, result.byteOffset, result.byteLength);
+  const littleEndian = view.getUint16(0) === 0x4949; // "II"
+  const ifdOffset = view.getUint32(4, littleEndian);
+  if (ifdOffset + 2 > result.length) return result;
+
+  const entries = view.getUint16(ifdOffset, littleEndian);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (entry + 12 > result.length) break;
+
+    if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+      view.setUint16(entry + 8, 1, littleEndian);
+      break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Add EXIF data to a JPEG, after its JFIF header when it has one
+ * @param {Uint8Array} jpeg - JPEG file contents, without EXIF
+ * @param {Uint8Array} exif - EXIF data
+ * @returns {Uint8Array} - JPEG with the EXIF data, or the original when the data doesn't fit
+ */
+export function insertJpegExif(jpeg: Uint8Array, exif: Uint8Array): Uint8Array {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8 || exif.length > MAX_JPEG_EXIF_SIZE) return jpeg;
+
+  const length = 2 + EXIF_HEADER.length + exif.length;
+  const segment = concatBytes([
+    new Uint8Array([0xff, 0xe1, length >> 8, length & 0xff]),
+    new Uint8Array(EXIF_HEADER),
+    exif,
+  ]);
+
+  let insertAt = 2;
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0) {
+    insertAt += 2 + ((jpeg[4] << 8) | jpeg[5]);
+  }
+
+  return concatBytes([jpeg.subarray(0, insertAt), segment, jpeg.subarray(insertAt)]);
+}
+
+/**
+ * Add EXIF data to a WebP, upgrading a simple file to the extended format when needed
+ * @param {Uint8Array} webp - WebP file contents, without EXIF
+ * @param {Uint8Array} exif - EXIF data
+ * @returns {Uint8Array} - WebP with the EXIF data, or the original when it can't be read
+ */
+export function insertWebpExif(webp: Uint8Array, exif: Uint8Array): Uint8Array {
+  if (webp.length < 30 || fourCC(webp, 0) !== 'RIFF' || fourCC(webp, 8) !== 'WEBP') return webp;
+
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  const chunkType = fourCC(webp, 12);
+  let header: Uint8Array;
+  let body: Uint8Array;
+
+  if (chunkType === 'VP8X') {
+    header = webp.slice(12, 30);
+    header[8] |= 0x08; // EXIF flag
+    body = webp.subarray(30);
+  } else {
+    let width: number;
+    let height: number;
+    let hasAlpha = false;
+
+    if (chunkType === 'VP8L') {
+      const bits = view.getUint32(21, true);
+      width = (bits & 0x3fff) + 1;
+      height = ((bits >>> 14) & 0x3fff) + 1;
+      hasAlpha = ((bits >>> 28) & 1) === 1;
+    } else if (chunkType === 'VP8 ') {
+      width = view.getUint16(26, true) & 0x3fff;
+      height = view.getUint16(28, true) & 0x3fff;
+    } else {
+      return webp;
+    }
+
+    header = new Uint8Array(18);
+    header.set([0x56, 0x50, 0x38, 0x58, 10, 0, 0, 0]); // "VP8X", chunk size 10
+    header[8] = 0x08 | (hasAlpha ? 0x10 : 0);
+    header.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, ((width - 1) >> 16) & 0xff], 12);
+    header.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, ((height - 1) >> 16) & 0xff], 15);
+    body = webp.subarray(12);
+  }
+
+  // Chunks are padded to an even length
+  const exifChunk = new Uint8Array(8 + exif.length + (exif.length % 2));
+  exifChunk.set([0x45, 0x58, 0x49, 0x46]); // "EXIF"
+  new DataView(exifChunk.buffer).setUint32(4, exif.length, true);
+  exifChunk.set(exif, 8);
+
+  const riff = new Uint8Array(12);
+  riff.set(webp.subarray(0, 12));
+  new DataView(riff.buffer).setUint32(4, 4 + header.length + body.length + exifChunk.length, true);
+
+  return concatBytes([riff, header, body, exifChunk]);
+}
+
+/**
+ * Add EXIF data to a JPEG or WebP
+ * @param {Uint8Array} bytes - File contents
+ * @param {string} type - MIME type of the file
+ * @param {Uint8Array} exif - EXIF data
+ * @returns {Uint8Array} - File with the EXIF data; other types are returned unchanged
+ */
+export function insertExif(bytes: Uint8Array, type: string, exif: Uint8Array): Uint8Array {
+  if (type === 'image/jpeg') return insertJpegExif(bytes, exif);
+  if (type === 'image/webp') return insertWebpExif(bytes, exif);
+  return bytes;
+}
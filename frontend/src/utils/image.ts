@@ -3,6 +3,7 @@
  * Browser-compatible versions of the backend image utilities
  */
 import { security } from './security';
+import { AdFormat, TitlePosition } from '../types/ad';
 
 // Maximum file size in bytes (5MB)
 export const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
@@ -188,9 +189,11 @@ export async function resizeImage(
         return;
       }
       
-      // Fill with white background to prevent transparency issues
-      ctx.fillStyle = '#FFFFFF';
-      ctx.fillRect(0, 0, width, height);
+      // JPEG can't store transparency, so give it a white background; other formats keep theirs
+      if (format === 'image/jpeg') {
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillRect(0, 0, width, height);
+      }
       
       ctx.drawImage(img, 0, 0, width, height);
       
@@ -321,4 +324,192 @@ export function isTrustedImageUrl(url: string): boolean {
   } catch (e) {
     return false;
   }
-} 
\ No newline at end of file
+} 
+
+// Facebook recommends keeping text to under 20% of an image
+export const TEXT_COVERAGE_LIMIT = 0.2;
+
+// Share of a story's height at the top and bottom covered by the profile header and reply bar
+export const STORY_SAFE_ZONES = { top: 0.14, bottom: 0.14 };
+
+export type SafeZone = keyof typeof STORY_SAFE_ZONES;
+
+export interface TextCoverage {
+  rows: number;
+  columns: number;
+  cells: boolean[][]; // cells[row][column] is true where text was detected
+  ratio: number; // Share of cells with text, 0-1
+}
+
+// Pixel data as returned by CanvasRenderingContext2D.getImageData
+type PixelData = Pick<ImageData, 'data' | 'width' | 'height'>;
+
+// Brightness step between neighbouring pixels that counts as an edge
+const EDGE_CONTRAST = 48;
+
+// Share of edge pixels above which a cell is taken to hold text
+const TEXT_EDGE_DENSITY = 0.12;
+
+// Longest side the image is scaled down to before it is analyzed
+const ANALYSIS_SIZE = 320;
+
+/**
+ * Estimate where an image has text by counting sharp edges in each cell of a grid;
+ * lettering packs far more high-contrast edges into a small area than photos do
+ * @param {PixelData} pixels - RGBA pixel data
+ * @param {number} rows - Grid rows (default: 10)
+ * @param {number} columns - Grid columns (default: 10)
+ * @returns {TextCoverage} - Cells with text and the share of the image they cover
+ */
+export function estimateTextCoverage(pixels: PixelData, rows: number = 10, columns: number = 10): TextCoverage {
+  const { data, width, height } = pixels;
+  const luminance = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  };
+
+  const edges = Array.from({ length: rows }, () => new Array<number>(columns).fill(0));
+  const totals = Array.from({ length: rows }, () => new Array<number>(columns).fill(0));
+
+  for (let y = 0; y < height - 1; y++) {
+    const row = Math.min(rows - 1, Math.floor((y / height) * rows));
+    for (let x = 0; x < width - 1; x++) {
+      const column = Math.min(columns - 1, Math.floor((x / width) * columns));
+      const value = luminance(x, y);
+      totals[row][column]++;
+      if (Math.abs(value - luminance(x + 1, y)) > EDGE_CONTRAST || Math.abs(value - luminance(x, y + 1)) > EDGE_CONTRAST) {
+        edges[row][column]++;
+      }
+    }
+  }
+
+  const cells = edges.map((rowEdges, row) =>
+    rowEdges.map((count, column) => totals[row][column] > 0 && count / totals[row][column] > TEXT_EDGE_DENSITY)
+  );
+  const textCells = cells.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+
+  return { rows, columns, cells, ratio: textCells / (rows * columns) };
+}
+
+/**
+ * Estimate the text coverage of an image as it will be cropped for an ad format
+ * @param {File|Blob|string} source - Image file or URL
+ * @param {{width: number, height: number}} frame - Format the image is center-cropped to, if any
+ * @returns {Promise<TextCoverage>} - Text coverage of the cropped image
+ */
+export function analyzeTextCoverage(
+  source: File | Blob | string,
+  frame?: { width: number; height: number }
+): Promise<TextCoverage> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const src = typeof source === 'string' ? source : URL.createObjectURL(source);
+
+    // Set cross-origin to anonymous so the pixels of remote images can be read
+    img.crossOrigin = 'anonymous';
+    img.src = src;
+
+    const release = () => {
+      if (typeof source !== 'string') URL.revokeObjectURL(src);
+    };
+
+    img.onload = () => {
+      release();
+
+      // Crop to the frame the way object-fit: cover does
+      const targetRatio = frame ? frame.width / frame.height : img.width / img.height;
+      const cropWidth = Math.min(img.width, img.height * targetRatio);
+      const cropHeight = cropWidth / targetRatio;
+      const scale = Math.min(1, ANALYSIS_SIZE / Math.max(cropWidth, cropHeight));
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(cropWidth * scale));
+      canvas.height = Math.max(1, Math.round(cropHeight * scale));
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not get canvas context'));
+        return;
+      }
+
+      ctx.drawImage(
+        img,
+        (img.width - cropWidth) / 2,
+        (img.height - cropHeight) / 2,
+        cropWidth,
+        cropHeight,
+        0,
+        0,
+        canvas.width,
+        canvas.height
+      );
+
+      try {
+        resolve(estimateTextCoverage(ctx.getImageData(0, 0, canvas.width, canvas.height)));
+      } catch (error) {
+        // Remote images served without CORS headers can't be read
+        reject(new Error('Could not read image pixels'));
+      }
+    };
+
+    img.onerror = () => {
+      release();
+      reject(new Error('Error loading image'));
+    };
+  });
+}
+
+/**
+ * Find the story safe zones that detected text falls into
+ * @param {TextCoverage} coverage - Text coverage of the image
+ * @returns {SafeZone[]} - Zones with text in them
+ */
+export function findSafeZoneViolations(coverage: TextCoverage): SafeZone[] {
+  const rowHasText = coverage.cells.map(row => row.some(Boolean));
+  // A row belongs to a zone when its middle lies inside it
+  const rowCenter = (row: number) => (row + 0.5) / coverage.rows;
+
+  return (Object.keys(STORY_SAFE_ZONES) as SafeZone[]).filter(zone =>
+    rowHasText.some((hasText, row) => hasText && (zone === 'top'
+      ? rowCenter(row) < STORY_SAFE_ZONES.top
+      : rowCenter(row) > 1 - STORY_SAFE_ZONES.bottom))
+  );
+}
+
+/**
+ * Warnings about text on a creative: too much of it, or text the story UI would cover
+ * @param {object} options - Detected text coverage, if analyzed, plus the ad's format and title position
+ * @returns {string[]} - Warnings to show, empty when the creative is fine
+ */
+export function getTextPlacementWarnings({
+  coverage,
+  adFormat,
+  titlePosition,
+}: {
+  coverage?: TextCoverage | null;
+  adFormat: AdFormat;
+  titlePosition?: TitlePosition;
+}): string[] {
+  const warnings: string[] = [];
+
+  if (coverage && coverage.ratio > TEXT_COVERAGE_LIMIT) {
+    warnings.push(
+      `Text covers about ${Math.round(coverage.ratio * 100)}% of the image. ` +
+      `Ads with less than ${TEXT_COVERAGE_LIMIT * 100}% text usually reach more people.`
+    );
+  }
+
+  if (adFormat !== 'story') return warnings;
+
+  if (titlePosition && titlePosition !== 'center') {
+    warnings.push(`A title at the ${titlePosition} of a story is partly hidden behind the story's controls.`);
+  }
+
+  if (coverage) {
+    findSafeZoneViolations(coverage).forEach(zone => {
+      warnings.push(`Text near the ${zone} of the image falls in the story's ${zone} UI area and may be covered.`);
+    });
+  }
+
+  return warnings;
+}
@@ -0,0 +1,275 @@
+import { AdFormat, AD_FORMAT_SPECS, AD_FORMATS, FocalPoint } from '../types/ad';
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface ImageEdits {
+  rotation: Rotation; // Clockwise
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  brightness: number; // Percent, 100 leaves the image unchanged
+  contrast: number; // Percent, 100 leaves the image unchanged
+  focalPoint: FocalPoint; // Kept in view whatever format the image is cropped to
+}
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_IMAGE_EDITS: ImageEdits = {
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  brightness: 100,
+  contrast: 100,
+  focalPoint: { x: 0.5, y: 0.5 },
+};
+
+export const MIN_ADJUSTMENT = 50;
+export const MAX_ADJUSTMENT = 150;
+
+// Formats that can't store transparency get a white background instead
+const OPAQUE_TYPES = ['image/jpeg'];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Size of an image once rotated
+ * @param size - Original width and height
+ * @param rotation - Clockwise rotation
+ * @returns Rotated width and height
+ */
+export const getRotatedSize = (size: { width: number; height: number }, rotation: Rotation) =>
+  rotation === 90 || rotation === 270 ? { width: size.height, height: size.width } : { ...size };
+
+/**
+ * Largest crop of an aspect ratio that keeps the focal point as close to its center as the image allows
+ * @param size - Width and height of the image being cropped
+ * @param aspectRatio - Width divided by height of the crop
+ * @param focalPoint - Point to center the crop on
+ * @returns Crop in image pixels
+ */
+export const getFocalCrop = (
+  size: { width: number; height: number },
+  aspectRatio: number,
+  focalPoint: FocalPoint
+): CropRect => {
+  const width = Math.min(size.width, size.height * aspectRatio);
+  const height = width / aspectRatio;
+
+  return {
+    x: clamp(focalPoint.x * size.width - width / 2, 0, size.width - width),
+    y: clamp(focalPoint.y * size.height - height / 2, 0, size.height - height),
+    width,
+    height,
+  };
+};
+
+/**
+ * Where a focal point ends up once the image is cropped around it
+ * @param size - Width and height of the image being cropped
+ * @param aspectRatio - Width divided by height of the crop
+ * @param focalPoint - Focal point in the whole image
+ * @returns Focal point within the crop
+ */
+export const getCroppedFocalPoint = (
+  size: { width: number; height: number },
+  aspectRatio: number,
+  focalPoint: FocalPoint
+): FocalPoint => {
+  const crop = getFocalCrop(size, aspectRatio, focalPoint);
+  return {
+    x: clamp((focalPoint.x * size.width - crop.x) / crop.width, 0, 1),
+    y: clamp((focalPoint.y * size.height - crop.y) / crop.height, 0, 1),
+  };
+};
+
+/**
+ * Crop for every ad format around the same focal point
+ * @param size - Width and height of the edited image
+ * @param focalPoint - Point to keep in view
+ * @returns Crop for each format
+ */
+export const getFormatCrops = (size: { width: number; height: number }, focalPoint: FocalPoint) =>
+  AD_FORMATS.reduce((crops, format) => {
+    const spec = AD_FORMAT_SPECS[format];
+    crops[format] = getFocalCrop(size, spec.width / spec.height, focalPoint);
+    return crops;
+  }, {} as Record<AdFormat, CropRect>);
+
+/**
+ * Rotate the image a quarter turn, taking the focal point along
+ * @param edits - Current edits
+ * @param direction - 1 for clockwise, -1 for counterclockwise
+ * @returns Updated edits
+ */
+export const rotateEdits = (edits: ImageEdits, direction: 1 | -1): ImageEdits => {
+  const { x, y } = edits.focalPoint;
+  // Flips are drawn after the rotation, so a single flip mirrors its direction
+  const step = edits.flipHorizontal !== edits.flipVertical ? -direction : direction;
+
+  return {
+    ...edits,
+    rotation: (((edits.rotation + step * 90) % 360 + 360) % 360) as Rotation,
+    focalPoint: direction === 1 ? { x: 1 - y, y: x } : { x: y, y: 1 - x },
+  };
+};
+
+/**
+ * Mirror the image, taking the focal point along
+ * @param edits - Current edits
+ * @param axis - Mirror left to right or top to bottom
+ * @returns Updated edits
+ */
+export const flipEdits = (edits: ImageEdits, axis: 'horizontal' | 'vertical'): ImageEdits => {
+  const { x, y } = edits.focalPoint;
+
+  return axis === 'horizontal'
+    ? { ...edits, flipHorizontal: !edits.flipHorizontal, focalPoint: { x: 1 - x, y } }
+    : { ...edits, flipVertical: !edits.flipVertical, focalPoint: { x, y: 1 - y } };
+};
+
+/**
+ * CSS filter matching the brightness and contrast edits, for previews
+ */
+export const getEditFilter = (edits: Pick<ImageEdits, 'brightness' | 'contrast'>): string =>
+  `brightness(${edits.brightness}%) contrast(${edits.contrast}%)`;
+
+/**
+ * Apply brightness and contrast to pixels in place, the way the CSS filters do;
+ * transparency is left untouched
+ * @param pixels - RGBA pixel data
+ * @param brightness - Percent, 100 leaves pixels unchanged
+ * @param contrast - Percent, 100 leaves pixels unchanged
+ */
+export const applyBrightnessContrast = (pixels: Uint8ClampedArray, brightness: number, contrast: number) => {
+  if (brightness === 100 && contrast === 100) return;
+
+  const b = brightness / 100;
+  const c = contrast / 100;
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels[i] = (pixels[i] * b - 128) * c + 128;
+    pixels[i + 1] = (pixels[i + 1] * b - 128) * c + 128;
+    pixels[i + 2] = (pixels[i + 2] * b - 128) * c + 128;
+  }
+};
+
+/**
+ * File type an edited image is saved as; GIFs become PNGs so they keep their transparency
+ * @param type - MIME type of the original image
+ * @returns MIME type of the edited image
+ */
+export const getEditedImageType = (type: string): string => (EXTENSIONS[type] ? type : 'image/png');
+
+/**
+ * Draw an image with its rotation and flips applied
+ * @param ctx - Canvas to draw into, already scaled and translated to the wanted crop
+ * @param img - Loaded image
+ * @param edits - Rotation and flips
+ */
+export const drawTransformedImage = (
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  edits: Pick<ImageEdits, 'rotation' | 'flipHorizontal' | 'flipVertical'>
+) => {
+  const size = getRotatedSize({ width: img.naturalWidth, height: img.naturalHeight }, edits.rotation);
+
+  ctx.save();
+  ctx.translate(size.width / 2, size.height / 2);
+  // Flips apply to the image as it's seen, i.e. after rotating
+  ctx.scale(edits.flipHorizontal ? -1 : 1, edits.flipVertical ? -1 : 1);
+  ctx.rotate((edits.rotation * Math.PI) / 180);
+  ctx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
+  ctx.restore();
+};
+
+/**
+ * Load an image file into an image element
+ * @param file - Image file
+ * @returns Loaded image
+ */
+export function loadImage(file: File | Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const src = URL.createObjectURL(file);
+
+    img.onload = () => {
+      URL.revokeObjectURL(src);
+      resolve(img);
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(src);
+      reject(new Error('Error loading image'));
+    };
+
+    img.src = src;
+  });
+}
+
+/**
+ * Apply edits to an image and crop it to an ad format around its focal point
+ * @param file - Original image
+ * @param edits - Rotation, flips, adjustments and focal point
+ * @param adFormat - Format to crop to; the result is no larger than the format's full size
+ * @param quality - JPEG and WebP quality
+ * @returns Edited image, ready to upload
+ */
+export async function renderEditedImage(
+  file: File,
+  edits: ImageEdits,
+  adFormat: AdFormat,
+  quality: number = 0.9
+): Promise<File> {
+  const img = await loadImage(file);
+  const spec = AD_FORMAT_SPECS[adFormat];
+  const crop = getFocalCrop(
+    getRotatedSize({ width: img.naturalWidth, height: img.naturalHeight }, edits.rotation),
+    spec.width / spec.height,
+    edits.focalPoint
+  );
+  // Scale down to the format's size, never up
+  const scale = Math.min(1, spec.width / crop.width);
+  const type = getEditedImageType(file.type);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(crop.width * scale));
+  canvas.height = Math.max(1, Math.round(crop.height * scale));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  if (OPAQUE_TYPES.includes(type)) {
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  ctx.scale(scale, scale);
+  ctx.translate(-crop.x, -crop.y);
+  drawTransformedImage(ctx, img, edits);
+
+  if (edits.brightness !== 100 || edits.contrast !== 100) {
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyBrightnessContrast(imageData.data, edits.brightness, edits.contrast);
+    ctx.putImageData(imageData, 0, 0);
+  }
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+  if (!blob) {
+    throw new Error('Failed to create blob from canvas');
+  }
+
+  const name = `${file.name.replace(/\.[^./]+$/, '') || 'image'}.${EXTENSIONS[type]}`;
+  return new File([blob], name, { type: blob.type || type });
+}
@@ -156,21 +156,28 @@ export function detectMaliciousSvg(svgContent: string): boolean {
 /**
  * Sanitizes filename for safe storage
  * @param {string} filename - Original filename
+ * @param {string} extension - Optional extension to use instead of an image one, e.g. 'mp4'
  * @returns {string} - Sanitized filename
  */
-export function sanitizeImageFilename(filename: string): string {
+export function sanitizeImageFilename(filename: string, extension?: string): string {
   if (typeof filename !== 'string') return 'image';
   
   // Replace directory traversal characters, quotes, and special characters
   const sanitized = filename
     .replace(/[\/\\]/g, '') // Remove path traversal
     .replace(/[<>:"|?*]/g, '') // Remove Windows reserved characters
+    .replace(/[\u0000-\u001F\u007F]/g, '') // Remove control characters
     .replace(/\.\./g, '') // Remove relative path indicators
     .trim();
   
   // If sanitization emptied the string, return a default
-  if (!sanitized) return 'image';
-  
+  if (!sanitized) return extension ? `image.${extension}` : 'image';
+
+  // Use the requested extension, keeping it if the name already ends with it
+  if (extension) {
+    return sanitized.toLowerCase().endsWith(`.${extension.toLowerCase()}`) ? sanitized : `${sanitized}.${extension}`;
+  }
+
   // Ensure file has an extension
   const hasExtension = /\.(jpe?g|png|gif|webp)$/i.test(sanitized);
   if (!hasExtension) return sanitized + '.png';
@@ -0,0 +1,49 @@
+import { hasPermission } from './security';
+
+/**
+ * Permissions checked by pages and components
+ */
+export const PERMISSIONS = {
+  CREATE_ADS: 'ads:create',
+  PREMIUM_TEMPLATES: 'templates:premium',
+  HD_EXPORT: 'exports:hd',
+  VIDEO_MUSIC: 'video:music',
+  VIDEO_VOICEOVER: 'video:voiceover',
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+export type SubscriptionTier = 'free' | 'pro';
+
+// Permissions granted by each subscription tier, on top of any in the token
+const TIER_PERMISSIONS: Record<SubscriptionTier, Permission[]> = {
+  free: [PERMISSIONS.CREATE_ADS],
+  pro: [
+    PERMISSIONS.CREATE_ADS,
+    PERMISSIONS.PREMIUM_TEMPLATES,
+    PERMISSIONS.HD_EXPORT,
+    PERMISSIONS.VIDEO_MUSIC,
+    PERMISSIONS.VIDEO_VOICEOVER,
+  ],
+};
+
+/**
+ * Get the permissions granted by a subscription tier
+ * @param tier - Subscription tier of the user
+ * @returns Permissions of the tier, or none for an unknown tier
+ */
+export const getTierPermissions = (tier?: string): Permission[] => {
+  return tier && tier in TIER_PERMISSIONS ? TIER_PERMISSIONS[tier as SubscriptionTier] : [];
+};
+
+/**
+ * Check whether a user may do something
+ * @param permission - Required permission
+ * @param tier - Subscription tier of the user
+ * @param token - Access token, which may carry extra permissions
+ * @returns True if the tier or the token grants the permission
+ */
+export const isPermitted = (permission: string, tier?: string, token?: string | null): boolean => {
+  if ((getTierPermissions(tier) as string[]).includes(permission)) return true;
+  return !!token && hasPermission(token, permission);
+};
@@ -0,0 +1,104 @@
+/**
+ * Placement variants: versions of an ad for the other ad formats
+ *
+ * Variants are generated again from the ad's uploaded image rather than
+ * cropped from the finished creative, so the title, call to action and logo
+ * are laid out for each format. They are ads of their own that point back at
+ * the ad they were made from through `parentAdId`, so they can be listed and
+ * downloaded together.
+ */
+import { ImageAdInput } from '../api/generation.service';
+import { AdData, AdFormat, AD_FORMAT_SPECS, AD_FORMATS } from '../types/ad';
+
+export interface AdPlacementGroup {
+  ad: AdData; // The ad the placements were made from
+  placements: AdData[]; // In AD_FORMATS order
+}
+
+/**
+ * Group placement variants under the ad they were made from
+ * @param ads - Ads in display order
+ * @returns One group per source ad, in the order of `ads`; variants whose source is missing stand alone
+ */
+export const groupAdPlacements = (ads: AdData[]): AdPlacementGroup[] => {
+  const ids = new Set(ads.map(ad => ad.id));
+  const placementsByParent = new Map<string, AdData[]>();
+
+  ads.forEach(ad => {
+    if (ad.parentAdId && ids.has(ad.parentAdId)) {
+      placementsByParent.set(ad.parentAdId, [...(placementsByParent.get(ad.parentAdId) || []), ad]);
+    }
+  });
+
+  return ads
+    .filter(ad => !ad.parentAdId || !ids.has(ad.parentAdId))
+    .map(ad => ({
+      ad,
+      placements: (placementsByParent.get(ad.id) || [])
+        .sort((a, b) => AD_FORMATS.indexOf(a.adFormat) - AD_FORMATS.indexOf(b.adFormat)),
+    }));
+};
+
+/**
+ * Find the group an ad belongs to, whether it's the source ad or one of its placements
+ * @param groups - Grouped ads
+ * @param id - Ad ID
+ * @returns The group, if the ad is in one
+ */
+export const findAdPlacementGroup = (groups: AdPlacementGroup[], id: string): AdPlacementGroup | undefined =>
+  groups.find(group => group.ad.id === id || group.placements.some(placement => placement.id === id));
+
+/**
+ * Formats an ad doesn't have a version for yet
+ * @param group - The ad and its placements
+ * @returns Missing formats in AD_FORMATS order
+ */
+export const getMissingPlacements = (group: AdPlacementGroup): AdFormat[] =>
+  AD_FORMATS.filter(format =>
+    format !== group.ad.adFormat && !group.placements.some(placement => placement.adFormat === format)
+  );
+
+/**
+ * Whether placements can be made from an ad; only finished single-image ads that kept their uploaded image can
+ * @param ad - Source ad
+ */
+export const canGeneratePlacements = (ad: AdData): boolean =>
+  ad.adType === 'image' &&
+  ad.status === 'ready' &&
+  ad.creativeFormat === 'single-image' &&
+  !ad.parentAdId &&
+  !!ad.sourceImageUrl;
+
+/**
+ * Generation input for a placement of an ad
+ * @param ad - Source ad, with its uploaded image
+ * @param adFormat - Format of the placement
+ * @returns Input generating the source ad's image, copy, styling and branding for the format, around its focal point
+ */
+export const toPlacementInput = (ad: AdData, adFormat: AdFormat): ImageAdInput => ({
+  imageUrls: ad.sourceImageUrl ? [ad.sourceImageUrl] : [],
+  adText: {
+    title: ad.title,
+    description: ad.description,
+    callToAction: ad.callToAction,
+    titlePosition: ad.titlePosition,
+  },
+  style: ad.adStyle,
+  adFormat,
+  creativeFormat: ad.creativeFormat,
+  logo: ad.logo,
+  brandColor: ad.primaryColor,
+  fonts: ad.fonts,
+  brandKitId: ad.brandKitId,
+  focalPoint: ad.focalPoint,
+  parentAdId: ad.id,
+});
+
+/**
+ * Title used to name an ad's file in a placements download, e.g. "Summer Sale - Story 9-16"
+ * @param ad - Source ad or placement
+ */
+export const getPlacementFileTitle = (ad: AdData): string => {
+  const spec = AD_FORMAT_SPECS[ad.adFormat];
+  return `${ad.title || `ad-${ad.id}`} - ${spec.name} ${spec.aspectRatio.replace(':', '-')}`;
+};
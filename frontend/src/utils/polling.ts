@@ -0,0 +1,26 @@
+/**
+ * Backoff for polling long-running jobs
+ */
+
+export interface PollingOptions {
+  initialInterval?: number; // in milliseconds
+  maxInterval?: number; // in milliseconds
+  backoffFactor?: number;
+}
+
+const DEFAULT_POLLING: Required<PollingOptions> = {
+  initialInterval: 2000,
+  maxInterval: 30000,
+  backoffFactor: 1.5,
+};
+
+/**
+ * Get the delay before the next poll
+ * @param unchangedPolls - Number of consecutive polls without progress
+ * @param options - Polling configuration
+ * @returns Delay in milliseconds, growing exponentially while the job stalls
+ */
+export const getPollingInterval = (unchangedPolls: number, options: PollingOptions = {}): number => {
+  const { initialInterval, maxInterval, backoffFactor } = { ...DEFAULT_POLLING, ...options };
+  return Math.min(initialInterval * Math.pow(backoffFactor, unchangedPolls), maxInterval);
+};
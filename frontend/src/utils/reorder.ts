@@ -0,0 +1,15 @@
+/**
+ * Move an item of a list to a new position
+ * @param items - Items in their current order
+ * @param from - Index of the item to move
+ * @param to - Index it should end up at
+ * @returns Reordered copy, or the same list when either index is out of range
+ */
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || from >= items.length || to < 0 || to >= items.length) return items;
+
+  const reordered = [...items];
+  const [item] = reordered.splice(from, 1);
+  reordered.splice(to, 0, item);
+  return reordered;
+};
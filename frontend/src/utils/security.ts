@@ -196,6 +196,23 @@ export const hasPermission = (token: string, requiredPermission: string): boolea
   }
 };
 
+/**
+ * Get a safe in-app path to return to after logging in
+ * @param returnTo - Value of the returnTo query parameter
+ * @param fallback - Path to use when returnTo is missing or unsafe
+ * @returns A relative path that cannot redirect to another origin
+ */
+export const getSafeReturnTo = (returnTo: unknown, fallback: string = '/dashboard'): string => {
+  if (typeof returnTo !== 'string') return fallback;
+  
+  // Only allow relative paths, not protocol-relative or absolute URLs
+  if (!returnTo.startsWith('/') || returnTo.startsWith('//') || returnTo.startsWith('/\\')) {
+    return fallback;
+  }
+  
+  return returnTo;
+};
+
 /**
  * Content Security Policy violation reporter
  */
@@ -0,0 +1,117 @@
+import { VoiceGender, VoiceStyle } from '../api/generation.service';
+import { formatFileSize, isValidImage, MAX_IMAGE_SIZE } from './image';
+
+// Seconds each image of a video is shown for
+export const DEFAULT_SCENE_DURATION = 3;
+export const MIN_SCENE_DURATION = 1;
+export const MAX_SCENE_DURATION = 10;
+
+export const MAX_VIDEO_SCENES = 10;
+
+// Average speaking pace of the generated voices
+const WORDS_PER_SECOND = 2.5;
+
+export const VOICE_GENDERS: Array<{ value: VoiceGender; label: string }> = [
+  { value: 'female', label: 'Female' },
+  { value: 'male', label: 'Male' },
+];
+
+export const VOICE_STYLES: Array<{ value: VoiceStyle; label: string }> = [
+  { value: 'friendly', label: 'Friendly' },
+  { value: 'professional', label: 'Professional' },
+  { value: 'energetic', label: 'Energetic' },
+];
+
+export interface VideoScene {
+  id: string; // Local key, stable while scenes are reordered
+  file: File;
+  previewUrl: string;
+  duration: number; // in seconds
+}
+
+export interface SceneValidationResult {
+  isValid: boolean;
+  error?: string;
+}
+
+let nextSceneId = 0;
+
+/**
+ * Create a scene showing an image for the default duration
+ * @param file - Image file
+ * @returns New scene with a preview URL, which must be revoked when the scene is removed
+ */
+export const createVideoScene = (file: File): VideoScene => ({
+  id: `scene-${Date.now()}-${nextSceneId++}`,
+  file,
+  previewUrl: URL.createObjectURL(file),
+  duration: DEFAULT_SCENE_DURATION,
+});
+
+/**
+ * Keep a scene duration within the allowed range, in whole seconds
+ * @param duration - Requested duration in seconds
+ * @returns Duration to use
+ */
+export const clampSceneDuration = (duration: number): number => {
+  if (!Number.isFinite(duration)) return DEFAULT_SCENE_DURATION;
+  return Math.min(MAX_SCENE_DURATION, Math.max(MIN_SCENE_DURATION, Math.round(duration)));
+};
+
+/**
+ * Total length of a video
+ * @param scenes - Scenes of the video
+ * @returns Length in seconds
+ */
+export const getVideoDuration = (scenes: Pick<VideoScene, 'duration'>[]): number =>
+  scenes.reduce((total, scene) => total + scene.duration, 0);
+
+/**
+ * Count the words of a script
+ * @param text - Script text
+ * @returns Number of words
+ */
+export const countWords = (text: string): number => {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+};
+
+/**
+ * Most words a voiceover can read out in a video
+ * @param duration - Length of the video in seconds
+ * @returns Word limit
+ */
+export const getScriptWordLimit = (duration: number): number => Math.floor(duration * WORDS_PER_SECOND);
+
+/**
+ * Validate the scenes of a video built from images
+ * @param scenes - Scenes in play order
+ * @returns Whether the scenes can be used, with the first problem found
+ */
+export const validateVideoScenes = (scenes: VideoScene[]): SceneValidationResult => {
+  let error: string | undefined;
+
+  if (scenes.length === 0) {
+    error = 'Add at least one image';
+  } else if (scenes.length > MAX_VIDEO_SCENES) {
+    error = `A video can have at most ${MAX_VIDEO_SCENES} images`;
+  } else if (scenes.some(scene => !isValidImage(scene.file))) {
+    error = `Use JPEG, PNG, GIF or WebP images under ${formatFileSize(MAX_IMAGE_SIZE, 0)}`;
+  }
+
+  return { isValid: !error, error };
+};
+
+/**
+ * Get the URL of a finished video from its generation job result
+ * @param result - Result of a completed generation job
+ * @returns Video URL, or null when the result has none
+ */
+export const getGeneratedVideoUrl = (result: unknown): string | null => {
+  if (!result || typeof result !== 'object') return null;
+
+  const { videoUrl, url } = result as { videoUrl?: unknown; url?: unknown };
+  if (typeof videoUrl === 'string') return videoUrl;
+  if (typeof url === 'string') return url;
+  return null;
+};
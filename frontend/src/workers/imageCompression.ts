@@ -0,0 +1,89 @@
+/**
+ * Runs image compression in a Web Worker, falling back to the main thread in
+ * browsers that can't draw on a canvas inside workers
+ */
+import {
+  compressImageFile,
+  CompressionOptions,
+  CompressionResponse,
+  CompressionResult,
+} from '../utils/compression';
+
+type PendingRequest = {
+  resolve: (result: CompressionResult) => void;
+  reject: (error: Error) => void;
+};
+
+let worker: Worker | null = null;
+let isWorkerBroken = false;
+let nextRequestId = 0;
+const pending = new Map<number, PendingRequest>();
+
+const getWorker = (): Worker | null => {
+  if (isWorkerBroken || typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    return null;
+  }
+
+  if (!worker) {
+    try {
+      worker = new Worker(new URL('./imageCompression.worker.ts', import.meta.url));
+    } catch (error) {
+      console.error('Error starting image compression worker:', error);
+      isWorkerBroken = true;
+      return null;
+    }
+
+    worker.onmessage = ({ data }: MessageEvent<CompressionResponse>) => {
+      const request = pending.get(data.id);
+      if (!request) return;
+
+      pending.delete(data.id);
+      if ('error' in data) {
+        request.reject(new Error(data.error));
+      } else {
+        request.resolve(data.result);
+      }
+    };
+
+    // The worker itself failed, e.g. it couldn't load; finish what it was doing here instead
+    worker.onerror = (event) => {
+      console.error('Image compression worker failed:', event.message);
+      event.preventDefault();
+      isWorkerBroken = true;
+      worker?.terminate();
+      worker = null;
+
+      pending.forEach(request => request.reject(new Error('Image compression worker failed')));
+      pending.clear();
+    };
+  }
+
+  return worker;
+};
+
+/**
+ * Compress an image towards a size budget without blocking the page
+ * @param {File} file - Image to compress
+ * @param {Partial<CompressionOptions>} options - Overrides of DEFAULT_COMPRESSION_OPTIONS
+ * @returns {Promise<CompressionResult>} - Compressed image with its sizes before and after
+ */
+export async function compressImage(
+  file: File,
+  options: Partial<CompressionOptions> = {}
+): Promise<CompressionResult> {
+  const compressionWorker = getWorker();
+  if (!compressionWorker) {
+    return compressImageFile(file, options);
+  }
+
+  const id = nextRequestId++;
+  try {
+    return await new Promise<CompressionResult>((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      compressionWorker.postMessage({ id, file, options });
+    });
+  } catch (error) {
+    if (!isWorkerBroken) throw error;
+    return compressImageFile(file, options);
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Compresses images off the main thread so large uploads don't freeze the page
+ */
+import { compressImageFile, CompressionRequest, CompressionResponse } from '../utils/compression';
+
+const worker = self as unknown as {
+  onmessage: ((event: MessageEvent<CompressionRequest>) => void) | null;
+  postMessage: (message: CompressionResponse) => void;
+};
+
+worker.onmessage = async ({ data }) => {
+  try {
+    worker.postMessage({ id: data.id, result: await compressImageFile(data.file, data.options) });
+  } catch (error) {
+    worker.postMessage({
+      id: data.id,
+      error: error instanceof Error ? error.message : 'Image compression failed',
+    });
+  }
+};